@@ -78,8 +78,9 @@ class BloFinPriceFeedAdapter implements PriceFeedAdapter {
     timeframe: string;
     since?: number;
     limit?: number;
+    until?: number;
   }): Promise<OHLCVCandle[]> {
-    const { symbol, timeframe, since, limit } = params;
+    const { symbol, timeframe, since, limit, until } = params;
 
     try {
       // Convert AFI canonical symbol to BloFin format using centralized registry
@@ -96,7 +97,8 @@ class BloFinPriceFeedAdapter implements PriceFeedAdapter {
         blofinSymbol,
         timeframe,
         since,
-        limit
+        limit,
+        until === undefined ? {} : { until }
       );
 
       // Transform ccxt format to our OHLCVCandle type.
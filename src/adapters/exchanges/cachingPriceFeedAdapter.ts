@@ -0,0 +1,258 @@
+/**
+ * Caching Price Feed Adapter
+ *
+ * A PriceFeedAdapter decorator that keeps the latest candle window per
+ * symbol/timeframe so repeated scoring of the same series fetches only the
+ * TAIL since the last cached candle instead of the whole window:
+ *
+ *   - in-memory LRU of series (Map insertion order = recency)
+ *   - optional persistent CandleCacheStore (e.g. createFileCandleCacheStore)
+ *     consulted on a memory miss, so a restart resumes warm
+ *   - concurrent requests for the same series/limit share ONE upstream fetch
+ *
+ * Closed candles are treated as immutable: the tail fetch starts AT the last
+ * cached candle (`since` = its timestamp), so the forming bar is always
+ * re-read and replaced in place. When the tail is as long as the requested
+ * limit the gap cannot be proven closed, and the window is fetched in full
+ * and replaces the cache outright.
+ *
+ * Requests carrying an explicit `since` or `until` (historical ranges) or no
+ * `limit` are passed straight through: only "latest N candles" windows are cached.
+ *
+ * How a window was served is recorded against the RETURNED array and read back
+ * with candleCacheReportOf() — the candle bytes themselves are never annotated,
+ * so cached and uncached feeds produce identical lane outputs.
+ *
+ * @module cachingPriceFeedAdapter
+ */
+
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { OHLCVCandle, PriceFeedAdapter, TickerSnapshot } from "./types.js";
+
+/** How one getOHLCV() window was served (operational only, never hashed). */
+export interface CandleCacheReport {
+  /** "hit": served from the cached window plus a tail fetch; "miss": full fetch. */
+  status: "hit" | "miss";
+  /** Candles the upstream feed returned for this request. */
+  fetchedCandles: number;
+  /** True when this request joined another caller's in-flight fetch. */
+  shared: boolean;
+}
+
+/**
+ * Persistent candle store port. Implementations must tolerate concurrent
+ * saves for different keys; a failed load/save degrades to memory-only.
+ */
+export interface CandleCacheStore {
+  load(key: string): Promise<OHLCVCandle[] | undefined>;
+  save(key: string, candles: OHLCVCandle[]): Promise<void>;
+}
+
+export interface CachingPriceFeedOptions {
+  /** Max series kept in memory (default 256). */
+  maxSeries?: number;
+  /** Max candles retained per series (default 1000). */
+  maxCandlesPerSeries?: number;
+  /** Optional persistent store behind the in-memory LRU. */
+  store?: CandleCacheStore;
+}
+
+const reports = new WeakMap<object, CandleCacheReport>();
+
+/**
+ * The cache report for a candle array returned by a caching adapter (or one
+ * tagged with tagCandleCacheReport); undefined for an uncached feed.
+ */
+export function candleCacheReportOf(candles: object): CandleCacheReport | undefined {
+  return reports.get(candles);
+}
+
+/** Carry a report over to a derived array (e.g. the AfiCandle projection). */
+export function tagCandleCacheReport(candles: object, report: CandleCacheReport | undefined): void {
+  if (report) reports.set(candles, report);
+}
+
+interface FetchResult {
+  candles: OHLCVCandle[];
+  status: CandleCacheReport["status"];
+  fetchedCandles: number;
+}
+
+export class CachingPriceFeedAdapter implements PriceFeedAdapter {
+  public readonly id: string;
+  public readonly name: string;
+  public readonly supportsPerps: boolean;
+  public readonly supportsSpot: boolean;
+
+  private readonly series = new Map<string, OHLCVCandle[]>();
+  private readonly inflight = new Map<string, Promise<FetchResult>>();
+  private readonly maxSeries: number;
+  private readonly maxCandlesPerSeries: number;
+  private readonly store?: CandleCacheStore;
+  private readonly stats = { hits: 0, misses: 0, shared: 0, passthrough: 0, storeErrors: 0 };
+
+  constructor(private readonly inner: PriceFeedAdapter, options: CachingPriceFeedOptions = {}) {
+    this.id = inner.id;
+    this.name = inner.name;
+    this.supportsPerps = inner.supportsPerps;
+    this.supportsSpot = inner.supportsSpot;
+    this.maxSeries = Math.max(1, options.maxSeries ?? 256);
+    this.maxCandlesPerSeries = Math.max(1, options.maxCandlesPerSeries ?? 1000);
+    this.store = options.store;
+  }
+
+  async getOHLCV(params: {
+    symbol: string;
+    timeframe: string;
+    since?: number;
+    limit?: number;
+    until?: number;
+  }): Promise<OHLCVCandle[]> {
+    const { symbol, timeframe, since, limit, until } = params;
+    if (since !== undefined || until !== undefined || limit === undefined || limit > this.maxCandlesPerSeries) {
+      this.stats.passthrough += 1;
+      return this.inner.getOHLCV(params);
+    }
+
+    const key = `${symbol}|${timeframe}`;
+    const flightKey = `${key}|${limit}`;
+    let shared = true;
+    let pending = this.inflight.get(flightKey);
+    if (!pending) {
+      shared = false;
+      pending = this.fetchWindow(key, symbol, timeframe, limit).finally(() => {
+        this.inflight.delete(flightKey);
+      });
+      this.inflight.set(flightKey, pending);
+    }
+    const result = await pending;
+
+    if (shared) this.stats.shared += 1;
+    else if (result.status === "hit") this.stats.hits += 1;
+    else this.stats.misses += 1;
+
+    // Every caller gets its own array: callers may not mutate the cache.
+    const candles = result.candles.slice(-limit);
+    reports.set(candles, { status: result.status, fetchedCandles: result.fetchedCandles, shared });
+    return candles;
+  }
+
+  getTicker(symbol: string): Promise<TickerSnapshot> {
+    return this.inner.getTicker(symbol);
+  }
+
+  private async fetchWindow(
+    key: string,
+    symbol: string,
+    timeframe: string,
+    limit: number
+  ): Promise<FetchResult> {
+    const cached = this.series.get(key) ?? (await this.loadFromStore(key));
+    let tailFetched = 0;
+
+    if (cached && cached.length >= limit) {
+      const last = cached[cached.length - 1];
+      const tail = await this.inner.getOHLCV({ symbol, timeframe, since: last.timestamp, limit });
+      tailFetched = tail.length;
+      if (tail.length === 0) {
+        this.remember(key, cached, false);
+        return { candles: cached, status: "hit", fetchedCandles: 0 };
+      }
+      if (tail.length < limit && tail[0].timestamp <= last.timestamp) {
+        const firstNew = tail[0].timestamp;
+        const merged = cached.filter((c) => c.timestamp < firstNew).concat(tail);
+        this.remember(key, merged, true);
+        return { candles: merged, status: "hit", fetchedCandles: tail.length };
+      }
+      // The tail filled the whole window (more may lie beyond it) or skipped
+      // past the cached bar: continuity is unproven — fall through to a full
+      // fetch of the latest window.
+    }
+
+    const window = await this.inner.getOHLCV({ symbol, timeframe, limit });
+    this.remember(key, window, true);
+    return { candles: window, status: "miss", fetchedCandles: tailFetched + window.length };
+  }
+
+  private remember(key: string, candles: OHLCVCandle[], persist: boolean): void {
+    const retained = candles.slice(-this.maxCandlesPerSeries);
+    // Re-insert so Map order tracks recency; evict the least recently used.
+    this.series.delete(key);
+    this.series.set(key, retained);
+    if (this.series.size > this.maxSeries) {
+      const oldestKey = this.series.keys().next().value;
+      if (oldestKey !== undefined) this.series.delete(oldestKey);
+    }
+    if (persist && this.store) {
+      this.store.save(key, retained).catch(() => {
+        this.stats.storeErrors += 1;
+      });
+    }
+  }
+
+  private async loadFromStore(key: string): Promise<OHLCVCandle[] | undefined> {
+    if (!this.store) return undefined;
+    try {
+      const loaded = await this.store.load(key);
+      return loaded && loaded.length > 0 ? loaded : undefined;
+    } catch {
+      this.stats.storeErrors += 1;
+      return undefined;
+    }
+  }
+
+  /** Cache stats for monitoring. */
+  getStats() {
+    return { size: this.series.size, maxSeries: this.maxSeries, ...this.stats };
+  }
+
+  /** Drop every in-memory series (for testing/shutdown); the store is untouched. */
+  clear(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * JSON-file CandleCacheStore: one file per series under `dir`, named by a hash
+ * of the key (symbols carry '/' and ':'). Writes go to a temp file and are
+ * renamed into place, so a crash never leaves a torn series behind.
+ */
+export function createFileCandleCacheStore(dir: string): CandleCacheStore {
+  const fileFor = (key: string) =>
+    path.join(dir, `${createHash("sha256").update(key).digest("hex").slice(0, 32)}.json`);
+
+  return {
+    async load(key) {
+      let text: string;
+      try {
+        text = await fs.readFile(fileFor(key), "utf-8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+        throw error;
+      }
+      const parsed = JSON.parse(text) as { key?: unknown; candles?: unknown };
+      // A hash collision or a foreign file is a miss, never another series' data.
+      if (parsed.key !== key || !Array.isArray(parsed.candles)) return undefined;
+      return parsed.candles as OHLCVCandle[];
+    },
+    async save(key, candles) {
+      await fs.mkdir(dir, { recursive: true });
+      const file = fileFor(key);
+      const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify({ key, candles }), "utf-8");
+      await fs.rename(tmp, file);
+    },
+  };
+}
+
+/**
+ * Wrap `adapter` from the environment: AFI_CANDLE_CACHE=off disables caching;
+ * AFI_CANDLE_CACHE_DIR adds the file store behind the in-memory LRU.
+ */
+export function withCandleCacheFromEnv(adapter: PriceFeedAdapter): PriceFeedAdapter {
+  if ((process.env.AFI_CANDLE_CACHE ?? "").toLowerCase() === "off") return adapter;
+  const dir = process.env.AFI_CANDLE_CACHE_DIR?.trim();
+  return new CachingPriceFeedAdapter(adapter, dir ? { store: createFileCandleCacheStore(dir) } : {});
+}
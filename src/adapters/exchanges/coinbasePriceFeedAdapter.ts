@@ -67,8 +67,9 @@ class CoinbasePriceFeedAdapter implements PriceFeedAdapter {
     timeframe: string;
     since?: number;
     limit?: number;
+    until?: number;
   }): Promise<OHLCVCandle[]> {
-    const { symbol, timeframe, since, limit } = params;
+    const { symbol, timeframe, since, limit, until } = params;
 
     try {
       // Convert AFI canonical symbol to Coinbase format using centralized registry
@@ -87,7 +88,8 @@ class CoinbasePriceFeedAdapter implements PriceFeedAdapter {
         coinbaseSymbol,
         timeframe,
         since,
-        limit
+        limit,
+        until === undefined ? {} : { until }
       );
 
       // Transform ccxt format to our OHLCVCandle type.
@@ -0,0 +1,85 @@
+/**
+ * Frozen Price Feed Adapter
+ *
+ * A PriceFeedAdapter over ONE fixed historical candle series, with a movable
+ * "as of" instant: only candles that had CLOSED by that instant are visible.
+ * The backtest engine (src/analytics/backtest.ts) moves the instant bar by bar
+ * and scores through the unchanged technical lane, so every score sees exactly
+ * the window a live request at that moment would have fetched — never a
+ * future candle.
+ *
+ * A request for any other symbol or timeframe fails loudly instead of serving
+ * the wrong series.
+ *
+ * @module frozenPriceFeedAdapter
+ */
+
+import type { OHLCVCandle, PriceFeedAdapter, TickerSnapshot } from "./types.js";
+
+export interface FrozenPriceFeedOptions {
+  symbol: string;
+  timeframe: string;
+  /** Duration of one candle of the series, in ms. */
+  candleMs: number;
+  candles: ReadonlyArray<OHLCVCandle>;
+  /** Price source id reported by the technical lane (default "backtest"). */
+  id?: string;
+}
+
+export class FrozenPriceFeedAdapter implements PriceFeedAdapter {
+  public readonly id: string;
+  public readonly name = "Frozen historical series";
+  public readonly supportsPerps = true;
+  public readonly supportsSpot = true;
+
+  private readonly candles: OHLCVCandle[];
+  private asOfMs = Number.POSITIVE_INFINITY;
+
+  constructor(private readonly options: FrozenPriceFeedOptions) {
+    if (!Number.isFinite(options.candleMs) || options.candleMs <= 0) {
+      throw new Error(`frozen price feed: candleMs must be positive (got ${options.candleMs})`);
+    }
+    this.id = options.id ?? "backtest";
+    this.candles = [...options.candles].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /** Serve only candles closed at or before `asOfMs` from now on. */
+  freezeAt(asOfMs: number): void {
+    this.asOfMs = asOfMs;
+  }
+
+  private visible(): OHLCVCandle[] {
+    const { candleMs } = this.options;
+    return this.candles.filter((c) => c.timestamp + candleMs <= this.asOfMs);
+  }
+
+  async getOHLCV(params: {
+    symbol: string;
+    timeframe: string;
+    since?: number;
+    limit?: number;
+    until?: number;
+  }): Promise<OHLCVCandle[]> {
+    const { symbol, timeframe, since, limit, until } = params;
+    if (symbol !== this.options.symbol || timeframe !== this.options.timeframe) {
+      throw new Error(
+        `frozen price feed holds ${this.options.symbol} ${this.options.timeframe} only (asked for ${symbol} ${timeframe})`
+      );
+    }
+    const visible = this.visible().filter((c) => until === undefined || c.timestamp <= until);
+    const window =
+      since === undefined
+        ? visible.slice(-(limit ?? visible.length))
+        : visible.filter((c) => c.timestamp >= since).slice(0, limit ?? visible.length);
+    // Every caller gets its own candles: the series itself stays frozen.
+    return window.map((c) => ({ ...c }));
+  }
+
+  async getTicker(symbol: string): Promise<TickerSnapshot> {
+    const last = this.visible().at(-1);
+    if (symbol !== this.options.symbol || !last) {
+      throw new Error(`frozen price feed has no ${symbol} candle closed by ${new Date(this.asOfMs).toISOString()}`);
+    }
+    return { symbol, last: last.close, timestamp: last.timestamp + this.options.candleMs };
+  }
+}
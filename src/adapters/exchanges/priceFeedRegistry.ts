@@ -12,16 +12,20 @@
 import type { PriceFeedAdapter, PriceSourceId } from "./types.js";
 import { blofinPriceFeedAdapter } from "./blofinPriceFeedAdapter.js";
 import { coinbasePriceFeedAdapter } from "./coinbasePriceFeedAdapter.js";
+import { withCandleCacheFromEnv } from "./cachingPriceFeedAdapter.js";
+import { withinSharedCandleScope } from "./sharedCandleFetches.js";
 
 /**
  * Price Feed Adapter Registry
  *
  * Maps price source IDs to adapter instances. Production registers REAL
  * exchange sources only — there is no synthetic feed in the runtime.
+ * Each sits behind the candle cache (AFI_CANDLE_CACHE / AFI_CANDLE_CACHE_DIR);
+ * test-registered adapters are served as-is.
  */
 const PRICE_FEED_ADAPTERS: Record<string, PriceFeedAdapter> = {
-  blofin: blofinPriceFeedAdapter,
-  coinbase: coinbasePriceFeedAdapter,
+  blofin: withCandleCacheFromEnv(blofinPriceFeedAdapter),
+  coinbase: withCandleCacheFromEnv(coinbasePriceFeedAdapter),
 };
 
 /**
@@ -48,7 +52,9 @@ export function registerPriceFeedAdapterForTests(
 /**
  * Get Price Feed Adapter
  * 
- * Returns the appropriate price feed adapter for the given source ID.
+ * Returns the appropriate price feed adapter for the given source ID —
+ * inside a shared-candle scope (withSharedCandleFetches, e.g. a scoring
+ * batch) a view of it that fetches each candle window once per scope.
  * 
  * @param source - Price source ID (e.g., "blofin", "coinbase")
  * @returns Price feed adapter instance
@@ -64,7 +70,7 @@ export function getPriceFeedAdapter(source: PriceSourceId): PriceFeedAdapter {
     );
   }
   
-  return adapter;
+  return withinSharedCandleScope(adapter);
 }
 
 /**
@@ -0,0 +1,110 @@
+/**
+ * Shared Candle Fetches
+ *
+ * A scope inside which every price-feed read of the same window (source,
+ * symbol, timeframe, limit, since, until) is fetched ONCE and shared by all
+ * callers — the batch scoring endpoint runs a whole batch inside one scope,
+ * so a hundred signals on BTC/USDT 1h cost one candle fetch, not a hundred.
+ *
+ * The scope rides AsyncLocalStorage: getPriceFeedAdapter() wraps the adapter
+ * it returns while a scope is active, so the technical lane (and anything
+ * else reading candles through the registry) shares fetches without any
+ * parameter threading through the graph executor. Outside a scope the
+ * registry serves adapters unchanged.
+ *
+ * Sharing is strictly per scope and per exact window: a rejected fetch is
+ * forgotten (a later caller retries), every caller gets its own array, and
+ * joiners carry a CandleCacheReport with `shared: true` — the candle bytes
+ * themselves are never annotated, so shared and unshared feeds produce
+ * identical lane outputs.
+ *
+ * @module sharedCandleFetches
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { candleCacheReportOf, tagCandleCacheReport } from "./cachingPriceFeedAdapter.js";
+import type { OHLCVCandle, PriceFeedAdapter, TickerSnapshot } from "./types.js";
+
+type CandleWindowParams = Parameters<PriceFeedAdapter["getOHLCV"]>[0];
+
+interface SharedCandleScope {
+  fetches: Map<string, Promise<OHLCVCandle[]>>;
+  stats: { fetched: number; shared: number };
+}
+
+const scopes = new AsyncLocalStorage<SharedCandleScope>();
+
+/** Candle-sharing stats of one scope (operational only). */
+export interface SharedCandleFetchStats {
+  /** Distinct windows fetched upstream. */
+  fetched: number;
+  /** Reads served by joining an already-started fetch. */
+  shared: number;
+}
+
+/**
+ * Run `work` inside a fresh shared-candle scope; resolves with its result and
+ * the scope's sharing stats.
+ */
+export async function withSharedCandleFetches<T>(
+  work: () => Promise<T>
+): Promise<{ result: T; candleFetches: SharedCandleFetchStats }> {
+  const scope: SharedCandleScope = { fetches: new Map(), stats: { fetched: 0, shared: 0 } };
+  const result = await scopes.run(scope, work);
+  return { result, candleFetches: { ...scope.stats } };
+}
+
+class SharedCandleFetchAdapter implements PriceFeedAdapter {
+  public readonly id: string;
+  public readonly name: string;
+  public readonly supportsPerps: boolean;
+  public readonly supportsSpot: boolean;
+
+  constructor(
+    private readonly inner: PriceFeedAdapter,
+    private readonly scope: SharedCandleScope
+  ) {
+    this.id = inner.id;
+    this.name = inner.name;
+    this.supportsPerps = inner.supportsPerps;
+    this.supportsSpot = inner.supportsSpot;
+  }
+
+  async getOHLCV(params: CandleWindowParams): Promise<OHLCVCandle[]> {
+    const key = [this.inner.id, params.symbol, params.timeframe, params.limit, params.since, params.until].join("|");
+    let pending = this.scope.fetches.get(key);
+    const shared = pending !== undefined;
+    if (!pending) {
+      pending = this.inner.getOHLCV(params);
+      this.scope.fetches.set(key, pending);
+      this.scope.stats.fetched += 1;
+      pending.catch(() => {
+        if (this.scope.fetches.get(key) === pending) this.scope.fetches.delete(key);
+      });
+    } else {
+      this.scope.stats.shared += 1;
+    }
+    const fetched = await pending;
+    if (!shared) return fetched;
+
+    // Every joiner gets its own array (callers may not mutate a shared window).
+    const candles = fetched.slice();
+    const report = candleCacheReportOf(fetched);
+    tagCandleCacheReport(candles, {
+      status: report?.status ?? "miss",
+      fetchedCandles: report?.fetchedCandles ?? fetched.length,
+      shared: true,
+    });
+    return candles;
+  }
+
+  getTicker(symbol: string): Promise<TickerSnapshot> {
+    return this.inner.getTicker(symbol);
+  }
+}
+
+/** `adapter` itself outside a scope; a fetch-sharing view of it inside one. */
+export function withinSharedCandleScope(adapter: PriceFeedAdapter): PriceFeedAdapter {
+  const scope = scopes.getStore();
+  return scope ? new SharedCandleFetchAdapter(adapter, scope) : adapter;
+}
@@ -91,6 +91,7 @@ export interface PriceFeedAdapter {
     timeframe: string;      // e.g., "1m", "5m", "1h", "1d"
     since?: number;         // ms since epoch (optional)
     limit?: number;         // max number of candles (optional)
+    until?: number;         // ms since epoch, last candle open to include (optional)
   }): Promise<OHLCVCandle[]>;
   
   /**
@@ -0,0 +1,403 @@
+/**
+ * OPERATIONAL backtest — evaluate a registered strategy over historical
+ * candles instead of waiting for live webhooks and the outcome tracker.
+ *
+ * For one symbol/timeframe series:
+ *   1. signals are synthesized at every bar close after the warm-up (or taken
+ *      from a CSV of historical alerts — parseBacktestAlertsCsv);
+ *   2. each is scored by the SAME scoring service as live
+ *      (scoreRegisteredStrategyFromCanonicalUss) over a composition whose
+ *      technical lane reads a FrozenPriceFeedAdapter frozen at the signal
+ *      instant — the lane sees exactly the candles that had closed by then;
+ *   3. outcomes are measured under the outcome tracker's horizon law
+ *      (resolveHorizonPlan over the scored decay stamp, selectWindow,
+ *      excursions from ./horizonLaw.ts), and aggregated per horizon.
+ *
+ * LANES: only the price series is historical. Every other lane (pattern,
+ * sentiment, news, aiMl) is OFFLINE by default — its adapter fails and the
+ * manifest's failure policy applies exactly as for a live provider outage —
+ * because today's headlines or funding rates scored against a 2024 bar would
+ * be look-ahead. `liveLanes: true` calls them live anyway (operator's choice).
+ *
+ * PLANE RULES: non-normative like the analytics store. A backtest writes
+ * nothing and seals nothing; its scores are not evidence.
+ */
+import {
+  createCompositionExecutor,
+  getRuntimeComposition,
+  type RuntimeComposition,
+} from "../config/runtimeComposition.js";
+import { FrozenPriceFeedAdapter } from "../adapters/exchanges/frozenPriceFeedAdapter.js";
+import type { OHLCVCandle } from "../adapters/exchanges/types.js";
+import { computeTechnicalEnrichment } from "../enrichment/technicalIndicators.js";
+import { IndicatorStreamRegistry } from "../indicator/indicatorStreamRegistry.js";
+import { SILENT_NODE_LOGGER, type NodeLogger } from "../pipeline/nodeSdk.js";
+import { bundleAdapters, bundleNodes } from "../pipeline/pluginBundles.js";
+import { builtinPluginRegistry, type PluginRegistry } from "../pipeline/pluginRegistry.js";
+import { parseTimeframeMinutes, type ResolvedStrategy } from "../pipeline/registryLoader.js";
+import {
+  builtinProviderAdapters,
+  createAdapterRegistry,
+  createCategoryOutputValidator,
+  createTechnicalLocalAdapter,
+  NoCredentialsResolver,
+  ProviderRuntime,
+  secretResolverFromEnv,
+  type ProviderAdapter,
+} from "../providers/index.js";
+import { createReferenceSecretResolver } from "../providers/referenceSecretBackend.js";
+import { scoreRegisteredStrategyFromCanonicalUss } from "../services/graphScoringService.js";
+import type { CanonicalUss } from "../types/canonicalUss.js";
+import type { ReactorScoredSignalV1 } from "../types/ReactorScoredSignalV1.js";
+import { excursions, resolveHorizonPlan, selectWindow } from "./horizonLaw.js";
+
+export type BacktestDirection = "long" | "short" | "neutral";
+
+/** One historical alert: when it fired (ms) and which way. */
+export interface BacktestAlert {
+  at: number;
+  direction: BacktestDirection;
+  signalId?: string;
+}
+
+export interface BacktestOptions {
+  resolved: ResolvedStrategy;
+  symbol: string;
+  timeframe: string;
+  /** USS market fact (default "perp"). */
+  market?: "perp" | "spot";
+  /** The strategy-timeframe series the technical lane reads. */
+  candles: ReadonlyArray<OHLCVCandle>;
+  /** Finer series for outcome windows, with its timeframe (default: `candles`). */
+  outcomeCandles?: ReadonlyArray<OHLCVCandle>;
+  outcomeTimeframe?: string;
+  /** Historical alerts; absent → one signal per bar close after the warm-up. */
+  alerts?: ReadonlyArray<BacktestAlert>;
+  /** Direction of synthesized per-bar signals (default "long"). */
+  direction?: BacktestDirection;
+  /** Bars skipped before the first synthesized signal (default 50). */
+  warmupBars?: number;
+  /** Operator horizon override in minutes (outcome tracker --horizons). */
+  horizonMinutes?: number[];
+  /** Call the non-price lanes live instead of failing them (look-ahead!). */
+  liveLanes?: boolean;
+  /** Base composition (default: the boot-validated runtime composition). */
+  composition?: RuntimeComposition;
+  /**
+   * Plugin binding over the backtest provider runtime (default
+   * builtinPluginRegistry plus the base composition's bundle nodes).
+   */
+  pluginRegistryFor?: (providerRuntime: ProviderRuntime) => PluginRegistry;
+  logger?: NodeLogger;
+}
+
+/** One horizon outcome — the signal_outcomes row shape, minus persistence fields. */
+export interface BacktestOutcome {
+  horizon: string;
+  horizonBasis: string;
+  minutes: number;
+  fractionOfHalfLife?: number;
+  entryPrice: number;
+  exitPrice: number;
+  returnPct: number;
+  signedReturnPct: number | null;
+  mfePct: number;
+  maePct: number;
+  mfeAtMinutes: number;
+  maeAtMinutes: number;
+}
+
+export interface BacktestSignalResult {
+  signalId: string;
+  at: string;
+  direction: BacktestDirection;
+  status: "scored" | "failed";
+  error?: string;
+  analystScore?: unknown;
+  outcomes: BacktestOutcome[];
+  /** Horizons whose window runs past the end of the outcome series. */
+  pendingHorizons: string[];
+}
+
+export interface BacktestHorizonStats {
+  horizon: string;
+  samples: number;
+  /** Share of directional samples with a positive signed return (null: none). */
+  winRate: number | null;
+  meanReturnPct: number;
+  meanSignedReturnPct: number | null;
+  medianSignedReturnPct: number | null;
+  meanMfePct: number;
+  meanMaePct: number;
+}
+
+export interface BacktestReport {
+  schema: "afi.backtest-report.v0";
+  strategy: { analystId: string; strategyId: string; strategyVersion: string };
+  symbol: string;
+  timeframe: string;
+  from: string | null;
+  to: string | null;
+  signals: number;
+  scored: number;
+  failed: number;
+  horizons: BacktestHorizonStats[];
+  results: BacktestSignalResult[];
+}
+
+/** A lane with no historical data: fails, so the manifest's failure policy applies. */
+function offlineLane(adapter: ProviderAdapter): ProviderAdapter {
+  return {
+    ...adapter,
+    async run() {
+      throw new Error(`backtest: no historical data for the '${adapter.category}' lane (offline)`);
+    },
+  };
+}
+
+/**
+ * The base composition with its provider runtime rebuilt for the backtest:
+ * the technical lane over the frozen feed, every other lane offline (or live
+ * under `liveLanes`). Records, registries, strategies and admitted plugin
+ * bundles (their adapters and nodes, re-bound here) are the base's.
+ */
+function backtestComposition(
+  base: RuntimeComposition,
+  feed: FrozenPriceFeedAdapter,
+  options: BacktestOptions
+): RuntimeComposition {
+  const historicalTechnical = createTechnicalLocalAdapter({
+    resolvePriceSource: () => feed.id,
+    getAdapter: () => feed,
+    computeTechnical: computeTechnicalEnrichment,
+    indicatorStreams: new IndicatorStreamRegistry(),
+  });
+  const adapters = [...builtinProviderAdapters(), ...bundleAdapters(base.pluginBundles)].map((adapter) => {
+    if (adapter.adapterId === historicalTechnical.adapterId) return historicalTechnical;
+    return options.liveLanes ? adapter : offlineLane(adapter);
+  });
+  const providerRuntime = new ProviderRuntime({
+    adapters: createAdapterRegistry(adapters),
+    records: base.providerRecordStore,
+    // Offline lanes never need a secret; live lanes use the configured backend.
+    resolver: options.liveLanes
+      ? secretResolverFromEnv() ?? createReferenceSecretResolver()
+      : new NoCredentialsResolver(),
+    outputValidator: createCategoryOutputValidator(),
+  });
+  const pluginRegistry = options.pluginRegistryFor
+    ? options.pluginRegistryFor(providerRuntime)
+    : builtinPluginRegistry(providerRuntime, bundleNodes(base.pluginBundles, providerRuntime));
+  return {
+    ...base,
+    providerRuntime,
+    pluginRegistry,
+    executor: createCompositionExecutor(pluginRegistry, base.runtime, {
+      logger: options.logger ?? SILENT_NODE_LOGGER,
+    }),
+  };
+}
+
+function candleMsOf(timeframe: string): number {
+  const minutes = parseTimeframeMinutes(timeframe);
+  if (minutes === null) throw new Error(`backtest: timeframe '${timeframe}' does not parse`);
+  return minutes * 60_000;
+}
+
+type CandleTuple = [number, number, number, number, number, number];
+
+/** The outcome tracker's measurement for one signal (same law, same fields). */
+function measureOutcomes(
+  capturedMs: number,
+  direction: BacktestDirection,
+  decayParams: ReactorScoredSignalV1["decayParams"],
+  series: CandleTuple[],
+  seriesCandleMs: number,
+  horizonMinutes: number[] | undefined
+): Pick<BacktestSignalResult, "outcomes" | "pendingHorizons"> {
+  // A backtest is scored NOW, under the current (post-cutover) image: the
+  // decay-derived law applies to every bar, however old.
+  const plan = resolveHorizonPlan(
+    { capturedAt: new Date(capturedMs).toISOString(), decayParams: decayParams ?? undefined },
+    { overrideMinutes: horizonMinutes ?? null, cutoverIso: new Date(0).toISOString() }
+  );
+  if (plan === null) {
+    throw new Error("no horizon plan: the scored signal carries no usable decay stamp");
+  }
+  // The exit candle is the one OPENING at the window end (the outcome tracker
+  // fetches through windowEnd + one candle): without it the horizon is pending.
+  const lastOpen = series.length > 0 ? series[series.length - 1][0] : Number.NEGATIVE_INFINITY;
+  const sign = direction === "short" ? -1 : direction === "long" ? 1 : 0;
+  const outcomes: BacktestOutcome[] = [];
+  const pendingHorizons: string[] = [];
+  for (const window of plan.horizons) {
+    const { label, minutes, fractionOfHalfLife } = window;
+    const windowEnd = capturedMs + minutes * 60_000;
+    if (windowEnd > lastOpen) {
+      pendingHorizons.push(label);
+      continue;
+    }
+    const inWindow = selectWindow(series, capturedMs - seriesCandleMs, windowEnd, capturedMs);
+    const entryPrice = inWindow[0][4];
+    const exitPrice = inWindow[inWindow.length - 1][4];
+    const returnPct = ((exitPrice - entryPrice) / entryPrice) * 100;
+    outcomes.push({
+      horizon: label,
+      horizonBasis: plan.basis,
+      minutes,
+      ...(fractionOfHalfLife !== undefined ? { fractionOfHalfLife } : {}),
+      entryPrice,
+      exitPrice,
+      returnPct,
+      signedReturnPct: sign === 0 ? null : sign * returnPct,
+      ...excursions(inWindow, entryPrice, sign),
+    });
+  }
+  return { outcomes, pendingHorizons };
+}
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+function median(xs: number[]): number {
+  const sorted = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Per-horizon statistics over every measured outcome, in first-seen horizon order. */
+export function aggregateBacktestOutcomes(results: ReadonlyArray<BacktestSignalResult>): BacktestHorizonStats[] {
+  const byHorizon = new Map<string, BacktestOutcome[]>();
+  for (const result of results) {
+    for (const outcome of result.outcomes) {
+      const rows = byHorizon.get(outcome.horizon) ?? [];
+      rows.push(outcome);
+      byHorizon.set(outcome.horizon, rows);
+    }
+  }
+  return [...byHorizon].map(([horizon, rows]) => {
+    const signed = rows.map((r) => r.signedReturnPct).filter((v): v is number => v !== null);
+    return {
+      horizon,
+      samples: rows.length,
+      winRate: signed.length > 0 ? signed.filter((v) => v > 0).length / signed.length : null,
+      meanReturnPct: mean(rows.map((r) => r.returnPct)),
+      meanSignedReturnPct: signed.length > 0 ? mean(signed) : null,
+      medianSignedReturnPct: signed.length > 0 ? median(signed) : null,
+      meanMfePct: mean(rows.map((r) => r.mfePct)),
+      meanMaePct: mean(rows.map((r) => r.maePct)),
+    };
+  });
+}
+
+/** Run one backtest. Signals are scored sequentially (the feed is frozen per signal). */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestReport> {
+  const { resolved, symbol, timeframe } = options;
+  const candleMs = candleMsOf(timeframe);
+  const candles = [...options.candles].sort((a, b) => a.timestamp - b.timestamp);
+  const feed = new FrozenPriceFeedAdapter({ symbol, timeframe, candleMs, candles });
+  const composition = backtestComposition(options.composition ?? getRuntimeComposition(), feed, options);
+
+  const outcomeCandleMs = options.outcomeCandles ? candleMsOf(options.outcomeTimeframe ?? timeframe) : candleMs;
+  const outcomeSeries: CandleTuple[] = [...(options.outcomeCandles ?? candles)]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((c) => [c.timestamp, c.open, c.high, c.low, c.close, c.volume]);
+
+  const alerts: BacktestAlert[] = options.alerts
+    ? [...options.alerts].sort((a, b) => a.at - b.at)
+    : candles.slice(options.warmupBars ?? 50).map((c) => ({
+        at: c.timestamp + candleMs,
+        direction: options.direction ?? "long",
+      }));
+
+  const { analystId, strategyId, strategyVersion } = resolved.registration;
+  const results: BacktestSignalResult[] = [];
+  for (const alert of alerts) {
+    const at = new Date(alert.at).toISOString();
+    const signalId = alert.signalId ?? `backtest-${strategyId}-${symbol}-${timeframe}-${alert.at}`;
+    const uss = {
+      schema: "afi.usignal.v1.1",
+      provenance: { source: "backtest", providerId: "afi-backtest", signalId, ingestedAt: at },
+      facts: {
+        symbol,
+        market: options.market ?? "perp",
+        timeframe,
+        strategy: strategyId,
+        direction: alert.direction,
+      },
+    } as CanonicalUss;
+
+    feed.freezeAt(alert.at);
+    const result: BacktestSignalResult = {
+      signalId,
+      at,
+      direction: alert.direction,
+      status: "scored",
+      outcomes: [],
+      pendingHorizons: [],
+    };
+    try {
+      const run = await scoreRegisteredStrategyFromCanonicalUss(uss, resolved, composition);
+      result.analystScore = run.scored.analystScore;
+      Object.assign(
+        result,
+        measureOutcomes(alert.at, alert.direction, run.scored.decayParams, outcomeSeries, outcomeCandleMs, options.horizonMinutes)
+      );
+    } catch (error) {
+      result.status = "failed";
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+    results.push(result);
+  }
+
+  const scored = results.filter((r) => r.status === "scored").length;
+  return {
+    schema: "afi.backtest-report.v0",
+    strategy: { analystId, strategyId, strategyVersion },
+    symbol,
+    timeframe,
+    from: results[0]?.at ?? null,
+    to: results.at(-1)?.at ?? null,
+    signals: results.length,
+    scored,
+    failed: results.length - scored,
+    horizons: aggregateBacktestOutcomes(results),
+    results,
+  };
+}
+
+const DIRECTIONS: Record<string, BacktestDirection> = {
+  long: "long",
+  buy: "long",
+  short: "short",
+  sell: "short",
+  neutral: "neutral",
+};
+
+/**
+ * Parse a CSV of historical alerts. The header row names the columns: `time`
+ * (ISO-8601 or epoch ms) and `direction` (long|buy|short|sell|neutral) are
+ * required, `signalId` is optional. Blank lines are skipped; anything
+ * malformed throws with its line number — a backtest never silently drops
+ * an alert.
+ */
+export function parseBacktestAlertsCsv(text: string): BacktestAlert[] {
+  const lines = text.split(/\r?\n/);
+  const header = lines[0]?.split(",").map((h) => h.trim()) ?? [];
+  const col = (name: string) => header.indexOf(name);
+  if (col("time") < 0 || col("direction") < 0) {
+    throw new Error("line 1: the header must name 'time' and 'direction' columns");
+  }
+  const alerts: BacktestAlert[] = [];
+  lines.slice(1).forEach((line, i) => {
+    if (line.trim() === "") return;
+    const cells = line.split(",").map((c) => c.trim());
+    const rawTime = cells[col("time")] ?? "";
+    const at = /^\d+$/.test(rawTime) ? Number(rawTime) : Date.parse(rawTime);
+    if (!Number.isFinite(at)) throw new Error(`line ${i + 2}: time '${rawTime}' is not ISO-8601 or epoch ms`);
+    const direction = DIRECTIONS[(cells[col("direction")] ?? "").toLowerCase()];
+    if (!direction) throw new Error(`line ${i + 2}: direction '${cells[col("direction")]}' is not long/short/neutral`);
+    const signalId = col("signalId") >= 0 ? cells[col("signalId")] : undefined;
+    alerts.push({ at, direction, ...(signalId ? { signalId } : {}) });
+  });
+  return alerts;
+}
@@ -0,0 +1,183 @@
+/**
+ * `npm run backtest` — score a registered strategy over historical candles
+ * (src/analytics/backtest.ts) under the CURRENT boot-validated composition.
+ *
+ * Usage:
+ *   npm run backtest -- --strategy <analystId>/<strategyId>@<version> --symbol BTC/USDT --timeframe 1h \
+ *     --from 2026-06-01T00:00:00Z --to 2026-07-01T00:00:00Z \
+ *     [--source blofin] [--alerts alerts.csv] [--direction long|short|neutral] \
+ *     [--warmup 50] [--outcome-timeframe 5m] [--horizons 15m,30m,1h] [--market perp|spot] [--live-lanes]
+ *
+ * Without --alerts a signal is synthesized at every bar close in [from, to];
+ * with it, the CSV's alerts are scored and --from/--to default to their span.
+ * Candles are fetched from --source (default AFI_PRICE_FEED_SOURCE), reaching
+ * back --warmup bars before the first signal and forward to the last signal's
+ * longest horizon where the exchange has it.
+ *
+ * Prints the report JSON on stdout and a per-horizon summary on stderr. Exit
+ * code 0 = report produced, 2 = fatal. Read-only: nothing is written anywhere.
+ */
+import { readFile } from "node:fs/promises";
+import { getRuntimeComposition, preloadPluginBundles } from "../config/runtimeComposition.js";
+import { getDefaultPriceSource, getPriceFeedAdapter } from "../adapters/exchanges/priceFeedRegistry.js";
+import type { OHLCVCandle, PriceFeedAdapter, PriceSourceId } from "../adapters/exchanges/types.js";
+import { parseTimeframeMinutes } from "../pipeline/registryLoader.js";
+import { parseHorizonLabel } from "./horizonLaw.js";
+import {
+  parseBacktestAlertsCsv,
+  runBacktest,
+  type BacktestAlert,
+  type BacktestDirection,
+} from "./backtest.js";
+
+const args = process.argv.slice(2);
+const argOf = (flag: string): string | undefined => {
+  const i = args.indexOf(flag);
+  return i >= 0 && args[i + 1] ? args[i + 1] : undefined;
+};
+const required = (flag: string): string => {
+  const value = argOf(flag);
+  if (!value) throw new Error(`${flag} is required`);
+  return value;
+};
+const isoArg = (flag: string): number | undefined => {
+  const raw = argOf(flag);
+  if (raw === undefined) return undefined;
+  const ms = Date.parse(raw);
+  if (!Number.isFinite(ms)) throw new Error(`${flag} '${raw}' is not an ISO timestamp`);
+  return ms;
+};
+
+/** Longest history page requested per call (exchanges cap a page at ~300). */
+const PAGE = 300;
+
+/** Page forward through [startMs, endMs] with `since`; stops when the exchange runs dry. */
+async function fetchHistory(
+  feed: PriceFeedAdapter,
+  symbol: string,
+  timeframe: string,
+  startMs: number,
+  endMs: number
+): Promise<OHLCVCandle[]> {
+  const candles: OHLCVCandle[] = [];
+  let since = startMs;
+  while (since <= endMs) {
+    const page = await feed.getOHLCV({ symbol, timeframe, since, limit: PAGE });
+    const fresh = page.filter((c) => c.timestamp >= since && c.timestamp <= endMs);
+    if (fresh.length === 0) break;
+    candles.push(...fresh);
+    since = fresh[fresh.length - 1].timestamp + 1;
+  }
+  return candles;
+}
+
+async function main(): Promise<number> {
+  // Bundle-backed nodes score here exactly as on the server: verify and
+  // import the pinned bundles before the composition binds them.
+  await preloadPluginBundles();
+  const composition = getRuntimeComposition();
+  const strategyKey = required("--strategy");
+  const resolved = composition.runtime.strategies.get(strategyKey);
+  if (!resolved) {
+    throw new Error(
+      `strategy '${strategyKey}' is not registered (registered: ${[...composition.runtime.strategies.keys()].join(", ")})`
+    );
+  }
+  const symbol = required("--symbol");
+  const timeframe = required("--timeframe");
+  const tfMinutes = parseTimeframeMinutes(timeframe);
+  if (tfMinutes === null) throw new Error(`--timeframe '${timeframe}' does not parse`);
+  const candleMs = tfMinutes * 60_000;
+  const outcomeTimeframe = argOf("--outcome-timeframe");
+  if (outcomeTimeframe !== undefined && parseTimeframeMinutes(outcomeTimeframe) === null) {
+    throw new Error(`--outcome-timeframe '${outcomeTimeframe}' does not parse`);
+  }
+
+  const horizonsRaw = argOf("--horizons");
+  let horizonMinutes: number[] | undefined;
+  if (horizonsRaw !== undefined) {
+    const parsed = horizonsRaw.split(",").map((h) => h.trim()).filter(Boolean).map(parseHorizonLabel);
+    if (parsed.length === 0 || parsed.some((m) => m === null)) {
+      throw new Error(`--horizons '${horizonsRaw}' does not parse under the label grammar (e.g. 15m,30m,1h)`);
+    }
+    horizonMinutes = parsed as number[];
+  }
+  const direction = (argOf("--direction") ?? "long") as BacktestDirection;
+  if (!["long", "short", "neutral"].includes(direction)) {
+    throw new Error(`--direction must be long, short or neutral (got '${direction}')`);
+  }
+  const market = (argOf("--market") ?? "perp") as "perp" | "spot";
+  if (market !== "perp" && market !== "spot") throw new Error(`--market must be perp or spot`);
+  const warmup = Number(argOf("--warmup") ?? 50);
+  if (!Number.isInteger(warmup) || warmup < 0) throw new Error(`--warmup must be a non-negative integer`);
+
+  const alertsFile = argOf("--alerts");
+  let alerts: BacktestAlert[] | undefined;
+  if (alertsFile) {
+    alerts = parseBacktestAlertsCsv(await readFile(alertsFile, "utf-8"));
+    if (alerts.length === 0) throw new Error(`${alertsFile} holds no alerts`);
+  }
+  const alertTimes = alerts?.map((a) => a.at) ?? [];
+  const from = isoArg("--from") ?? (alerts ? Math.min(...alertTimes) : undefined);
+  const to = isoArg("--to") ?? (alerts ? Math.max(...alertTimes) : undefined);
+  if (from === undefined || to === undefined || from > to) {
+    throw new Error("--from and --to are required (from ≤ to) unless --alerts supplies the span");
+  }
+  if (alerts) alerts = alerts.filter((a) => a.at >= from && a.at <= to);
+
+  // Half-life horizons never exceed the decay H; a generous day-plus tail
+  // covers every governed template (the report marks anything beyond it pending).
+  const tailMs = Math.max(...(horizonMinutes ?? [1440])) * 60_000;
+  const source = (argOf("--source") ?? getDefaultPriceSource()) as PriceSourceId;
+  const feed = getPriceFeedAdapter(source);
+  const start = from - (warmup + 1) * candleMs;
+  const candles = await fetchHistory(feed, symbol, timeframe, start, to + tailMs);
+  const outcomeCandles = outcomeTimeframe
+    ? await fetchHistory(feed, symbol, outcomeTimeframe, from - candleMs, to + tailMs)
+    : undefined;
+  console.error(
+    `[backtest] ${symbol} ${timeframe} from ${source}: ${candles.length} candle(s)` +
+      (outcomeCandles ? `, ${outcomeCandles.length} ${outcomeTimeframe} outcome candle(s)` : "")
+  );
+
+  const report = await runBacktest({
+    resolved,
+    symbol,
+    timeframe,
+    market,
+    candles,
+    outcomeCandles,
+    outcomeTimeframe,
+    // Per-bar mode: one signal at every bar close inside [from, to].
+    alerts:
+      alerts ??
+      candles
+        .map((c) => c.timestamp + candleMs)
+        .filter((at) => at >= from && at <= to)
+        .map((at) => ({ at, direction })),
+    horizonMinutes,
+    liveLanes: args.includes("--live-lanes"),
+    composition,
+  });
+
+  process.stdout.write(JSON.stringify(report, null, 2) + "\n");
+  console.error(`[backtest] ${report.signals} signal(s): ${report.scored} scored, ${report.failed} failed`);
+  for (const h of report.horizons) {
+    const pct = (v: number | null) => (v === null ? "n/a" : `${v.toFixed(3)}%`);
+    console.error(
+      `[backtest]   @${h.horizon}: n=${h.samples} win=${h.winRate === null ? "n/a" : (h.winRate * 100).toFixed(1) + "%"} ` +
+        `mean=${pct(h.meanSignedReturnPct)} median=${pct(h.medianSignedReturnPct)} mfe=${pct(h.meanMfePct)} mae=${pct(h.meanMaePct)}`
+    );
+  }
+  return 0;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    console.error(`FATAL: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 2;
+  }
+);
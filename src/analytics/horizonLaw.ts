@@ -1,6 +1,11 @@
 /**
- * Pure helpers for capture-outcomes (DH-GOV D-DH-2 / D-DH-3).
- * No I/O here — everything is unit-testable via test/operational/.
+ * The outcome horizon law (DH-GOV D-DH-2 / D-DH-3) — pure, typed, no I/O.
+ *
+ * Shared by the in-process outcome tracker (outcomeTracker.ts) and the
+ * backtest engine (backtest.ts), so a backtested outcome and a live one are
+ * measured by the same law. Ported verbatim from the retired
+ * scripts/capture-outcomes-lib.mjs; unit coverage in
+ * test/analytics/horizonLaw.test.ts.
  */
 
 export const CANDLE_MS = 5 * 60_000;
@@ -24,26 +29,49 @@ export const DH_CUTOVER_ISO = "2026-08-03T06:31:14Z";
 // is RETIRED. Pre-cutover, unstamped, or malformed docs are never captured —
 // one law on the books, no dual-law data.
 
+/** `[timestamp, open, high, low, close, ...]` — the ccxt OHLCV row shape. */
+export type CandleRow = readonly [number, number, number, number, number, ...number[]];
+
+export interface HorizonWindow {
+  label: string;
+  minutes: number;
+  fractionOfHalfLife?: number;
+}
+
+export interface HorizonPlan {
+  basis: "operator-override" | "decay-derived";
+  horizons: HorizonWindow[];
+  decayRef?: { greeksTemplateId: string; halfLifeMinutes: number };
+}
+
+/** The scoring-context fields the plan reads. */
+export interface HorizonPlanContext {
+  capturedAt?: string;
+  decayParams?: { halfLifeMinutes?: number; greeksTemplateId?: string } | null;
+}
+
 /**
  * D-DH-2(1): {ceil(H/4), ceil(H/2), H} minutes from the stamped half-life.
  * H is used exactly as stamped (never rewritten); a fractional inline H only
  * ceils where the law says ceil — the outer window ceils solely to keep
  * whole-minute labels, which for every governed (integer) template is H itself.
  */
-export function deriveHorizonMinutes(halfLifeMinutes) {
-  if (!Number.isFinite(halfLifeMinutes) || halfLifeMinutes <= 0) return null;
+export function deriveHorizonMinutes(halfLifeMinutes: unknown): [number, number, number] | null {
+  if (typeof halfLifeMinutes !== "number" || !Number.isFinite(halfLifeMinutes) || halfLifeMinutes <= 0) {
+    return null;
+  }
   const H = halfLifeMinutes;
   return [Math.ceil(H / 4), Math.ceil(H / 2), Math.ceil(H)];
 }
 
 /** D-DH-2(1) label grammar: whole hours render "<n>h", otherwise "<n>m". */
-export function horizonLabel(minutes) {
+export function horizonLabel(minutes: number): string | null {
   if (!Number.isFinite(minutes) || minutes <= 0) return null;
   return minutes % HOUR_MIN === 0 ? `${minutes / HOUR_MIN}h` : `${minutes}m`;
 }
 
 /** Inverse of horizonLabel; used to validate --horizons operator overrides. */
-export function parseHorizonLabel(label) {
+export function parseHorizonLabel(label: string): number | null {
   const m = /^(\d+)(m|h)$/.exec(String(label).trim());
   if (!m) return null;
   const n = Number(m[1]);
@@ -52,20 +80,22 @@ export function parseHorizonLabel(label) {
 }
 
 /**
- * Resolve the horizon plan for one scoring-context doc.
- * Returns { basis, horizons: [{label, minutes, fractionOfHalfLife?}], decayRef? }
- * or NULL meaning "never capture this doc" (DHP-GOV):
+ * Resolve the horizon plan for one scoring-context doc, or NULL meaning
+ * "never capture this doc" (DHP-GOV):
  *  - operator override (explicit --horizons) wins outright;
  *  - docs captured before the cutover, or with an absent/malformed decay
  *    stamp, or under an unparseable cutover, are SKIPPED — the retired
  *    legacy law is never applied (D-DHP-1);
  *  - otherwise horizons derive from the stamped decayParams (D-DH-2(1)).
  */
-export function resolveHorizonPlan(ctx, { overrideMinutes = null, cutoverIso = DH_CUTOVER_ISO } = {}) {
+export function resolveHorizonPlan(
+  ctx: HorizonPlanContext | null | undefined,
+  { overrideMinutes = null, cutoverIso = DH_CUTOVER_ISO }: { overrideMinutes?: number[] | null; cutoverIso?: string } = {}
+): HorizonPlan | null {
   if (Array.isArray(overrideMinutes) && overrideMinutes.length > 0) {
     return {
       basis: "operator-override",
-      horizons: overrideMinutes.map((m) => ({ label: horizonLabel(m), minutes: m })),
+      horizons: overrideMinutes.map((m) => ({ label: horizonLabel(m) ?? `${m}m`, minutes: m })),
     };
   }
   const capturedMs = Date.parse(ctx?.capturedAt ?? "");
@@ -75,7 +105,7 @@ export function resolveHorizonPlan(ctx, { overrideMinutes = null, cutoverIso = D
   const derived = deriveHorizonMinutes(half);
   // Fail-closed: derivation requires a PARSEABLE cutover the doc is at-or-
   // after (`capturedMs >= NaN` is false, so an unparseable cutover skips
-  // everything; the capture script additionally refuses to run at all on an
+  // everything; the tracker additionally refuses to run at all on an
   // unparseable DH_CUTOVER_ISO).
   const atOrAfterCutover = Number.isFinite(cutoverMs) && capturedMs >= cutoverMs;
   if (!Number.isFinite(capturedMs) || !atOrAfterCutover || derived === null || typeof templateId !== "string") {
@@ -84,8 +114,8 @@ export function resolveHorizonPlan(ctx, { overrideMinutes = null, cutoverIso = D
   const fractions = [0.25, 0.5, 1];
   return {
     basis: "decay-derived",
-    decayRef: { greeksTemplateId: templateId, halfLifeMinutes: half },
-    horizons: derived.map((m, i) => ({ label: horizonLabel(m), minutes: m, fractionOfHalfLife: fractions[i] })),
+    decayRef: { greeksTemplateId: templateId, halfLifeMinutes: half as number },
+    horizons: derived.map((m, i) => ({ label: horizonLabel(m) as string, minutes: m, fractionOfHalfLife: fractions[i] })),
   };
 }
 
@@ -96,7 +126,12 @@ export function resolveHorizonPlan(ctx, { overrideMinutes = null, cutoverIso = D
  * exchange returning only its newest candles) must throw loudly rather than
  * let a wrong entry price write a permanent row.
  */
-export function selectWindow(candles, sinceMs, endMs, capturedMs) {
+export function selectWindow<R extends CandleRow>(
+  candles: ReadonlyArray<R> | null | undefined,
+  sinceMs: number,
+  endMs: number,
+  capturedMs: number
+): R[] {
   const inWindow = (candles ?? []).filter(([ts]) => ts >= sinceMs && ts <= endMs);
   if (inWindow.length < 2) {
     throw new Error(`insufficient candles (${inWindow.length})`);
@@ -114,7 +149,7 @@ export function selectWindow(candles, sinceMs, endMs, capturedMs) {
  * market fact, never symbol notation, decides the ccxt mapping; the legacy
  * ".P" suffix is still honored; no market fact → null (honest skip).
  */
-export function toCcxtSymbol(symbol, market) {
+export function toCcxtSymbol(symbol: unknown, market: unknown): string | null {
   if (typeof symbol !== "string" || !symbol.includes("/")) return null;
   if (symbol.endsWith(".P")) return `${symbol.slice(0, -2)}:USDT`;
   if (market === "perp") {
@@ -125,21 +160,27 @@ export function toCcxtSymbol(symbol, market) {
   return null;
 }
 
+export interface Excursions {
+  mfePct: number;
+  maePct: number;
+  mfeAtMinutes: number;
+  maeAtMinutes: number;
+}
+
 /**
  * D-DH-3(2): direction-adjusted excursion values AND their timing.
  * `inWindow` is the ordered [ts, o, h, l, c] candle array; `sign` is
  * +1 long / -1 short / 0 neutral (neutral follows the long branch, matching
  * the v0 mfe/mae convention). First occurrence wins on ties (strict compare).
- * Returns { mfePct, maePct, mfeAtMinutes, maeAtMinutes }.
  */
-export function excursions(inWindow, entryPrice, sign) {
-  let maxHigh = -Infinity, minLow = Infinity, maxHighTs = null, minLowTs = null;
+export function excursions(inWindow: ReadonlyArray<CandleRow>, entryPrice: number, sign: number): Excursions {
+  let maxHigh = -Infinity, minLow = Infinity, maxHighTs = 0, minLowTs = 0;
   for (const [ts, , high, low] of inWindow) {
     if (high > maxHigh) { maxHigh = high; maxHighTs = ts; }
     if (low < minLow) { minLow = low; minLowTs = ts; }
   }
   const entryTs = inWindow[0][0];
-  const mins = (ts) => Math.round((ts - entryTs) / 60_000);
+  const mins = (ts: number) => Math.round((ts - entryTs) / 60_000);
   const favorable = sign >= 0
     ? { pct: ((maxHigh - entryPrice) / entryPrice) * 100, ts: maxHighTs }
     : { pct: ((entryPrice - minLow) / entryPrice) * 100, ts: minLowTs };
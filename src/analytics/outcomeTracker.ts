@@ -0,0 +1,529 @@
+/**
+ * OPERATIONAL outcome tracking — "what happened after the score".
+ *
+ * For every scoring_context document whose horizon has elapsed and that has no
+ * outcome row yet, fetches 5m candles around [capturedAt, capturedAt+H] from a
+ * registered PriceFeedAdapter (any venue — AFI_OUTCOME_PRICE_SOURCE, default
+ * AFI_PRICE_FEED_SOURCE) and appends one signal_outcomes document per
+ * (signalId, horizon): entry/exit price, raw and direction-signed return, max
+ * favorable/adverse excursion and WHEN each occurred (D-DH-3 excursion timing).
+ * Runs in-process on a schedule (startOutcomeTrackerFromEnv) or once from the
+ * command line (outcomeTrackerCommand.ts); it replaces the hand-run
+ * scripts/capture-outcomes.mjs and writes the same v0.1 rows.
+ *
+ * HORIZON LAW (DH-GOV D-DH-2, ./horizonLaw.ts): horizons derive from the
+ * signal's STAMPED decayParams as {H/4, H/2, H} minutes of the declared
+ * half-life. Pre-cutover or unstamped docs are never captured (DHP-GOV). An
+ * explicit horizon override is an operator override.
+ *
+ * IDEMPOTENT: (signalId, horizon) is unique in the store and rows are never
+ * overwritten — a re-run, an overlapping replica, or a retry after a partial
+ * run writes each row at most once.
+ *
+ * PLANE RULES: operational store, never canonical evidence (MONGO-GOV
+ * D-MONGO-4). Non-normative; log-and-skip on any per-signal failure. Like
+ * scoringContextStore.ts, this module must never import from src/evidence/.
+ *
+ * LIFECYCLE: a SHORT-LIVED MongoClient per run (connect → run → close in
+ * finally), for the same reason as scoring-context capture: nothing here may
+ * keep the event loop alive between runs.
+ */
+import { MongoClient, type Collection, type Document } from "mongodb";
+import { getDefaultPriceSource, getPriceFeedAdapter } from "../adapters/exchanges/priceFeedRegistry.js";
+import type { PriceFeedAdapter, PriceSourceId } from "../adapters/exchanges/types.js";
+import {
+  CANDLE_MS,
+  DH_CUTOVER_ISO,
+  excursions,
+  parseHorizonLabel,
+  resolveHorizonPlan,
+  selectWindow,
+  toCcxtSymbol,
+  type CandleRow,
+  type HorizonPlan,
+} from "./horizonLaw.js";
+import { SCORING_CONTEXT_COLLECTION, SIGNAL_OUTCOMES_COLLECTION } from "./scoringContextStore.js";
+
+const ANALYTICS_DB_ENV = "AFI_ANALYTICS_DB_NAME";
+const URI_ENV = "AFI_EVIDENCE_MONGODB_URI";
+const DEFAULT_DB = "afi_signal_analytics";
+
+export const SIGNAL_OUTCOME_SCHEMA = "afi.operational.signal-outcome.v0.1";
+const CANDLE_TF = "5m";
+/** Longest page requested per fetch (exchanges cap a page at ~300 candles). */
+const MAX_PAGE = 300;
+
+/** The scoring_context fields the tracker reads. */
+export interface OutcomeContextDoc {
+  signalId: string;
+  capturedAt: string;
+  meta?: { symbol?: string; direction?: string; strategy?: string; market?: string };
+  decayParams?: { halfLifeMinutes?: number; greeksTemplateId?: string } | null;
+  rawUss?: { facts?: { market?: unknown } };
+}
+
+/** One signal_outcomes row (afi.operational.signal-outcome.v0.1). */
+export interface SignalOutcomeDoc {
+  schema: string;
+  plane: "operational";
+  signalId: string;
+  horizon: string;
+  horizonBasis: HorizonPlan["basis"] | "legacy-global";
+  decayRef?: { greeksTemplateId: string; halfLifeMinutes: number; fractionOfHalfLife?: number };
+  capturedAt: string;
+  evaluatedAt: string;
+  /** Strategy declared by the signal (meta.strategy); absent on rows written by the retired script. */
+  strategy?: string;
+  symbol?: string;
+  ccxtSymbol: string;
+  direction: string;
+  entryPrice: number;
+  exitPrice: number;
+  returnPct: number;
+  signedReturnPct: number | null;
+  mfePct: number;
+  maePct: number;
+  mfeAtMinutes: number;
+  maeAtMinutes: number;
+  candleTimeframe: string;
+  /** Price source the candles came from (PriceFeedAdapter id). */
+  source: string;
+}
+
+export interface OutcomeFilter {
+  strategy?: string;
+  horizon?: string;
+}
+
+/** Storage port: the scoring_context reader and the signal_outcomes writer. */
+export interface OutcomeStore {
+  contexts(): AsyncIterable<OutcomeContextDoc>;
+  /** signalId of any context stamped with `greeksTemplateId`, or null. */
+  findStampedContext(greeksTemplateId: string): Promise<string | null>;
+  findOutcome(signalId: string, horizon: string): Promise<Pick<SignalOutcomeDoc, "horizonBasis" | "schema"> | null>;
+  /** "duplicate" when (signalId, horizon) already exists — the row is never overwritten. */
+  insertOutcome(doc: SignalOutcomeDoc): Promise<"inserted" | "duplicate">;
+  /** Rows matching the filter; rows without `strategy` take the context's meta.strategy. */
+  listOutcomes(filter: OutcomeFilter): Promise<SignalOutcomeDoc[]>;
+}
+
+/** Opens a store for the duration of `fn` (one run, one connection). */
+export type OutcomeStoreSession = <T>(fn: (store: OutcomeStore) => Promise<T>) => Promise<T>;
+
+export function mongoOutcomeStoreSession(uri: string, dbName: string = DEFAULT_DB): OutcomeStoreSession {
+  let indexEnsured = false;
+  return async (fn) => {
+    const client = new MongoClient(uri);
+    try {
+      await client.connect();
+      const db = client.db(dbName);
+      const contexts = db.collection(SCORING_CONTEXT_COLLECTION);
+      const outcomes = db.collection(SIGNAL_OUTCOMES_COLLECTION);
+      if (!indexEnsured) {
+        await outcomes.createIndex({ signalId: 1, horizon: 1 }, { unique: true, name: "signalId_horizon_unique" });
+        indexEnsured = true;
+      }
+      return await fn(mongoOutcomeStore(contexts, outcomes));
+    } finally {
+      await client.close().catch(() => {});
+    }
+  };
+}
+
+function mongoOutcomeStore(contexts: Collection<Document>, outcomes: Collection<Document>): OutcomeStore {
+  return {
+    contexts() {
+      return contexts.find(
+        {},
+        { projection: { _id: 0, signalId: 1, capturedAt: 1, meta: 1, decayParams: 1, "rawUss.facts.market": 1 } }
+      ) as unknown as AsyncIterable<OutcomeContextDoc>;
+    },
+    async findStampedContext(greeksTemplateId) {
+      const doc = await contexts.findOne(
+        { "decayParams.greeksTemplateId": greeksTemplateId },
+        { projection: { signalId: 1 } }
+      );
+      return doc ? String(doc.signalId) : null;
+    },
+    async findOutcome(signalId, horizon) {
+      return (await outcomes.findOne(
+        { signalId, horizon },
+        { projection: { _id: 0, horizonBasis: 1, schema: 1 } }
+      )) as Pick<SignalOutcomeDoc, "horizonBasis" | "schema"> | null;
+    },
+    async insertOutcome(doc) {
+      try {
+        await outcomes.insertOne({ ...doc });
+        return "inserted";
+      } catch (err) {
+        if ((err as { code?: unknown }).code === 11000) return "duplicate";
+        throw err;
+      }
+    },
+    async listOutcomes(filter) {
+      const rows = await outcomes
+        .aggregate([
+          ...(filter.horizon !== undefined ? [{ $match: { horizon: filter.horizon } }] : []),
+          {
+            $lookup: {
+              from: SCORING_CONTEXT_COLLECTION,
+              localField: "signalId",
+              foreignField: "signalId",
+              as: "ctx",
+              pipeline: [{ $project: { _id: 0, "meta.strategy": 1 } }],
+            },
+          },
+          { $set: { strategy: { $ifNull: ["$strategy", { $first: "$ctx.meta.strategy" }] } } },
+          ...(filter.strategy !== undefined ? [{ $match: { strategy: filter.strategy } }] : []),
+          { $project: { _id: 0, ctx: 0 } },
+        ])
+        .toArray();
+      return rows as SignalOutcomeDoc[];
+    },
+  };
+}
+
+/** In-memory store (tests, dry runs over exported contexts). */
+export function createMemoryOutcomeStore(
+  seed: OutcomeContextDoc[] = []
+): OutcomeStore & { rows(): SignalOutcomeDoc[] } {
+  const contexts = [...seed];
+  const rows = new Map<string, SignalOutcomeDoc>();
+  const keyOf = (signalId: string, horizon: string) => `${signalId}|${horizon}`;
+  return {
+    async *contexts() {
+      yield* contexts;
+    },
+    async findStampedContext(greeksTemplateId) {
+      return contexts.find((c) => c.decayParams?.greeksTemplateId === greeksTemplateId)?.signalId ?? null;
+    },
+    async findOutcome(signalId, horizon) {
+      return rows.get(keyOf(signalId, horizon)) ?? null;
+    },
+    async insertOutcome(doc) {
+      const key = keyOf(doc.signalId, doc.horizon);
+      if (rows.has(key)) return "duplicate";
+      rows.set(key, { ...doc });
+      return "inserted";
+    },
+    async listOutcomes(filter) {
+      return [...rows.values()]
+        .map((row) => ({
+          ...row,
+          strategy: row.strategy ?? contexts.find((c) => c.signalId === row.signalId)?.meta?.strategy,
+        }))
+        .filter((row) => filter.horizon === undefined || row.horizon === filter.horizon)
+        .filter((row) => filter.strategy === undefined || row.strategy === filter.strategy);
+    },
+    rows: () => [...rows.values()],
+  };
+}
+
+export interface OutcomeRunSummary {
+  written: number;
+  /** Not due, already captured, or unmappable to the price source. */
+  skipped: number;
+  /** Pre-cutover / unstamped — retired law, never captured. */
+  skippedRetired: number;
+  failed: number;
+  /** Label collisions with a row of another horizon basis (kept, never overwritten). */
+  mixedLaw: number;
+}
+
+/** Per-strategy, per-horizon outcome statistics. */
+export interface OutcomeAggregate {
+  strategy: string;
+  horizon: string;
+  samples: number;
+  /** Samples with a direction (neutral signals have no signed return). */
+  directional: number;
+  /** Share of directional samples with a positive signed return; null with none. */
+  hitRate: number | null;
+  meanSignedReturnPct: number | null;
+  meanMfePct: number | null;
+  meanMaePct: number | null;
+}
+
+export interface OutcomeTrackerOptions {
+  session: OutcomeStoreSession;
+  /** Price source for outcome candles (default AFI_OUTCOME_PRICE_SOURCE ?? AFI_PRICE_FEED_SOURCE). */
+  source?: PriceSourceId;
+  /** Operator horizon override in minutes (replaces the decay-derived set). */
+  horizonMinutes?: number[];
+  /** Log what would be written without writing. */
+  dryRun?: boolean;
+  /** Run even while the cutover is still in the future and post-deploy stamps exist. */
+  allowLegacyLaw?: boolean;
+  cutoverIso?: string;
+  now?: () => number;
+}
+
+const mean = (xs: number[]) => (xs.length === 0 ? null : xs.reduce((a, b) => a + b, 0) / xs.length);
+
+export class OutcomeTracker {
+  private readonly cutoverIso: string;
+  private readonly now: () => number;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<OutcomeRunSummary> | null = null;
+
+  constructor(private readonly options: OutcomeTrackerOptions) {
+    this.cutoverIso = options.cutoverIso ?? DH_CUTOVER_ISO;
+    this.now = options.now ?? Date.now;
+    // D-DH-2(3) fail-closed cutover validation: an unparseable cutover refuses
+    // the tracker outright instead of silently deciding law.
+    if (!Number.isFinite(Date.parse(this.cutoverIso))) {
+      throw new Error(`DH_CUTOVER_ISO '${this.cutoverIso}' does not parse — refusing to decide horizon law (D-DH-2(3)).`);
+    }
+  }
+
+  private feed(): PriceFeedAdapter {
+    const source =
+      this.options.source ?? (process.env.AFI_OUTCOME_PRICE_SOURCE?.trim() || getDefaultPriceSource());
+    return getPriceFeedAdapter(source as PriceSourceId);
+  }
+
+  /**
+   * One capture pass over every scoring context. Concurrent calls share the
+   * pass already in flight.
+   */
+  runOnce(): Promise<OutcomeRunSummary> {
+    if (!this.running) {
+      this.running = this.options.session((store) => this.capture(store)).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async capture(store: OutcomeStore): Promise<OutcomeRunSummary> {
+    const feed = this.feed();
+    const now = this.now();
+
+    // Placeholder-shipped guard (D-DH-4(1)): if the cutover is still in the
+    // future (the fail-safe placeholder, or a mis-set instant) while
+    // post-deploy decay stamps already exist, the DH-GOV program image is live
+    // without its cutover — refuse loudly rather than accrue wrong-law rows,
+    // unless the operator explicitly accepts legacy law.
+    if (Date.parse(this.cutoverIso) > now && !this.options.allowLegacyLaw) {
+      const postDeployStamp = await store.findStampedContext("decay-intraday-v1");
+      if (postDeployStamp) {
+        throw new Error(
+          `DH_CUTOVER_ISO '${this.cutoverIso}' is in the future but post-deploy decay stamps exist ` +
+            `(e.g. ${postDeployStamp}) — the cutover was not set at deploy (D-DH-2(3)). ` +
+            `Set the constant, or pass --allow-legacy-law to run this once under legacy law.`
+        );
+      }
+    }
+
+    const summary: OutcomeRunSummary = { written: 0, skipped: 0, skippedRetired: 0, failed: 0, mixedLaw: 0 };
+    for await (const ctx of store.contexts()) {
+      const capturedMs = Date.parse(ctx.capturedAt);
+      if (!Number.isFinite(capturedMs)) { summary.skipped++; continue; }
+      const rawSymbol = ctx.meta?.symbol;
+      const market = ctx.meta?.market ?? ctx.rawUss?.facts?.market;
+      const ccxtSymbol = toCcxtSymbol(rawSymbol, market);
+      if (!ccxtSymbol || typeof rawSymbol !== "string") { summary.skipped++; continue; }
+      // The governed translation decides perp vs spot; the venue adapter
+      // takes the canonical symbol and must serve that market.
+      const perp = ccxtSymbol.includes(":");
+      if (perp ? !feed.supportsPerps : !feed.supportsSpot) { summary.skipped++; continue; }
+      const symbol = rawSymbol.endsWith(".P") ? rawSymbol.slice(0, -2) : rawSymbol;
+
+      const plan = resolveHorizonPlan(ctx, {
+        overrideMinutes: this.options.horizonMinutes ?? null,
+        cutoverIso: this.cutoverIso,
+      });
+      // DHP-GOV D-DHP-1: pre-cutover / unstamped docs are never captured.
+      if (plan === null) { summary.skippedRetired++; continue; }
+
+      for (const { label: horizon, minutes, fractionOfHalfLife } of plan.horizons) {
+        const horizonMs = minutes * 60_000;
+        if (capturedMs + horizonMs > now) { summary.skipped++; continue; }
+        // Law-aware dedup (D-DH-4(1)): a basis mismatch at the same label is
+        // surfaced loudly instead of silently absorbed — the (signalId,
+        // horizon) uniqueness still stands, we never overwrite.
+        const exists = await store.findOutcome(ctx.signalId, horizon);
+        if (exists) {
+          const existingBasis = exists.horizonBasis ?? "legacy-global";
+          if (plan.basis === "decay-derived" && existingBasis !== "decay-derived") {
+            summary.mixedLaw++;
+            console.warn(
+              `[outcomes] MIXED-LAW ${ctx.signalId} @${horizon}: existing ${existingBasis} row (schema ${exists.schema ?? "v0"}) occupies the label this doc derives — row kept, derived row not written`
+            );
+          }
+          summary.skipped++;
+          continue;
+        }
+
+        try {
+          const since = capturedMs - CANDLE_MS;
+          const windowEnd = capturedMs + horizonMs;
+          const need = Math.ceil(horizonMs / CANDLE_MS) + 3;
+          // Anchor the fetch to the capture window with `until` (some venues
+          // ignore `since` and serve their newest candles otherwise), so the
+          // page ends at the window end and `need` suffices for any signal
+          // age. selectWindow() then asserts the head candle actually reaches
+          // back to capture (front-truncation refusal).
+          const candles = await feed.getOHLCV({
+            symbol,
+            timeframe: CANDLE_TF,
+            since,
+            limit: Math.min(need, MAX_PAGE),
+            until: windowEnd + CANDLE_MS,
+          });
+          const rows: CandleRow[] = candles.map((c) => [c.timestamp, c.open, c.high, c.low, c.close]);
+          const inWindow = selectWindow(rows, since, windowEnd, capturedMs);
+
+          const entryPrice = inWindow[0][4];
+          const exitPrice = inWindow[inWindow.length - 1][4];
+          const returnPct = ((exitPrice - entryPrice) / entryPrice) * 100;
+          const direction = ctx.meta?.direction ?? "neutral";
+          const sign = direction === "short" ? -1 : direction === "long" ? 1 : 0;
+          const doc: SignalOutcomeDoc = {
+            schema: SIGNAL_OUTCOME_SCHEMA,
+            plane: "operational",
+            signalId: ctx.signalId,
+            horizon,
+            horizonBasis: plan.basis,
+            ...(plan.decayRef ? { decayRef: { ...plan.decayRef, fractionOfHalfLife } } : {}),
+            capturedAt: ctx.capturedAt,
+            evaluatedAt: new Date(now).toISOString(),
+            ...(ctx.meta?.strategy !== undefined ? { strategy: ctx.meta.strategy } : {}),
+            symbol: rawSymbol,
+            ccxtSymbol,
+            direction,
+            entryPrice,
+            exitPrice,
+            returnPct,
+            signedReturnPct: sign === 0 ? null : sign * returnPct,
+            ...excursions(inWindow, entryPrice, sign),
+            candleTimeframe: CANDLE_TF,
+            source: feed.id,
+          };
+          if (this.options.dryRun) {
+            console.log("[outcomes] [dry-run] would write:", {
+              signalId: doc.signalId,
+              horizon,
+              basis: plan.basis,
+              returnPct: doc.returnPct.toFixed(3),
+            });
+            continue;
+          }
+          if ((await store.insertOutcome(doc)) === "duplicate") {
+            // Another run got there first: the row stands as written.
+            summary.skipped++;
+            continue;
+          }
+          summary.written++;
+          console.log(
+            `[outcomes] ${ctx.signalId} @${horizon} (${plan.basis}): return ${returnPct.toFixed(3)}% ` +
+              `(signed ${doc.signedReturnPct === null ? "n/a" : doc.signedReturnPct.toFixed(3) + "%"}; mfe@${doc.mfeAtMinutes}m mae@${doc.maeAtMinutes}m)`
+          );
+        } catch (err) {
+          summary.failed++;
+          console.warn(`[outcomes] skip ${ctx.signalId} @${horizon}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * Per-strategy hit-rate / mean signed return / MFE / MAE over the captured
+   * rows, ordered by strategy then horizon length. Rows whose signal declared
+   * no strategy aggregate under "unknown".
+   */
+  aggregates(filter: OutcomeFilter = {}): Promise<OutcomeAggregate[]> {
+    return this.options.session(async (store) => aggregateOutcomes(await store.listOutcomes(filter)));
+  }
+
+  /** Run every `intervalMs` (unref'd); a pass still in flight is never overlapped. */
+  start(intervalMs: number): void {
+    if (this.timer) return;
+    const tick = () => {
+      this.runOnce().then(
+        (s) =>
+          console.log(
+            `[outcomes] pass: ${s.written} written, ${s.skipped} skipped, ${s.skippedRetired} retired-law, ${s.failed} failed, ${s.mixedLaw} mixed-law`
+          ),
+        (err: unknown) =>
+          console.error(`[outcomes] pass refused: ${err instanceof Error ? err.message : String(err)}`)
+      );
+    };
+    this.timer = setInterval(tick, intervalMs);
+    this.timer.unref();
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export function aggregateOutcomes(rows: ReadonlyArray<SignalOutcomeDoc>): OutcomeAggregate[] {
+  const groups = new Map<string, { strategy: string; horizon: string; rows: SignalOutcomeDoc[] }>();
+  for (const row of rows) {
+    const strategy = row.strategy ?? "unknown";
+    const key = `${strategy}|${row.horizon}`;
+    const group = groups.get(key) ?? { strategy, horizon: row.horizon, rows: [] };
+    group.rows.push(row);
+    groups.set(key, group);
+  }
+  const minutesOf = (horizon: string) => parseHorizonLabel(horizon) ?? Number.POSITIVE_INFINITY;
+  return [...groups.values()]
+    .sort((a, b) => a.strategy.localeCompare(b.strategy) || minutesOf(a.horizon) - minutesOf(b.horizon))
+    .map(({ strategy, horizon, rows: group }) => {
+      const signed = group.map((r) => r.signedReturnPct).filter((v): v is number => typeof v === "number");
+      return {
+        strategy,
+        horizon,
+        samples: group.length,
+        directional: signed.length,
+        hitRate: signed.length === 0 ? null : signed.filter((v) => v > 0).length / signed.length,
+        meanSignedReturnPct: mean(signed),
+        meanMfePct: mean(group.map((r) => r.mfePct)),
+        meanMaePct: mean(group.map((r) => r.maePct)),
+      };
+    });
+}
+
+// Singleton instance (in-process schedule)
+let tracker: OutcomeTracker | null = null;
+
+/** The running in-process tracker, or null when it is not enabled. */
+export function getOutcomeTracker(): OutcomeTracker | null {
+  return tracker;
+}
+
+/**
+ * Start the in-process tracker if AFI_OUTCOME_TRACKER=1 and
+ * AFI_EVIDENCE_MONGODB_URI is set; a pass runs at start and then every
+ * AFI_OUTCOME_TRACKER_INTERVAL_MINUTES (default 15).
+ */
+export function startOutcomeTrackerFromEnv(): OutcomeTracker | null {
+  if (process.env.AFI_OUTCOME_TRACKER !== "1" || tracker) return tracker;
+  const uri = process.env[URI_ENV];
+  if (!uri) {
+    console.warn(`[outcomes] AFI_OUTCOME_TRACKER=1 but ${URI_ENV} is unset — tracker not started`);
+    return null;
+  }
+  const intervalMinutes = parseInt(process.env.AFI_OUTCOME_TRACKER_INTERVAL_MINUTES || "15", 10);
+  if (!Number.isFinite(intervalMinutes) || intervalMinutes <= 0) {
+    throw new Error(`AFI_OUTCOME_TRACKER_INTERVAL_MINUTES must be a positive integer`);
+  }
+  tracker = new OutcomeTracker({
+    session: mongoOutcomeStoreSession(uri, process.env[ANALYTICS_DB_ENV] || DEFAULT_DB),
+  });
+  tracker.start(intervalMinutes * 60_000);
+  console.log(`✅ Outcome tracker started (every ${intervalMinutes}m)`);
+  return tracker;
+}
+
+/** Stop the in-process tracker (graceful shutdown / tests). */
+export function stopOutcomeTracker(): void {
+  tracker?.stop();
+  tracker = null;
+}
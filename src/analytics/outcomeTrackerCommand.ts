@@ -0,0 +1,60 @@
+/**
+ * `npm run outcomes` — one outcome-capture pass (src/analytics/outcomeTracker.ts)
+ * for operators and external schedulers; the in-process schedule
+ * (AFI_OUTCOME_TRACKER=1) runs the same pass.
+ *
+ * Usage:
+ *   AFI_EVIDENCE_MONGODB_URI='mongodb+srv://…' npm run outcomes -- \
+ *     [--horizons 15m,30m,1h] [--db afi_signal_analytics] [--source blofin] [--dry-run] [--allow-legacy-law]
+ *
+ * Exit code 0 = pass complete (per-signal failures are logged and counted),
+ * 1 = the pass was refused (configuration, cutover guard, store unavailable).
+ */
+import { parseHorizonLabel } from "./horizonLaw.js";
+import { mongoOutcomeStoreSession, OutcomeTracker } from "./outcomeTracker.js";
+
+const args = process.argv.slice(2);
+const argOf = (flag: string): string | undefined => {
+  const i = args.indexOf(flag);
+  return i >= 0 && args[i + 1] ? args[i + 1] : undefined;
+};
+
+async function main(): Promise<number> {
+  const uri = process.env.AFI_EVIDENCE_MONGODB_URI;
+  if (!uri) throw new Error("AFI_EVIDENCE_MONGODB_URI is required (same cluster; analytics db).");
+
+  const horizonsRaw = argOf("--horizons");
+  let horizonMinutes: number[] | undefined;
+  if (horizonsRaw !== undefined) {
+    const parsed = horizonsRaw.split(",").map((h) => h.trim()).filter(Boolean).map(parseHorizonLabel);
+    if (parsed.length === 0 || parsed.some((m) => m === null)) {
+      throw new Error(`--horizons '${horizonsRaw}' does not parse under the label grammar (e.g. 15m,30m,1h)`);
+    }
+    horizonMinutes = parsed as number[];
+  }
+
+  const tracker = new OutcomeTracker({
+    session: mongoOutcomeStoreSession(uri, argOf("--db") ?? (process.env.AFI_ANALYTICS_DB_NAME || "afi_signal_analytics")),
+    source: argOf("--source"),
+    horizonMinutes,
+    dryRun: args.includes("--dry-run"),
+    allowLegacyLaw: args.includes("--allow-legacy-law"),
+  });
+  const s = await tracker.runOnce();
+  console.log(
+    `done: ${s.written} written, ${s.skipped} skipped (not due / already captured / unmappable), ` +
+      `${s.skippedRetired} skipped (pre-cutover/unstamped — retired law, never captured), ${s.failed} failed, ` +
+      `${s.mixedLaw} mixed-law label collisions`
+  );
+  return 0;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    console.error(`FATAL: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+);
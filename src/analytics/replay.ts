@@ -0,0 +1,220 @@
+/**
+ * OPERATIONAL offline replay — proves the reproducibility contract
+ * (docs/VALIDATOR_REPLAY_SPEC.v0.1.md) against captured production data.
+ *
+ * For one `scoring_context` document (Mongo row or exported JSONL line):
+ *   1. the canonical USS is the captured `rawUss` (the exact ctx.signal the
+ *      live pass scored);
+ *   2. the registered strategy is the one whose manifestHash +
+ *      analystConfigHash match the captured compositionRef — a row produced
+ *      under a composition the current registries no longer carry is
+ *      reported unreplayable, never re-scored under a different graph;
+ *   3. the pipeline is re-executed by the SAME scoring service over a
+ *      GraphExecutor whose analysis-lane plugins are a recorded-provider
+ *      stand-in: each lane returns the captured lane result for its category
+ *      (no provider, price feed or network is touched), so merge, scorer,
+ *      join and summary logic run exactly as live;
+ *   4. executionSummaryHash, enrichmentHash and the analyst score are diffed
+ *      against what was captured, per signal.
+ *
+ * PLANE RULES: non-normative like the store it reads. A replay never writes
+ * anything; drift is a report, not a verdict over the sealed evidence.
+ */
+import { createCompositionExecutor, type RuntimeComposition } from "../config/runtimeComposition.js";
+import { canonicalize } from "../pipeline/hashing.js";
+import type { CompositionRefV1 } from "../pipeline/manifestTypes.js";
+import { ok, SILENT_NODE_LOGGER, type AnalysisNodePlugin } from "../pipeline/nodeSdk.js";
+import { pluginKey, type PluginRegistry } from "../pipeline/pluginRegistry.js";
+import type { ResolvedStrategy } from "../pipeline/registryLoader.js";
+import {
+  ANALYSIS_LANES,
+  scoreRegisteredStrategyFromCanonicalUss,
+} from "../services/graphScoringService.js";
+import type { CanonicalUss } from "../types/canonicalUss.js";
+
+/** The scoring_context fields a replay reads (see scoringContextStore.ts). */
+export interface ScoringContextDoc {
+  signalId: string;
+  rawUss?: unknown;
+  compositionRef?: CompositionRefV1;
+  analystScore?: unknown;
+  /** The lane results the live join consumed, by category (absent on old rows). */
+  laneResults?: Record<string, unknown>;
+}
+
+export type ReplayField = "executionSummaryHash" | "enrichmentHash" | "analystScore";
+
+export interface ReplayDrift {
+  field: ReplayField;
+  captured: unknown;
+  replayed: unknown;
+}
+
+export interface ReplayReport {
+  signalId: string;
+  /** match: all three agree; drift: at least one differs; unreplayable: see reason. */
+  status: "match" | "drift" | "unreplayable";
+  reason?: string;
+  drift: ReplayDrift[];
+}
+
+/**
+ * analystScore fields that are wall-clock, not score: excluded from the diff
+ * (the oracle goldens mask the same field as <CLOCK>).
+ */
+const VOLATILE_SCORE_FIELDS: readonly string[] = ["scoredAt"];
+
+function comparableScore(score: unknown): string {
+  if (score === null || typeof score !== "object" || Array.isArray(score)) return canonicalize(score);
+  const rest: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(score)) {
+    if (!VOLATILE_SCORE_FIELDS.includes(key)) rest[key] = value;
+  }
+  // JSON round-trip first: a captured row has been through BSON/JSON already.
+  return canonicalize(JSON.parse(JSON.stringify(rest)));
+}
+
+/** The registered strategy a captured compositionRef was produced under. */
+function strategyFor(
+  ref: CompositionRefV1,
+  composition: RuntimeComposition
+): ResolvedStrategy | undefined {
+  for (const resolved of composition.runtime.strategies.values()) {
+    if (
+      resolved.pipeline.pipelineId === ref.pipelineId &&
+      resolved.manifestHash.value === ref.manifestHash.value &&
+      resolved.analystConfigHash.value === ref.analystConfigHash.value
+    ) {
+      return resolved;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The recorded-provider stand-in: every analysis-lane plugin of `resolved`'s
+ * pipeline returns the captured result for its category; every other plugin
+ * (merge, scorer, transforms) is the live binding. A lane with no captured
+ * result fails, exactly as the live lane that produced nothing did.
+ */
+function recordedLaneRegistry(
+  live: PluginRegistry,
+  resolved: ResolvedStrategy,
+  laneResults: Record<string, unknown>
+): PluginRegistry {
+  const recorded = new Map<string, AnalysisNodePlugin>();
+  for (const node of resolved.pipeline.nodes) {
+    if (!ANALYSIS_LANES.has(node.category)) continue;
+    const category = node.category;
+    const manifestRef = { pluginId: node.pluginId, pluginVersion: node.pluginVersion };
+    recorded.set(pluginKey(node.pluginId, node.pluginVersion), {
+      manifestRef,
+      async run() {
+        const result = laneResults[category];
+        if (result === undefined) {
+          throw new Error(`replay: no recorded '${category}' lane result`);
+        }
+        // Each run gets its own copy: a node may never mutate the recording.
+        return ok(JSON.parse(JSON.stringify(result)));
+      },
+    });
+  }
+  return {
+    get: (id, version) => recorded.get(pluginKey(id, version)) ?? live.get(id, version),
+    has: (id, version) => recorded.has(pluginKey(id, version)) || live.has(id, version),
+    keys: () => live.keys(),
+  };
+}
+
+/** Replay one captured scoring context and diff it against the capture. */
+export async function replayScoringContext(
+  doc: ScoringContextDoc,
+  composition: RuntimeComposition
+): Promise<ReplayReport> {
+  const unreplayable = (reason: string): ReplayReport => ({
+    signalId: doc.signalId,
+    status: "unreplayable",
+    reason,
+    drift: [],
+  });
+
+  if (!doc.rawUss || typeof doc.rawUss !== "object") return unreplayable("no rawUss captured");
+  const ref = doc.compositionRef;
+  if (!ref?.executionSummaryHash || !ref.enrichmentHash) {
+    return unreplayable("no compositionRef hashes captured");
+  }
+  if (!doc.laneResults || typeof doc.laneResults !== "object") {
+    return unreplayable("no lane results captured (row predates lane capture)");
+  }
+  const resolved = strategyFor(ref, composition);
+  if (!resolved) {
+    return unreplayable(
+      `composition ${ref.pipelineId}@${ref.pipelineVersion} (manifestHash ${ref.manifestHash.value}) is not registered`
+    );
+  }
+
+  const executor = createCompositionExecutor(
+    recordedLaneRegistry(composition.pluginRegistry, resolved, doc.laneResults),
+    composition.runtime,
+    {
+      logger: SILENT_NODE_LOGGER,
+      // Recorded lanes are instantaneous; retry backoff would only add latency.
+      sleep: async () => {},
+    }
+  );
+
+  let run: Awaited<ReturnType<typeof scoreRegisteredStrategyFromCanonicalUss>>;
+  try {
+    run = await scoreRegisteredStrategyFromCanonicalUss(doc.rawUss as CanonicalUss, resolved, {
+      ...composition,
+      executor,
+    });
+  } catch (error) {
+    return unreplayable(`replay failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const drift: ReplayDrift[] = [];
+  if (run.composition.executionSummaryHash.value !== ref.executionSummaryHash.value) {
+    drift.push({
+      field: "executionSummaryHash",
+      captured: ref.executionSummaryHash.value,
+      replayed: run.composition.executionSummaryHash.value,
+    });
+  }
+  if (run.composition.enrichmentHash.value !== ref.enrichmentHash.value) {
+    drift.push({
+      field: "enrichmentHash",
+      captured: ref.enrichmentHash.value,
+      replayed: run.composition.enrichmentHash.value,
+    });
+  }
+  if (comparableScore(run.scored.analystScore) !== comparableScore(doc.analystScore)) {
+    drift.push({ field: "analystScore", captured: doc.analystScore, replayed: run.scored.analystScore });
+  }
+
+  return { signalId: doc.signalId, status: drift.length > 0 ? "drift" : "match", drift };
+}
+
+/**
+ * Parse exported scoring_context rows (one JSON document per line, e.g.
+ * `mongoexport --collection scoring_context`). Blank lines are skipped; a
+ * malformed line or a row without a signalId throws with its line number —
+ * a replay never silently drops input.
+ */
+export function parseScoringContextJsonl(text: string): ScoringContextDoc[] {
+  const docs: ScoringContextDoc[] = [];
+  text.split("\n").forEach((line, i) => {
+    if (line.trim() === "") return;
+    let row: unknown;
+    try {
+      row = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`line ${i + 1}: not JSON (${error instanceof Error ? error.message : String(error)})`);
+    }
+    if (!row || typeof row !== "object" || typeof (row as ScoringContextDoc).signalId !== "string") {
+      throw new Error(`line ${i + 1}: not a scoring_context row (no signalId)`);
+    }
+    docs.push(row as ScoringContextDoc);
+  });
+  return docs;
+}
@@ -0,0 +1,90 @@
+/**
+ * `npm run replay` — offline replay of captured scoring contexts
+ * (src/analytics/replay.ts) under the CURRENT boot-validated composition.
+ *
+ * Usage:
+ *   npm run replay -- --file scoring_context.jsonl
+ *   AFI_EVIDENCE_MONGODB_URI='mongodb+srv://…' npm run replay -- [--since 2026-10-01T00:00:00Z] [--limit 500] [--signal <signalId>] [--db afi_signal_analytics]
+ *
+ * Prints one JSON report per signal on stdout and a summary on stderr. Exit
+ * code 0 = every replayable signal matched, 1 = drift found, 2 = fatal.
+ * Read-only: nothing is written anywhere.
+ */
+import { readFile } from "node:fs/promises";
+import { MongoClient, type Document } from "mongodb";
+import { getRuntimeComposition, preloadPluginBundles } from "../config/runtimeComposition.js";
+import { SCORING_CONTEXT_COLLECTION } from "./scoringContextStore.js";
+import {
+  parseScoringContextJsonl,
+  replayScoringContext,
+  type ReplayReport,
+  type ScoringContextDoc,
+} from "./replay.js";
+
+const args = process.argv.slice(2);
+const argOf = (flag: string): string | undefined => {
+  const i = args.indexOf(flag);
+  return i >= 0 && args[i + 1] ? args[i + 1] : undefined;
+};
+
+async function loadFromMongo(): Promise<ScoringContextDoc[]> {
+  const uri = process.env.AFI_EVIDENCE_MONGODB_URI;
+  if (!uri) {
+    throw new Error("pass --file <export.jsonl> or set AFI_EVIDENCE_MONGODB_URI (analytics db, same cluster)");
+  }
+  const filter: Document = {};
+  const signalId = argOf("--signal");
+  const since = argOf("--since");
+  if (signalId) filter.signalId = signalId;
+  if (since) {
+    if (!Number.isFinite(Date.parse(since))) throw new Error(`--since '${since}' is not an ISO timestamp`);
+    filter.capturedAt = { $gte: new Date(since).toISOString() };
+  }
+  const limit = Number(argOf("--limit") ?? 0);
+  if (!Number.isInteger(limit) || limit < 0) throw new Error(`--limit must be a non-negative integer`);
+
+  const client = new MongoClient(uri);
+  try {
+    await client.connect();
+    const rows = await client
+      .db(argOf("--db") || process.env.AFI_ANALYTICS_DB_NAME || "afi_signal_analytics")
+      .collection(SCORING_CONTEXT_COLLECTION)
+      .find(filter, { projection: { _id: 0 } })
+      .sort({ capturedAt: 1 })
+      .limit(limit)
+      .toArray();
+    return rows as unknown as ScoringContextDoc[];
+  } finally {
+    await client.close().catch(() => {});
+  }
+}
+
+async function main(): Promise<number> {
+  const file = argOf("--file");
+  const docs = file ? parseScoringContextJsonl(await readFile(file, "utf-8")) : await loadFromMongo();
+  // Bundle-backed nodes score here exactly as on the server: verify and
+  // import the pinned bundles before the composition binds them.
+  await preloadPluginBundles();
+  const composition = getRuntimeComposition();
+
+  const counts: Record<ReplayReport["status"], number> = { match: 0, drift: 0, unreplayable: 0 };
+  for (const doc of docs) {
+    const report = await replayScoringContext(doc, composition);
+    counts[report.status] += 1;
+    process.stdout.write(JSON.stringify(report) + "\n");
+  }
+  console.error(
+    `[replay] ${docs.length} signal(s): ${counts.match} match, ${counts.drift} drift, ${counts.unreplayable} unreplayable`
+  );
+  return counts.drift > 0 ? 1 : 0;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    console.error(`FATAL: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 2;
+  }
+);
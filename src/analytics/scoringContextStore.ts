@@ -84,12 +84,18 @@ async function withContextCollection<T>(
  * about WHICH registered configuration produced the score. Analytics-plane
  * projection only: non-normative, additive, and verifiable against the
  * sealed evidence record via signalId, never the other way round.
+ *
+ * `laneResults`: the per-category lane results the run's join consumed — the
+ * recording the offline replay (src/analytics/replay.ts) feeds back through
+ * the graph in place of the providers. Verifiable against the sealed
+ * record's per-lane categoryResultHash, like every other field here.
  */
 export function captureScoringContext(
   scored: ReactorScoredSignalV1,
   persistenceOutcome: unknown,
   route: string,
-  compositionRef?: CompositionRefV1
+  compositionRef?: CompositionRefV1,
+  laneResults?: Partial<Record<string, unknown>>
 ): Promise<void> {
   if (!enabled()) return Promise.resolve();
   return withContextCollection(async (col) => {
@@ -102,7 +108,7 @@ export function captureScoringContext(
     };
     // The analytics doc's meta is self-describing about the instrument: the
     // governed USS fact (facts.market: "perp" | "spot") rides along so
-    // consumers (capture-outcomes) never infer the market from symbol
+    // consumers (the outcome tracker) never infer the market from symbol
     // notation. Analytics-plane projection only — scored.meta itself is
     // untouched (it feeds the HTTP response, whose bytes goldens pin).
     const factsMarket = (s.rawUss as { facts?: { market?: unknown } } | undefined)
@@ -131,6 +137,7 @@ export function captureScoringContext(
           rawUss: s.rawUss,
           lenses: s.lenses,
           priceFeedMetadata: s._priceFeedMetadata,
+          laneResults,
         },
       },
       { upsert: true }
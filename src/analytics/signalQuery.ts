@@ -0,0 +1,314 @@
+/**
+ * OPERATIONAL read side — what the reactor scored, read back.
+ *
+ * Serves GET /api/signals/:signalId and GET /api/signals: each signal is
+ * projected from its scoring_context document (meta, analyst score, the
+ * composition stamp, the captured lane results) and, where the canonical
+ * store has it, the sealed evidence record's integrity commitments
+ * (recordHash, replayHash, per-lane categoryResultHash).
+ *
+ * PORT: storage is behind SignalQueryPort. The Mongo implementation reads the
+ * analytics database with a SHORT-LIVED client per query (same lifecycle as
+ * scoringContextStore.ts) and takes evidence lookups as an injected function,
+ * because this module — like every analytics module — must never import from
+ * src/evidence/. The in-memory implementation serves tests.
+ *
+ * NON-NORMATIVE: a view is a convenience projection. The evidence hashes are
+ * copied, never recomputed; the sealed record stays the only protocol truth.
+ */
+import { MongoClient, type Collection, type Document, type Filter } from "mongodb";
+import type { CanonicalHashRef } from "../pipeline/hashing.js";
+import type { CompositionRefV1 } from "../pipeline/manifestTypes.js";
+import type { ProviderInvocationProofV1 } from "../providers/invocationProof.js";
+import { SCORING_CONTEXT_COLLECTION } from "./scoringContextStore.js";
+
+const ANALYTICS_DB_ENV = "AFI_ANALYTICS_DB_NAME";
+const URI_ENV = "AFI_EVIDENCE_MONGODB_URI";
+const DEFAULT_DB = "afi_signal_analytics";
+
+export const SIGNAL_VIEW_SCHEMA = "afi.operational.signal-view.v0";
+export const DEFAULT_SIGNAL_QUERY_LIMIT = 50;
+export const MAX_SIGNAL_QUERY_LIMIT = 500;
+
+/** The scoring_context fields a view reads (afi.operational.scoring-context.v0). */
+export interface ScoringContextRecord {
+  signalId: string;
+  capturedAt: string;
+  route?: string;
+  scoredAt?: string;
+  meta?: { symbol?: string; timeframe?: string; strategy?: string; direction?: string; source?: string; market?: string };
+  compositionRef?: CompositionRefV1;
+  analystScore?: unknown;
+  uwrResolvedSource?: unknown;
+  decayParams?: unknown;
+  persistenceOutcome?: unknown;
+  laneResults?: Partial<Record<string, unknown>>;
+}
+
+/** The evidence-record fields a view reads; everything else is ignored. */
+export interface EvidenceRecordLike {
+  signalId?: string;
+  analystId?: string;
+  strategyId?: string;
+  strategyVersion?: string;
+  recordHash?: CanonicalHashRef;
+  replayHash?: CanonicalHashRef;
+  composition?: CompositionRefV1;
+  providerInvocations?: ProviderInvocationProofV1[];
+}
+
+/** Evidence lookup by signalId; null when the canonical store has no record. */
+export type EvidenceLookup = (signalId: string) => Promise<EvidenceRecordLike | null>;
+
+export interface SignalQueryFilter {
+  strategy?: string;
+  symbol?: string;
+  /** Inclusive ISO lower bound on capturedAt. */
+  from?: string;
+  /** Inclusive ISO upper bound on capturedAt. */
+  to?: string;
+  limit: number;
+}
+
+export interface SignalQueryPort {
+  findContext(signalId: string): Promise<ScoringContextRecord | null>;
+  /** Matching contexts, newest capture first, at most `filter.limit`. */
+  findContexts(filter: SignalQueryFilter): Promise<ScoringContextRecord[]>;
+  findEvidence: EvidenceLookup;
+}
+
+export interface SignalLaneSummary {
+  category: string;
+  /** The lane result was captured in the scoring context (replayable). */
+  captured: boolean;
+  providerId?: string;
+  providerInstanceId?: string;
+  adapterId?: string;
+  adapterVersion?: string;
+  priceSource?: string;
+  categoryResultHash?: CanonicalHashRef;
+}
+
+export interface SignalView {
+  schema: typeof SIGNAL_VIEW_SCHEMA;
+  signalId: string;
+  capturedAt: string;
+  scoredAt?: string;
+  route?: string;
+  meta?: ScoringContextRecord["meta"];
+  analystScore?: unknown;
+  uwrResolvedSource?: unknown;
+  decayParams?: unknown;
+  persistenceOutcome?: unknown;
+  compositionRef: CompositionRefV1 | null;
+  lanes: SignalLaneSummary[];
+  evidence: {
+    analystId?: string;
+    strategyId?: string;
+    strategyVersion?: string;
+    recordHash?: CanonicalHashRef;
+    replayHash?: CanonicalHashRef;
+  } | null;
+}
+
+/** A malformed signal query (HTTP 400). */
+export class SignalQueryError extends Error {
+  readonly httpStatus = 400 as const;
+  constructor(message: string) {
+    super(message);
+    this.name = "SignalQueryError";
+  }
+}
+
+/** Project one scoring context (+ its evidence record, if any) into a view. */
+export function toSignalView(ctx: ScoringContextRecord, evidence: EvidenceRecordLike | null): SignalView {
+  const proofs = new Map((evidence?.providerInvocations ?? []).map((p) => [p.category as string, p]));
+  const categories = [...new Set([...Object.keys(ctx.laneResults ?? {}), ...proofs.keys()])].sort();
+  const lanes = categories.map((category): SignalLaneSummary => {
+    const proof = proofs.get(category);
+    return {
+      category,
+      captured: ctx.laneResults?.[category] !== undefined,
+      ...(proof
+        ? {
+            providerId: proof.provider?.providerId,
+            providerInstanceId: proof.providerInstance?.providerInstanceId,
+            adapterId: proof.adapter?.adapterId,
+            adapterVersion: proof.adapter?.adapterVersion,
+            ...(proof.priceSource !== undefined ? { priceSource: proof.priceSource } : {}),
+            categoryResultHash: proof.categoryResultHash,
+          }
+        : {}),
+    };
+  });
+  return {
+    schema: SIGNAL_VIEW_SCHEMA,
+    signalId: ctx.signalId,
+    capturedAt: ctx.capturedAt,
+    scoredAt: ctx.scoredAt,
+    route: ctx.route,
+    meta: ctx.meta,
+    analystScore: ctx.analystScore,
+    uwrResolvedSource: ctx.uwrResolvedSource,
+    decayParams: ctx.decayParams,
+    persistenceOutcome: ctx.persistenceOutcome,
+    compositionRef: ctx.compositionRef ?? evidence?.composition ?? null,
+    lanes,
+    evidence: evidence
+      ? {
+          analystId: evidence.analystId,
+          strategyId: evidence.strategyId,
+          strategyVersion: evidence.strategyVersion,
+          recordHash: evidence.recordHash,
+          replayHash: evidence.replayHash,
+        }
+      : null,
+  };
+}
+
+export async function getSignalView(port: SignalQueryPort, signalId: string): Promise<SignalView | null> {
+  const ctx = await port.findContext(signalId);
+  if (!ctx) return null;
+  return toSignalView(ctx, await port.findEvidence(signalId));
+}
+
+export async function listSignalViews(port: SignalQueryPort, filter: SignalQueryFilter): Promise<SignalView[]> {
+  const contexts = await port.findContexts(filter);
+  return Promise.all(contexts.map(async (ctx) => toSignalView(ctx, await port.findEvidence(ctx.signalId))));
+}
+
+/** Parse ?strategy=&symbol=&from=&to=&limit= (bounds: ISO or epoch ms). */
+export function parseSignalQuery(query: Record<string, unknown>): SignalQueryFilter {
+  const str = (key: string): string | undefined => {
+    const value = query[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== "string" || value.trim() === "") {
+      throw new SignalQueryError(`'${key}' must be a single non-empty value`);
+    }
+    return value.trim();
+  };
+  const instant = (key: string): string | undefined => {
+    const raw = str(key);
+    if (raw === undefined) return undefined;
+    const ms = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+    if (!Number.isFinite(ms)) throw new SignalQueryError(`'${key}' is not an ISO timestamp or epoch milliseconds`);
+    return new Date(ms).toISOString();
+  };
+  const from = instant("from");
+  const to = instant("to");
+  if (from !== undefined && to !== undefined && from > to) {
+    throw new SignalQueryError(`'from' must not be after 'to'`);
+  }
+  const limitRaw = str("limit");
+  const limit = limitRaw === undefined ? DEFAULT_SIGNAL_QUERY_LIMIT : Number(limitRaw);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SIGNAL_QUERY_LIMIT) {
+    throw new SignalQueryError(`'limit' must be an integer in [1, ${MAX_SIGNAL_QUERY_LIMIT}]`);
+  }
+  return { strategy: str("strategy"), symbol: str("symbol"), from, to, limit };
+}
+
+function matches(ctx: ScoringContextRecord, filter: SignalQueryFilter): boolean {
+  return (
+    (filter.strategy === undefined || ctx.meta?.strategy === filter.strategy) &&
+    (filter.symbol === undefined || ctx.meta?.symbol === filter.symbol) &&
+    (filter.from === undefined || ctx.capturedAt >= filter.from) &&
+    (filter.to === undefined || ctx.capturedAt <= filter.to)
+  );
+}
+
+/** In-memory port (tests). */
+export function createMemorySignalQueryPort(
+  seed: { contexts?: ScoringContextRecord[]; evidence?: EvidenceRecordLike[] } = {}
+): SignalQueryPort {
+  const contexts = [...(seed.contexts ?? [])];
+  const evidence = new Map((seed.evidence ?? []).map((r) => [r.signalId, r] as const));
+  return {
+    async findContext(signalId) {
+      return contexts.find((c) => c.signalId === signalId) ?? null;
+    },
+    async findContexts(filter) {
+      return contexts
+        .filter((c) => matches(c, filter))
+        .sort((a, b) => (a.capturedAt < b.capturedAt ? 1 : a.capturedAt > b.capturedAt ? -1 : 0))
+        .slice(0, filter.limit);
+    },
+    async findEvidence(signalId) {
+      return evidence.get(signalId) ?? null;
+    },
+  };
+}
+
+const CONTEXT_PROJECTION = {
+  _id: 0,
+  signalId: 1,
+  capturedAt: 1,
+  route: 1,
+  scoredAt: 1,
+  meta: 1,
+  compositionRef: 1,
+  analystScore: 1,
+  uwrResolvedSource: 1,
+  decayParams: 1,
+  persistenceOutcome: 1,
+  laneResults: 1,
+};
+
+/** Mongo port over the analytics database; evidence comes from `evidence`. */
+export function createMongoSignalQueryPort(options: {
+  uri: string;
+  dbName?: string;
+  evidence: EvidenceLookup;
+}): SignalQueryPort {
+  const withContexts = async <T>(fn: (col: Collection<Document>) => Promise<T>): Promise<T> => {
+    const client = new MongoClient(options.uri);
+    try {
+      await client.connect();
+      return await fn(client.db(options.dbName ?? DEFAULT_DB).collection(SCORING_CONTEXT_COLLECTION));
+    } finally {
+      await client.close().catch(() => {});
+    }
+  };
+  return {
+    findContext: (signalId) =>
+      withContexts(
+        async (col) =>
+          (await col.findOne({ signalId }, { projection: CONTEXT_PROJECTION })) as ScoringContextRecord | null
+      ),
+    findContexts: (filter) =>
+      withContexts(async (col) => {
+        const query: Filter<Document> = {};
+        if (filter.strategy !== undefined) query["meta.strategy"] = filter.strategy;
+        if (filter.symbol !== undefined) query["meta.symbol"] = filter.symbol;
+        if (filter.from !== undefined || filter.to !== undefined) {
+          query.capturedAt = {
+            ...(filter.from !== undefined ? { $gte: filter.from } : {}),
+            ...(filter.to !== undefined ? { $lte: filter.to } : {}),
+          };
+        }
+        return (await col
+          .find(query, { projection: CONTEXT_PROJECTION })
+          .sort({ capturedAt: -1 })
+          .limit(filter.limit)
+          .toArray()) as unknown as ScoringContextRecord[];
+      }),
+    findEvidence: options.evidence,
+  };
+}
+
+let injected: SignalQueryPort | null = null;
+
+/** Inject a port (tests / composition root). Pass null to clear. */
+export function setSignalQueryPort(port: SignalQueryPort | null): void {
+  injected = port;
+}
+
+/**
+ * The injected port, else the Mongo port when AFI_EVIDENCE_MONGODB_URI is
+ * set (analytics db AFI_ANALYTICS_DB_NAME), else null (read API disabled).
+ */
+export function resolveSignalQueryPort(evidence: EvidenceLookup): SignalQueryPort | null {
+  if (injected) return injected;
+  const uri = process.env[URI_ENV];
+  if (!uri) return null;
+  return createMongoSignalQueryPort({ uri, dbName: process.env[ANALYTICS_DB_ENV] || DEFAULT_DB, evidence });
+}
@@ -14,23 +14,50 @@
  *    lazy discovery at request time).
  *  - `getRuntimeComposition()` returns the initialized composition (lazily
  *    initializing under test imports, where the server never listens).
+ *  - `reloadRuntimeComposition()` re-runs the same validation into a FRESH
+ *    composition and swaps it in only when validation passes; an invalid
+ *    registry leaves the serving composition untouched. Requests hold the
+ *    composition they started on, so in-flight runs finish on the old one.
+ *    Reloads are serialized. A reloaded composition starts with a fresh
+ *    provider runtime (circuit state) and node result cache; the replaced
+ *    one is left for GC, never disposed under an in-flight run.
+ *    `watchRuntimeRegistries()` (AFI_REGISTRY_WATCH=1) triggers a reload
+ *    when files under the registry root change.
  *
  * This module (with src/pipeline/registryLoader.ts it calls) is the ONLY
  * reader of these registries — never the D2 evidence/provenance surfaces
  * (RC-7 string bans, dirs per DSC-GOV D-DSC-8; the uwr-profiles registry
  * keeps its own single authorized reader, src/config/uwrRuntimeProfile.ts).
  *
+ * Signed plugin bundles (src/pipeline/pluginBundles.ts) are the one async
+ * step: `preloadPluginBundles()` verifies and imports every pinned bundle
+ * BEFORE `initRuntimeComposition()`, which then binds the admitted nodes and
+ * adapters alongside the build-time ones. A configured bundle directory that
+ * was never preloaded refuses boot.
+ *
  * Test seams (same discipline as __resetUwrRuntimeConfigForTests): tests may
  * point the composition at a fixture/overlay registry root and/or inject a
  * test plugin registry. Production code never calls the seams.
  */
-import { GraphExecutor } from "../pipeline/executor.js";
+import { watch } from "node:fs";
+import { GraphExecutor, type GraphExecutorOptions } from "../pipeline/executor.js";
+import { canonicalize, sha256Hex } from "../pipeline/hashing.js";
 import type { NodeLogger } from "../pipeline/nodeSdk.js";
+import { nodeResultCacheFromEnv } from "../pipeline/nodeResultCache.js";
 import {
   builtinPluginRegistry,
   type PluginRegistry,
 } from "../pipeline/pluginRegistry.js";
 import {
+  bundleAdapters,
+  bundleNodes,
+  loadPluginBundles,
+  pluginBundleConfigFromEnv,
+  type LoadedPluginBundle,
+} from "../pipeline/pluginBundles.js";
+import {
+  defaultConfigRoot,
+  loadAnalysisPluginManifests,
   loadProviderRecords,
   validateRuntimeConfig,
   type ValidatedRuntimeConfig,
@@ -39,12 +66,22 @@ import { scrubbingLogger } from "../providers/redaction.js";
 import {
   buildProviderRuntime,
   builtinProviderAdapters,
+  circuitBreakerFromEnv,
   createProviderRecordStore,
+  providerRecordingFromEnv,
+  secretResolverFromEnv,
   type ProviderRecordStore,
 } from "../providers/index.js";
 import { createReferenceSecretResolver } from "../providers/referenceSecretBackend.js";
 import type { SecretResolver } from "../providers/secretResolver.js";
 import type { ProviderRuntime } from "../providers/providerRuntime.js";
+import {
+  countNodeCacheHit,
+  countNodeRetry,
+  countProviderError,
+  countRegistryReload,
+} from "../services/metricsService.js";
+import { positiveIntFromEnv } from "../utils/envConfig.js";
 
 export interface RuntimeComposition {
   /** The boot-validated registries + resolved active strategies. */
@@ -69,6 +106,28 @@ export interface RuntimeComposition {
    * themselves never read registries (RC-7).
    */
   providerRecordStore: ProviderRecordStore;
+  /**
+   * The signed plugin bundles this composition admitted (preloadPluginBundles).
+   * Offline compositions that rebuild the provider runtime (backtest) re-bind
+   * their nodes and adapters from here so they score with the same plugin set.
+   */
+  pluginBundles: ReadonlyArray<LoadedPluginBundle>;
+  /**
+   * sha256 over the canonical validated composition: the resolved strategies'
+   * manifest / analyst-config / plugin-set hashes, the provider bindings, the
+   * analysis-plugin manifests, the provider records and the bound plugin keys.
+   * Operational identity for reload reporting — never evidence material.
+   */
+  compositionHash: string;
+}
+
+/** The outcome of a successful reloadRuntimeComposition(). */
+export interface RuntimeCompositionReload {
+  compositionHash: string;
+  /** The hash of the composition replaced (absent when none was initialized). */
+  previousCompositionHash?: string;
+  /** False when the registries validated to the composition already serving. */
+  changed: boolean;
 }
 
 /** Structured operational node logger (console-backed; never hash material). */
@@ -98,12 +157,38 @@ const CONSOLE_NODE_LOGGER: NodeLogger = scrubbingLogger(RAW_CONSOLE_NODE_LOGGER)
 interface CompositionOverrides {
   configRoot?: string;
   pluginRegistry?: PluginRegistry;
-  /** TEST-ONLY: inject a secret resolver (defaults to the env-backed reference backend). */
+  /** TEST-ONLY: inject a secret resolver (defaults to AFI_SECRET_BACKEND, else the env-backed reference backend). */
   secretResolver?: SecretResolver;
 }
 
 let overrides: CompositionOverrides | undefined;
 let current: RuntimeComposition | undefined;
+let preloadedBundles: LoadedPluginBundle[] | undefined;
+let reloadChain: Promise<unknown> = Promise.resolve();
+
+/** The configured plugin bundles, verified and imported ([] when unconfigured). */
+async function loadConfiguredBundles(): Promise<LoadedPluginBundle[]> {
+  const config = pluginBundleConfigFromEnv();
+  return config
+    ? await loadPluginBundles({
+        manifests: loadAnalysisPluginManifests({ configRoot: overrides?.configRoot }),
+        ...config,
+      })
+    : [];
+}
+
+/**
+ * Boot step (async, BEFORE initRuntimeComposition): verify and import every
+ * plugin bundle pinned by a governed analysis-plugin manifest under
+ * AFI_PLUGIN_BUNDLE_DIR. Throws PluginBundleError on any bundle that does not
+ * match its pin — callers (server boot) must NOT catch-and-serve. A no-op when
+ * no bundle directory is configured.
+ */
+export async function preloadPluginBundles(): Promise<LoadedPluginBundle[]> {
+  preloadedBundles = await loadConfiguredBundles();
+  current = undefined;
+  return preloadedBundles;
+}
 
 /**
  * Boot gate: validate the ACTIVE registry composition and build the executor.
@@ -111,38 +196,185 @@ let current: RuntimeComposition | undefined;
  * (server boot) must NOT catch-and-serve.
  */
 export function initRuntimeComposition(): RuntimeComposition {
+  if (preloadedBundles === undefined && pluginBundleConfigFromEnv()) {
+    throw new Error("AFI_PLUGIN_BUNDLE_DIR is set but preloadPluginBundles() did not run before initRuntimeComposition()");
+  }
+  current = buildRuntimeComposition(preloadedBundles ?? []);
+  return current;
+}
+
+/** Validate the registries and build a composition — never installs it. */
+function buildRuntimeComposition(bundles: LoadedPluginBundle[]): RuntimeComposition {
+  const extraAdapters = bundleAdapters(bundles);
+
   // 1. Load + validate the governed provider/instance/credential-ref
   //    registries (fail-closed), and build the provider runtime FIRST — the
   //    five lane plugins are provider-backed and bind against it.
   const providerRecords = loadProviderRecords({ configRoot: overrides?.configRoot });
   const records = createProviderRecordStore(providerRecords);
-  const resolver = overrides?.secretResolver ?? createReferenceSecretResolver();
-  const providerRuntime = buildProviderRuntime({ records, resolver });
+  const resolver = overrides?.secretResolver ?? secretResolverFromEnv() ?? createReferenceSecretResolver();
+  const providerRuntime = buildProviderRuntime({
+    records,
+    resolver,
+    recording: providerRecordingFromEnv(),
+    onProviderError: (event) => countProviderError(event.code, event.providerInstanceId),
+    breaker: circuitBreakerFromEnv(),
+    extraAdapters,
+  });
 
   // 2. Build the plugin registry over the provider runtime, then validate the
   //    whole registry composition (incl. the D-FLPR-4 explicit-selection law:
   //    every lane node's providerInstanceRef must resolve fail-closed).
-  const pluginRegistry = overrides?.pluginRegistry ?? builtinPluginRegistry(providerRuntime);
+  const pluginRegistry =
+    overrides?.pluginRegistry ?? builtinPluginRegistry(providerRuntime, bundleNodes(bundles, providerRuntime));
   const runtime = validateRuntimeConfig({
     pluginRegistry,
     configRoot: overrides?.configRoot,
     providerRecords,
-    providerAdapterKeys: builtinProviderAdapters().map((a) => `${a.adapterId}@${a.adapterVersion}`),
+    providerAdapterKeys: [...builtinProviderAdapters(), ...extraAdapters].map((a) => `${a.adapterId}@${a.adapterVersion}`),
   });
-  const executor = new GraphExecutor({
-    registry: pluginRegistry,
-    pluginManifests: runtime.registries.analysisPlugins,
+  const executor = createCompositionExecutor(pluginRegistry, runtime, {
     logger: CONSOLE_NODE_LOGGER,
+    resultCache: nodeResultCacheFromEnv(),
     onNodeEvent: (event) => {
       // Structured per-node metrics { nodeId, status, durationMs, attempt } —
       // operational only, NEVER part of any hashed artifact.
       console.log(
         `[pipeline] node=${event.nodeId} status=${event.status} durationMs=${event.durationMs} attempt=${event.attempt}`
       );
+      if (event.status === "retry") countNodeRetry(event.nodeId);
+      if (event.status === "cache-hit") countNodeCacheHit(event.nodeId);
     },
   });
-  current = { runtime, pluginRegistry, executor, providerRuntime, providerRecordStore: records };
-  return current;
+  return {
+    runtime,
+    pluginRegistry,
+    executor,
+    providerRuntime,
+    providerRecordStore: records,
+    pluginBundles: bundles,
+    compositionHash: computeCompositionHash(runtime, pluginRegistry, providerRecords),
+  };
+}
+
+/**
+ * The ONE GraphExecutor construction site (DSC-3): binds a plugin registry to
+ * the validated analysis-plugin manifests. The live composition builds its
+ * executor here, and so do the offline replay/backtest compositions, which
+ * swap in their own lane registry over the same validated runtime.
+ */
+export function createCompositionExecutor(
+  registry: PluginRegistry,
+  runtime: ValidatedRuntimeConfig,
+  options: Omit<GraphExecutorOptions, "registry" | "pluginManifests"> = {}
+): GraphExecutor {
+  return new GraphExecutor({ ...options, registry, pluginManifests: runtime.registries.analysisPlugins });
+}
+
+function computeCompositionHash(
+  runtime: ValidatedRuntimeConfig,
+  pluginRegistry: PluginRegistry,
+  providerRecords: unknown
+): string {
+  return sha256Hex(
+    canonicalize({
+      strategies: Object.fromEntries(
+        [...runtime.strategies].map(([key, s]) => [
+          key,
+          {
+            manifestHash: s.manifestHash.value,
+            analystConfigHash: s.analystConfigHash.value,
+            pluginSetHash: s.pluginSetHash.value,
+          },
+        ])
+      ),
+      bindings: Object.fromEntries(runtime.bindings),
+      analysisPlugins: Object.fromEntries(runtime.registries.analysisPlugins),
+      providerRecords,
+      plugins: [...pluginRegistry.keys()].sort(),
+    })
+  );
+}
+
+/**
+ * Re-validate the registries (and re-verify any pinned plugin bundles) into a
+ * fresh composition and swap it in atomically. Throws — RuntimeConfigValidationError,
+ * PluginBundleError — WITHOUT touching the serving composition when anything
+ * is invalid. Concurrent calls run one after another.
+ *
+ * The replaced composition is NOT disposed: runs that started on it still
+ * hold it and must finish on its provider runtime, and no request registers
+ * when it lets go. Nothing in it needs an explicit release — the circuit
+ * breaker, the OAuth2 token cache, the secret resolver's TTL cache and the
+ * node result cache are plain in-memory maps with no timers, sockets or file
+ * handles — so it is left for GC once the last in-flight run drops it. Until
+ * then its cached secrets and tokens stay in memory, exactly as they would
+ * have without the reload.
+ */
+export function reloadRuntimeComposition(): Promise<RuntimeCompositionReload> {
+  const reload = reloadChain.then(async () => {
+    const previous = current;
+    try {
+      const bundles = await loadConfiguredBundles();
+      const next = buildRuntimeComposition(bundles);
+      preloadedBundles = bundles;
+      current = next;
+      countRegistryReload("succeeded");
+      return {
+        compositionHash: next.compositionHash,
+        ...(previous ? { previousCompositionHash: previous.compositionHash } : {}),
+        changed: next.compositionHash !== previous?.compositionHash,
+      };
+    } catch (err) {
+      countRegistryReload("rejected");
+      throw err;
+    }
+  });
+  reloadChain = reload.catch(() => undefined);
+  return reload;
+}
+
+/**
+ * Registry watch mode from the environment: AFI_REGISTRY_WATCH=1 enables it,
+ * AFI_REGISTRY_WATCH_DEBOUNCE_MS (default 1000) coalesces a burst of file
+ * writes into one reload. Undefined when disabled; throws on a malformed
+ * debounce.
+ */
+export function registryWatchConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): { debounceMs: number } | undefined {
+  if (env.AFI_REGISTRY_WATCH !== "1") return undefined;
+  return { debounceMs: positiveIntFromEnv(env, "AFI_REGISTRY_WATCH_DEBOUNCE_MS", 1000) };
+}
+
+export interface RegistryWatchOptions {
+  debounceMs: number;
+  /** Called after each reload attempt (the error when it was rejected). */
+  onReload?: (outcome: { reload?: RuntimeCompositionReload; error?: unknown }) => void;
+}
+
+/**
+ * Watch the registry root and reload on change (debounced). A rejected reload
+ * keeps the serving composition and waits for the next change. Returns the
+ * function that stops watching.
+ */
+export function watchRuntimeRegistries(options: RegistryWatchOptions): () => void {
+  let timer: NodeJS.Timeout | undefined;
+  const watcher = watch(overrides?.configRoot ?? defaultConfigRoot(), { recursive: true }, () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      reloadRuntimeComposition().then(
+        (reload) => options.onReload?.({ reload }),
+        (error: unknown) => options.onReload?.({ error })
+      );
+    }, options.debounceMs);
+    timer.unref();
+  });
+  watcher.unref();
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
 }
 
 /** The initialized composition (lazy under test imports; eager at server boot). */
@@ -150,6 +382,12 @@ export function getRuntimeComposition(): RuntimeComposition {
   return current ?? initRuntimeComposition();
 }
 
+/** The composition when already initialized — never triggers initialization
+ *  (read-only status surfaces such as /health). */
+export function peekRuntimeComposition(): RuntimeComposition | undefined {
+  return current;
+}
+
 /**
  * TEST-ONLY seam: point the composition at an overlay registry root and/or a
  * test plugin registry, discarding any initialized state. Mirrors the
@@ -165,4 +403,6 @@ export function __setRuntimeCompositionOverridesForTests(o: CompositionOverrides
 export function __resetRuntimeCompositionForTests(): void {
   overrides = undefined;
   current = undefined;
+  preloadedBundles = undefined;
+  reloadChain = Promise.resolve();
 }
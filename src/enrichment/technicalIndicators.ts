@@ -14,22 +14,13 @@
 
 import type { TechnicalLensV1 } from "../types/UssLenses.js";
 import type { AfiCandle } from "../types/AfiCandle.js";
-import { computeFroggyBundle } from "../indicator/froggyProfile.js";
+import { computeFroggyBundle, toFroggyBundle } from "../indicator/froggyProfile.js";
+import {
+  computeIndicatorBundle,
+  type IndicatorBundle,
+  type IndicatorBundleConfig,
+} from "../indicator/indicatorKernel.js";
 
-/**
- * Compute technical enrichment from OHLCV candles.
- *
- * Uses Froggy's indicator profile (powered by AFI Indicator Kernel + `trading-signals`):
- * - EMA-20, EMA-50: Exponential Moving Averages
- * - RSI-14: Relative Strength Index (Wilder's smoothed method)
- * - ATR-14: Average True Range (Wilder's smoothed method)
- *
- * Requires at least 50 candles for EMA-50 calculation.
- * Returns null if insufficient data.
- *
- * @param candles - Array of OHLCV candles (oldest first)
- * @returns TechnicalLensV1 payload or null
- */
 /**
  * AR-GOV D-AR-2: the ATR-percentile regime law.
  *
@@ -66,8 +57,135 @@ export function computeAtrRegime(
   return { atrPercentile, atrRegime };
 }
 
+/**
+ * Strategy-declared indicators beyond Froggy's fixed EMA/RSI/ATR profile —
+ * the technical node's `config.indicators` block. Each declared indicator
+ * rides the technical lens payload under its own name; undeclared ones are
+ * never computed and never emitted.
+ */
+export type DeclaredIndicatorConfig = Pick<
+  IndicatorBundleConfig,
+  "macd" | "bollinger" | "stochastic" | "adx" | "obv" | "vwap"
+>;
+
+/** Options for computeTechnicalEnrichment. */
+export interface TechnicalEnrichmentOptions {
+  /**
+   * Bundle already computed over exactly these candles with
+   * FROGGY_INDICATOR_CONFIG (e.g. by an IndicatorKernelStream); byte-identical
+   * to the batch kernel, so the payload does not change — only the candle
+   * walk is skipped. Omitted → the batch kernel runs.
+   */
+  indicators?: IndicatorBundle | null;
+  /** Strategy-declared extra indicators (parseDeclaredIndicatorConfig). */
+  declared?: DeclaredIndicatorConfig | null;
+}
+
+const MAX_INDICATOR_PERIOD = 500;
+
+function requirePeriod(value: unknown, field: string): number {
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > MAX_INDICATOR_PERIOD) {
+    throw new Error(`indicators.${field} must be an integer in [1, ${MAX_INDICATOR_PERIOD}]`);
+  }
+  return value as number;
+}
+
+function requireObject(value: unknown, field: string, keys: string[]): Record<string, unknown> {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`indicators.${field} must be an object`);
+  }
+  const unknownKeys = Object.keys(value).filter((k) => !keys.includes(k));
+  if (unknownKeys.length > 0) {
+    throw new Error(`indicators.${field} has unknown field(s): ${unknownKeys.join(", ")}`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Parse and validate a technical node's `config.indicators` block (closed
+ * shape; fail-closed). Absent → null (the Froggy profile alone).
+ *
+ * @throws Error describing the first violation
+ */
+export function parseDeclaredIndicatorConfig(raw: unknown): DeclaredIndicatorConfig | null {
+  if (raw === undefined) return null;
+  const block = requireObject(raw, "<root>", ["macd", "bollinger", "stochastic", "adx", "obv", "vwap"]);
+  const config: DeclaredIndicatorConfig = {};
+
+  if (block.macd !== undefined) {
+    const m = requireObject(block.macd, "macd", ["fast", "slow", "signal"]);
+    const fast = requirePeriod(m.fast, "macd.fast");
+    const slow = requirePeriod(m.slow, "macd.slow");
+    if (fast >= slow) throw new Error("indicators.macd.fast must be shorter than indicators.macd.slow");
+    config.macd = { fast, slow, signal: requirePeriod(m.signal, "macd.signal") };
+  }
+  if (block.bollinger !== undefined) {
+    const b = requireObject(block.bollinger, "bollinger", ["period", "stdDev"]);
+    const period = requirePeriod(b.period, "bollinger.period");
+    if (period < 2) throw new Error("indicators.bollinger.period must be at least 2");
+    if (typeof b.stdDev !== "number" || !(b.stdDev > 0) || b.stdDev > 10) {
+      throw new Error("indicators.bollinger.stdDev must be a number in (0, 10]");
+    }
+    config.bollinger = { period, stdDev: b.stdDev };
+  }
+  if (block.stochastic !== undefined) {
+    const st = requireObject(block.stochastic, "stochastic", ["kPeriod", "kSmoothing", "dPeriod"]);
+    config.stochastic = {
+      kPeriod: requirePeriod(st.kPeriod, "stochastic.kPeriod"),
+      kSmoothing: requirePeriod(st.kSmoothing, "stochastic.kSmoothing"),
+      dPeriod: requirePeriod(st.dPeriod, "stochastic.dPeriod"),
+    };
+  }
+  if (block.adx !== undefined) config.adx = requirePeriod(block.adx, "adx");
+  for (const flag of ["obv", "vwap"] as const) {
+    if (block[flag] === undefined) continue;
+    if (typeof block[flag] !== "boolean") throw new Error(`indicators.${flag} must be a boolean`);
+    config[flag] = block[flag] as boolean;
+  }
+  return config;
+}
+
+/**
+ * Compute the declared indicators over the candle window. Fail-soft per
+ * indicator: one that is not yet stable over the window is simply absent.
+ */
+export function computeDeclaredIndicators(
+  candles: AfiCandle[],
+  declared: DeclaredIndicatorConfig
+): Pick<TechnicalLensV1["payload"], "macd" | "bollinger" | "stochastic" | "adx" | "obv" | "vwap"> {
+  const bundle = computeIndicatorBundle(candles, declared);
+  if (!bundle) return {};
+  return {
+    ...(bundle.macd !== undefined ? { macd: bundle.macd } : {}),
+    ...(bundle.bollinger !== undefined ? { bollinger: bundle.bollinger } : {}),
+    ...(bundle.stochastic !== undefined ? { stochastic: bundle.stochastic } : {}),
+    ...(bundle.adx !== undefined ? { adx: bundle.adx } : {}),
+    ...(bundle.obv !== undefined ? { obv: bundle.obv } : {}),
+    ...(bundle.vwap !== undefined ? { vwap: bundle.vwap } : {}),
+  };
+}
+
+/**
+ * Compute technical enrichment from OHLCV candles.
+ *
+ * Uses Froggy's indicator profile (powered by AFI Indicator Kernel + `trading-signals`):
+ * - EMA-20, EMA-50: Exponential Moving Averages
+ * - RSI-14: Relative Strength Index (Wilder's smoothed method)
+ * - ATR-14: Average True Range (Wilder's smoothed method)
+ *
+ * Plus any strategy-declared indicators (MACD, Bollinger, Stochastic, ADX,
+ * OBV, VWAP) passed through `options.declared`.
+ *
+ * Requires at least 50 candles for EMA-50 calculation.
+ * Returns null if insufficient data.
+ *
+ * @param candles - Array of OHLCV candles (oldest first)
+ * @param options - Precomputed Froggy bundle and/or declared indicators
+ * @returns TechnicalLensV1 payload or null
+ */
 export function computeTechnicalEnrichment(
-  candles: AfiCandle[]
+  candles: AfiCandle[],
+  options: TechnicalEnrichmentOptions = {}
 ): TechnicalLensV1["payload"] | null {
   // Require at least 50 candles for EMA-50
   if (candles.length < 50) {
@@ -79,7 +197,10 @@ export function computeTechnicalEnrichment(
 
   try {
     // Compute indicators using Froggy's indicator profile
-    const bundle = computeFroggyBundle(candles);
+    const bundle =
+      options.indicators !== undefined
+        ? toFroggyBundle(options.indicators)
+        : computeFroggyBundle(candles);
 
     if (!bundle) {
       console.debug(
@@ -135,6 +256,8 @@ export function computeTechnicalEnrichment(
       ...(regime !== null
         ? { atrRegime: regime.atrRegime, atrPercentile: regime.atrPercentile }
         : {}),
+      // Strategy-declared indicators (absent unless the node config declares them).
+      ...(options.declared ? computeDeclaredIndicators(candles, options.declared) : {}),
     };
   } catch (error) {
     console.error("❌ Technical enrichment failed:", error);
@@ -5,7 +5,9 @@
  * The Reactor owns only the submit PORT (MONGO-GOV D-MONGO-3); the concrete
  * store is afi-infra's `MongoScoredSignalEvidenceStore`, consumed as a NORMAL
  * TYPED package dependency (afi-infra ships a consumable build with `.d.ts`).
- * Tests inject a fake via setEvidenceStore().
+ * Tests inject a fake via setEvidenceStore(). The port's only read is
+ * getBySignalId, which backs the signal read API (GET /api/signals); the
+ * Reactor still never writes MongoDB itself.
  *
  * Store-unavailable and persistence failures are NEVER masked. The afi-infra
  * store fails a submit with a typed PERSISTENCE_FAILURE when it is not
@@ -17,6 +19,7 @@
 
 import { MongoScoredSignalEvidenceStore } from "afi-infra";
 import type { AnyScoredSignalEvidenceRecord } from "afi-infra";
+import type { ReactorEvidenceRecord } from "./reactorEvidenceRecord.js";
 import type { EvidenceStorePort } from "./submitScoredSignalEvidence.js";
 
 let injected: EvidenceStorePort | null = null;
@@ -55,6 +58,8 @@ export function getEvidenceStore(): EvidenceStorePort {
     // contract is enforced by afi-infra, not this cast.
     cached = {
       submit: (record) => store.submit(record as unknown as AnyScoredSignalEvidenceRecord),
+      getBySignalId: async (signalId) =>
+        ((await store.getBySignalId(signalId)) ?? null) as unknown as ReactorEvidenceRecord | null,
     };
   }
   return cached;
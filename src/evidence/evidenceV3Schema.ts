@@ -5,7 +5,8 @@
  *
  * The v3 record schema and its proof/composition dependencies are compiled
  * from the VENDORED byte-pinned closure (src/pipeline/governed-schema/ —
- * drift-guarded by test/pipeline/vendoredSchemaProvenance.test.ts):
+ * drift-guarded by test/pipeline/vendoredSchemaProvenance.test.ts; local
+ * extensions applied by src/pipeline/schemaExtensions.ts):
  * scored-signal-evidence.v3 + provider-invocation-proof.v1 +
  * aiml-invocation-proof.v1 + composition-ref + canonical-hash. Their $refs
  * into the D2 provenance family (scored-signal / provenance-record, …)
@@ -24,6 +25,7 @@ import * as ajvFormatsModule from "ajv-formats";
 import { readFileSync } from "node:fs";
 import { join } from "node:path";
 import type { ValidateFunction } from "ajv";
+import { readGovernedSchema } from "../pipeline/schemaExtensions.js";
 
 interface AjvLike {
   addSchema(schema: object): unknown;
@@ -97,7 +99,7 @@ try {
     ajv.addSchema(JSON.parse(readFileSync(join(provenanceRoot, file), "utf-8")));
   }
   for (const file of VENDORED_SCHEMA_FILES) {
-    ajv.addSchema(JSON.parse(readFileSync(join(vendoredRoot, file), "utf-8")));
+    ajv.addSchema(readGovernedSchema(vendoredRoot, file));
   }
 
   validator = ajv.compile({ $ref: EVIDENCE_V3_SCHEMA_ID });
@@ -34,3 +34,11 @@ export {
   resetEvidenceStore,
   closeEvidenceStore,
 } from "./evidenceStore.js";
+export {
+  verifyEvidenceRecord,
+  EVIDENCE_VERIFICATION_SCHEMA,
+  type EvidenceFieldVerdict,
+  type EvidenceVerdictStatus,
+  type EvidenceVerificationInputs,
+  type EvidenceVerificationReport,
+} from "./verifyEvidenceRecord.js";
@@ -42,8 +42,10 @@ import {
 import type { CompositionRefV1 } from "../pipeline/manifestTypes.js";
 import type { CanonicalHashRef } from "../pipeline/hashing.js";
 import type { AnalysisCategory } from "../providers/types.js";
+import type { ProviderSelectionRecord } from "../providers/laneSelection.js";
 import {
   AIML_INVOCATION_PROOF_SCHEMA,
+  EVIDENCE_CREDENTIAL_KINDS,
   PROOF_CATEGORY_ORDER,
   PROVIDER_INVOCATION_PROOF_SCHEMA,
   RESULT_SCHEMA_BY_CATEGORY,
@@ -104,6 +106,12 @@ export interface EvidenceInvocationCapture {
   proofs: ProviderInvocationProofV1[];
   /** category -> the category result the analyst path ACTUALLY consumed. */
   laneResults: Partial<Record<AnalysisCategory, unknown>>;
+  /**
+   * category -> the multi-provider lane's selection record. Cross-checked
+   * against laneBindings, never written into the record: the governed proof
+   * schema has no place for it (operational metadata only).
+   */
+  providerSelections?: Partial<Record<AnalysisCategory, ProviderSelectionRecord>>;
   laneBindings: LaneBindingExpectation[];
   /**
    * The registration-resolved decay identity (binds via analystConfigHash) —
@@ -222,6 +230,7 @@ export type EvidenceProofViolationReason =
   | "result-schema-mismatch"
   | "registry-identity-mismatch"
   | "credential-binding-mismatch"
+  | "credential-kind-ungoverned"
   | "lane-result-missing"
   | "category-result-hash-mismatch"
   | "provider-result-hash-mismatch"
@@ -463,6 +472,40 @@ function validateInvocationProofs(
       );
     }
 
+    // Multi-provider lane: every attempted instance is one of the lane's
+    // boot-verified candidates, and the proof names the one the selection chose.
+    const selection = capture.providerSelections?.[category];
+    if (selection !== undefined) {
+      const outside = selection.attempts.filter(
+        (a) =>
+          !capture.laneBindings.some(
+            (b) =>
+              b.category === category &&
+              b.providerInstanceId === a.providerInstanceId &&
+              b.instanceRecordVersion === a.recordVersion
+          )
+      );
+      if (outside.length > 0) {
+        throw new EvidenceProofViolationError(
+          "registry-identity-mismatch",
+          `'${category}' proof attempted provider instance(s) outside the lane's candidates: ${outside
+            .map((a) => `${a.providerInstanceId}@${a.recordVersion}`)
+            .join(", ")}`,
+          signalId
+        );
+      }
+      const chosen = selection.attempts.find(
+        (a) => a.outcome === "selected" || a.outcome === "contributed"
+      );
+      if (chosen?.providerInstanceId !== proof.providerInstance.providerInstanceId) {
+        throw new EvidenceProofViolationError(
+          "registry-identity-mismatch",
+          `'${category}' proof identity is not the candidate its provider selection chose`,
+          signalId
+        );
+      }
+    }
+
     // Credential binding consistency (keyless iff no credentialRef on the instance).
     if (binding.credentialRef === undefined) {
       if (proof.credential.mode !== "keyless") {
@@ -487,6 +530,15 @@ function validateInvocationProofs(
           signalId
         );
       }
+      // A kind the runtime supports but afi-config does not yet govern would
+      // be rejected by afi-infra on insert: refuse it here, typed.
+      if (!EVIDENCE_CREDENTIAL_KINDS.has(proof.credential.credentialKind)) {
+        throw new EvidenceProofViolationError(
+          "credential-kind-ungoverned",
+          `'${category}' proof names credential kind '${proof.credential.credentialKind}', which the governed evidence contract does not admit yet`,
+          signalId
+        );
+      }
     }
 
     // Category-result recomputation from the ACTUAL joined results
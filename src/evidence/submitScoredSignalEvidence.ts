@@ -44,6 +44,8 @@ export interface EvidenceSubmitResult {
  *  Structurally compatible with afi-infra's IScoredSignalEvidenceStore.submit. */
 export interface EvidenceStorePort {
   submit(record: ReactorEvidenceRecord): Promise<EvidenceSubmitResult>;
+  /** Read-back by signalId (the read API); absent on submit-only stores. */
+  getBySignalId?(signalId: string): Promise<ReactorEvidenceRecord | null>;
 }
 
 export type EvidencePersistenceCategory =
@@ -0,0 +1,77 @@
+/**
+ * `npm run verify-evidence` — independent verification of exported
+ * afi.scored-signal-evidence.v3 records (src/evidence/verifyEvidenceRecord.ts).
+ *
+ * Usage:
+ *   npm run verify-evidence -- --file record.json [--lanes lane-results.json] [--raw-uss uss.json]
+ *   npm run verify-evidence -- --file evidence-export.jsonl
+ *
+ * `--file` holds one JSON record or one record per line. `--lanes` is a JSON
+ * object of category → lane result and `--raw-uss` the raw USS; both apply to
+ * every record and enable the proof and inputHash recomputations (otherwise
+ * reported `skipped`). Prints one JSON report per record on stdout and a
+ * summary on stderr. Exit code 0 = every record verified, 1 = a check
+ * failed, 2 = fatal. Read-only.
+ */
+import { readFile } from "node:fs/promises";
+import { verifyEvidenceRecord } from "./verifyEvidenceRecord.js";
+
+const args = process.argv.slice(2);
+const argOf = (flag: string): string | undefined => {
+  const i = args.indexOf(flag);
+  return i >= 0 && args[i + 1] ? args[i + 1] : undefined;
+};
+
+async function readJson(path: string): Promise<unknown> {
+  return JSON.parse(await readFile(path, "utf-8"));
+}
+
+/** A single JSON document, or JSONL (one record per non-blank line). */
+function parseRecords(text: string): unknown[] {
+  try {
+    const whole = JSON.parse(text);
+    return Array.isArray(whole) ? whole : [whole];
+  } catch {
+    return text
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .map((line, i) => {
+        try {
+          return JSON.parse(line);
+        } catch (err) {
+          throw new Error(`line ${i + 1} is not valid JSON: ${(err as Error).message}`);
+        }
+      });
+  }
+}
+
+async function main(): Promise<number> {
+  const file = argOf("--file");
+  if (!file) throw new Error("pass --file <record.json | export.jsonl>");
+  const lanesPath = argOf("--lanes");
+  const rawUssPath = argOf("--raw-uss");
+
+  const records = parseRecords(await readFile(file, "utf-8"));
+  const laneResults = lanesPath ? ((await readJson(lanesPath)) as Record<string, unknown>) : undefined;
+  const rawUss = rawUssPath ? await readJson(rawUssPath) : undefined;
+
+  let failed = 0;
+  for (const record of records) {
+    const report = verifyEvidenceRecord(record, { laneResults, rawUss });
+    if (!report.ok) failed += 1;
+    process.stdout.write(JSON.stringify(report) + "\n");
+  }
+  console.error(`[verify-evidence] ${records.length} record(s): ${records.length - failed} verified, ${failed} failed`);
+  return failed > 0 ? 1 : 0;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    console.error(`FATAL: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 2;
+  }
+);
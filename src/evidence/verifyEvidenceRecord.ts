@@ -0,0 +1,231 @@
+/**
+ * Independent verification of a submitted `afi.scored-signal-evidence.v3`
+ * record — the auditor's side of EV3-GOV D-EV3-7: given nothing but the
+ * record (and, optionally, the lane results and raw USS it was built from),
+ * re-derive every commitment it carries and report a per-field verdict.
+ *
+ * Checks, in order:
+ *   - `schema`                       — the vendored v3 closure (validateEvidenceRecordV3);
+ *   - `recordHash` / `replayHash`    — recomputed over the record itself (D-EV3-4(6));
+ *   - `provenanceRecord.outputHash`  — recomputed over the record's scoredSignal
+ *                                      projection (canonicalHashV1 + hashProjection);
+ *   - `provenanceRecord.inputHash`   — recomputed over the raw USS when supplied;
+ *   - per proof: category order, result schema, and — when the lane results
+ *     are supplied — categoryResultHash, providerResultHash and the technical
+ *     priceSource, exactly as the builder cross-checks them (D-EV3-5(3)).
+ *
+ * A check whose source facts were not supplied is reported `skipped`, never
+ * `pass`: the record cannot attest to inputs it does not carry. `ok` is true
+ * iff no verdict failed.
+ *
+ * BOUNDARY: pure recomputation. No I/O, no registry read, no clock, and no
+ * provider is ever re-called (D-EV3-5(2)).
+ */
+
+import type { CanonicalHashRef } from "../pipeline/hashing.js";
+import { RESULT_SCHEMA_BY_CATEGORY } from "../providers/invocationProof.js";
+import type { AnalysisCategory } from "../providers/types.js";
+import { validateEvidenceRecordV3 } from "./evidenceV3Schema.js";
+import { computeInputHash, computeScoredOutputHash } from "./provenance/builders.js";
+import {
+  categoryResultHash,
+  evidenceRecordHash,
+  evidenceReplayHash,
+  providerResultHash,
+} from "./provenance/invocationProofHashes.js";
+import type { ScoredSignalV1 } from "./provenance/types.js";
+
+export const EVIDENCE_VERIFICATION_SCHEMA = "afi.operational.evidence-verification.v0" as const;
+
+export type EvidenceVerdictStatus = "pass" | "fail" | "skipped";
+
+export interface EvidenceFieldVerdict {
+  /** Dotted path of the verified field (e.g. `providerInvocations.technical.categoryResultHash`). */
+  field: string;
+  status: EvidenceVerdictStatus;
+  /** The recomputed value, when one could be derived. */
+  expected?: CanonicalHashRef | string;
+  /** The value the record carries. */
+  actual?: unknown;
+  message?: string;
+}
+
+export interface EvidenceVerificationReport {
+  schema: typeof EVIDENCE_VERIFICATION_SCHEMA;
+  signalId: string | null;
+  ok: boolean;
+  verdicts: EvidenceFieldVerdict[];
+}
+
+export interface EvidenceVerificationInputs {
+  /** The category results the proofs commit to, keyed by category. */
+  laneResults?: Partial<Record<AnalysisCategory, unknown>>;
+  /** The validated raw USS the provenance inputHash commits to. */
+  rawUss?: unknown;
+}
+
+function hashesEqual(a: unknown, b: CanonicalHashRef): boolean {
+  if (!a || typeof a !== "object") return false;
+  const ref = a as Partial<CanonicalHashRef>;
+  return (
+    ref.algorithm === b.algorithm &&
+    ref.canonicalizationVersion === b.canonicalizationVersion &&
+    ref.domainTag === b.domainTag &&
+    ref.value === b.value
+  );
+}
+
+/** Recompute a commitment and compare it to the carried one; a recomputation
+ *  that throws (e.g. a non-canonicalizable value) is itself a failure. */
+function hashVerdict(field: string, actual: unknown, recompute: () => CanonicalHashRef): EvidenceFieldVerdict {
+  let expected: CanonicalHashRef;
+  try {
+    expected = recompute();
+  } catch (err) {
+    return { field, status: "fail", actual, message: `recomputation failed: ${(err as Error)?.message ?? String(err)}` };
+  }
+  return hashesEqual(actual, expected)
+    ? { field, status: "pass", expected, actual }
+    : { field, status: "fail", expected, actual, message: "carried hash does not equal the recomputed hash" };
+}
+
+function proofVerdicts(
+  proofs: unknown,
+  laneResults: EvidenceVerificationInputs["laneResults"]
+): EvidenceFieldVerdict[] {
+  if (!Array.isArray(proofs)) {
+    return [{ field: "providerInvocations", status: "fail", actual: proofs, message: "not an array" }];
+  }
+  const verdicts: EvidenceFieldVerdict[] = [];
+  const categories = proofs.map((p) => String((p as { category?: unknown })?.category));
+  const ordered = categories.every((c, i) => i === 0 || categories[i - 1] < c);
+  verdicts.push(
+    ordered
+      ? { field: "providerInvocations", status: "pass", actual: categories }
+      : {
+          field: "providerInvocations",
+          status: "fail",
+          actual: categories,
+          message: "proofs are not unique and in ascending category order",
+        }
+  );
+
+  for (const raw of proofs) {
+    const proof = (raw ?? {}) as Record<string, unknown>;
+    const category = String(proof.category) as AnalysisCategory;
+    const prefix = `providerInvocations.${category}`;
+
+    const expectedSchema = RESULT_SCHEMA_BY_CATEGORY[category];
+    verdicts.push(
+      expectedSchema !== undefined && proof.resultSchema === expectedSchema
+        ? { field: `${prefix}.resultSchema`, status: "pass", expected: expectedSchema, actual: proof.resultSchema }
+        : {
+            field: `${prefix}.resultSchema`,
+            status: "fail",
+            ...(expectedSchema !== undefined ? { expected: expectedSchema } : {}),
+            actual: proof.resultSchema,
+            message: expectedSchema === undefined ? `unknown category '${category}'` : "result schema does not match the category",
+          }
+    );
+
+    const laneResult = laneResults?.[category];
+    if (laneResult === undefined) {
+      for (const field of ["categoryResultHash", "providerResultHash"]) {
+        verdicts.push({
+          field: `${prefix}.${field}`,
+          status: "skipped",
+          actual: proof[field],
+          message: "no lane result supplied",
+        });
+      }
+      continue;
+    }
+    if (laneResult === null || typeof laneResult !== "object") {
+      verdicts.push({
+        field: `${prefix}.categoryResultHash`,
+        status: "fail",
+        actual: proof.categoryResultHash,
+        message: "supplied lane result is not an object",
+      });
+      continue;
+    }
+    const result = laneResult as { category: string; priceSource?: unknown };
+    verdicts.push(hashVerdict(`${prefix}.categoryResultHash`, proof.categoryResultHash, () => categoryResultHash(result)));
+    verdicts.push(hashVerdict(`${prefix}.providerResultHash`, proof.providerResultHash, () => providerResultHash(result)));
+    if (category === "technical" && typeof result.priceSource === "string") {
+      verdicts.push(
+        proof.priceSource === result.priceSource
+          ? { field: `${prefix}.priceSource`, status: "pass", expected: result.priceSource, actual: proof.priceSource }
+          : {
+              field: `${prefix}.priceSource`,
+              status: "fail",
+              expected: result.priceSource,
+              actual: proof.priceSource,
+              message: "proof priceSource differs from the lane result's",
+            }
+      );
+    }
+  }
+  return verdicts;
+}
+
+/**
+ * Verify one evidence record. Never throws on a malformed record — every
+ * defect surfaces as a failed verdict.
+ */
+export function verifyEvidenceRecord(
+  record: unknown,
+  inputs: EvidenceVerificationInputs = {}
+): EvidenceVerificationReport {
+  if (!record || typeof record !== "object" || Array.isArray(record)) {
+    return {
+      schema: EVIDENCE_VERIFICATION_SCHEMA,
+      signalId: null,
+      ok: false,
+      verdicts: [{ field: "(root)", status: "fail", message: "evidence record must be a JSON object" }],
+    };
+  }
+  const doc = record as Record<string, unknown>;
+  const verdicts: EvidenceFieldVerdict[] = [];
+
+  const validation = validateEvidenceRecordV3(doc);
+  verdicts.push(
+    validation.ok
+      ? { field: "schema", status: "pass", actual: doc.schema }
+      : {
+          field: "schema",
+          status: "fail",
+          actual: doc.schema,
+          message: validation.errors.map((e) => `${e.field}: ${e.message}`).join("; "),
+        }
+  );
+
+  verdicts.push(hashVerdict("recordHash", doc.recordHash, () => evidenceRecordHash(doc)));
+  verdicts.push(hashVerdict("replayHash", doc.replayHash, () => evidenceReplayHash(doc)));
+
+  const provenance = (doc.provenanceRecord ?? {}) as Record<string, unknown>;
+  verdicts.push(
+    hashVerdict("provenanceRecord.outputHash", provenance.outputHash, () =>
+      computeScoredOutputHash(doc.scoredSignal as ScoredSignalV1)
+    )
+  );
+  verdicts.push(
+    inputs.rawUss === undefined
+      ? {
+          field: "provenanceRecord.inputHash",
+          status: "skipped",
+          actual: provenance.inputHash,
+          message: "no raw USS supplied",
+        }
+      : hashVerdict("provenanceRecord.inputHash", provenance.inputHash, () => computeInputHash(inputs.rawUss))
+  );
+
+  verdicts.push(...proofVerdicts(doc.providerInvocations, inputs.laneResults));
+
+  return {
+    schema: EVIDENCE_VERIFICATION_SCHEMA,
+    signalId: typeof doc.signalId === "string" ? doc.signalId : null,
+    ok: verdicts.every((v) => v.status !== "fail"),
+    verdicts,
+  };
+}
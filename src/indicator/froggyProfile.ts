@@ -84,8 +84,20 @@ export function computeFroggyBundle(
   candles: AfiCandle[]
 ): FroggyIndicatorBundle | null {
   // Delegate to generic Indicator Kernel
-  const bundle = computeIndicatorBundle(candles, FROGGY_INDICATOR_CONFIG);
+  return toFroggyBundle(computeIndicatorBundle(candles, FROGGY_INDICATOR_CONFIG));
+}
 
+/**
+ * Extract Froggy's typed bundle from a generic bundle computed with
+ * FROGGY_INDICATOR_CONFIG — by the batch kernel or by an
+ * IndicatorKernelStream over the same candles.
+ *
+ * @param bundle - Generic indicator bundle (or null)
+ * @returns FroggyIndicatorBundle or null if any required indicator is missing
+ */
+export function toFroggyBundle(
+  bundle: IndicatorBundle | null
+): FroggyIndicatorBundle | null {
   if (!bundle) {
     return null;
   }
@@ -108,4 +120,3 @@ export function computeFroggyBundle(
 
   return { ema20, ema50, rsi14, atr14, atrSeries14: bundle.atrSeries?.[14] ?? [] };
 }
-
@@ -13,7 +13,17 @@
  * - Fail-soft - returns null if insufficient data
  */
 
-import { EMA, RSI, ATR } from "trading-signals";
+import {
+  EMA,
+  RSI,
+  ATR,
+  MACD,
+  BollingerBands,
+  StochasticOscillator,
+  ADX,
+  OBV,
+  VWAP,
+} from "trading-signals";
 import type { AfiCandle } from "../types/AfiCandle.js";
 
 /**
@@ -26,7 +36,18 @@ export interface IndicatorBundleConfig {
   rsi?: number[];
   /** ATR periods to compute (e.g. [14]) */
   atr?: number[];
-  // Future: MACD, Bollinger, Stochastic, ADX, OBV, VWAP, etc.
+  /** MACD fast/slow/signal EMA periods (e.g. { fast: 12, slow: 26, signal: 9 }) */
+  macd?: { fast: number; slow: number; signal: number };
+  /** Bollinger Bands SMA period and standard-deviation multiplier (e.g. { period: 20, stdDev: 2 }) */
+  bollinger?: { period: number; stdDev: number };
+  /** Stochastic %K period, %K slowing and %D period (e.g. { kPeriod: 14, kSmoothing: 3, dPeriod: 3 }) */
+  stochastic?: { kPeriod: number; kSmoothing: number; dPeriod: number };
+  /** ADX period (Wilder's smoothed, e.g. 14) */
+  adx?: number;
+  /** On-Balance Volume over the whole candle window */
+  obv?: boolean;
+  /** Volume-Weighted Average Price over the whole candle window (no session reset) */
+  vwap?: boolean;
 }
 
 /**
@@ -46,13 +67,18 @@ export interface IndicatorBundle {
    * percentile law; never emitted on a lens payload directly.
    */
   atrSeries?: Record<number, number[]>;
-  // Future additions:
-  // macd?: { value: number; signal: number; histogram: number };
-  // bollinger?: { upper: number; middle: number; lower: number; width: number };
-  // stochastic?: { k: number; d: number };
-  // adx?: number;
-  // obv?: number;
-  // vwap?: number;
+  /** MACD line (fast EMA - slow EMA), its signal EMA, and their difference */
+  macd?: { value: number; signal: number; histogram: number };
+  /** Bollinger Bands; width = (upper - lower) / middle */
+  bollinger?: { upper: number; middle: number; lower: number; width: number };
+  /** Slow stochastic %K and %D (0-100) */
+  stochastic?: { k: number; d: number };
+  /** Average Directional Index (0-100) */
+  adx?: number;
+  /** On-Balance Volume (cumulative, window-relative) */
+  obv?: number;
+  /** Volume-Weighted Average Price (typical price, window-cumulative) */
+  vwap?: number;
 }
 
 /**
@@ -62,6 +88,8 @@ export interface IndicatorBundle {
  * - EMA: Exponential Moving Average
  * - RSI: Relative Strength Index (Wilder's smoothed - more accurate than simple averaging)
  * - ATR: Average True Range (Wilder's smoothed - more accurate than SMA)
+ * - MACD, Bollinger Bands, Stochastic Oscillator, ADX (Wilder's smoothed)
+ * - OBV and VWAP, cumulative over the candle window passed in
  *
  * @param candles - Array of OHLCV candles (must be in chronological order)
  * @param config - Configuration specifying which indicators to compute
@@ -140,37 +168,377 @@ export function computeIndicatorBundle(
     }
   }
 
-  // Return null if no indicators were computed
-  const hasData =
+  // Compute MACD. The signal line is only reported once its own EMA is
+  // stable (slow + signal - 1 candles), never from a partially seeded EMA.
+  if (config.macd) {
+    const signalEma = new EMA(config.macd.signal);
+    const macd = new MACD(new EMA(config.macd.fast), new EMA(config.macd.slow), signalEma);
+    for (const candle of candles) {
+      macd.update(candle.close, false); // false = append mode
+    }
+    if (macd.isStable && signalEma.isStable) {
+      const result = macd.getResult();
+      bundle.macd = { value: result.macd, signal: result.signal, histogram: result.histogram };
+    }
+  }
+
+  // Compute Bollinger Bands (population standard deviation over the period)
+  if (config.bollinger) {
+    const bands = new BollingerBands(config.bollinger.period, config.bollinger.stdDev);
+    for (const candle of candles) {
+      bands.update(candle.close, false); // false = append mode
+    }
+    if (bands.isStable) {
+      const { upper, middle, lower } = bands.getResult();
+      bundle.bollinger = { upper, middle, lower, width: (upper - lower) / middle };
+    }
+  }
+
+  // Compute the slow stochastic oscillator
+  if (config.stochastic) {
+    const stoch = new StochasticOscillator(
+      config.stochastic.kPeriod,
+      config.stochastic.kSmoothing,
+      config.stochastic.dPeriod
+    );
+    for (const candle of candles) {
+      stoch.update({ high: candle.high, low: candle.low, close: candle.close }, false); // false = append mode
+    }
+    if (stoch.isStable) {
+      const result = stoch.getResult();
+      bundle.stochastic = { k: result.stochK, d: result.stochD };
+    }
+  }
+
+  // Compute ADX (Wilder's smoothed DX)
+  if (config.adx !== undefined) {
+    const adx = new ADX(config.adx);
+    for (const candle of candles) {
+      adx.update({ high: candle.high, low: candle.low, close: candle.close }, false); // false = append mode
+    }
+    if (adx.isStable) {
+      bundle.adx = adx.getResult().valueOf();
+    }
+  }
+
+  // Compute OBV (starts at 0 on the window's first candle)
+  if (config.obv) {
+    const obv = new OBV(2);
+    for (const candle of candles) {
+      obv.update(candle, false); // false = append mode
+    }
+    if (obv.isStable) {
+      bundle.obv = obv.getResult().valueOf();
+    }
+  }
+
+  // Compute VWAP (zero-volume candles carry no weight)
+  if (config.vwap) {
+    const vwap = new VWAP();
+    for (const candle of candles) {
+      vwap.update(candle, false); // false = append mode
+    }
+    if (vwap.isStable) {
+      bundle.vwap = vwap.getResult().valueOf();
+    }
+  }
+
+  return hasIndicatorData(bundle) ? bundle : null;
+}
+
+/** Null law shared by the batch and streaming kernels: nothing stable → null. */
+function hasIndicatorData(bundle: IndicatorBundle): boolean {
+  return Boolean(
     (bundle.ema && Object.keys(bundle.ema).length > 0) ||
-    (bundle.rsi && Object.keys(bundle.rsi).length > 0) ||
-    (bundle.atr && Object.keys(bundle.atr).length > 0);
+      (bundle.rsi && Object.keys(bundle.rsi).length > 0) ||
+      (bundle.atr && Object.keys(bundle.atr).length > 0) ||
+      bundle.macd !== undefined ||
+      bundle.bollinger !== undefined ||
+      bundle.stochastic !== undefined ||
+      bundle.adx !== undefined ||
+      bundle.obv !== undefined ||
+      bundle.vwap !== undefined
+  );
+}
+
+
+// ============================================================================
+// Streaming Indicator Kernel
+// ============================================================================
+//
+// The stream carries the SAME recurrences `trading-signals` evaluates inside
+// computeIndicatorBundle (EMA, WSMA-smoothed RSI, TR + WSMA-smoothed ATR), as
+// plain-number state, operation for operation — so a stream fed a candle
+// sequence yields a bundle byte-identical to the batch kernel over that same
+// sequence (proven in test/pipeline/indicatorKernelStream.test.ts). Plain
+// state is what makes snapshot/restore and forming-candle replacement exact;
+// the library's indicator objects can neither be cloned nor serialized.
+// ============================================================================
+
+/** Wilder smoothing (trading-signals WSMA): SMA seed, then 1/period steps. */
+interface WsmaState {
+  /** Seed window; emptied once the seed average is taken. */
+  seed: number[];
+  result?: number;
+}
+
+interface EmaState {
+  count: number;
+  result?: number;
+}
 
-  return hasData ? bundle : null;
+interface RsiState {
+  previousClose?: number;
+  avgGain: WsmaState;
+  avgLoss: WsmaState;
+  result?: number;
+}
+
+interface AtrState {
+  previousClose?: number;
+  smoothing: WsmaState;
+  result?: number;
+  /** Length of the stable observation series (the series itself is append-only). */
+  seriesLength: number;
+}
+
+/** The complete per-indicator state after one candle (plain, JSON-safe). */
+interface IndicatorStreamState {
+  ema: Record<number, EmaState>;
+  rsi: Record<number, RsiState>;
+  atr: Record<number, AtrState>;
 }
 
 /**
- * TODO: Streaming Indicator Kernel for real-time updates
+ * Serializable image of an IndicatorKernelStream. `previous` is the state
+ * BEFORE the last candle, kept so the last (still forming) candle can be
+ * replaced exactly.
+ */
+export interface IndicatorStreamSnapshot {
+  config: IndicatorBundleConfig;
+  candleCount: number;
+  lastTimestamp?: number;
+  state: IndicatorStreamState;
+  previous?: IndicatorStreamState;
+  atrSeries: Record<number, number[]>;
+}
+
+/** Config keys only the batch kernel computes. */
+const STREAM_UNSUPPORTED = ["macd", "bollinger", "stochastic", "adx", "obv", "vwap"] as const;
+
+function uniquePeriods(periods: number[] | undefined): number[] {
+  return [...new Set(periods ?? [])];
+}
+
+function emptyWsma(): WsmaState {
+  return { seed: [] };
+}
+
+function initialState(config: IndicatorBundleConfig): IndicatorStreamState {
+  const state: IndicatorStreamState = { ema: {}, rsi: {}, atr: {} };
+  for (const period of uniquePeriods(config.ema)) state.ema[period] = { count: 0 };
+  for (const period of uniquePeriods(config.rsi)) {
+    state.rsi[period] = { avgGain: emptyWsma(), avgLoss: emptyWsma() };
+  }
+  for (const period of uniquePeriods(config.atr)) {
+    state.atr[period] = { smoothing: emptyWsma(), seriesLength: 0 };
+  }
+  return state;
+}
+
+function cloneState(state: IndicatorStreamState): IndicatorStreamState {
+  return structuredClone(state);
+}
+
+/** trading-signals WSMA.update(value, false), including its SMA seed average. */
+function updateWsma(w: WsmaState, period: number, value: number): void {
+  if (w.result !== undefined) {
+    const smoothed = (value - w.result) * (1 / period);
+    w.result = smoothed + w.result;
+    return;
+  }
+  w.seed.push(value);
+  if (w.seed.length === period) {
+    w.result = w.seed.reduce((sum, x) => sum + x, 0) / w.seed.length;
+    w.seed = [];
+  }
+}
+
+function updateEma(e: EmaState, period: number, close: number): void {
+  const weight = 2 / (period + 1);
+  e.count += 1;
+  e.result = close * weight + (e.result !== undefined ? e.result : close) * (1 - weight);
+}
+
+function updateRsi(r: RsiState, period: number, close: number): void {
+  const previous = r.previousClose;
+  r.previousClose = close;
+  if (previous === undefined) return;
+  if (close > previous) {
+    updateWsma(r.avgLoss, period, 0);
+    updateWsma(r.avgGain, period, close - previous);
+  } else {
+    updateWsma(r.avgLoss, period, previous - close);
+    updateWsma(r.avgGain, period, 0);
+  }
+  if (r.avgGain.result !== undefined) {
+    const avgLoss = r.avgLoss.result!;
+    r.result = avgLoss === 0 ? 100 : 100 - 100 / (r.avgGain.result / avgLoss + 1);
+  }
+}
+
+function updateAtr(a: AtrState, period: number, candle: AfiCandle): void {
+  const highLow = candle.high - candle.low;
+  const trueRange =
+    a.previousClose === undefined
+      ? highLow
+      : Math.max(highLow, Math.abs(candle.high - a.previousClose), Math.abs(candle.low - a.previousClose));
+  a.previousClose = candle.close;
+  updateWsma(a.smoothing, period, trueRange);
+  if (a.smoothing.result !== undefined) a.result = a.smoothing.result;
+}
+
+/**
+ * Stateful streaming counterpart of computeIndicatorBundle.
  *
- * Future enhancement for live trading / real-time enrichment:
+ * Feed candles in chronological order through update(); a candle carrying the
+ * SAME timestamp as the last one replaces it (the exchange's still-forming
+ * bar), an older timestamp is refused. getLatest() always equals
+ * computeIndicatorBundle over every candle accepted so far (with replaced bars
+ * counted once, at their latest values).
  *
+ * @example
  * ```typescript
- * export class IndicatorKernelStream {
- *   private indicators: Map<string, any>;
- *
- *   constructor(config: IndicatorBundleConfig) {
- *     // Initialize indicators
- *   }
- *
- *   update(candle: AfiCandle): IndicatorBundle | null {
- *     // Update all indicators with new candle
- *     // Return bundle if all indicators are stable
- *   }
- *
- *   getLatest(): IndicatorBundle {
- *     // Return latest computed values
- *   }
- * }
+ * const stream = new IndicatorKernelStream({ ema: [20, 50], rsi: [14], atr: [14] });
+ * for (const candle of history) stream.update(candle);
+ * const saved = stream.snapshot();
+ * // ...later, possibly in another process
+ * const resumed = IndicatorKernelStream.restore(saved);
+ * resumed.update(nextCandle);
  * ```
  */
-// @ts-nocheck
+export class IndicatorKernelStream {
+  private readonly config: IndicatorBundleConfig;
+  private state: IndicatorStreamState;
+  private previous?: IndicatorStreamState;
+  private atrSeries: Record<number, number[]>;
+  private candleCount = 0;
+  private lastTimestamp?: number;
+
+  /**
+   * @throws Error if the config declares an indicator the stream does not
+   *   carry (MACD, Bollinger, Stochastic, ADX, OBV, VWAP are batch-only) —
+   *   silently dropping one would break equality with the batch kernel.
+   */
+  constructor(config: IndicatorBundleConfig) {
+    const batchOnly = STREAM_UNSUPPORTED.filter((name) => config[name] !== undefined);
+    if (batchOnly.length > 0) {
+      throw new Error(
+        `IndicatorKernelStream streams ema/rsi/atr only; use computeIndicatorBundle for: ${batchOnly.join(", ")}`
+      );
+    }
+    this.config = structuredClone(config);
+    this.state = initialState(this.config);
+    this.atrSeries = {};
+    for (const period of uniquePeriods(this.config.atr)) this.atrSeries[period] = [];
+  }
+
+  /** Number of distinct candles (timestamps) accepted so far. */
+  get length(): number {
+    return this.candleCount;
+  }
+
+  /**
+   * Apply one candle and return the bundle as of that candle (same null
+   * semantics as computeIndicatorBundle).
+   *
+   * @throws Error if the candle is older than the last accepted candle
+   */
+  update(candle: AfiCandle): IndicatorBundle | null {
+    if (this.lastTimestamp !== undefined && candle.timestamp < this.lastTimestamp) {
+      throw new Error(
+        `IndicatorKernelStream: out-of-order candle ${candle.timestamp} (last accepted ${this.lastTimestamp})`
+      );
+    }
+    if (this.lastTimestamp !== undefined && candle.timestamp === this.lastTimestamp) {
+      // Forming-bar replacement: rewind to the state before the last candle.
+      this.state = cloneState(this.previous!);
+      for (const [period, a] of Object.entries(this.state.atr)) {
+        this.atrSeries[Number(period)].length = a.seriesLength;
+      }
+    } else {
+      this.previous = cloneState(this.state);
+      this.candleCount += 1;
+      this.lastTimestamp = candle.timestamp;
+    }
+
+    for (const [period, e] of Object.entries(this.state.ema)) updateEma(e, Number(period), candle.close);
+    for (const [period, r] of Object.entries(this.state.rsi)) updateRsi(r, Number(period), candle.close);
+    for (const [period, a] of Object.entries(this.state.atr)) {
+      updateAtr(a, Number(period), candle);
+      if (a.result !== undefined) {
+        this.atrSeries[Number(period)].push(a.result);
+        a.seriesLength += 1;
+      }
+    }
+    return this.getLatest();
+  }
+
+  /** The bundle over every candle accepted so far (null if nothing is stable). */
+  getLatest(): IndicatorBundle | null {
+    if (this.candleCount === 0) return null;
+    const bundle: IndicatorBundle = {};
+
+    if (this.config.ema && this.config.ema.length > 0) {
+      bundle.ema = {};
+      for (const period of this.config.ema) {
+        const e = this.state.ema[period];
+        if (e.count >= period) bundle.ema[period] = e.result!;
+      }
+    }
+    if (this.config.rsi && this.config.rsi.length > 0) {
+      bundle.rsi = {};
+      for (const period of this.config.rsi) {
+        const r = this.state.rsi[period];
+        if (r.result !== undefined) bundle.rsi[period] = r.result;
+      }
+    }
+    if (this.config.atr && this.config.atr.length > 0) {
+      bundle.atr = {};
+      bundle.atrSeries = {};
+      for (const period of this.config.atr) {
+        const a = this.state.atr[period];
+        if (a.result !== undefined) {
+          bundle.atr[period] = a.result;
+          bundle.atrSeries[period] = this.atrSeries[period].slice();
+        }
+      }
+    }
+
+    return hasIndicatorData(bundle) ? bundle : null;
+  }
+
+  /** A JSON-safe, independent image of the stream (see restore()). */
+  snapshot(): IndicatorStreamSnapshot {
+    return structuredClone({
+      config: this.config,
+      candleCount: this.candleCount,
+      lastTimestamp: this.lastTimestamp,
+      state: this.state,
+      previous: this.previous,
+      atrSeries: this.atrSeries,
+    });
+  }
+
+  /** Rebuild a stream from snapshot(); the result continues exactly where it left off. */
+  static restore(snapshot: IndicatorStreamSnapshot): IndicatorKernelStream {
+    const stream = new IndicatorKernelStream(snapshot.config);
+    const image = structuredClone(snapshot);
+    stream.candleCount = image.candleCount;
+    stream.lastTimestamp = image.lastTimestamp;
+    stream.state = image.state;
+    stream.previous = image.previous;
+    stream.atrSeries = image.atrSeries;
+    return stream;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Indicator Stream Registry
+ *
+ * Keeps one IndicatorKernelStream per series key (price source + symbol +
+ * timeframe) so the technical lane advances its indicators by the candles that
+ * are NEW since the last request instead of re-walking the whole fetched
+ * window every time.
+ *
+ * Byte-equality with the batch kernel is the invariant, not a best effort: the
+ * technical lane computes over the fetched window, so a cached stream is only
+ * advanced when the new window EXTENDS the window it already consumed (same
+ * first candle, identical closed candles, the last consumed bar either
+ * unchanged or replaced in place as the forming bar). Anything else — the
+ * window slid forward, an exchange revised a closed bar, a gap — rebuilds the
+ * stream from the window, which is exactly computeIndicatorBundle.
+ *
+ * @module indicatorStreamRegistry
+ */
+
+import type { AfiCandle } from "../types/AfiCandle.js";
+import {
+  IndicatorKernelStream,
+  type IndicatorBundle,
+  type IndicatorBundleConfig,
+} from "./indicatorKernel.js";
+
+interface StreamEntry {
+  configKey: string;
+  stream: IndicatorKernelStream;
+  /** The window the stream has consumed (copy; the caller's array is never retained). */
+  candles: AfiCandle[];
+}
+
+/** How a bundleFor() call was served (operational only). */
+export type IndicatorStreamOutcome = "extended" | "unchanged" | "rebuilt";
+
+function sameCandle(a: AfiCandle, b: AfiCandle): boolean {
+  return (
+    a.timestamp === b.timestamp &&
+    a.open === b.open &&
+    a.high === b.high &&
+    a.low === b.low &&
+    a.close === b.close &&
+    a.volume === b.volume
+  );
+}
+
+export class IndicatorStreamRegistry {
+  private readonly entries = new Map<string, StreamEntry>();
+  private readonly maxEntries: number;
+  private readonly stats: Record<IndicatorStreamOutcome, number> = {
+    extended: 0,
+    unchanged: 0,
+    rebuilt: 0,
+  };
+
+  constructor(maxEntries: number = 256) {
+    this.maxEntries = Math.max(1, maxEntries);
+  }
+
+  /**
+   * The indicator bundle over `candles` — identical to
+   * computeIndicatorBundle(candles, config) — served from the cached stream
+   * for `key` when the window extends it.
+   *
+   * @param key - Series identity, e.g. "blofin|BTC/USDT|1h"
+   * @param candles - The fetched window (chronological)
+   * @param config - Indicator configuration (part of the cache identity)
+   */
+  bundleFor(
+    key: string,
+    candles: AfiCandle[],
+    config: IndicatorBundleConfig
+  ): IndicatorBundle | null {
+    const configKey = JSON.stringify(config);
+    const entry = this.entries.get(key);
+    let outcome: IndicatorStreamOutcome;
+    let stream: IndicatorKernelStream;
+
+    if (entry && entry.configKey === configKey && this.extends(entry.candles, candles)) {
+      const consumed = entry.candles.length;
+      stream = entry.stream;
+      const lastChanged = !sameCandle(entry.candles[consumed - 1], candles[consumed - 1]);
+      if (lastChanged) stream.update(candles[consumed - 1]);
+      for (let i = consumed; i < candles.length; i++) stream.update(candles[i]);
+      outcome = lastChanged || candles.length > consumed ? "extended" : "unchanged";
+    } else {
+      stream = new IndicatorKernelStream(config);
+      for (const candle of candles) stream.update(candle);
+      outcome = "rebuilt";
+    }
+
+    this.stats[outcome] += 1;
+    // Re-insert so Map order tracks recency; evict the least recently used.
+    this.entries.delete(key);
+    this.entries.set(key, { configKey, stream, candles: candles.slice() });
+    if (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) this.entries.delete(oldestKey);
+    }
+    return stream.getLatest();
+  }
+
+  /**
+   * True when `next` continues `consumed`: at least as long, every consumed
+   * candle but the last identical, and the last consumed bar still at the same
+   * timestamp (its values may have moved — it is replaced in place).
+   */
+  private extends(consumed: AfiCandle[], next: AfiCandle[]): boolean {
+    if (consumed.length === 0 || next.length < consumed.length) return false;
+    const last = consumed.length - 1;
+    for (let i = 0; i < last; i++) {
+      if (!sameCandle(consumed[i], next[i])) return false;
+    }
+    return consumed[last].timestamp === next[last].timestamp;
+  }
+
+  /** Cache stats for monitoring. */
+  getStats() {
+    return { size: this.entries.size, maxEntries: this.maxEntries, ...this.stats };
+  }
+
+  /** Drop every stream (for testing/shutdown). */
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -2,19 +2,32 @@
  * Predicate-tree evaluator for conditional edges (W3 spec section 0/2;
  * afi.pipeline.v1 #/definitions/predicate).
  *
- * Conditions are pure DATA — a bounded tree of the eleven governed operators
- * (all / any / not / exists / eq / ne / gt / gte / lt / lte / in) over
- * JSON-pointer-style paths into VALIDATED node outputs
+ * Conditions are pure DATA — a bounded tree of the governed operators
+ * (all / any / not / exists / eq / ne / gt / gte / lt / lte / in / between /
+ * matches / contains / containsAny / lengthGt) over JSON-pointer-style paths
+ * into VALIDATED node outputs
  * (/nodes/<nodeId>/output/...) or pipeline context (/context/...). Code
  * strings, expression languages, and unknown operators are structurally
  * rejected by the vendored schema; this evaluator additionally fails closed
  * (throws) on any shape it does not recognize, so a schema bypass can never
  * silently evaluate.
  *
+ * eq/ne and the ordering comparisons take either a literal `value` or a
+ * second path (`valuePath`, path-to-path comparison).
+ *
  * Determinism: evaluation is a pure function of (predicate, environment).
  * Missing paths resolve to `undefined`: exists → false, eq → false
- * (undefined never equals a scalar), ne → true, ordering comparisons →
- * false (undefined is not a number), in → false.
+ * (undefined never equals a scalar — including a missing valuePath operand),
+ * ne → true, ordering comparisons and between → false (undefined is not a
+ * number), in / contains / containsAny / lengthGt / matches → false.
+ *
+ * `matches` is bounded: the pattern must be start-anchored (leading ^), at
+ * most 128 characters, free of backreferences, lookaround and quantified
+ * groups, alternate only inside a group, and carry at most one unbounded
+ * quantifier and a small bounded branching (the constructs that make
+ * backtracking super-linear); the subject must be a string of at most
+ * MATCH_SUBJECT_MAX_LENGTH characters, longer subjects evaluate false. A
+ * pattern outside those bounds throws.
  */
 
 /** The environment predicates evaluate over. */
@@ -101,24 +114,26 @@ export function evaluatePredicate(predicate: unknown, env: ConditionEnv): boolea
     }
     case "eq":
     case "ne": {
-      const { path, value } = requireComparison(op, arg);
-      if (!isScalar(value)) {
+      const comparison = requireComparison(op, arg);
+      if ("value" in comparison && !isScalar(comparison.value)) {
         throw new ConditionEvaluationError(`'${op}' operand must be a scalar`);
       }
-      const resolved = resolvePath(env, path);
-      const equal = scalarEquals(resolved, value);
+      const resolved = resolvePath(env, comparison.path);
+      const operand = "value" in comparison ? comparison.value : resolvePath(env, comparison.valuePath);
+      const equal = isScalar(operand) && scalarEquals(resolved, operand);
       return op === "eq" ? equal : !equal;
     }
     case "gt":
     case "gte":
     case "lt":
     case "lte": {
-      const { path, value } = requireComparison(op, arg);
-      if (typeof value !== "number") {
+      const comparison = requireComparison(op, arg);
+      if ("value" in comparison && typeof comparison.value !== "number") {
         throw new ConditionEvaluationError(`'${op}' operand must be a number`);
       }
-      const resolved = resolvePath(env, path);
-      if (typeof resolved !== "number" || Number.isNaN(resolved)) return false;
+      const resolved = resolvePath(env, comparison.path);
+      const value = "value" in comparison ? comparison.value : resolvePath(env, comparison.valuePath);
+      if (!isNumber(resolved) || !isNumber(value)) return false;
       switch (op) {
         case "gt":
           return resolved > value;
@@ -146,19 +161,241 @@ export function evaluatePredicate(predicate: unknown, env: ConditionEnv): boolea
       const resolved = resolvePath(env, path);
       return values.some((v) => scalarEquals(resolved, v as Scalar));
     }
+    case "between": {
+      const { path, min, max } = requireFields(op, arg, ["path", "min", "max"]);
+      if (typeof path !== "string" || !isNumber(min) || !isNumber(max) || min > max) {
+        throw new ConditionEvaluationError("'between' requires { path, min, max } with numeric min <= max");
+      }
+      const resolved = resolvePath(env, path);
+      return isNumber(resolved) && resolved >= min && resolved <= max;
+    }
+    case "matches": {
+      const { path, pattern } = requireFields(op, arg, ["path", "pattern"]);
+      if (typeof path !== "string") {
+        throw new ConditionEvaluationError("'matches' requires { path, pattern }");
+      }
+      const regex = compileBoundedPattern(pattern);
+      const resolved = resolvePath(env, path);
+      if (typeof resolved !== "string" || resolved.length > MATCH_SUBJECT_MAX_LENGTH) return false;
+      return regex.test(resolved);
+    }
+    case "contains": {
+      const { path, value } = requireFields(op, arg, ["path", "value"]);
+      if (typeof path !== "string" || !isScalar(value)) {
+        throw new ConditionEvaluationError("'contains' requires { path, value } with a scalar value");
+      }
+      const resolved = resolvePath(env, path);
+      return Array.isArray(resolved) && resolved.some((item) => scalarEquals(item, value));
+    }
+    case "containsAny": {
+      const { path, values } = requireFields(op, arg, ["path", "values"]);
+      if (typeof path !== "string" || !Array.isArray(values) || values.length < 1 || !values.every(isScalar)) {
+        throw new ConditionEvaluationError("'containsAny' requires { path, values[] } with a non-empty scalar array");
+      }
+      const resolved = resolvePath(env, path);
+      return (
+        Array.isArray(resolved) &&
+        resolved.some((item) => values.some((v) => scalarEquals(item, v as Scalar)))
+      );
+    }
+    case "lengthGt": {
+      const { path, value } = requireFields(op, arg, ["path", "value"]);
+      if (typeof path !== "string" || !Number.isInteger(value) || (value as number) < 0) {
+        throw new ConditionEvaluationError("'lengthGt' requires { path, value } with a non-negative integer value");
+      }
+      const resolved = resolvePath(env, path);
+      return (Array.isArray(resolved) || typeof resolved === "string") && resolved.length > (value as number);
+    }
     default:
       throw new ConditionEvaluationError(`unknown predicate operator '${op}'`);
   }
 }
 
-function requireComparison(op: string, arg: unknown): { path: string; value: unknown } {
+type Comparison = { path: string; value: unknown } | { path: string; valuePath: string };
+
+const EMPTY_ENV: ConditionEnv = { nodes: {}, context: {} };
+
+/**
+ * Checks a predicate tree is evaluable WITHOUT evaluating it against data:
+ * every branch of every all/any/not is visited (no short-circuit) and every
+ * leaf operator's shape — including a `matches` pattern's bounds — is checked.
+ * Throws ConditionEvaluationError exactly where evaluatePredicate would, so a
+ * graph validated at boot never fails its conditions at request time.
+ */
+export function validatePredicate(predicate: unknown): void {
+  if (predicate !== null && typeof predicate === "object" && !Array.isArray(predicate)) {
+    const keys = Object.keys(predicate);
+    const arg = (predicate as Record<string, unknown>)[keys[0]];
+    if (keys.length === 1 && (keys[0] === "all" || keys[0] === "any") && Array.isArray(arg) && arg.length > 0) {
+      for (const child of arg) validatePredicate(child);
+      return;
+    }
+    if (keys.length === 1 && keys[0] === "not") {
+      validatePredicate(arg);
+      return;
+    }
+  }
+  evaluatePredicate(predicate, EMPTY_ENV);
+}
+
+function requireComparison(op: string, arg: unknown): Comparison {
   if (
     arg === null ||
     typeof arg !== "object" ||
     typeof (arg as Record<string, unknown>).path !== "string" ||
-    !("value" in (arg as Record<string, unknown>))
+    ("value" in (arg as Record<string, unknown>)) === ("valuePath" in (arg as Record<string, unknown>))
   ) {
-    throw new ConditionEvaluationError(`'${op}' requires { path, value }`);
+    throw new ConditionEvaluationError(`'${op}' requires { path, value } or { path, valuePath }`);
+  }
+  if ("valuePath" in (arg as Record<string, unknown>)) {
+    const { path, valuePath } = arg as { path: string; valuePath: unknown };
+    if (typeof valuePath !== "string") {
+      throw new ConditionEvaluationError(`'${op}' valuePath must be a path string`);
+    }
+    return { path, valuePath };
   }
   return arg as { path: string; value: unknown };
 }
+
+/** The operator's argument object with exactly the named fields (fail-closed). */
+function requireFields<K extends string>(
+  op: string,
+  arg: unknown,
+  fields: readonly K[]
+): Record<K, unknown> {
+  if (
+    arg === null ||
+    typeof arg !== "object" ||
+    Array.isArray(arg) ||
+    Object.keys(arg).length !== fields.length ||
+    !fields.every((f) => f in (arg as Record<string, unknown>))
+  ) {
+    throw new ConditionEvaluationError(`'${op}' requires { ${fields.join(", ")} }`);
+  }
+  return arg as Record<K, unknown>;
+}
+
+function isNumber(v: unknown): v is number {
+  return typeof v === "number" && !Number.isNaN(v);
+}
+
+/** Longest string a `matches` predicate tests; longer subjects evaluate false. */
+export const MATCH_SUBJECT_MAX_LENGTH = 256;
+
+const MATCH_PATTERN_MAX_LENGTH = 128;
+
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Product bound on the alternatives a `matches` pattern can backtrack over:
+ * every optional (?) doubles it, a bounded {n,m} multiplies it by m-n+1 and a
+ * group of b alternatives by b.
+ */
+const MATCH_PATTERN_MAX_BRANCHING = 64;
+
+/**
+ * Compiles a `matches` pattern after proving it bounded: start-anchored, at
+ * most 128 characters, no backreference, no lookaround, no quantifier applied
+ * to a group, alternation only inside a group, at most ONE unbounded
+ * quantifier (*, +, {n,}) and at most MATCH_PATTERN_MAX_BRANCHING bounded
+ * alternatives. Adjacent unbounded atoms (^a*a*...$) are what make
+ * backtracking polynomial-to-exponential in the subject; with one, the work
+ * stays linear in the subject times the branching bound. Throws
+ * ConditionEvaluationError otherwise.
+ */
+function compileBoundedPattern(pattern: unknown): RegExp {
+  if (typeof pattern !== "string" || pattern.length < 2 || pattern.length > MATCH_PATTERN_MAX_LENGTH) {
+    throw new ConditionEvaluationError(`'matches' pattern must be a string of 2-${MATCH_PATTERN_MAX_LENGTH} characters`);
+  }
+  const cached = compiledPatterns.get(pattern);
+  if (cached) return cached;
+  if (!pattern.startsWith("^")) {
+    throw new ConditionEvaluationError("'matches' pattern must be start-anchored (leading ^)");
+  }
+  let inClass = false;
+  let unbounded = 0;
+  let branching = 1;
+  // Alternative count of each open group, innermost last.
+  const groups: number[] = [];
+  // A quantifier's lazy marker (*?, +?, ??, {n,m}?) is not another quantifier.
+  const skipLazy = (i: number) => (pattern[i + 1] === "?" ? i + 1 : i);
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") {
+      const next = pattern[i + 1] ?? "";
+      if (/[1-9]/.test(next) || next === "k") {
+        throw new ConditionEvaluationError("'matches' pattern may not use backreferences");
+      }
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (ch === "]") inClass = false;
+      continue;
+    }
+    switch (ch) {
+      case "[":
+        inClass = true;
+        break;
+      case "(":
+        if (pattern[i + 1] === "?") {
+          if (/^(=|!|<=|<!)/.test(pattern.slice(i + 2))) {
+            throw new ConditionEvaluationError("'matches' pattern may not use lookaround");
+          }
+          // (?:...) or a named group (?<name>...): skip the group prefix.
+          const close = pattern[i + 2] === "<" ? pattern.indexOf(">", i) : i + 2;
+          if (close > i) i = close;
+        }
+        groups.push(1);
+        break;
+      case ")":
+        if (/[*+?{]/.test(pattern[i + 1] ?? "")) {
+          throw new ConditionEvaluationError("'matches' pattern may not quantify a group");
+        }
+        branching *= groups.pop() ?? 1;
+        break;
+      case "|":
+        if (groups.length === 0) {
+          throw new ConditionEvaluationError("'matches' pattern may only alternate inside a group (^(A|B))");
+        }
+        groups[groups.length - 1] += 1;
+        break;
+      case "*":
+      case "+":
+        unbounded++;
+        i = skipLazy(i);
+        break;
+      case "?":
+        branching *= 2;
+        i = skipLazy(i);
+        break;
+      case "{": {
+        const range = /^\{(\d+)(?:(,)(\d*))?\}/.exec(pattern.slice(i));
+        // A malformed range is left for the RegExp compile below to refuse.
+        if (!range) break;
+        if (range[2] && range[3] === "") unbounded++;
+        else if (range[2]) branching *= Math.max(1, Number(range[3]) - Number(range[1]) + 1);
+        i = skipLazy(i + range[0].length - 1);
+        break;
+      }
+    }
+  }
+  if (unbounded > 1) {
+    throw new ConditionEvaluationError("'matches' pattern may use at most one unbounded quantifier (*, +, {n,})");
+  }
+  if (branching > MATCH_PATTERN_MAX_BRANCHING) {
+    throw new ConditionEvaluationError(
+      `'matches' pattern branches over more than ${MATCH_PATTERN_MAX_BRANCHING} alternatives (?, {n,m}, |)`
+    );
+  }
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, "u");
+  } catch (err) {
+    throw new ConditionEvaluationError(
+      `'matches' pattern is not a valid regular expression (${err instanceof Error ? err.message : String(err)})`
+    );
+  }
+  compiledPatterns.set(pattern, regex);
+  return regex;
+}
@@ -0,0 +1,128 @@
+/**
+ * Declared-fields join merge (afi.pipeline.v1 join.merge.strategy
+ * 'declared-fields').
+ *
+ * Each parent contributes exactly the fields its plugin's outputSchemaRef
+ * declares — the schema's top-level properties, minus `const` discriminator
+ * markers (e.g. every enrichment result's `category`), which name the
+ * contract rather than carry data — projected into ONE flat object. A field
+ * two or more parents contribute with canonically different values is a
+ * conflict, resolved by the join's conflictRule:
+ *  - 'error'            → JoinConflictError (the run aborts: the manifest
+ *                         declared that this join must never be ambiguous);
+ *  - 'prefer:<nodeId>'  → the named parent's value wins; when the preferred
+ *                         parent does not contribute the field, there is no
+ *                         winner and the join fails the same way.
+ * Every resolved conflict is recorded on the join's execution-summary entry.
+ * Deterministic by construction: parents are visited in sorted nodeId order
+ * and the merged object's keys are sorted.
+ */
+import type { ExecutionJoinConflict } from "./executionSummary.js";
+import { canonicalize } from "./hashing.js";
+import { loadGovernedSchema } from "../providers/schemaSupport.js";
+
+/** Resolves an outputSchemaRef to the fields it declares (undefined: unknown ref). */
+export type DeclaredFieldsResolver = (schemaRef: string) => readonly string[] | undefined;
+
+/** The governed category-result contracts a declared-fields join can read. */
+const GOVERNED_RESULT_SCHEMAS: Readonly<Record<string, string>> = {
+  "afi.enrichment.technical.v1": "enrichment-technical.schema.json",
+  "afi.enrichment.pattern.v1": "enrichment-pattern.schema.json",
+  "afi.enrichment.sentiment.v1": "enrichment-sentiment.schema.json",
+  "afi.enrichment.news.v1": "enrichment-news.schema.json",
+  "afi.enrichment.aiml.v1": "enrichment-aiml.schema.json",
+};
+
+/** Top-level declared properties of a JSON schema, minus `const` markers, sorted. */
+export function declaredFieldsOf(schema: Record<string, unknown>): string[] {
+  const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown> | boolean>;
+  return Object.keys(properties)
+    .filter((field) => {
+      const property = properties[field];
+      return !(typeof property === "object" && property !== null && "const" in property);
+    })
+    .sort();
+}
+
+/**
+ * The production resolver over the vendored governed result contracts,
+ * addressable by their afi.* id or their $id URL.
+ */
+export function createGovernedDeclaredFieldsResolver(schemaDirOverride?: string): DeclaredFieldsResolver {
+  const byRef = new Map<string, readonly string[]>();
+  for (const [ref, basename] of Object.entries(GOVERNED_RESULT_SCHEMAS)) {
+    const schema = loadGovernedSchema(basename, schemaDirOverride);
+    const fields = Object.freeze(declaredFieldsOf(schema));
+    byRef.set(ref, fields);
+    if (typeof schema.$id === "string") byRef.set(schema.$id, fields);
+  }
+  return (schemaRef) => byRef.get(schemaRef);
+}
+
+/** A declared-fields join could not settle a conflict. */
+export class JoinConflictError extends Error {
+  readonly nodeId: string;
+  readonly field: string;
+  readonly parents: string[];
+  constructor(nodeId: string, field: string, parents: string[], conflictRule: string) {
+    super(
+      `join '${nodeId}' merge conflict: field '${field}' contributed by ${parents
+        .map((p) => `'${p}'`)
+        .join(", ")} (conflictRule '${conflictRule}')`
+    );
+    this.name = "JoinConflictError";
+    this.nodeId = nodeId;
+    this.field = field;
+    this.parents = parents;
+  }
+}
+
+/** One parent's contribution: its output and the fields its contract declares. */
+export interface DeclaredFieldsContribution {
+  nodeId: string;
+  fields: readonly string[];
+  output: unknown;
+}
+
+export interface DeclaredFieldsMerge {
+  value: Record<string, unknown>;
+  /** Conflicts resolved by a prefer rule, sorted by field. */
+  conflicts: ExecutionJoinConflict[];
+}
+
+/** Merge the contributions under `conflictRule` (see module doc). */
+export function mergeDeclaredFields(
+  joinNodeId: string,
+  contributions: ReadonlyArray<DeclaredFieldsContribution>,
+  conflictRule: string
+): DeclaredFieldsMerge {
+  const preferred = conflictRule.startsWith("prefer:") ? conflictRule.slice("prefer:".length) : undefined;
+  const byField = new Map<string, Array<{ nodeId: string; value: unknown }>>();
+  for (const c of [...contributions].sort((a, b) => (a.nodeId < b.nodeId ? -1 : 1))) {
+    if (c.output === null || typeof c.output !== "object" || Array.isArray(c.output)) continue;
+    const output = c.output as Record<string, unknown>;
+    for (const field of c.fields) {
+      if (!Object.prototype.hasOwnProperty.call(output, field) || output[field] === undefined) continue;
+      const entries = byField.get(field) ?? [];
+      entries.push({ nodeId: c.nodeId, value: output[field] });
+      byField.set(field, entries);
+    }
+  }
+
+  const value: Record<string, unknown> = {};
+  const conflicts: ExecutionJoinConflict[] = [];
+  for (const field of [...byField.keys()].sort()) {
+    const entries = byField.get(field)!;
+    const distinct = new Set(entries.map((e) => canonicalize(e.value)));
+    if (distinct.size <= 1) {
+      value[field] = entries[0].value;
+      continue;
+    }
+    const parents = entries.map((e) => e.nodeId);
+    const winner = preferred !== undefined ? entries.find((e) => e.nodeId === preferred) : undefined;
+    if (!winner) throw new JoinConflictError(joinNodeId, field, parents, conflictRule);
+    value[field] = winner.value;
+    conflicts.push({ field, parents, resolvedBy: winner.nodeId });
+  }
+  return { value, conflicts };
+}
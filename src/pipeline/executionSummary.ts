@@ -12,19 +12,43 @@
  * executionSummaryHash = canonical hash (canonical-json-hashing.v1) of
  *   { schema: 'afi.execution-summary.v1', nodes: [...] }
  * under domain tag afi.d2.execution-summary.
+ *
+ * A declared-fields join that settled a field conflict through its
+ * 'prefer:<nodeId>' rule records `joinConflicts` on its own entry (absent
+ * when the join merged without conflict). A race join (any / quorum:<n> /
+ * firstN:<n>) records `raceWinners`, the parents that won, sorted by nodeId:
+ * winners are picked by arrival order, so the hash commits to which parents
+ * won — the same winners hash the same however the branches were timed.
  */
 import { canonicalHashOf, DOMAIN_TAGS, type CanonicalHashRef } from "./hashing.js";
 
 export const EXECUTION_SUMMARY_SCHEMA = "afi.execution-summary.v1";
 
-/** The four governed node outcomes (W3 spec sections 1-2). */
-export type NodeExecutionStatus = "executed" | "skipped" | "degraded" | "failed-optional";
+/**
+ * The governed node outcomes (W3 spec sections 1-2), plus 'cancelled': a
+ * race-join loser (join policy any / quorum:<n> / firstN:<n>) that was
+ * aborted or never started once the join's quota was met.
+ */
+export type NodeExecutionStatus = "executed" | "skipped" | "degraded" | "failed-optional" | "cancelled";
+
+/** One field conflict a declared-fields join resolved. */
+export interface ExecutionJoinConflict {
+  field: string;
+  /** The contributing parents, sorted by nodeId. */
+  parents: string[];
+  /** The parent whose value the conflictRule kept. */
+  resolvedBy: string;
+}
 
 export interface ExecutionSummaryEntry {
   nodeId: string;
   pluginId: string;
   pluginVersion: string;
   status: NodeExecutionStatus;
+  /** Declared-fields joins only: the conflicts resolved, sorted by field. */
+  joinConflicts?: ExecutionJoinConflict[];
+  /** Race joins only: the winning parents, sorted by nodeId. */
+  raceWinners?: string[];
 }
 
 export interface ExecutionSummary {
@@ -36,7 +60,8 @@ export interface ExecutionSummary {
  * Builds the canonical summary object from already-ordered entries. The
  * executor guarantees ordering (wave order, then nodeId); this constructor
  * only shapes and freezes the object and strips anything beyond the four
- * governed fields, so operational extras can never leak into hash material.
+ * governed fields (plus a join's recorded conflicts or race winners), so
+ * operational extras can never leak into hash material.
  */
 export function buildExecutionSummary(
   entries: ReadonlyArray<ExecutionSummaryEntry>
@@ -49,6 +74,20 @@ export function buildExecutionSummary(
         pluginId: e.pluginId,
         pluginVersion: e.pluginVersion,
         status: e.status,
+        ...(e.joinConflicts !== undefined && e.joinConflicts.length > 0
+          ? {
+              joinConflicts: Object.freeze(
+                [...e.joinConflicts]
+                  .sort((a, b) => (a.field < b.field ? -1 : a.field > b.field ? 1 : 0))
+                  .map((c) =>
+                    Object.freeze({ field: c.field, parents: Object.freeze([...c.parents]), resolvedBy: c.resolvedBy })
+                  )
+              ) as ExecutionJoinConflict[],
+            }
+          : {}),
+        ...(e.raceWinners !== undefined
+          ? { raceWinners: Object.freeze([...e.raceWinners].sort()) as string[] }
+          : {}),
       })
     ),
   });
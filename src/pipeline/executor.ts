@@ -12,9 +12,25 @@
  *    node ctx so underlying fetches can honor it.
  *  - maxRetries / retryDelayMs / backoff (none|fixed|exponential) honored —
  *    node values first, plugin defaultRetryPolicy as fallback. NO retry on
- *    NodeConfigurationError or on abort.
+ *    NodeConfigurationError, NodeFastFailError or abort.
  *  - Pipeline-wide cancellation through one root AbortController (an
  *    external abortSignal aborts everything in flight).
+ *  - Resource isolation: a node declaring resourceLimits.isolation 'worker'
+ *    runs each attempt in a worker thread (src/pipeline/isolatedNodeRunner.ts)
+ *    under its maxHeapMb / activeTimeMs limits; a breach is a fast-fail
+ *    NodeResourceLimitError settled under the node's failure policy.
+ *  - Pipeline time budget: ExecuteRequest.deadlineMs (else the manifest's
+ *    deadlineMs) caps total execution. Each attempt's timeout is shrunk to
+ *    the remaining budget, a retry delay that does not fit is shortened to
+ *    leave the retry DEADLINE_MIN_ATTEMPT_MS (a retry is abandoned only once
+ *    the budget is spent), and a node the budget cuts fails fast (no retry)
+ *    under its failure policy. Optional degrade lanes run against the budget
+ *    minus a reserve (DEADLINE_CRITICAL_RESERVE_RATIO) so that, once cut to
+ *    'failed-optional', the critical tail (merge, scorer) still has time to
+ *    finish; a critical node cut by the budget aborts the run. The outcome
+ *    is recorded on the run result (GraphExecutionResult.deadline), NOT in
+ *    the execution summary: wall clock never enters the hashed summary, so
+ *    a budgeted run and an unbudgeted one keep one executionSummaryHash.
  *  - Conditional edges: the governed predicate tree is evaluated against the
  *    settled nodes' validated outputs + pipeline context; false → edge
  *    inactive. A node whose ALL incoming edges are inactive is 'skipped'
@@ -24,6 +40,18 @@
  *  - Joins: parent outputs delivered as { parents: { <nodeId>: output } } —
  *    NO hardcoded parent ids anywhere; branch-completion-order independent
  *    by construction (inputs keyed by nodeId; merge visits sorted nodeIds).
+ *    A 'declared-fields' join instead receives ONE flat object: each
+ *    contributing parent's outputSchemaRef-declared fields, collisions
+ *    settled by the join's conflictRule (src/pipeline/declaredFields.ts) and
+ *    resolved conflicts recorded on the join's summary entry.
+ *  - Race joins (policy any / quorum:<n> / firstN:<n>, see
+ *    src/pipeline/joinPolicy.ts): the winners are the first n parents to
+ *    RESOLVE with an output (arrival order); the moment the quota is met
+ *    every other outstanding parent is cancelled (running ones through
+ *    their abort signal) and recorded 'cancelled' however far it got. The
+ *    join's summary entry records its winner set (raceWinners, sorted), so
+ *    the hash commits to which parents won and to nothing else about the
+ *    timing. Settlements stay ordered by wave then nodeId.
  *  - Failure taxonomy: NodeConfigurationError is ALWAYS fatal (D-FCP-8);
  *    other errors retry per policy, then abort the pipeline (critical, the
  *    default) or settle the node as 'failed-optional' (critical:false +
@@ -32,16 +60,27 @@
  *    node with recorded degradations settles 'degraded' and its output IS
  *    used (real partial data, never fabricated).
  *  - Result extraction from the manifest's single scorer sink.
+ *  - Memoization: with a result cache configured, a provider-free node whose
+ *    plugin manifest declares `deterministic: true` is served from the cache
+ *    when the same input, config and signal projection ran before
+ *    (src/pipeline/nodeResultCache.ts); a hit is a 'cache-hit' node event
+ *    and deposits no invocation proof.
  *  - Structured per-node logs/metrics { nodeId, status, durationMs, attempt }
  *    — operational only, NEVER hash material.
  *  - Execution summary: canonical, timestamp-free, ordered by wave then
  *    nodeId (src/pipeline/executionSummary.ts) + executionSummaryHash.
  */
 import type { CanonicalUss } from "../types/canonicalUss.js";
-import { evaluatePredicate, type ConditionEnv } from "./conditions.js";
+import {
+  ConditionEvaluationError,
+  evaluatePredicate,
+  validatePredicate,
+  type ConditionEnv,
+} from "./conditions.js";
 import {
   buildExecutionSummary,
   computeExecutionSummaryHash,
+  type ExecutionJoinConflict,
   type ExecutionSummary,
   type ExecutionSummaryEntry,
   type NodeExecutionStatus,
@@ -55,6 +94,7 @@ import type {
 } from "./manifestTypes.js";
 import {
   NodeConfigurationError,
+  NodeFastFailError,
   SILENT_NODE_LOGGER,
   type AnalysisNodePlugin,
   type NodeDegradation,
@@ -62,7 +102,24 @@ import {
   type NodeResult,
 } from "./nodeSdk.js";
 import { pluginKey, type PluginRegistry } from "./pluginRegistry.js";
+import {
+  createGovernedDeclaredFieldsResolver,
+  mergeDeclaredFields,
+  type DeclaredFieldsContribution,
+  type DeclaredFieldsResolver,
+} from "./declaredFields.js";
+import { isWorkerIsolated, runIsolatedNode } from "./isolatedNodeRunner.js";
+import { isMemoizable, nodeResultCacheKey, type NodeResultCache } from "./nodeResultCache.js";
+import {
+  JoinPolicyUnmetError,
+  joinQuota,
+  NodeCancelledError,
+  parseJoinPolicy,
+  racePolicyOf,
+  type ParsedJoinPolicy,
+} from "./joinPolicy.js";
 import type { ProviderInvocationProofV1 } from "../providers/invocationProof.js";
+import type { ProviderSelectionRecord } from "../providers/laneSelection.js";
 
 // ---------------------------------------------------------------------------
 // Errors
@@ -113,6 +170,28 @@ export class NodeTimeoutError extends Error {
   }
 }
 
+/**
+ * The pipeline time budget ran out on a node (before or during an attempt,
+ * or with a retry delay that no longer fits). A fast-fail: never retried,
+ * settled under the node's failure policy with degradation class
+ * 'pipeline-deadline'.
+ */
+export class PipelineDeadlineExceededError extends NodeFastFailError {
+  readonly nodeId: string;
+  readonly budgetMs: number;
+  constructor(nodeId: string, budgetMs: number, cause?: unknown) {
+    super(
+      "pipeline-deadline",
+      `node '${nodeId}' cut by the ${budgetMs}ms pipeline deadline${
+        cause !== undefined ? ` (last failure: ${cause instanceof Error ? cause.message : String(cause)})` : ""
+      }`
+    );
+    this.name = "PipelineDeadlineExceededError";
+    this.nodeId = nodeId;
+    this.budgetMs = budgetMs;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Graph validation (the x-afiConstraints invariants; shared with boot)
 // ---------------------------------------------------------------------------
@@ -129,6 +208,14 @@ export function validatePipelineGraph(manifest: PipelineManifest): string[] {
     if (!idSet.has(e.from)) issues.push(`edge from undeclared node '${e.from}'`);
     if (!idSet.has(e.to)) issues.push(`edge to undeclared node '${e.to}'`);
     if (e.from === e.to) issues.push(`self-edge on '${e.from}'`);
+    if (e.condition !== undefined) {
+      try {
+        validatePredicate(e.condition);
+      } catch (err) {
+        if (!(err instanceof ConditionEvaluationError)) throw err;
+        issues.push(`edge '${e.from}' -> '${e.to}' condition is not evaluable: ${err.message}`);
+      }
+    }
   }
 
   const scorers = manifest.nodes.filter((n) => n.category === "scorer");
@@ -202,6 +289,25 @@ export function validatePipelineGraph(manifest: PipelineManifest): string[] {
     if (parents.length <= 1 && node.join) {
       issues.push(`node '${node.id}' declares a join but has ${parents.length} parent(s)`);
     }
+    const policy = node.join ? parseJoinPolicy(node.join.policy) : undefined;
+    if (node.join && !policy) {
+      issues.push(
+        `node '${node.id}' join policy '${node.join.policy}' must be 'all', 'any', 'quorum:<n>' or 'firstN:<n>'`
+      );
+    }
+    if (policy && policy.kind !== "all") {
+      if (policy.n !== undefined && policy.n > parents.length) {
+        issues.push(`node '${node.id}' join policy '${node.join!.policy}' exceeds its ${parents.length} parents`);
+      }
+      for (const e of parents) {
+        // A race parent may be cancelled; no other consumer may depend on it.
+        if ((outgoing.get(e.from) ?? []).length > 1) {
+          issues.push(
+            `node '${node.id}' join policy '${node.join!.policy}' may cancel parent '${e.from}', which feeds other nodes`
+          );
+        }
+      }
+    }
     const rule = node.join?.merge?.conflictRule;
     if (rule && rule.startsWith("prefer:")) {
       const preferred = rule.slice("prefer:".length);
@@ -213,6 +319,58 @@ export function validatePipelineGraph(manifest: PipelineManifest): string[] {
     }
   }
 
+  // Resource limits (open object; the enforced keys are checked here).
+  for (const node of manifest.nodes) {
+    const limits = node.resourceLimits;
+    if (!limits) continue;
+    if (limits.isolation !== undefined && limits.isolation !== "worker" && limits.isolation !== "inline") {
+      issues.push(`node '${node.id}' resourceLimits.isolation must be 'worker' or 'inline'`);
+    }
+    if (limits.cpuTimeMs !== undefined) {
+      // Never silently carried as a hint: a worker's CPU time is not measurable here.
+      issues.push(
+        `node '${node.id}' resourceLimits.cpuTimeMs is not enforced; use activeTimeMs (event-loop active time)`
+      );
+    }
+    for (const key of ["maxHeapMb", "activeTimeMs"] as const) {
+      const value = limits[key];
+      if (value === undefined) continue;
+      if (!Number.isInteger(value) || value < 1) {
+        issues.push(`node '${node.id}' resourceLimits.${key} must be an integer >= 1`);
+      } else if (limits.isolation !== "worker") {
+        issues.push(`node '${node.id}' resourceLimits.${key} requires isolation 'worker'`);
+      }
+    }
+  }
+
+  // Multi-provider lane selections.
+  for (const node of manifest.nodes) {
+    const selection = node.providerSelection;
+    if (!selection) continue;
+    if (!node.providerInstanceRef) {
+      issues.push(`node '${node.id}' declares a providerSelection without a providerInstanceRef`);
+      continue;
+    }
+    const candidates = [node.providerInstanceRef, ...selection.alternates].map(
+      (ref) => `${ref.providerInstanceId}@${ref.recordVersion}`
+    );
+    if (new Set(candidates).size !== candidates.length) {
+      issues.push(`node '${node.id}' providerSelection repeats a provider instance`);
+    }
+    if (selection.policy === "quorum") {
+      if (node.category !== "sentiment") {
+        issues.push(`node '${node.id}' providerSelection policy 'quorum' is admissible only on a sentiment node`);
+      }
+      // Absent quorum = laneSelection's DEFAULT_PROVIDER_QUORUM (2).
+      const quorum = selection.quorum ?? 2;
+      if (quorum > candidates.length) {
+        issues.push(`node '${node.id}' providerSelection quorum ${quorum} exceeds its ${candidates.length} candidates`);
+      }
+    } else if (selection.quorum !== undefined) {
+      issues.push(`node '${node.id}' providerSelection declares a quorum under policy '${selection.policy}'`);
+    }
+  }
+
   return issues;
 }
 
@@ -223,7 +381,7 @@ export function validatePipelineGraph(manifest: PipelineManifest): string[] {
 /** Operational metric event (never hash material). */
 export interface NodeMetricEvent {
   nodeId: string;
-  status: "success" | "failure" | "timeout" | "retry" | "skipped";
+  status: "success" | "failure" | "timeout" | "retry" | "skipped" | "cancelled" | "cache-hit";
   durationMs: number;
   attempt: number;
 }
@@ -256,6 +414,14 @@ export interface GraphExecutorOptions {
    * closure are boot-validated separately).
    */
   ioValidator?: IoValidator;
+  /**
+   * Resolves a parent plugin's outputSchemaRef to its declared fields for
+   * 'declared-fields' joins (default: the vendored governed result
+   * contracts, loaded on the first such join).
+   */
+  declaredFields?: DeclaredFieldsResolver;
+  /** Memoizes deterministic nodes' results (absent: every node always runs). */
+  resultCache?: NodeResultCache;
   /** Injectable delay (tests); must reject with PipelineAbortedError on abort. */
   sleep?: (ms: number, abort: AbortSignal) => Promise<void>;
 }
@@ -270,6 +436,12 @@ export interface ExecuteRequest {
   context?: Record<string, unknown>;
   /** External cancellation. */
   abortSignal?: AbortSignal;
+  /**
+   * Pipeline time budget in milliseconds, measured from the start of
+   * execute(); overrides the manifest's deadlineMs. Absent (on both) means
+   * no pipeline deadline — per-node timeouts only.
+   */
+  deadlineMs?: number;
 }
 
 export interface NodeRuntimeRecord {
@@ -285,6 +457,13 @@ export interface NodeRuntimeRecord {
   output?: unknown;
   /** Present for failed-optional nodes. */
   error?: string;
+  /** True when the output was served from the result cache. */
+  cached?: boolean;
+  /**
+   * Executed/degraded multi-provider lanes: the selection record the lane
+   * deposited (laneSelection.ts) — kept here, out of the invocation proof.
+   */
+  providerSelection?: ProviderSelectionRecord;
 }
 
 export interface GraphExecutionResult {
@@ -294,6 +473,8 @@ export interface GraphExecutionResult {
   executionSummaryHash: CanonicalHashRef;
   /** Operational per-node records (metrics/logging only — never hashed). */
   nodes: NodeRuntimeRecord[];
+  /** Budgeted runs only: the deadline outcome (operational — never hashed). */
+  deadline?: PipelineDeadlineOutcome;
   /**
    * The per-lane provider invocation proofs captured inside THIS pass
    * (EV3-GOV D-EV3-5(2)): deposited by provider-backed nodes through the
@@ -305,7 +486,7 @@ export interface GraphExecutionResult {
   invocationProofs: ProviderInvocationProofV1[];
 }
 
-type SettledStatus = "executed" | "degraded" | "skipped" | "failed-optional";
+type SettledStatus = "executed" | "degraded" | "skipped" | "failed-optional" | "cancelled";
 
 interface NodeState {
   node: PipelineNode;
@@ -318,6 +499,59 @@ interface NodeState {
   durationMs: number;
   wave: number;
   error?: unknown;
+  /** Declared-fields joins: the conflicts the merge resolved. */
+  joinConflicts?: ExecutionJoinConflict[];
+  /** Race joins: the parents that won, sorted by nodeId. */
+  raceWinners?: string[];
+  /**
+   * Set the moment a node resolves inside its wave (before the wave settles):
+   * 'value' when it has an output, 'none' otherwise. Race joins decide on it.
+   */
+  resolved?: "value" | "none";
+  /** Run-wide arrival rank of a node that resolved with an output (race-join winners). */
+  arrival?: number;
+  /** Served from the result cache instead of running. */
+  cached?: boolean;
+  /** The latest attempt's provider selection record (multi-provider lanes). */
+  providerSelection?: ProviderSelectionRecord;
+}
+
+/**
+ * Share of a pipeline time budget held back from optional degrade lanes for
+ * the critical nodes downstream of them: an optional lane is cut at 80% of
+ * the budget, so degrading it never leaves the merge and scorer without time.
+ */
+export const DEADLINE_CRITICAL_RESERVE_RATIO = 0.2;
+
+/**
+ * The shortest attempt window a budgeted retry keeps: a backoff delay that
+ * would leave less than this before the node's deadline is shortened to fit,
+ * so the retry still runs instead of being slept into the deadline.
+ */
+export const DEADLINE_MIN_ATTEMPT_MS = 50;
+
+/**
+ * The deadline outcome of a budgeted run: 'met' when every node settled
+ * inside the budget, 'exceeded' when the budget cut at least one (optional)
+ * node — a critical node cut by the budget aborts the run, so no outcome is
+ * ever produced for it. Operational only: NEVER hashed.
+ */
+export interface PipelineDeadlineOutcome {
+  budgetMs: number;
+  outcome: "met" | "exceeded";
+  /** The nodes the budget cut, sorted by nodeId (empty when met). */
+  cutNodes: string[];
+}
+
+/** A run's pipeline time budget (absent for unbudgeted runs). */
+interface RunBudget {
+  budgetMs: number;
+  /** Epoch ms at which the budget runs out (critical nodes). */
+  deadlineAt: number;
+  /** Epoch ms at which optional degrade lanes are cut (reserve held back). */
+  optionalDeadlineAt: number;
+  /** Nodes the budget cut (settled failed-optional under it). */
+  cut: Set<string>;
 }
 
 function defaultSleep(ms: number, abort: AbortSignal): Promise<void> {
@@ -388,6 +622,8 @@ export class GraphExecutor {
   private readonly logger: NodeLogger;
   private readonly onNodeEvent?: (event: NodeMetricEvent) => void;
   private readonly ioValidator?: IoValidator;
+  private declaredFields?: DeclaredFieldsResolver;
+  private readonly resultCache?: NodeResultCache;
   private readonly sleep: (ms: number, abort: AbortSignal) => Promise<void>;
 
   constructor(options: GraphExecutorOptions) {
@@ -397,6 +633,8 @@ export class GraphExecutor {
     this.logger = options.logger ?? SILENT_NODE_LOGGER;
     this.onNodeEvent = options.onNodeEvent;
     this.ioValidator = options.ioValidator;
+    this.declaredFields = options.declaredFields;
+    this.resultCache = options.resultCache;
     this.sleep = options.sleep ?? defaultSleep;
   }
 
@@ -405,6 +643,22 @@ export class GraphExecutor {
     const issues = validatePipelineGraph(manifest);
     if (issues.length > 0) throw new GraphValidationError(issues);
 
+    const budgetMs = request.deadlineMs ?? manifest.deadlineMs;
+    if (budgetMs !== undefined && !(Number.isInteger(budgetMs) && budgetMs >= 1)) {
+      throw new GraphValidationError([`deadlineMs must be an integer >= 1, got ${budgetMs}`]);
+    }
+    const startedAt = Date.now();
+    const budget: RunBudget | undefined =
+      budgetMs !== undefined
+        ? {
+            budgetMs,
+            deadlineAt: startedAt + budgetMs,
+            optionalDeadlineAt:
+              startedAt + budgetMs - Math.floor(budgetMs * DEADLINE_CRITICAL_RESERVE_RATIO),
+            cut: new Set(),
+          }
+        : undefined;
+
     const root = new AbortController();
     const externalAbort = request.abortSignal;
     const onExternalAbort = () => root.abort(externalAbort?.reason);
@@ -414,7 +668,7 @@ export class GraphExecutor {
     }
 
     try {
-      return await this.executeGraph(request, root);
+      return await this.executeGraph(request, root, budget);
     } finally {
       externalAbort?.removeEventListener("abort", onExternalAbort);
       // Release anything still racing the root signal.
@@ -424,11 +678,14 @@ export class GraphExecutor {
 
   private async executeGraph(
     request: ExecuteRequest,
-    root: AbortController
+    root: AbortController,
+    budget: RunBudget | undefined
   ): Promise<GraphExecutionResult> {
     const { manifest } = request;
     const states = new Map<string, NodeState>();
     const incoming = new Map<string, PipelineEdge[]>();
+    const outgoing = new Map<string, PipelineEdge[]>();
+    const races = new Map<string, ParsedJoinPolicy>();
     for (const node of manifest.nodes) {
       states.set(node.id, {
         node,
@@ -439,8 +696,14 @@ export class GraphExecutor {
         wave: -1,
       });
       incoming.set(node.id, []);
+      outgoing.set(node.id, []);
+      const race = racePolicyOf(node.join);
+      if (race) races.set(node.id, race);
+    }
+    for (const edge of manifest.edges) {
+      incoming.get(edge.to)!.push(edge);
+      outgoing.get(edge.from)!.push(edge);
     }
-    for (const edge of manifest.edges) incoming.get(edge.to)!.push(edge);
 
     const conditionEnv: ConditionEnv = {
       nodes: {},
@@ -466,6 +729,8 @@ export class GraphExecutor {
         pluginId: state.node.pluginId,
         pluginVersion: state.node.pluginVersion,
         status,
+        ...(state.joinConflicts !== undefined ? { joinConflicts: state.joinConflicts } : {}),
+        ...(state.raceWinners !== undefined ? { raceWinners: state.raceWinners } : {}),
       });
     };
 
@@ -496,6 +761,9 @@ export class GraphExecutor {
         case "skipped":
           // Skip propagates, except optional edges into joins.
           return targetIsJoin && edge.optional === true ? "empty" : "inactive";
+        case "cancelled":
+          // Only race-join losers (and what fed nothing but them) are cancelled.
+          return "inactive";
         default:
           throw new Error(`edge from unsettled node '${edge.from}'`);
       }
@@ -515,10 +783,85 @@ export class GraphExecutor {
       return output;
     };
 
+    /** A parent's outcome as a race join sees it; undefined while outstanding. */
+    const parentOutcome = (edge: PipelineEdge): "value" | "none" | undefined => {
+      const source = states.get(edge.from)!;
+      const resolved =
+        source.resolved ??
+        (source.status === "pending"
+          ? undefined
+          : source.status === "executed" || source.status === "degraded"
+            ? "value"
+            : "none");
+      if (resolved !== "value") return resolved;
+      return !edge.condition || evaluatePredicate(edge.condition, conditionEnv) ? "value" : "none";
+    };
+
+    /**
+     * A race join's decision, frozen the moment its quota is met: the first
+     * `quota` parents to resolve with a value (arrival order) win; every
+     * parent not yet resolved then — or resolving with a value after — loses.
+     * A parent that resolved without a value before the decision settles on
+     * its own (failed-optional / skipped), never as a loser.
+     */
+    const raceDecisions = new Map<string, { winners: PipelineEdge[]; losers: PipelineEdge[] }>();
+    let arrivals = 0;
+    const decideRace = (joinId: string): { winners: PipelineEdge[]; losers: PipelineEdge[] } | undefined => {
+      const decided = raceDecisions.get(joinId);
+      if (decided) return decided;
+      const parents = incoming.get(joinId)!;
+      const quota = joinQuota(races.get(joinId)!, parents.length);
+      const arrived = parents
+        .filter((edge) => parentOutcome(edge) === "value")
+        .sort((a, b) => states.get(a.from)!.arrival! - states.get(b.from)!.arrival!);
+      if (arrived.length < quota) return undefined;
+      const winners = arrived.slice(0, quota);
+      const decision = {
+        winners,
+        losers: parents.filter((edge) => !winners.includes(edge) && parentOutcome(edge) !== "none"),
+      };
+      raceDecisions.set(joinId, decision);
+      return decision;
+    };
+
+    /** The parents a met, still-pending race join no longer needs. */
+    const raceLosers = (joinId: string): PipelineEdge[] => {
+      if (!races.has(joinId) || states.get(joinId)!.status !== "pending") return [];
+      return decideRace(joinId)?.losers ?? [];
+    };
+
+    const raceSatisfied = (joinId: string): boolean => raceLosers(joinId).length > 0;
+
     let wave = 0;
     for (;;) {
       if (root.signal.aborted) throw new PipelineAbortedError(root.signal.reason);
 
+      // Cancel what nobody waits on anymore: the outstanding parents of a
+      // satisfied race join, then (transitively) pending nodes whose every
+      // consumer settled or was cancelled. Recorded first, in sorted order.
+      const cancelled = new Set<string>();
+      for (let changed = true; changed; ) {
+        changed = false;
+        for (const [id, state] of states) {
+          if (state.status !== "pending" || cancelled.has(id)) continue;
+          const consumers = outgoing.get(id)!;
+          if (
+            consumers.length > 0 &&
+            consumers.every(
+              (e) => cancelled.has(e.to) || states.get(e.to)!.status !== "pending" || raceSatisfied(e.to)
+            )
+          ) {
+            cancelled.add(id);
+            changed = true;
+          }
+        }
+      }
+      for (const id of [...cancelled].sort()) {
+        settle(states.get(id)!, "cancelled", wave);
+        this.onNodeEvent?.({ nodeId: id, status: "cancelled", durationMs: 0, attempt: 0 });
+        this.logger.info("node cancelled (no consumer waits on it)", { nodeId: id });
+      }
+
       const pendingIds = [...states.values()]
         .filter((s) => s.status === "pending")
         .map((s) => s.node.id);
@@ -534,7 +877,7 @@ export class GraphExecutor {
       }
 
       // Settle skips first (synchronously, in sorted order) — deterministic.
-      const runnable: Array<{ id: string; input: unknown }> = [];
+      const runnable: Array<{ id: string; input: unknown; failure?: Error }> = [];
       for (const id of ready) {
         const state = states.get(id)!;
         const parents = incoming.get(id) ?? [];
@@ -554,37 +897,129 @@ export class GraphExecutor {
           continue;
         }
 
+        // A race join receives only its winners.
+        let joined = edgeStates;
+        let failure: Error | undefined;
+        const race = races.get(id);
+        if (race) {
+          const quota = joinQuota(race, parents.length);
+          // Every parent has settled: an undecided race takes what arrived.
+          const winners = decideRace(id)?.winners ?? parents.filter((edge) => parentOutcome(edge) === "value");
+          joined = parents
+            .filter((edge) => winners.includes(edge))
+            .map((edge) => ({ edge, state: "value" as const }));
+          state.raceWinners = joined.map(({ edge }) => edge.from).sort();
+          if (joined.length < quota && race.kind !== "firstN") {
+            failure = new JoinPolicyUnmetError(id, state.node.join!.policy, joined.length);
+          }
+        }
+
         let input: unknown;
-        if (isJoin) {
+        if (isJoin && state.node.join?.merge.strategy === "declared-fields") {
+          try {
+            const merged = mergeDeclaredFields(
+              id,
+              joined
+                .filter((es) => es.state === "value")
+                .map(({ edge }) => this.declaredContribution(states.get(edge.from)!.node, contributionOf(edge))),
+              state.node.join.merge.conflictRule
+            );
+            input = merged.value;
+            state.joinConflicts = merged.conflicts;
+          } catch (err) {
+            root.abort(err);
+            throw new NodeExecutionError(
+              id,
+              err instanceof NodeConfigurationError ? "configuration" : "critical-failure",
+              err
+            );
+          }
+        } else if (isJoin) {
           const parentsMap: Record<string, unknown> = {};
-          for (const { edge, state: es } of edgeStates) {
+          for (const { edge, state: es } of joined) {
             parentsMap[edge.from] = es === "value" ? contributionOf(edge) : {};
           }
           input = { parents: parentsMap };
         } else {
           input = contributionOf(edgeStates[0].edge);
         }
-        runnable.push({ id, input });
+        runnable.push({ id, input, failure });
       }
 
-      // Run the wave (bounded Promise.all; deterministic start order).
+      // Run the wave (bounded Promise.all; deterministic start order). Each
+      // resolution may decide a race join: its losers still running in this
+      // wave are cancelled through their signal.
+      const cancels = new Map(runnable.map(({ id }) => [id, new AbortController()]));
+      const resolve = (id: string, outcome: "value" | "none") => {
+        const state = states.get(id)!;
+        state.resolved = outcome;
+        if (outcome === "value") {
+          state.arrival = arrivals++;
+          // Visible to race-join edge conditions before the wave settles.
+          conditionEnv.nodes[id] = { output: state.output };
+        }
+        for (const { to } of outgoing.get(id)!) {
+          for (const loser of raceLosers(to)) {
+            if (states.get(loser.from)!.resolved === undefined) {
+              cancels.get(loser.from)?.abort(new NodeCancelledError(loser.from, to));
+            }
+          }
+        }
+      };
       const settled = await Promise.allSettled(
-        runnable.map(async ({ id, input }) => {
+        runnable.map(async ({ id, input, failure }) => {
+          const state = states.get(id)!;
+          if (failure) {
+            state.deliveredInput = input;
+            try {
+              return this.applyFailurePolicy(state, failure, budget);
+            } finally {
+              resolve(id, "none");
+            }
+          }
           await semaphore.acquire();
           try {
-            return await this.runNode(states.get(id)!, input, request, root, invocationProofs);
+            const status = await this.runNode(
+              state,
+              input,
+              request,
+              root,
+              invocationProofs,
+              budget,
+              cancels.get(id)!.signal
+            );
+            resolve(id, status === "failed-optional" ? "none" : "value");
+            return status;
+          } catch (error) {
+            resolve(id, "none");
+            throw error;
           } finally {
             semaphore.release();
           }
         })
       );
 
+      // Race losers settle 'cancelled' however far they got — finished,
+      // failed or aborted — once their join's decision excluded them.
+      const lost = new Map<string, string>();
+      for (const joinId of races.keys()) {
+        for (const loser of raceLosers(joinId)) lost.set(loser.from, joinId);
+      }
+
       // Record outcomes in sorted-node order (never completion order).
       let fatal: { nodeId: string; error: unknown } | undefined;
       runnable.forEach(({ id }, index) => {
         const state = states.get(id)!;
         const outcome = settled[index];
-        if (outcome.status === "fulfilled") {
+        if (lost.has(id)) {
+          delete conditionEnv.nodes[id];
+          settle(state, "cancelled", wave);
+          this.onNodeEvent?.({ nodeId: id, status: "cancelled", durationMs: state.durationMs, attempt: state.attempts });
+          this.logger.info("node cancelled (race join satisfied without it)", {
+            nodeId: id,
+            joinNodeId: lost.get(id),
+          });
+        } else if (outcome.status === "fulfilled") {
           settle(state, outcome.value, wave);
         } else {
           state.error = outcome.reason;
@@ -631,6 +1066,15 @@ export class GraphExecutor {
       summary,
       executionSummaryHash: computeExecutionSummaryHash(summary),
       invocationProofs: settledProofs,
+      ...(budget
+        ? {
+            deadline: {
+              budgetMs: budget.budgetMs,
+              outcome: budget.cut.size > 0 ? ("exceeded" as const) : ("met" as const),
+              cutNodes: [...budget.cut].sort(),
+            },
+          }
+        : {}),
       nodes: [...states.values()].map((s) => ({
         nodeId: s.node.id,
         pluginId: s.node.pluginId,
@@ -647,20 +1091,50 @@ export class GraphExecutor {
               ? s.error.message
               : String(s.error)
             : undefined,
+        ...(s.cached ? { cached: true } : {}),
+        ...(s.providerSelection && (s.status === "executed" || s.status === "degraded")
+          ? { providerSelection: s.providerSelection }
+          : {}),
       })),
     };
   }
 
   /**
-   * Runs one node with timeout + retry policy. Resolves with the node's
-   * settled status; rejects when the failure is fatal for the pipeline.
+   * A declared-fields join parent's contribution: the fields its bound
+   * plugin manifest's outputSchemaRef declares. A parent whose contract is
+   * unknown cannot be projected — a deployment defect, never guessed.
+   */
+  private declaredContribution(parent: PipelineNode, output: unknown): DeclaredFieldsContribution {
+    const key = pluginKey(parent.pluginId, parent.pluginVersion);
+    const schemaRef = this.pluginManifests?.get(key)?.outputSchemaRef;
+    if (schemaRef === undefined) {
+      throw new NodeConfigurationError(
+        `declared-fields join parent '${parent.id}': no plugin manifest declares the output contract of ${key}`
+      );
+    }
+    this.declaredFields ??= createGovernedDeclaredFieldsResolver();
+    const fields = this.declaredFields(schemaRef);
+    if (fields === undefined) {
+      throw new NodeConfigurationError(
+        `declared-fields join parent '${parent.id}': output contract '${schemaRef}' declares no known fields`
+      );
+    }
+    return { nodeId: parent.id, fields, output };
+  }
+
+  /**
+   * Runs one node with timeout + retry policy, inside the run's time budget
+   * when one applies. Resolves with the node's settled status; rejects when
+   * the failure is fatal for the pipeline.
    */
   private async runNode(
     state: NodeState,
     input: unknown,
     request: ExecuteRequest,
     root: AbortController,
-    invocationProofs: Map<string, ProviderInvocationProofV1>
+    invocationProofs: Map<string, ProviderInvocationProofV1>,
+    budget: RunBudget | undefined,
+    cancel: AbortSignal
   ): Promise<"executed" | "degraded" | "failed-optional"> {
     const node = state.node;
     state.deliveredInput = input;
@@ -676,43 +1150,104 @@ export class GraphExecutor {
         `no build-time binding for ${pluginKey(node.pluginId, node.pluginVersion)}`
       );
     }
+    const isolated = isWorkerIsolated(node);
+    if (isolated && !plugin.isolatedModuleUrl) {
+      throw new NodeConfigurationError(
+        `node '${node.id}' requests worker isolation but ${pluginKey(node.pluginId, node.pluginVersion)} declares no isolatedModuleUrl`
+      );
+    }
 
     const manifest = this.pluginManifests?.get(pluginKey(node.pluginId, node.pluginVersion));
     const timeoutMs = node.timeoutMs ?? manifest?.defaultTimeoutMs;
     const maxRetries = node.maxRetries ?? manifest?.defaultRetryPolicy?.maxRetries ?? 0;
     const retryDelayMs = node.retryDelayMs ?? manifest?.defaultRetryPolicy?.retryDelayMs ?? 0;
     const backoff = node.backoff ?? manifest?.defaultRetryPolicy?.backoff ?? "fixed";
+    const critical = node.critical !== false;
+    const policy = node.failurePolicy ?? "abort";
+    const deadlineAt =
+      budget && (!critical && policy === "degrade" ? budget.optionalDeadlineAt : budget.deadlineAt);
 
     this.validateIo(manifest?.inputSchemaRef, input, "input", node.id);
 
+    const cacheKey =
+      this.resultCache && isMemoizable(node, manifest?.deterministic)
+        ? nodeResultCacheKey(node, plugin, input, request.signal)
+        : undefined;
+    if (cacheKey !== undefined) {
+      const cached = await this.resultCache!.get(cacheKey);
+      if (cached) {
+        if (root.signal.aborted) throw new PipelineAbortedError(root.signal.reason);
+        if (cancel.aborted) throw cancel.reason;
+        state.output = cached.output;
+        state.degradations = [];
+        state.cached = true;
+        this.onNodeEvent?.({ nodeId: node.id, status: "cache-hit", durationMs: 0, attempt: 0 });
+        this.logger.info("node served from result cache", { nodeId: node.id });
+        return "executed";
+      }
+    }
+
     let lastError: unknown;
     for (let attempt = 1; attempt <= maxRetries + 1; attempt += 1) {
       if (root.signal.aborted) throw new PipelineAbortedError(root.signal.reason);
+      if (cancel.aborted) throw cancel.reason;
+
+      // Shrink the attempt's timeout to the remaining budget; an exhausted
+      // budget cuts the node before the attempt starts.
+      const remainingMs = deadlineAt !== undefined ? deadlineAt - Date.now() : undefined;
+      if (budget && remainingMs !== undefined && remainingMs <= 0) {
+        lastError = new PipelineDeadlineExceededError(node.id, budget.budgetMs, lastError);
+        break;
+      }
+      const cappedByDeadline =
+        remainingMs !== undefined && (timeoutMs === undefined || remainingMs < timeoutMs);
+      const attemptTimeoutMs = cappedByDeadline ? remainingMs : timeoutMs;
 
       const nodeController = new AbortController();
       const onRootAbort = () => nodeController.abort(root.signal.reason);
+      const onCancel = () => nodeController.abort(cancel.reason);
       root.signal.addEventListener("abort", onRootAbort, { once: true });
+      cancel.addEventListener("abort", onCancel, { once: true });
       const timer =
-        timeoutMs !== undefined
-          ? setTimeout(() => nodeController.abort(new NodeTimeoutError(node.id, timeoutMs)), timeoutMs)
+        attemptTimeoutMs !== undefined
+          ? setTimeout(
+              () =>
+                nodeController.abort(
+                  budget && cappedByDeadline
+                    ? new PipelineDeadlineExceededError(node.id, budget.budgetMs)
+                    : new NodeTimeoutError(node.id, attemptTimeoutMs)
+                ),
+              attemptTimeoutMs
+            )
           : undefined;
       const racer = abortRejection(nodeController.signal);
 
       const startedAt = Date.now();
       try {
         const result: NodeResult = await Promise.race([
-          plugin.run(input, {
-            signal: request.signal,
-            config: node.config ?? {},
-            logger: this.logger,
-            abort: nodeController.signal,
-            // Non-secret provider-instance reference (PBF-GOV D-PBF-4); present
-            // only on provider-backed nodes, resolved BELOW the node.
-            providerInstanceRef: node.providerInstanceRef,
-            // Invocation-proof deposit sink (EV3-GOV D-EV3-5(2)): run-scoped,
-            // keyed by nodeId; only provider-backed nodes ever call it.
-            depositInvocationProof: (proof) => invocationProofs.set(node.id, proof),
-          }),
+          isolated
+            ? runIsolatedNode({
+                node,
+                moduleUrl: plugin.isolatedModuleUrl!,
+                input,
+                signal: request.signal,
+                logger: this.logger,
+                abort: nodeController.signal,
+              })
+            : plugin.run(input, {
+                signal: request.signal,
+                config: node.config ?? {},
+                logger: this.logger,
+                abort: nodeController.signal,
+                // Non-secret provider-instance reference (PBF-GOV D-PBF-4); present
+                // only on provider-backed nodes, resolved BELOW the node.
+                providerInstanceRef: node.providerInstanceRef,
+                providerSelection: node.providerSelection,
+                // Invocation-proof deposit sink (EV3-GOV D-EV3-5(2)): run-scoped,
+                // keyed by nodeId; only provider-backed nodes ever call it.
+                depositInvocationProof: (proof) => invocationProofs.set(node.id, proof),
+                depositProviderSelection: (record) => (state.providerSelection = record),
+              }),
           racer.promise,
         ]);
         const durationMs = Date.now() - startedAt;
@@ -722,6 +1257,10 @@ export class GraphExecutor {
         state.output = result.output;
         state.degradations = result.degradations ?? [];
         const status = state.degradations.length > 0 ? "degraded" : "executed";
+        // A node that invoked a provider is not pure after all: never cached.
+        if (cacheKey !== undefined && status === "executed" && !invocationProofs.has(node.id)) {
+          this.resultCache!.set(cacheKey, { output: result.output });
+        }
         this.onNodeEvent?.({ nodeId: node.id, status: "success", durationMs, attempt });
         this.logger.info("node settled", { nodeId: node.id, status, durationMs, attempt });
         return status;
@@ -730,8 +1269,11 @@ export class GraphExecutor {
         state.attempts = attempt;
         state.durationMs += durationMs;
         lastError = error;
+        // A race join no longer needs this node: never retried, never a failure.
+        if (cancel.aborted && !root.signal.aborted) throw cancel.reason;
 
-        const isTimeout = error instanceof NodeTimeoutError;
+        const isTimeout =
+          error instanceof NodeTimeoutError || error instanceof PipelineDeadlineExceededError;
         const isExternalAbort =
           error instanceof PipelineAbortedError ||
           (root.signal.aborted && !isTimeout);
@@ -750,13 +1292,24 @@ export class GraphExecutor {
             : new PipelineAbortedError(root.signal.reason);
         }
 
-        if (attempt <= maxRetries) {
-          const delay =
+        if (attempt <= maxRetries && !(error instanceof NodeFastFailError)) {
+          let delay =
             backoff === "none"
               ? 0
               : backoff === "exponential"
                 ? retryDelayMs * 2 ** (attempt - 1)
                 : retryDelayMs;
+          // Under a budget the delay is clamped to leave the retry at least
+          // DEADLINE_MIN_ATTEMPT_MS (or whatever remains, if less); the retry
+          // is abandoned only once nothing of the budget is left.
+          if (budget && deadlineAt !== undefined) {
+            const remaining = deadlineAt - Date.now();
+            if (remaining <= 0) {
+              lastError = new PipelineDeadlineExceededError(node.id, budget.budgetMs, error);
+              break;
+            }
+            delay = Math.min(delay, Math.max(0, remaining - DEADLINE_MIN_ATTEMPT_MS));
+          }
           this.onNodeEvent?.({ nodeId: node.id, status: "retry", durationMs: delay, attempt });
           this.logger.warn("node attempt failed; retrying", {
             nodeId: node.id,
@@ -764,22 +1317,38 @@ export class GraphExecutor {
             delay,
             error: error instanceof Error ? error.message : String(error),
           });
-          if (delay > 0) await this.sleep(delay, root.signal);
+          if (delay > 0) {
+            await this.sleep(delay, AbortSignal.any([root.signal, cancel])).catch((err: unknown) => {
+              throw cancel.aborted && !root.signal.aborted ? cancel.reason : err;
+            });
+          }
           continue;
         }
       } finally {
         if (timer !== undefined) clearTimeout(timer);
         racer.dispose();
         root.signal.removeEventListener("abort", onRootAbort);
+        cancel.removeEventListener("abort", onCancel);
       }
 
       break; // retries exhausted
     }
 
-    // Policy application: degrade only when explicitly declared (D-FCP-8).
-    const critical = state.node.critical !== false;
-    const policy = state.node.failurePolicy ?? "abort";
-    if (!critical && policy === "degrade") {
+    return this.applyFailurePolicy(state, lastError, budget);
+  }
+
+  /**
+   * Policy application: degrade only when explicitly declared (D-FCP-8);
+   * anything else rethrows the failure for the run to abort.
+   */
+  private applyFailurePolicy(
+    state: NodeState,
+    lastError: unknown,
+    budget: RunBudget | undefined
+  ): "failed-optional" {
+    const node = state.node;
+    if (node.critical === false && node.failurePolicy === "degrade") {
+      if (budget && lastError instanceof PipelineDeadlineExceededError) budget.cut.add(node.id);
       this.logger.warn("node failed under declared degrade policy (recorded)", {
         nodeId: node.id,
         error: lastError instanceof Error ? lastError.message : String(lastError),
@@ -787,7 +1356,7 @@ export class GraphExecutor {
       state.error = lastError;
       state.degradations = [
         {
-          class: "node-failure",
+          class: lastError instanceof NodeFastFailError ? lastError.degradationClass : "node-failure",
           detail: lastError instanceof Error ? lastError.message : String(lastError),
         },
       ];
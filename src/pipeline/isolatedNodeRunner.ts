@@ -0,0 +1,243 @@
+/**
+ * Isolated node runner — executes one node attempt inside a worker thread
+ * when its manifest node declares `resourceLimits.isolation: 'worker'`.
+ *
+ * The worker rebuilds the node from the plugin's `isolatedModuleUrl` (the
+ * module's `createNode(host)`; a closure cannot cross the thread boundary),
+ * receives the input, signal and config by structured clone, and posts back
+ * the NodeResult. Limits:
+ *  - maxHeapMb: the worker's V8 old-generation ceiling; exhausting it kills
+ *    the worker (ERR_WORKER_OUT_OF_MEMORY).
+ *  - activeTimeMs: a budget on the time the worker's event loop is busy
+ *    (performance.eventLoopUtilization().active) — polled from the parent,
+ *    which terminates the worker once the budget is spent. Idle time awaiting
+ *    I/O or timers does not count, but this is still wall-clock time, NOT
+ *    CPU time: a synchronous call that blocks, or a thread the OS has
+ *    descheduled, spends the budget too (Node 20 has no per-thread CPU
+ *    clock). Distinct from the whole-attempt timeoutMs the executor applies.
+ * A breach is a NodeResourceLimitError: a fast-fail (never retried — the
+ * same input breaches again) settled under the node's failurePolicy.
+ *
+ * One worker per attempt: no state survives between runs, and an abort
+ * (timeout, deadline, pipeline cancellation) terminates it outright.
+ * Isolated nodes get no invocation-proof sink and no provider runtime —
+ * isolation is for self-contained compute nodes (pattern, ML, third-party
+ * bundles), not for provider-backed lanes.
+ *
+ * Only a plugin that declares `isolatedModuleUrl` can be isolated. Today that
+ * is every signed-bundle node (pluginBundles.bundleNodes points it at the
+ * admitted bytes); the build-time nodes declare none, so a manifest asking
+ * to isolate one fails the node with a NodeConfigurationError.
+ */
+import { Worker } from "node:worker_threads";
+import type { PipelineNode } from "./manifestTypes.js";
+import {
+  NodeConfigurationError,
+  NodeFastFailError,
+  type CanonicalUss,
+  type NodeLogger,
+  type NodeResult,
+} from "./nodeSdk.js";
+
+export type NodeResourceLimitKind = "heap" | "active-time";
+
+/** A worker-isolated node breached its heap limit or active-time budget. */
+export class NodeResourceLimitError extends NodeFastFailError {
+  readonly nodeId: string;
+  readonly limit: NodeResourceLimitKind;
+  /** The breached limit (MB for heap, ms for active-time). */
+  readonly limitValue: number;
+  constructor(nodeId: string, limit: NodeResourceLimitKind, limitValue: number) {
+    super(
+      "resource-limit",
+      limit === "heap"
+        ? `node '${nodeId}' exceeded its ${limitValue}MB heap limit`
+        : `node '${nodeId}' exceeded its ${limitValue}ms active-time budget`
+    );
+    this.name = "NodeResourceLimitError";
+    this.nodeId = nodeId;
+    this.limit = limit;
+    this.limitValue = limitValue;
+  }
+}
+
+/** True when the manifest node asks to run in a worker thread. */
+export function isWorkerIsolated(node: PipelineNode): boolean {
+  return node.resourceLimits?.isolation === "worker";
+}
+
+export interface IsolatedNodeRun {
+  node: PipelineNode;
+  /** The plugin's worker entry (AnalysisNodePlugin.isolatedModuleUrl). */
+  moduleUrl: string;
+  input: unknown;
+  signal: CanonicalUss;
+  logger: NodeLogger;
+  abort: AbortSignal;
+}
+
+/**
+ * The worker body (evaluated as CommonJS). Imports the entry module, checks
+ * the rebuilt node is bound to the expected identity, runs it once and
+ * posts { type: 'result' } or { type: 'failure' }. Logger calls are
+ * forwarded to the parent's node logger.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+const post = (message) => parentPort.postMessage(message);
+const failure = (kind, err) => ({
+  type: "failure",
+  kind,
+  name: err && typeof err.name === "string" ? err.name : "Error",
+  message: err && err.message !== undefined ? String(err.message) : String(err),
+  degradationClass: err && typeof err.degradationClass === "string" ? err.degradationClass : undefined,
+});
+const logger = {};
+for (const level of ["debug", "info", "warn", "error"]) {
+  logger[level] = (message, fields) => post({ type: "log", level, message: String(message), fields });
+}
+const host = { ok: (output, degradations = []) => ({ output, degradations }) };
+
+(async () => {
+  let node;
+  try {
+    const mod = await import(workerData.moduleUrl);
+    node = typeof mod.createNode === "function" ? mod.createNode(host) : undefined;
+    const ref = node && node.manifestRef;
+    if (!node || typeof node.run !== "function" || !ref || ref.pluginId + "@" + ref.pluginVersion !== workerData.pluginKey) {
+      throw new Error("the module's createNode did not return a node bound to " + workerData.pluginKey);
+    }
+  } catch (err) {
+    post(failure("load", err));
+    return;
+  }
+  try {
+    const result = await node.run(workerData.input, {
+      signal: workerData.signal,
+      config: workerData.config,
+      logger,
+      abort: new AbortController().signal,
+      providerInstanceRef: workerData.providerInstanceRef,
+      providerSelection: workerData.providerSelection,
+    });
+    post({ type: "result", result });
+  } catch (err) {
+    post(failure("run", err));
+  }
+})();
+`;
+
+type WorkerMessage =
+  | { type: "log"; level: keyof NodeLogger; message: string; fields?: Record<string, unknown> }
+  | { type: "result"; result: NodeResult }
+  | {
+      type: "failure";
+      kind: "load" | "run";
+      name: string;
+      message: string;
+      degradationClass?: string;
+    };
+
+function failureFrom(nodeId: string, message: Extract<WorkerMessage, { type: "failure" }>): Error {
+  if (message.kind === "load") {
+    // The bound entry module is unusable — a deployment defect, always fatal.
+    return new NodeConfigurationError(`node '${nodeId}' isolated module failed to load: ${message.message}`);
+  }
+  if (message.name === "NodeConfigurationError") return new NodeConfigurationError(message.message);
+  if (message.degradationClass !== undefined) {
+    return new NodeFastFailError(message.degradationClass, message.message);
+  }
+  const error = new Error(message.message);
+  error.name = message.name;
+  return error;
+}
+
+/** How often the parent samples an isolated node's event-loop active time. */
+function activePollIntervalMs(activeTimeMs: number): number {
+  return Math.max(5, Math.min(50, Math.floor(activeTimeMs / 4)));
+}
+
+/**
+ * Run one attempt of `run.node` in a fresh worker thread under its
+ * resourceLimits. Resolves with the node's result; rejects with the node's
+ * own failure, a NodeResourceLimitError, or the abort reason.
+ */
+export function runIsolatedNode(run: IsolatedNodeRun): Promise<NodeResult> {
+  const { node, abort } = run;
+  const maxHeapMb = node.resourceLimits?.maxHeapMb;
+  const activeTimeMs = node.resourceLimits?.activeTimeMs;
+
+  return new Promise<NodeResult>((resolve, reject) => {
+    if (abort.aborted) {
+      reject(abort.reason);
+      return;
+    }
+
+    let worker: Worker;
+    try {
+      worker = new Worker(WORKER_SOURCE, {
+        eval: true,
+        workerData: {
+          moduleUrl: run.moduleUrl,
+          pluginKey: `${node.pluginId}@${node.pluginVersion}`,
+          input: run.input,
+          signal: run.signal,
+          config: node.config ?? {},
+          providerInstanceRef: node.providerInstanceRef,
+          providerSelection: node.providerSelection,
+        },
+        ...(maxHeapMb !== undefined ? { resourceLimits: { maxOldGenerationSizeMb: maxHeapMb } } : {}),
+        stdout: false,
+        stderr: false,
+      });
+    } catch (err) {
+      // e.g. an input that cannot be structured-cloned.
+      reject(err);
+      return;
+    }
+
+    let settled = false;
+    const settle = (outcome: () => void) => {
+      if (settled) return;
+      settled = true;
+      if (activeTimer !== undefined) clearInterval(activeTimer);
+      abort.removeEventListener("abort", onAbort);
+      void worker.terminate();
+      outcome();
+    };
+
+    const onAbort = () => settle(() => reject(abort.reason));
+    abort.addEventListener("abort", onAbort, { once: true });
+
+    const activeTimer =
+      activeTimeMs !== undefined
+        ? setInterval(() => {
+            if (worker.performance.eventLoopUtilization().active > activeTimeMs) {
+              settle(() => reject(new NodeResourceLimitError(node.id, "active-time", activeTimeMs)));
+            }
+          }, activePollIntervalMs(activeTimeMs))
+        : undefined;
+
+    worker.on("message", (message: WorkerMessage) => {
+      if (message.type === "log") {
+        run.logger[message.level](message.message, { nodeId: node.id, ...message.fields });
+      } else if (message.type === "result") {
+        settle(() => resolve(message.result));
+      } else {
+        settle(() => reject(failureFrom(node.id, message)));
+      }
+    });
+    worker.on("error", (err: Error & { code?: string }) => {
+      settle(() =>
+        reject(
+          err.code === "ERR_WORKER_OUT_OF_MEMORY" && maxHeapMb !== undefined
+            ? new NodeResourceLimitError(node.id, "heap", maxHeapMb)
+            : err
+        )
+      );
+    });
+    worker.on("exit", (code) => {
+      settle(() => reject(new Error(`node '${node.id}' isolated worker exited (code ${code}) without a result`)));
+    });
+  });
+}
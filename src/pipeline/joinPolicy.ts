@@ -0,0 +1,86 @@
+/**
+ * Join policies (afi.pipeline.v1 join.policy).
+ *
+ *  - 'all'         — the join waits for every parent to settle (the v1
+ *                    default; failed-optional parents join as empty).
+ *  - 'any'         — the first parent to settle with a value wins.
+ *  - 'quorum:<n>'  — the first n parents to settle with a value win; fewer
+ *                    than n possible → the join fails (JoinPolicyUnmetError).
+ *  - 'firstN:<n>'  — the first n parents to settle with a value win; when
+ *                    fewer ever do, the join proceeds with those it got.
+ *
+ * "First" is ARRIVAL order: the join is decided the moment its quota is
+ * met, so a slow parent never holds it back. Every parent still outstanding
+ * then is CANCELLED — running ones through their abort signal, unscheduled
+ * ones before they start, ones that still finish regardless. Losers settle
+ * 'cancelled', the join receives only the winners, and its summary entry
+ * records the winner set (raceWinners), so the hashed execution summary
+ * commits to which parents won and to nothing else about the timing.
+ * Because a parent may be cancelled, a race parent must feed its join and
+ * nothing else (graph validation).
+ */
+import type { JoinPolicy } from "./manifestTypes.js";
+import { NodeFastFailError } from "./nodeSdk.js";
+
+export interface ParsedJoinPolicy {
+  kind: "all" | "any" | "quorum" | "firstN";
+  /** quorum / firstN only: the parent count the policy waits for. */
+  n?: number;
+}
+
+const COUNTED_POLICY = /^(quorum|firstN):([1-9][0-9]*)$/;
+
+/** Parses a join policy; undefined when the value is not a governed policy. */
+export function parseJoinPolicy(policy: string): ParsedJoinPolicy | undefined {
+  if (policy === "all" || policy === "any") return { kind: policy };
+  const counted = COUNTED_POLICY.exec(policy);
+  if (!counted) return undefined;
+  return { kind: counted[1] as "quorum" | "firstN", n: Number(counted[2]) };
+}
+
+/** The number of value-bearing parents that satisfies the policy. */
+export function joinQuota(policy: ParsedJoinPolicy, parentCount: number): number {
+  switch (policy.kind) {
+    case "all":
+      return parentCount;
+    case "any":
+      return 1;
+    default:
+      return policy.n!;
+  }
+}
+
+/** The race policy of a join declaration (undefined for 'all' or no join). */
+export function racePolicyOf(join: { policy: JoinPolicy } | undefined): ParsedJoinPolicy | undefined {
+  const policy = join ? parseJoinPolicy(join.policy) : undefined;
+  return policy && policy.kind !== "all" ? policy : undefined;
+}
+
+/**
+ * A race join whose parents all settled with fewer values than its 'any' or
+ * 'quorum:<n>' policy requires. Settled under the join's failure policy like
+ * any node failure (never retried — the parents will not settle again).
+ */
+export class JoinPolicyUnmetError extends NodeFastFailError {
+  readonly nodeId: string;
+  constructor(nodeId: string, policy: string, values: number) {
+    super(
+      "join-policy-unmet",
+      `join '${nodeId}' policy '${policy}' unmet: only ${values} parent(s) settled with a value`
+    );
+    this.name = "JoinPolicyUnmetError";
+    this.nodeId = nodeId;
+  }
+}
+
+/** A race join's quota was met without this parent; it was cancelled. */
+export class NodeCancelledError extends Error {
+  readonly nodeId: string;
+  readonly joinNodeId: string;
+  constructor(nodeId: string, joinNodeId: string) {
+    super(`node '${nodeId}' cancelled: join '${joinNodeId}' policy satisfied without it`);
+    this.name = "NodeCancelledError";
+    this.nodeId = nodeId;
+    this.joinNodeId = joinNodeId;
+  }
+}
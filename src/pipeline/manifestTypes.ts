@@ -19,8 +19,11 @@ export type NodeCategory =
 export type BackoffPolicy = "none" | "fixed" | "exponential";
 export type FailurePolicy = "abort" | "degrade";
 
+/** 'all', 'any', 'quorum:<n>' or 'firstN:<n>' (src/pipeline/joinPolicy.ts). */
+export type JoinPolicy = "all" | "any" | `quorum:${number}` | `firstN:${number}`;
+
 export interface JoinDeclaration {
-  policy: "all";
+  policy: JoinPolicy;
   merge: {
     strategy: "namespace-by-node" | "declared-fields";
     /** 'error' or 'prefer:<nodeId>' */
@@ -28,6 +31,41 @@ export interface JoinDeclaration {
   };
 }
 
+/** How a lane chooses among its ordered provider instances. */
+export type ProviderSelectionPolicy = "first-success" | "fallback-on-degradation" | "quorum";
+
+/**
+ * OPTIONAL multi-provider selection for one analysis lane. The candidates are
+ * the node's providerInstanceRef followed by `alternates`, in order.
+ */
+export interface ProviderSelection {
+  policy: ProviderSelectionPolicy;
+  alternates: Array<{ providerInstanceId: string; recordVersion: string }>;
+  /** quorum only: how many candidates must answer (default 2). */
+  quorum?: number;
+}
+
+/**
+ * A node's resource limits (the governed open object; operational only,
+ * never scoring semantics). The executor enforces the keys below; any other
+ * key (e.g. maxConcurrent) is carried as a hint.
+ */
+export interface NodeResourceLimits {
+  /**
+   * "worker" runs the node in a worker thread (src/pipeline/isolatedNodeRunner.ts);
+   * default "inline". Only plugins declaring isolatedModuleUrl (bundle nodes) can.
+   */
+  isolation?: "worker" | "inline";
+  /** Worker heap ceiling in MB (isolation "worker" only). */
+  maxHeapMb?: number;
+  /**
+   * Worker event-loop active-time budget per attempt in ms (isolation
+   * "worker" only). Wall-clock busy time, not CPU time.
+   */
+  activeTimeMs?: number;
+  [key: string]: unknown;
+}
+
 export interface PipelineNode {
   id: string;
   category: NodeCategory;
@@ -40,7 +78,7 @@ export interface PipelineNode {
   backoff?: BackoffPolicy;
   critical?: boolean;
   failurePolicy?: FailurePolicy;
-  resourceLimits?: Record<string, unknown>;
+  resourceLimits?: NodeResourceLimits;
   join?: JoinDeclaration;
   /**
    * OPTIONAL non-secret reference to an afi.provider-instance.v1 record
@@ -48,6 +86,8 @@ export interface PipelineNode {
    * analysis-category nodes. NEVER a credential value.
    */
   providerInstanceRef?: { providerInstanceId: string; recordVersion: string };
+  /** OPTIONAL fallback / quorum over further instances of the same lane. */
+  providerSelection?: ProviderSelection;
 }
 
 /** Governed predicate tree (afi.pipeline.v1 #/definitions/predicate). */
@@ -70,6 +110,8 @@ export interface PipelineManifest {
   entry: string;
   nodes: PipelineNode[];
   edges: PipelineEdge[];
+  /** OPTIONAL pipeline time budget (ms); ExecuteRequest.deadlineMs overrides it. */
+  deadlineMs?: number;
   metadata?: Record<string, unknown>;
 }
 
@@ -100,6 +142,8 @@ export interface AnalysisPluginManifest {
   };
   mayFeedScorer: boolean;
   metadata?: Record<string, unknown>;
+  /** OPTIONAL pin admitting a signed plugin bundle (pluginBundles.ts). */
+  bundle?: { sha256: string; signingKeyId?: string };
 }
 
 /** CanonicalHash v1 reference (vendored canonical-hash.schema.json). */
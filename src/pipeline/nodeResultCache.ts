@@ -0,0 +1,210 @@
+/**
+ * Node result cache — memoizes the outputs of DETERMINISTIC, provider-free
+ * nodes (plugin manifest `deterministic: true`, no providerInstanceRef) so
+ * repeated signals, batch items and replays skip re-running pure work such as
+ * the merge or the scorers.
+ *
+ * Key: sha256 over the canonical form of
+ *   { pluginKey, input, config, providerInstanceRef, providerSelection,
+ *     signal: <projection> }
+ * where the projection is the plugin's memoSignalProjection(signal) when it
+ * declares one, else the whole signal minus its per-ingest receipt
+ * (provenance.ingestedAt) — a node may read anything on ctx.signal.
+ *
+ *   - in-memory LRU of results (Map insertion order = recency)
+ *   - optional persistent NodeResultCacheStore consulted on a memory miss
+ *
+ * Provider-backed nodes are never memoized: a provider answers for the
+ * market as of the call (the technical lane fetches the LATEST candles), so
+ * nothing in the key could say when a cached answer went stale, and their
+ * invocation proof attests one invocation for one signal — reusing it would
+ * put a call that never happened into another signal's evidence. For the
+ * same reason a node that deposits an invocation proof is not cached.
+ *
+ * Only clean results are cached (a degradation can reflect a transient
+ * condition). Every hit returns a fresh copy, so no caller can mutate a
+ * cached output.
+ */
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { positiveIntFromEnv } from "../utils/envConfig.js";
+import { canonicalize, sha256Hex } from "./hashing.js";
+import type { PipelineNode } from "./manifestTypes.js";
+import type { AnalysisNodePlugin, CanonicalUss } from "./nodeSdk.js";
+
+/** One memoized node result. */
+export interface CachedNodeResult {
+  output: unknown;
+}
+
+/**
+ * Persistent result store port. Implementations must tolerate concurrent
+ * saves for different keys; a failed load/save degrades to memory-only.
+ */
+export interface NodeResultCacheStore {
+  load(key: string): Promise<CachedNodeResult | undefined>;
+  save(key: string, result: CachedNodeResult): Promise<void>;
+}
+
+export interface NodeResultCacheOptions {
+  /** Max results kept in memory (default 1024). */
+  maxEntries?: number;
+  /** Optional persistent store behind the in-memory LRU. */
+  store?: NodeResultCacheStore;
+}
+
+/** The default signal projection: the signal without provenance.ingestedAt. */
+function defaultSignalProjection(signal: CanonicalUss): unknown {
+  if (!signal.provenance) return signal;
+  const { ingestedAt: _ingestedAt, ...provenance } = signal.provenance;
+  return { ...signal, provenance };
+}
+
+/** True when the node's results may be memoized (see module doc). */
+export function isMemoizable(node: PipelineNode, deterministic: boolean | undefined): boolean {
+  return deterministic === true && node.providerInstanceRef === undefined;
+}
+
+/** The cache key of one node invocation (see module doc). */
+export function nodeResultCacheKey(
+  node: PipelineNode,
+  plugin: AnalysisNodePlugin,
+  input: unknown,
+  signal: CanonicalUss
+): string {
+  return sha256Hex(
+    canonicalize({
+      pluginKey: `${node.pluginId}@${node.pluginVersion}`,
+      input,
+      config: node.config ?? {},
+      providerInstanceRef: node.providerInstanceRef ?? null,
+      providerSelection: node.providerSelection ?? null,
+      signal: plugin.memoSignalProjection ? plugin.memoSignalProjection(signal) : defaultSignalProjection(signal),
+    })
+  );
+}
+
+export class NodeResultCache {
+  private readonly entries = new Map<string, CachedNodeResult>();
+  private readonly maxEntries: number;
+  private readonly store?: NodeResultCacheStore;
+  private readonly stats = { hits: 0, misses: 0, storeErrors: 0 };
+
+  constructor(options: NodeResultCacheOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 1024);
+    this.store = options.store;
+  }
+
+  /** A copy of the memoized result, or undefined on a miss. */
+  async get(key: string): Promise<CachedNodeResult | undefined> {
+    let result = this.entries.get(key);
+    if (result) {
+      this.remember(key, result, false);
+    } else {
+      result = await this.loadFromStore(key);
+      if (result) this.remember(key, result, false);
+    }
+    if (!result) {
+      this.stats.misses += 1;
+      return undefined;
+    }
+    this.stats.hits += 1;
+    return structuredClone(result);
+  }
+
+  /** Memoize a result (copied: the caller keeps ownership of its output). */
+  set(key: string, result: CachedNodeResult): void {
+    let copy: CachedNodeResult;
+    try {
+      copy = structuredClone(result);
+    } catch {
+      // Not plain data (e.g. a function in the output): never memoized.
+      return;
+    }
+    this.remember(key, copy, true);
+  }
+
+  private remember(key: string, result: CachedNodeResult, persist: boolean): void {
+    // Re-insert so Map order tracks recency; evict the least recently used.
+    this.entries.delete(key);
+    this.entries.set(key, result);
+    if (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) this.entries.delete(oldestKey);
+    }
+    if (persist && this.store) {
+      this.store.save(key, result).catch(() => {
+        this.stats.storeErrors += 1;
+      });
+    }
+  }
+
+  private async loadFromStore(key: string): Promise<CachedNodeResult | undefined> {
+    if (!this.store) return undefined;
+    try {
+      return await this.store.load(key);
+    } catch {
+      this.stats.storeErrors += 1;
+      return undefined;
+    }
+  }
+
+  /** Cache stats for monitoring. */
+  getStats() {
+    return { size: this.entries.size, maxEntries: this.maxEntries, ...this.stats };
+  }
+
+  /** Drop every in-memory result (for testing/shutdown); the store is untouched. */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * JSON-file NodeResultCacheStore: one file per key under `dir`. Writes go to
+ * a temp file and are renamed into place, so a crash never leaves a torn
+ * result behind.
+ */
+export function createFileNodeResultCacheStore(dir: string): NodeResultCacheStore {
+  const fileFor = (key: string) =>
+    path.join(dir, `${createHash("sha256").update(key).digest("hex").slice(0, 32)}.json`);
+
+  return {
+    async load(key) {
+      let text: string;
+      try {
+        text = await fs.readFile(fileFor(key), "utf-8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+        throw error;
+      }
+      const parsed = JSON.parse(text) as { key?: unknown; result?: CachedNodeResult };
+      // A foreign file is a miss, never another invocation's result.
+      if (parsed.key !== key || parsed.result === null || typeof parsed.result !== "object") return undefined;
+      return parsed.result;
+    },
+    async save(key, result) {
+      await fs.mkdir(dir, { recursive: true });
+      const file = fileFor(key);
+      const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify({ key, result }), "utf-8");
+      await fs.rename(tmp, file);
+    },
+  };
+}
+
+/**
+ * The result cache from the environment: AFI_NODE_RESULT_CACHE=off disables
+ * memoization (undefined); AFI_NODE_RESULT_CACHE_MAX_ENTRIES sizes the LRU;
+ * AFI_NODE_RESULT_CACHE_DIR adds the file store behind it. Throws on a
+ * malformed size.
+ */
+export function nodeResultCacheFromEnv(env: NodeJS.ProcessEnv = process.env): NodeResultCache | undefined {
+  if ((env.AFI_NODE_RESULT_CACHE ?? "").toLowerCase() === "off") return undefined;
+  const dir = env.AFI_NODE_RESULT_CACHE_DIR?.trim();
+  return new NodeResultCache({
+    maxEntries: positiveIntFromEnv(env, "AFI_NODE_RESULT_CACHE_MAX_ENTRIES", 1024),
+    ...(dir ? { store: createFileNodeResultCacheStore(dir) } : {}),
+  });
+}
@@ -13,6 +13,9 @@
  *  - Any other thrown error is a provider/data failure: retried per policy,
  *    then abort (critical, the default) or recorded as failed-optional
  *    (critical:false + failurePolicy 'degrade').
+ *  - NodeFastFailError is a failure known not to be worth retrying (e.g. an
+ *    open provider circuit): no retry, and its degradation class replaces
+ *    the generic 'node-failure' on a failed-optional node.
  *  - A resolved NodeResult with a non-empty degradations list marks the node
  *    'degraded' in the execution summary; its OUTPUT is still used (it is
  *    real, partial data such as a declared fallback summary — never
@@ -20,6 +23,8 @@
  */
 import type { CanonicalUss } from "../types/canonicalUss.js";
 import type { ProviderInvocationProofV1 } from "../providers/invocationProof.js";
+import type { ProviderSelectionRecord } from "../providers/laneSelection.js";
+import type { ProviderSelection } from "./manifestTypes.js";
 
 export type { CanonicalUss };
 
@@ -56,6 +61,12 @@ export interface NodeRunContext {
    * node in the provider-adapter layer.
    */
   providerInstanceRef?: { providerInstanceId: string; recordVersion: string };
+  /**
+   * OPTIONAL multi-provider selection from the manifest node: further
+   * candidate instances after providerInstanceRef and the policy choosing
+   * among them (identity + version references only).
+   */
+  providerSelection?: ProviderSelection;
   /**
    * OPTIONAL invocation-proof deposit sink (EV3-GOV D-EV3-5(2)): the executor
    * wires a per-node collector here so a provider-backed node can deposit the
@@ -65,6 +76,12 @@ export interface NodeRunContext {
    * D-EV3-2).
    */
   depositInvocationProof?: (proof: ProviderInvocationProofV1) => void;
+  /**
+   * OPTIONAL selection-record sink for a node declaring a providerSelection:
+   * the executor keeps the record on the node's operational runtime record,
+   * beside (never inside) its invocation proof.
+   */
+  depositProviderSelection?: (record: ProviderSelectionRecord) => void;
 }
 
 /** One recorded degradation — never silent, never fabricated data. */
@@ -85,6 +102,21 @@ export interface NodeResult {
 export interface AnalysisNodePlugin {
   manifestRef: { pluginId: string; pluginVersion: string };
   run(input: unknown, ctx: NodeRunContext): Promise<NodeResult>;
+  /**
+   * OPTIONAL worker-thread entry: an importable module URL (file: or data:)
+   * whose `createNode({ ok })` rebuilds this node inside a worker. Required
+   * when a manifest node runs the plugin under resourceLimits.isolation
+   * 'worker' — an in-memory closure cannot cross the thread boundary.
+   */
+  isolatedModuleUrl?: string;
+  /**
+   * OPTIONAL: the part of ctx.signal this node's output depends on, used in
+   * its result-cache key when the plugin manifest declares it deterministic
+   * (src/pipeline/nodeResultCache.ts). Default: the whole signal minus its
+   * per-ingest receipt. Never consulted for a provider-backed node, which is
+   * not memoized.
+   */
+  memoSignalProjection?: (signal: CanonicalUss) => unknown;
 }
 
 /**
@@ -100,6 +132,21 @@ export class NodeConfigurationError extends Error {
   }
 }
 
+/**
+ * A failure the node knows retrying cannot fix right now (e.g. the provider's
+ * circuit is open). The executor skips the remaining retries and applies the
+ * node's failure policy immediately, recording `degradationClass` when the
+ * node degrades.
+ */
+export class NodeFastFailError extends Error {
+  readonly degradationClass: string;
+  constructor(degradationClass: string, message: string) {
+    super(message);
+    this.name = "NodeFastFailError";
+    this.degradationClass = degradationClass;
+  }
+}
+
 /** Convenience: a clean successful result. */
 export function ok(output: unknown, degradations: NodeDegradation[] = []): NodeResult {
   return { output, degradations };
@@ -33,6 +33,10 @@ import type {
 } from "../../types/UssLenses.js";
 import type { NewsFeatures } from "../../news/newsFeatures.js";
 import type { AfiMarketType, VenueType } from "../../utils/marketUtils.js";
+import {
+  candleCacheReportOf,
+  type CandleCacheReport,
+} from "../../adapters/exchanges/cachingPriceFeedAdapter.js";
 import {
   ok,
   type AnalysisNodePlugin,
@@ -80,6 +84,8 @@ interface ReactorEnrichedView extends FroggyEnrichedView {
     marketType: AfiMarketType;
     technicalIndicators?: TechnicalLensV1["payload"];
     patternSignals?: PatternLensV1["payload"];
+    /** Present only when the price feed is served through the candle cache. */
+    candleCache?: CandleCacheReport;
   };
   _enrichmentSummary?: string;
 }
@@ -126,7 +132,7 @@ export function createMergeEnrichedViewNode(): AnalysisNodePlugin {
       }
 
       const tech = byCategory["technical"] as
-        | { technical?: TechnicalLensV1["payload"]; priceSource?: string }
+        | { technical?: TechnicalLensV1["payload"]; priceSource?: string; candles?: unknown[] }
         | undefined;
       const pat = byCategory["pattern"] as unknown as PatternLanePayload | undefined;
       const sent = byCategory["sentiment"] as
@@ -148,7 +154,9 @@ export function createMergeEnrichedViewNode(): AnalysisNodePlugin {
       const enrichedCategories: string[] = [];
       const lenses: SupportedLens[] = [];
 
-      // ---- technical (scorer-visible projection unchanged) ----
+      // ---- technical (scorer-visible projection unchanged; strategy-declared
+      // indicators — macd/bollinger/stochastic/adx/obv/vwap — ride the lens
+      // payload and _priceFeedMetadata verbatim, never the scorer view) ----
       const technicalLensPayload: TechnicalLensV1["payload"] | null =
         tech?.technical ?? null;
       const technical = viewTechnical(technicalLensPayload);
@@ -221,6 +229,7 @@ export function createMergeEnrichedViewNode(): AnalysisNodePlugin {
 
       // ---- assemble (field order/values preserved from the pre-activation merge) ----
       const actualPriceSource = tech?.priceSource ?? "unavailable";
+      const candleCache = tech?.candles ? candleCacheReportOf(tech.candles) : undefined;
       const normalizedMarketType = normalizeMarketType(market);
       const venueType = mapMarketTypeToVenueType(
         normalizedMarketType,
@@ -260,6 +269,7 @@ export function createMergeEnrichedViewNode(): AnalysisNodePlugin {
         marketType: normalizedMarketType,
         technicalIndicators: technicalLensPayload || undefined,
         patternSignals: patternLensPayload || undefined,
+        ...(candleCache ? { candleCache } : {}),
       };
       enriched._enrichmentSummary = enrichmentSummary;
 
@@ -0,0 +1,154 @@
+/**
+ * afi-scorer-regime-breakout@1.0.0 — the reference second scorer family:
+ * ATR-regime-switched breakout / mean-reversion scoring over the same
+ * enriched view the froggy scorer reads (scorer category node; LIFE-GOV
+ * D-LIFE-1 transition monopoly).
+ *
+ * The technical lane's ATR-percentile regime (AR-GOV closed vocabulary)
+ * selects the mode: high/extreme volatility scores the signal as a BREAKOUT
+ * (follow structure and crowd momentum, reward compression patterns);
+ * low/normal — or an absent regime — scores it as a MEAN REVERSION (reward
+ * choppy structure, fade crowded positioning, reward reversal patterns).
+ * Each mode maps pattern, structure, sentiment and regime onto the four UWR
+ * axes, which the scorer SDK weighs under the handed-off UWR config.
+ *
+ * Deterministic axis logic: no provider, no randomness; the only clock read
+ * is the template's scoredAt stamp (as in afi-core's froggy scorer), which
+ * never feeds an axis. The strategy triple comes from the node's manifest
+ * config (scorerIdentityFromConfig), so one binding serves every strategy
+ * registered on this family. Governed manifest:
+ * registries/analysis-plugins/afi-scorer-regime-breakout--1.0.0.json.
+ */
+import type { AnalystScoreTemplate } from "afi-core/analyst";
+import type { AnalysisNodePlugin } from "../nodeSdk.js";
+import {
+  createScorerNode,
+  scoreUwrAxes,
+  scorerIdentityFromConfig,
+  scorerInstrumentOf,
+  signalDirection,
+  type ScorerAnalysis,
+  type ScorerEnrichedView,
+  type UwrAxes,
+} from "../scorerSdk.js";
+
+export type RegimeScoringMode = "breakout" | "mean-reversion";
+
+type Direction = "long" | "short" | "neutral";
+type AtrRegime = "low" | "normal" | "high" | "extreme";
+
+/** The scorer's own detail beside the analyst score. */
+export interface RegimeBreakoutAnalysis extends ScorerAnalysis {
+  regime: { atrRegime: AtrRegime | "unknown"; mode: RegimeScoringMode };
+}
+
+const RISK_BY_REGIME: Record<AtrRegime | "unknown", number> = {
+  low: 0.75,
+  normal: 0.6,
+  high: 0.45,
+  extreme: 0.2,
+  unknown: 0.5,
+};
+
+function round6(x: number): number {
+  return Math.round(x * 1e6) / 1e6;
+}
+
+function clamp01(x: number): number {
+  return Math.min(1, Math.max(0, x));
+}
+
+function atrRegimeOf(enriched: ScorerEnrichedView): AtrRegime | "unknown" {
+  const regime = enriched.technical?.atrRegime;
+  return regime === "low" || regime === "normal" || regime === "high" || regime === "extreme"
+    ? regime
+    : "unknown";
+}
+
+export function regimeScoringMode(regime: AtrRegime | "unknown"): RegimeScoringMode {
+  return regime === "high" || regime === "extreme" ? "breakout" : "mean-reversion";
+}
+
+function structureAxis(enriched: ScorerEnrichedView, direction: Direction, mode: RegimeScoringMode): number {
+  const bias = enriched.pattern?.structureBias;
+  if (direction === "neutral" || bias === undefined) return 0.5;
+  if (bias === "choppy") return mode === "breakout" ? 0.35 : 0.8;
+  const aligned = (bias === "higher-highs") === (direction === "long");
+  if (mode === "breakout") return aligned ? 0.85 : 0.15;
+  return aligned ? 0.5 : 0.3;
+}
+
+function executionAxis(enriched: ScorerEnrichedView, direction: Direction, mode: RegimeScoringMode): number {
+  const confidence = clamp01(
+    typeof enriched.pattern?.patternConfidence === "number" ? enriched.pattern.patternConfidence : 0
+  );
+  const name = enriched.pattern?.patternName;
+  const patternDirection =
+    name === "bullish engulfing" ? "long" : name === "bearish engulfing" ? "short" : undefined;
+  if (patternDirection !== undefined && direction !== "neutral") {
+    return patternDirection === direction ? 0.5 + 0.5 * confidence : 0.5 - 0.5 * confidence;
+  }
+  if ((name === "pin bar" && mode === "mean-reversion") || (name === "inside bar" && mode === "breakout")) {
+    return 0.5 + 0.3 * confidence;
+  }
+  return 0.5;
+}
+
+function riskAxis(enriched: ScorerEnrichedView, regime: AtrRegime | "unknown"): number {
+  const riskFlag = enriched.aiMl?.riskFlag === true;
+  return clamp01(RISK_BY_REGIME[regime] - (riskFlag ? 0.2 : 0));
+}
+
+function insightAxis(enriched: ScorerEnrichedView, direction: Direction, mode: RegimeScoringMode): number {
+  const sentiment = enriched.sentiment;
+  if (direction === "neutral" || !sentiment) return 0.5;
+  if (mode === "breakout") {
+    if (typeof sentiment.score !== "number") return 0.5;
+    return clamp01(direction === "long" ? sentiment.score : 1 - sentiment.score);
+  }
+  const positioning = Array.isArray(sentiment.tags) ? sentiment.tags[0] : undefined;
+  if (positioning === "crowded_long") return direction === "short" ? 0.8 : 0.2;
+  if (positioning === "crowded_short") return direction === "long" ? 0.8 : 0.2;
+  return 0.5;
+}
+
+export function createScorerRegimeBreakoutNode(): AnalysisNodePlugin {
+  return createScorerNode({
+    manifestRef: { pluginId: "afi-scorer-regime-breakout", pluginVersion: "1.0.0" },
+    label: "regime breakout",
+    score(enriched, { uwr, ctx }) {
+      const identity = scorerIdentityFromConfig(ctx.config);
+      const direction = signalDirection(ctx.signal);
+      const regime = atrRegimeOf(enriched);
+      const mode = regimeScoringMode(regime);
+
+      const axes: UwrAxes = {
+        structure: round6(structureAxis(enriched, direction, mode)),
+        execution: round6(executionAxis(enriched, direction, mode)),
+        risk: round6(riskAxis(enriched, regime)),
+        insight: round6(insightAxis(enriched, direction, mode)),
+      };
+      const { uwrAxes, uwrScore } = scoreUwrAxes(axes, uwr.config);
+
+      const analystScore: AnalystScoreTemplate = {
+        ...identity,
+        ...scorerInstrumentOf(enriched),
+        marketType: enriched.market,
+        signalTimeframe: enriched.timeframe,
+        holdingHorizon: mode === "breakout" ? "swing" : "scalp",
+        direction,
+        riskBucket:
+          regime === "low" ? "low" : regime === "high" || regime === "extreme" ? "high" : "medium",
+        conviction: round6(uwrScore),
+        uwrScore,
+        uwrAxes,
+        tags: ["regime-switched", mode],
+        scoredAt: new Date().toISOString(),
+      };
+      const analysis: RegimeBreakoutAnalysis = { analystScore, regime: { atrRegime: regime, mode } };
+      return analysis;
+    },
+  });
+}
+
+export const scorerRegimeBreakoutNode: AnalysisNodePlugin = createScorerRegimeBreakoutNode();
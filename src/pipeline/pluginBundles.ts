@@ -0,0 +1,270 @@
+/**
+ * Signed plugin bundles — the one admitted exception to build-time binding.
+ *
+ * A governed afi.analysis-plugin.v1 manifest may pin a separately shipped
+ * compiled bundle (`bundle: { sha256, signingKeyId? }`). At boot, before the
+ * plugin registry exists, the loader:
+ *   1. reads `<bundleDir>/<pluginId>@<pluginVersion>.mjs` — the location is
+ *      derived from the governed identity, never taken from a manifest;
+ *   2. admits the bytes ONLY when their SHA-256 equals the pin;
+ *   3. when the pin names a signingKeyId (or the deployment requires
+ *      signatures), verifies the detached Ed25519 signature in
+ *      `<file>.sig` (base64, over the exact bytes) under that operator-trusted
+ *      key;
+ *   4. imports EXACTLY the verified bytes (a data: URL — the file is never
+ *      re-read, and the module cannot resolve relative or package imports, so
+ *      a bundle must be self-contained).
+ *
+ * A bundle exports `createNode(host)` (the node bound to the pinned
+ * pluginId@pluginVersion) and/or `adapters` (provider adapters registered
+ * alongside the built-ins). Any failure refuses boot with a PluginBundleError —
+ * there is no lazy discovery and no request-time import.
+ *
+ * A bundle's node is also isolatable: its isolatedModuleUrl is the same
+ * verified bytes as a data: URL, so a manifest node may run it under
+ * resourceLimits.isolation 'worker' (the worker host offers `ok` only — a
+ * bundle node that needs the provider runtime cannot be isolated).
+ */
+import { createHash, createPublicKey, verify, type KeyObject } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { AnalysisPluginManifest } from "./manifestTypes.js";
+import { ok, type AnalysisNodePlugin } from "./nodeSdk.js";
+import { pluginKey } from "./pluginRegistry.js";
+import { createProviderBackedNode } from "../providers/providerBackedNode.js";
+import type { ProviderRuntime } from "../providers/providerRuntime.js";
+import type { ProviderAdapter } from "../providers/types.js";
+
+export type PluginBundleErrorCode =
+  | "bundle-missing"
+  | "bundle-hash-mismatch"
+  | "bundle-signature-missing"
+  | "bundle-signature-invalid"
+  | "bundle-key-untrusted"
+  | "bundle-malformed";
+
+/** A pinned bundle could not be admitted (boot refuses). */
+export class PluginBundleError extends Error {
+  readonly code: PluginBundleErrorCode;
+  /** 'pluginId@pluginVersion' of the pin. */
+  readonly pluginKey: string;
+  constructor(code: PluginBundleErrorCode, key: string, message: string) {
+    super(`plugin bundle ${key}: ${message}`);
+    this.name = "PluginBundleError";
+    this.code = code;
+    this.pluginKey = key;
+  }
+}
+
+/** What the reactor hands a bundle's `createNode`. */
+export interface PluginBundleHost {
+  providerRuntime: ProviderRuntime;
+  createProviderBackedNode: typeof createProviderBackedNode;
+  ok: typeof ok;
+}
+
+/** The exports a bundle module may carry. */
+export interface PluginBundleModule {
+  createNode?: (host: PluginBundleHost) => AnalysisNodePlugin;
+  adapters?: ProviderAdapter[];
+}
+
+export interface LoadedPluginBundle {
+  pluginId: string;
+  pluginVersion: string;
+  /** Lowercase hex SHA-256 of the admitted bytes (equals the pin). */
+  sha256: string;
+  /** The trusted key the detached signature verified under, when signed. */
+  signedBy?: string;
+  module: PluginBundleModule;
+  /** The admitted bytes as a data: URL (the node's worker-isolation entry). */
+  moduleUrl: string;
+}
+
+export interface PluginBundleLoaderOptions {
+  /** The governed analysis-plugin manifests; only those with a `bundle` pin load. */
+  manifests: ReadonlyArray<AnalysisPluginManifest>;
+  bundleDir: string;
+  /** Operator-trusted Ed25519 public keys by key id. */
+  trustedKeys?: ReadonlyMap<string, KeyObject>;
+  /** Refuse every bundle whose pin names no signingKeyId. */
+  requireSignature?: boolean;
+  /** Module import of the verified bytes (tests). */
+  importModule?: (bytes: Buffer) => Promise<unknown>;
+}
+
+function verifiedBytesUrl(bytes: Buffer): string {
+  return `data:text/javascript;base64,${bytes.toString("base64")}`;
+}
+
+function importVerifiedBytes(bytes: Buffer): Promise<unknown> {
+  return import(verifiedBytesUrl(bytes));
+}
+
+/** `<pluginId>@<pluginVersion>.mjs` — derived from the governed identity only. */
+export function pluginBundleFileName(pluginId: string, pluginVersion: string): string {
+  return `${pluginKey(pluginId, pluginVersion)}.mjs`;
+}
+
+async function readOptional(path: string): Promise<Buffer | undefined> {
+  try {
+    return await readFile(path);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Verify and import every pinned bundle. Throws PluginBundleError on the first
+ * bundle that is missing, differs from its pin, fails its signature, or does
+ * not export a recognizable node/adapter surface.
+ */
+export async function loadPluginBundles(options: PluginBundleLoaderOptions): Promise<LoadedPluginBundle[]> {
+  const importModule = options.importModule ?? importVerifiedBytes;
+  const loaded: LoadedPluginBundle[] = [];
+  for (const manifest of options.manifests) {
+    const pin = manifest.bundle;
+    if (!pin) continue;
+    const key = pluginKey(manifest.pluginId, manifest.pluginVersion);
+    const path = join(options.bundleDir, pluginBundleFileName(manifest.pluginId, manifest.pluginVersion));
+
+    const bytes = await readOptional(path);
+    if (!bytes) throw new PluginBundleError("bundle-missing", key, "no bundle file in the bundle directory");
+    const sha256 = createHash("sha256").update(bytes).digest("hex");
+    if (sha256 !== pin.sha256) {
+      throw new PluginBundleError("bundle-hash-mismatch", key, `content hash ${sha256} does not match the pinned ${pin.sha256}`);
+    }
+
+    let signedBy: string | undefined;
+    if (pin.signingKeyId) {
+      const publicKey = options.trustedKeys?.get(pin.signingKeyId);
+      if (!publicKey) {
+        throw new PluginBundleError("bundle-key-untrusted", key, `signing key '${pin.signingKeyId}' is not trusted by this deployment`);
+      }
+      const signature = await readOptional(`${path}.sig`);
+      if (!signature) throw new PluginBundleError("bundle-signature-missing", key, "no detached signature beside the bundle");
+      let valid = false;
+      try {
+        valid = verify(null, bytes, publicKey, Buffer.from(signature.toString("utf8").trim(), "base64"));
+      } catch {
+        valid = false;
+      }
+      if (!valid) {
+        throw new PluginBundleError("bundle-signature-invalid", key, `detached signature does not verify under '${pin.signingKeyId}'`);
+      }
+      signedBy = pin.signingKeyId;
+    } else if (options.requireSignature) {
+      throw new PluginBundleError("bundle-signature-missing", key, "this deployment requires signed bundles but the pin names no signingKeyId");
+    }
+
+    let namespace: unknown;
+    try {
+      namespace = await importModule(bytes);
+    } catch (err) {
+      throw new PluginBundleError("bundle-malformed", key, `bundle failed to load (${err instanceof Error ? err.message : String(err)})`);
+    }
+    const { createNode, adapters } = (namespace ?? {}) as PluginBundleModule;
+    if (createNode !== undefined && typeof createNode !== "function") {
+      throw new PluginBundleError("bundle-malformed", key, "createNode export is not a function");
+    }
+    if (adapters !== undefined && !(Array.isArray(adapters) && adapters.every((a) => typeof a?.run === "function"))) {
+      throw new PluginBundleError("bundle-malformed", key, "adapters export is not an array of provider adapters");
+    }
+    if (!createNode && !adapters?.length) {
+      throw new PluginBundleError("bundle-malformed", key, "bundle exports neither createNode nor adapters");
+    }
+    loaded.push({
+      pluginId: manifest.pluginId,
+      pluginVersion: manifest.pluginVersion,
+      sha256,
+      ...(signedBy ? { signedBy } : {}),
+      module: { createNode, adapters },
+      moduleUrl: verifiedBytesUrl(bytes),
+    });
+  }
+  return loaded;
+}
+
+/** Every provider adapter the admitted bundles contribute. */
+export function bundleAdapters(bundles: ReadonlyArray<LoadedPluginBundle>): ProviderAdapter[] {
+  return bundles.flatMap((b) => b.module.adapters ?? []);
+}
+
+/**
+ * Instantiate the admitted bundles' nodes over the boot-built provider
+ * runtime. A node must bind exactly the pinned pluginId@pluginVersion.
+ */
+export function bundleNodes(
+  bundles: ReadonlyArray<LoadedPluginBundle>,
+  providerRuntime: ProviderRuntime
+): AnalysisNodePlugin[] {
+  const host: PluginBundleHost = { providerRuntime, createProviderBackedNode, ok };
+  const nodes: AnalysisNodePlugin[] = [];
+  for (const bundle of bundles) {
+    if (!bundle.module.createNode) continue;
+    const key = pluginKey(bundle.pluginId, bundle.pluginVersion);
+    const node = bundle.module.createNode(host);
+    const ref = node?.manifestRef;
+    if (typeof node?.run !== "function" || !ref || pluginKey(ref.pluginId, ref.pluginVersion) !== key) {
+      throw new PluginBundleError("bundle-malformed", key, "createNode did not return a node bound to the pinned identity");
+    }
+    nodes.push(
+      node.isolatedModuleUrl
+        ? node
+        : { manifestRef: ref, run: (input, ctx) => node.run(input, ctx), isolatedModuleUrl: bundle.moduleUrl }
+    );
+  }
+  return nodes;
+}
+
+export interface PluginBundleConfig {
+  bundleDir: string;
+  trustedKeys: Map<string, KeyObject>;
+  requireSignature: boolean;
+}
+
+/**
+ * The plugin-bundle configuration from the environment, or undefined when no
+ * bundle directory is configured (build-time bindings only):
+ *   - AFI_PLUGIN_BUNDLE_DIR: the directory holding `<pluginId>@<version>.mjs`
+ *   - AFI_PLUGIN_BUNDLE_TRUSTED_KEYS: a JSON file `{ "<keyId>": "<Ed25519 public key PEM>" }`
+ *   - AFI_PLUGIN_BUNDLE_REQUIRE_SIGNATURE=1: refuse unsigned pins
+ * Malformed configuration throws at boot.
+ */
+export function pluginBundleConfigFromEnv(env: NodeJS.ProcessEnv = process.env): PluginBundleConfig | undefined {
+  const bundleDir = env.AFI_PLUGIN_BUNDLE_DIR?.trim();
+  if (!bundleDir) return undefined;
+
+  const trustedKeys = new Map<string, KeyObject>();
+  const keysFile = env.AFI_PLUGIN_BUNDLE_TRUSTED_KEYS?.trim();
+  if (keysFile) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(keysFile, "utf8"));
+    } catch {
+      throw new Error(`AFI_PLUGIN_BUNDLE_TRUSTED_KEYS must name a readable JSON file (got "${keysFile}")`);
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("AFI_PLUGIN_BUNDLE_TRUSTED_KEYS must hold an object of key id -> public key PEM");
+    }
+    for (const [keyId, pem] of Object.entries(parsed)) {
+      let key: KeyObject;
+      try {
+        key = createPublicKey(String(pem));
+      } catch {
+        throw new Error(`AFI_PLUGIN_BUNDLE_TRUSTED_KEYS key '${keyId}' is not a public key PEM`);
+      }
+      if (key.asymmetricKeyType !== "ed25519") {
+        throw new Error(`AFI_PLUGIN_BUNDLE_TRUSTED_KEYS key '${keyId}' must be Ed25519 (got ${key.asymmetricKeyType})`);
+      }
+      trustedKeys.set(keyId, key);
+    }
+  }
+
+  const rawRequire = env.AFI_PLUGIN_BUNDLE_REQUIRE_SIGNATURE?.trim();
+  if (rawRequire && rawRequire !== "0" && rawRequire !== "1") {
+    throw new Error(`AFI_PLUGIN_BUNDLE_REQUIRE_SIGNATURE must be "0" or "1" (got "${rawRequire}")`);
+  }
+  return { bundleDir, trustedKeys, requireSignature: rawRequire === "1" };
+}
@@ -6,12 +6,15 @@
  * pipeline node names pluginId+pluginVersion and the consuming runtime binds
  * it HERE, statically, at build time. There is no dynamic import and no
  * lazy discovery — an unbound plugin fails boot validation
- * (src/pipeline/registryLoader.ts), never a request.
+ * (src/pipeline/registryLoader.ts), never a request. The sole exception is a
+ * manifest-pinned signed bundle (src/pipeline/pluginBundles.ts): verified
+ * against its content hash and imported at boot, then bound here alongside the
+ * builtins.
  *
  * Production source contains NO mock implementations: the builtin bindings
  * below are the five vendor-neutral provider-backed category lanes (each a
  * createProviderBackedNode over the boot-built ProviderRuntime — FLPR-GOV
- * D-FLPR-1), the deterministic five-category merge, and the scorer. Tests
+ * D-FLPR-1), the deterministic five-category merge, and the scorers. Tests
  * inject their own registries via createPluginRegistry (a test-registry
  * overlay), which is data injection — not a production code path.
  */
@@ -20,6 +23,7 @@ import { createProviderBackedNode } from "../providers/providerBackedNode.js";
 import type { ProviderRuntime } from "../providers/providerRuntime.js";
 import { mergeEnrichedViewNode } from "./nodes/mergeEnrichedView.js";
 import { scorerFroggyTrendPullbackNode } from "./nodes/scorerFroggyTrendPullback.js";
+import { scorerRegimeBreakoutNode } from "./nodes/scorerRegimeBreakout.js";
 
 export interface PluginRegistry {
   get(pluginId: string, pluginVersion: string): AnalysisNodePlugin | undefined;
@@ -55,9 +59,14 @@ export function createPluginRegistry(
  * The production build-time binding (FLPR-GOV five-lane provider runtime):
  * five vendor-neutral provider-backed category lanes @2.0.0 (each requires an
  * explicit providerInstanceRef on its manifest node — fail closed), the
- * five-category merge @1.1.0, and the scorer @1.0.0.
+ * five-category merge @1.1.0, and the froggy trend-pullback and regime-breakout
+ * scorers @1.0.0 — plus any nodes admitted from pinned plugin bundles (a
+ * bundle may not rebind a builtin key).
  */
-export function builtinPluginRegistry(providerRuntime: ProviderRuntime): PluginRegistry {
+export function builtinPluginRegistry(
+  providerRuntime: ProviderRuntime,
+  bundledPlugins: ReadonlyArray<AnalysisNodePlugin> = []
+): PluginRegistry {
   return createPluginRegistry([
     createProviderBackedNode(
       { pluginId: "afi-analysis-technical", pluginVersion: "2.0.0" },
@@ -86,5 +95,7 @@ export function builtinPluginRegistry(providerRuntime: ProviderRuntime): PluginR
     ),
     mergeEnrichedViewNode,
     scorerFroggyTrendPullbackNode,
+    scorerRegimeBreakoutNode,
+    ...bundledPlugins,
   ]);
 }
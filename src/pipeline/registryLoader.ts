@@ -10,7 +10,8 @@
  *
  * validateRuntimeConfig() is the unit-testable boot gate:
  *   1. loads the VENDORED contract schema closure
- *      (src/pipeline/governed-schema/, byte-pinned to afi-config@e462c4e8);
+ *      (src/pipeline/governed-schema/, byte-pinned to afi-config@e462c4e8)
+ *      plus its local extensions (src/pipeline/schemaExtensions.ts);
  *   2. reads registries/{analysis-plugins,pipelines,analyst-strategies,
  *      provider-bindings}/;
  *   3. AJV-validates every entry, enforces the graph-semantic invariants,
@@ -52,6 +53,7 @@ import type {
 } from "./manifestTypes.js";
 import { validatePipelineGraph } from "./executor.js";
 import { pluginKey, type PluginRegistry } from "./pluginRegistry.js";
+import { readGovernedSchema } from "./schemaExtensions.js";
 import type {
   CredentialRefRecord,
   ProviderInstanceRecord,
@@ -133,7 +135,8 @@ export interface ValidateRuntimeConfigOptions {
   providerAdapterKeys?: readonly string[];
 }
 
-function defaultConfigRoot(): string {
+/** The afi-config root the loaders read when none is given. */
+export function defaultConfigRoot(): string {
   return join(process.cwd(), "node_modules/afi-config");
 }
 
@@ -174,8 +177,7 @@ function compileValidators(governedSchemaDir: string): CompiledValidators {
     "x-afiConstraints",
   ]);
 
-  const load = (basename: string) =>
-    readJson(join(governedSchemaDir, basename)) as Record<string, unknown>;
+  const load = (basename: string) => readGovernedSchema(governedSchemaDir, basename);
 
   const schemas = [
     "canonical-hash.schema.json",
@@ -276,7 +278,7 @@ export function loadProviderRecords(
     "x-afiConstraints",
   ]);
   const compile = (basename: string): ValidateFunction =>
-    ajv.compile(readJson(join(governedSchemaDir, basename)) as Record<string, unknown>);
+    ajv.compile(readGovernedSchema(governedSchemaDir, basename));
   const validateProvider = compile("provider.schema.json");
   const validateInstance = compile("provider-instance.schema.json");
   const validateCredentialRef = compile("credential-ref.schema.json");
@@ -389,6 +391,47 @@ export function loadProviderRecords(
   return { providers, credentialRefs, providerInstances };
 }
 
+/**
+ * Load + validate ONLY the governed analysis-plugins registry — the bundle
+ * pins the plugin-bundle loader (pluginBundles.ts) needs before the plugin
+ * registry, and therefore validateRuntimeConfig, can exist. Fail-closed on a
+ * missing directory, schema violation or duplicate identity; the full
+ * composition is still validated afterwards.
+ */
+export function loadAnalysisPluginManifests(
+  options: LoadProviderRecordsOptions = {}
+): AnalysisPluginManifest[] {
+  const configRoot = options.configRoot ?? defaultConfigRoot();
+  const governedSchemaDir =
+    options.governedSchemaDir ?? join(process.cwd(), GOVERNED_SCHEMA_DIRNAME);
+  const dir = join(configRoot, REGISTRY_DIRS.analysisPlugins);
+  if (!existsSync(dir)) {
+    throw new RuntimeConfigValidationError([
+      `registry directory missing: ${REGISTRY_DIRS.analysisPlugins} (under ${configRoot})`,
+    ]);
+  }
+
+  const validators = compileValidators(governedSchemaDir);
+  const issues: string[] = [];
+  const manifests = new Map<string, AnalysisPluginManifest>();
+  for (const file of listRegistryFiles(dir)) {
+    const doc = readJson(file);
+    if (!validators.plugin(doc)) {
+      issues.push(...ajvIssues(`analysis-plugin ${file}`, validators.plugin));
+      continue;
+    }
+    const manifest = doc as AnalysisPluginManifest;
+    const key = pluginKey(manifest.pluginId, manifest.pluginVersion);
+    if (manifests.has(key)) {
+      issues.push(`analysis-plugin ${file}: duplicate plugin identity ${key}`);
+      continue;
+    }
+    manifests.set(key, manifest);
+  }
+  if (issues.length > 0) throw new RuntimeConfigValidationError(issues);
+  return [...manifests.values()];
+}
+
 /** The governed decay template ids (afi-core DEFAULT_DECAY_TEMPLATES_BY_HORIZON). */
 export function governedDecayTemplateIds(): Set<string> {
   return new Set(
@@ -663,6 +706,13 @@ export function validateRuntimeConfig(
         issues.push(
           `pipeline ${key}: node '${node.id}' plugin ${bindKey} has no build-time binding`
         );
+      } else if (
+        node.resourceLimits?.isolation === "worker" &&
+        !options.pluginRegistry.get(node.pluginId, node.pluginVersion)?.isolatedModuleUrl
+      ) {
+        issues.push(
+          `pipeline ${key}: node '${node.id}' requests worker isolation but plugin ${bindKey} declares no isolatedModuleUrl`
+        );
       }
       // FLPR-GOV D-FLPR-4 explicit-selection law (fail closed at composition):
       // with governed provider records loaded, every analysis-lane node MUST
@@ -675,17 +725,23 @@ export function validateRuntimeConfig(
             `pipeline ${key}: node '${node.id}' (category '${node.category}') has no providerInstanceRef — explicit provider selection is required for every enabled lane`
           );
         }
-        if (node.providerInstanceRef) {
-          const refKey = `${node.providerInstanceRef.providerInstanceId}@${node.providerInstanceRef.recordVersion}`;
+        // A multi-provider lane's alternates are held to the same law as
+        // its primary providerInstanceRef.
+        const candidateRefs = node.providerInstanceRef
+          ? [node.providerInstanceRef, ...(node.providerSelection?.alternates ?? [])]
+          : [];
+        for (const [index, ref] of candidateRefs.entries()) {
+          const label = index === 0 ? "providerInstanceRef" : "providerSelection alternate";
+          const refKey = `${ref.providerInstanceId}@${ref.recordVersion}`;
           const instance = providerInstanceIndex.get(refKey);
           if (!instance) {
             issues.push(
-              `pipeline ${key}: node '${node.id}' providerInstanceRef '${refKey}' resolves to no governed provider instance`
+              `pipeline ${key}: node '${node.id}' ${label} '${refKey}' resolves to no governed provider instance`
             );
           } else {
             if (instance.status !== "active") {
               issues.push(
-                `pipeline ${key}: node '${node.id}' providerInstanceRef '${refKey}' is not active`
+                `pipeline ${key}: node '${node.id}' ${label} '${refKey}' is not active`
               );
             }
             if (instance.category !== node.category) {
@@ -0,0 +1,103 @@
+/**
+ * Local extensions of the vendored governed schemas.
+ *
+ * src/pipeline/governed-schema/ is a byte-identical copy of an afi-config
+ * commit (MANIFEST.json; enforced by vendoredSchemaProvenance.test.ts) and is
+ * never hand-edited. A contract shape this runtime needs before afi-config
+ * ships it lives OUTSIDE that closure, in src/pipeline/schema-extensions/:
+ * one `<name>.extension.json` per extended vendored file, holding ordered
+ * JSON-pointer operations —
+ *
+ *   { "op": "set",    "path": "/definitions/x", "value": ... }  add or replace
+ *   { "op": "append", "path": "/definitions/p/oneOf", "value": [...] }
+ *
+ * — each tagged with the `feature` it serves. Every reader of a vendored
+ * schema goes through readGovernedSchema, which applies the file's extension
+ * (if any) to a parsed copy, so validation sees one effective schema while the
+ * pinned bytes stay untouched. A path whose parent does not exist in the
+ * vendored file fails loudly: a re-vendor that moved the shape must retire or
+ * rewrite the operation, never silently drop it.
+ */
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+export const SCHEMA_EXTENSIONS_DIRNAME = "src/pipeline/schema-extensions";
+
+export interface SchemaExtensionOperation {
+  op: "set" | "append";
+  /** JSON pointer into the vendored schema. */
+  path: string;
+  /** The local feature the operation serves (retired with it). */
+  feature: string;
+  value: unknown;
+}
+
+export interface SchemaExtension {
+  /** Basename of the vendored schema the operations apply to. */
+  extends: string;
+  operations: SchemaExtensionOperation[];
+}
+
+/** `pipeline.schema.json` → `pipeline.extension.json`. */
+function extensionFileFor(basename: string): string {
+  return basename.replace(/\.schema\.json$/, ".extension.json");
+}
+
+function pointerSegments(path: string): string[] {
+  if (!path.startsWith("/")) throw new Error(`schema extension path '${path}' is not a JSON pointer`);
+  return path
+    .slice(1)
+    .split("/")
+    .map((s) => s.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/** Apply one extension's operations to a deep copy of the schema. */
+export function applySchemaExtension(
+  schema: Record<string, unknown>,
+  extension: SchemaExtension
+): Record<string, unknown> {
+  const extended = structuredClone(schema);
+  for (const { op, path, value } of extension.operations) {
+    const segments = pointerSegments(path);
+    const last = segments.pop()!;
+    let parent: unknown = extended;
+    for (const segment of segments) {
+      parent = (parent as Record<string, unknown> | undefined)?.[segment];
+    }
+    if (parent === null || typeof parent !== "object") {
+      throw new Error(`schema extension of ${extension.extends}: '${path}' has no parent in the vendored schema`);
+    }
+    const container = parent as Record<string, unknown>;
+    if (op === "set") {
+      container[last] = structuredClone(value);
+    } else {
+      const target = container[last];
+      if (!Array.isArray(target) || !Array.isArray(value)) {
+        throw new Error(`schema extension of ${extension.extends}: '${path}' append needs an array target and value`);
+      }
+      target.push(...structuredClone(value));
+    }
+  }
+  return extended;
+}
+
+/** The local extension of a vendored schema, if one exists. */
+export function loadSchemaExtension(
+  basename: string,
+  extensionsDir: string = join(process.cwd(), SCHEMA_EXTENSIONS_DIRNAME)
+): SchemaExtension | undefined {
+  const file = join(extensionsDir, extensionFileFor(basename));
+  if (!existsSync(file)) return undefined;
+  const extension = JSON.parse(readFileSync(file, "utf-8")) as SchemaExtension;
+  if (extension.extends !== basename) {
+    throw new Error(`schema extension ${file} extends '${extension.extends}', expected '${basename}'`);
+  }
+  return extension;
+}
+
+/** Read a vendored governed schema with its local extension applied. */
+export function readGovernedSchema(governedSchemaDir: string, basename: string): Record<string, unknown> {
+  const schema = JSON.parse(readFileSync(join(governedSchemaDir, basename), "utf-8")) as Record<string, unknown>;
+  const extension = loadSchemaExtension(basename);
+  return extension ? applySchemaExtension(schema, extension) : schema;
+}
@@ -0,0 +1,239 @@
+/**
+ * Scorer SDK — the fixed contract every scorer-category node satisfies, so
+ * analyst strategies can register genuinely different scoring logic through
+ * the same pipeline manifest (one scoring seam per pipeline; LIFE-GOV
+ * D-LIFE-1 transition monopoly).
+ *
+ * A scorer is a `ScorerDefinition` handed to `createScorerNode`, which owns
+ * everything that must NOT vary per strategy:
+ *  - the typed input contract: the merge node's analyst-facing enriched view
+ *    (`ScorerEnrichedView`), refused up front when the input is not one;
+ *  - the UWR config hand-off: resolved once at the composition root through
+ *    the existing RC loader (getUwrRuntimeConfigOnce — fail-closed, no
+ *    fallback; RC-4) and passed to `score` with its source;
+ *  - the analysis envelope: `{ ...enriched, analysis, uwrResolvedSource }`,
+ *    the source propagated VERBATIM (RC-6: the stamp site never re-reads the
+ *    environment or infers the source later).
+ *
+ * The graph scoring service reads this envelope (`ScorerOutput`) and nothing
+ * scorer-specific. `scoreUwrAxes` is the ONE way a scorer turns its four
+ * axes into a uwrScore — afi-core's computeUwrScore over the handed-off
+ * config, so every scorer weighs its axes under the same profile.
+ *
+ * The froggy trend-pullback scorer (nodes/scorerFroggyTrendPullback.ts)
+ * predates the SDK and stays a hand-composed node: it hands afi-core's own
+ * adapter the afi-core FroggyEnrichedView, and the PR-UWR-STAMP-SEMANTICS
+ * guardrail pins its propagation site. Its envelope is the same
+ * `ScorerOutput`.
+ */
+import type { AnalystScoreTemplate } from "afi-core/analyst";
+import {
+  computeUwrScore,
+  type UniversalWeightingRuleConfig,
+} from "afi-core/validators/UniversalWeightingRule.js";
+import {
+  getUwrRuntimeConfigOnce,
+  type ResolvedUwrRuntimeConfig,
+} from "../config/uwrRuntimeProfile.js";
+import { normalizeMarketType, type AfiMarketType } from "../utils/marketUtils.js";
+import {
+  NodeConfigurationError,
+  ok,
+  type AnalysisNodePlugin,
+  type CanonicalUss,
+  type NodeRunContext,
+  type NodeResult,
+} from "./nodeSdk.js";
+
+/**
+ * One category's projected lane values in the enriched view (laneView.ts),
+ * e.g. technical.atrRegime or pattern.structureBias. Lane-specific and
+ * optional: a scorer narrows each value it reads and treats an absent one as
+ * neutral, never as signal.
+ */
+export type ScorerLaneView = Readonly<Record<string, unknown>>;
+
+/**
+ * The scorer input contract: the (optionally aiMl-augmented) enriched view the
+ * five-category merge emits (mergeEnrichedView.ts), reduced to what the SDK
+ * guarantees every scorer. The identity fields are always present; a lane the
+ * pipeline did not run (or that degraded) is absent. Scorer-family-agnostic —
+ * afi-core's FroggyEnrichedView is one structural instance of it.
+ */
+export interface ScorerEnrichedView {
+  signalId: string;
+  symbol: string;
+  /** Normalized by the merge (normalizeMarketType). */
+  market: AfiMarketType;
+  timeframe: string;
+  technical?: ScorerLaneView;
+  pattern?: ScorerLaneView;
+  sentiment?: ScorerLaneView;
+  news?: ScorerLaneView;
+  aiMl?: ScorerLaneView;
+  enrichmentMeta?: { categories?: string[] };
+}
+
+export function isScorerEnrichedView(input: unknown): input is ScorerEnrichedView {
+  return (
+    input !== null &&
+    typeof input === "object" &&
+    typeof (input as ScorerEnrichedView).signalId === "string" &&
+    typeof (input as ScorerEnrichedView).symbol === "string"
+  );
+}
+
+/** What a scorer produces: the afi-core analyst score (plus any scorer-own detail). */
+export interface ScorerAnalysis {
+  analystScore: AnalystScoreTemplate;
+}
+
+/** The scorer sink's output envelope, as the graph scoring service reads it. */
+export interface ScorerOutput {
+  analysis?: { analystScore?: AnalystScoreTemplate };
+  uwrResolvedSource?: unknown;
+  lenses?: unknown[];
+  _priceFeedMetadata?: Record<string, unknown>;
+  enrichmentMeta?: { categories?: string[] };
+  [key: string]: unknown;
+}
+
+/** Everything a scorer's `score` receives besides the enriched view. */
+export interface ScorerHandOff {
+  /** The composition-root UWR resolution (config + its source). */
+  uwr: ResolvedUwrRuntimeConfig;
+  ctx: NodeRunContext;
+}
+
+export interface ScorerDefinition {
+  manifestRef: { pluginId: string; pluginVersion: string };
+  /** Operational label for the scored log line (never hash material). */
+  label: string;
+  score(enriched: ScorerEnrichedView, handOff: ScorerHandOff): ScorerAnalysis;
+}
+
+/** Bind a scorer definition to the node contract (guard, UWR hand-off, envelope). */
+export function createScorerNode(definition: ScorerDefinition): AnalysisNodePlugin {
+  return {
+    manifestRef: definition.manifestRef,
+    async run(input: unknown, ctx: NodeRunContext): Promise<NodeResult> {
+      if (!isScorerEnrichedView(input)) {
+        throw new Error(
+          `scorer node ${definition.manifestRef.pluginId} requires the (optionally aiMl-augmented) enriched view`
+        );
+      }
+      const enriched = input;
+
+      // PR-UWR-RUNTIME-READ: resolve the UWR config at the composition root
+      // (fail-closed; a failed resolution throws before any scoring happens).
+      const uwrRuntime = getUwrRuntimeConfigOnce();
+      const analysis = definition.score(enriched, { uwr: uwrRuntime, ctx });
+
+      ctx.logger.info(`${definition.label} scored`, { uwrResolvedSource: uwrRuntime.source });
+
+      return ok({
+        ...enriched,
+        analysis,
+        uwrResolvedSource: uwrRuntime.source,
+      });
+    },
+  };
+}
+
+/** The four UWR axes, each in [0, 1]. */
+export interface UwrAxes {
+  structure: number;
+  execution: number;
+  risk: number;
+  insight: number;
+}
+
+/** Weigh the four axes under the handed-off UWR config (afi-core computeUwrScore). */
+export function scoreUwrAxes(
+  axes: UwrAxes,
+  config: Readonly<UniversalWeightingRuleConfig>
+): { uwrAxes: UwrAxes; uwrScore: number } {
+  const uwrScore = computeUwrScore(
+    {
+      structureAxis: axes.structure,
+      executionAxis: axes.execution,
+      riskAxis: axes.risk,
+      insightAxis: axes.insight,
+    },
+    config
+  );
+  return { uwrAxes: { ...axes }, uwrScore };
+}
+
+/** The analyst strategy triple a configurable scorer stamps on its score. */
+export interface ScorerIdentity {
+  analystId: string;
+  strategyId: string;
+  strategyVersion: string;
+}
+
+/**
+ * The strategy triple from the scorer node's manifest config. A scorer family
+ * serving several strategies is told whose score it produces; a missing field
+ * is a configuration error (always fatal), never a guessed identity.
+ */
+export function scorerIdentityFromConfig(config: Record<string, unknown>): ScorerIdentity {
+  const identity: Partial<ScorerIdentity> = {};
+  for (const field of ["analystId", "strategyId", "strategyVersion"] as const) {
+    const value = config[field];
+    if (typeof value !== "string" || value.length === 0) {
+      throw new NodeConfigurationError(`scorer node config requires a non-empty '${field}'`);
+    }
+    identity[field] = value;
+  }
+  return identity as ScorerIdentity;
+}
+
+/** The instrument facts an analyst score carries, derived from the enriched view. */
+export interface ScorerInstrument {
+  assetClass: "crypto";
+  instrumentType: "spot" | "linear-perp" | "dated-future";
+  baseAsset: string;
+  quoteAsset: string;
+}
+
+const INSTRUMENT_TYPE_BY_MARKET: Record<AfiMarketType, ScorerInstrument["instrumentType"]> = {
+  spot: "spot",
+  perp: "linear-perp",
+  futures: "dated-future",
+};
+
+/** Known quote suffixes of concatenated symbol forms (e.g. BTCUSDT). */
+const QUOTE_SUFFIXES = ["USDT", "USDC", "USD"];
+
+/**
+ * The score's instrument: base/quote split on '/' (a ':settle' suffix
+ * dropped), else ONE known quote suffix stripped; an unsplittable symbol
+ * keeps the whole symbol as its base and an empty quote, never a guess.
+ */
+export function scorerInstrumentOf(enriched: Pick<ScorerEnrichedView, "symbol" | "market">): ScorerInstrument {
+  const upper = enriched.symbol.trim().toUpperCase().split(":")[0] ?? "";
+  let baseAsset = upper;
+  let quoteAsset = "";
+  if (upper.includes("/")) {
+    [baseAsset, quoteAsset] = upper.split("/", 2) as [string, string];
+  } else {
+    const suffix = QUOTE_SUFFIXES.find((q) => upper.endsWith(q) && upper.length > q.length);
+    if (suffix) {
+      baseAsset = upper.slice(0, upper.length - suffix.length);
+      quoteAsset = suffix;
+    }
+  }
+  return {
+    assetClass: "crypto",
+    instrumentType: INSTRUMENT_TYPE_BY_MARKET[normalizeMarketType(enriched.market)],
+    baseAsset,
+    quoteAsset,
+  };
+}
+
+/** The signal's declared direction (facts.direction), 'neutral' when absent. */
+export function signalDirection(signal: CanonicalUss): "long" | "short" | "neutral" {
+  const direction = (signal as { facts?: { direction?: unknown } }).facts?.direction;
+  return direction === "long" || direction === "short" ? direction : "neutral";
+}
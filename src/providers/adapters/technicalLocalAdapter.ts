@@ -8,13 +8,33 @@
  * requires no credential; ctx.credential is undefined and the SecretResolver is
  * never invoked for it.
  *
+ * A strategy may declare extra indicators (MACD, Bollinger, Stochastic, ADX,
+ * OBV, VWAP) through the node's `config.indicators`; a malformed block is a
+ * configuration error (fatal), never a silently ignored declaration.
+ *
+ * Indicators are advanced through a per-series IndicatorStreamRegistry when one
+ * is wired (production always wires one): the stream is byte-identical to the
+ * batch kernel over the fetched window, so the lane bytes never change — only
+ * the re-walk of an already-seen window is skipped.
+ *
+ * When the price feed sits behind the candle cache, its hit/miss report is
+ * carried over to the lane's candle array (never into the lane bytes) so the
+ * merge can surface it in _priceFeedMetadata.
+ *
  * The ccxt-backed price-feed kernels are imported LAZILY (dynamic import at call
  * time), so merely importing this module — or the provider index — never pulls
  * the exchange SDK into a test that injects deterministic deps.
  */
 import type { getPriceFeedAdapter, getDefaultPriceSource } from "../../adapters/exchanges/priceFeedRegistry.js";
 import type { OHLCVCandle } from "../../adapters/exchanges/types.js";
-import type { computeTechnicalEnrichment } from "../../enrichment/technicalIndicators.js";
+import { candleCacheReportOf, tagCandleCacheReport } from "../../adapters/exchanges/cachingPriceFeedAdapter.js";
+import {
+  parseDeclaredIndicatorConfig,
+  type computeTechnicalEnrichment,
+  type DeclaredIndicatorConfig,
+} from "../../enrichment/technicalIndicators.js";
+import { FROGGY_INDICATOR_CONFIG } from "../../indicator/froggyProfile.js";
+import { IndicatorStreamRegistry } from "../../indicator/indicatorStreamRegistry.js";
 import type { AfiCandle } from "../../types/AfiCandle.js";
 import { NodeConfigurationError } from "../../pipeline/nodeSdk.js";
 import type { CategoryResult, ProviderAdapter, ProviderAdapterContext } from "../types.js";
@@ -23,8 +43,13 @@ export interface TechnicalLocalAdapterDeps {
   resolvePriceSource: typeof getDefaultPriceSource;
   getAdapter: typeof getPriceFeedAdapter;
   computeTechnical: typeof computeTechnicalEnrichment;
+  /** OPTIONAL incremental indicator streams (absent → batch kernel per run). */
+  indicatorStreams?: IndicatorStreamRegistry;
 }
 
+/** Process-wide streams for the production adapter, keyed by source|symbol|timeframe. */
+const productionIndicatorStreams = new IndicatorStreamRegistry();
+
 /** Load the real ccxt-backed kernels only when the production adapter runs. */
 async function loadProductionDeps(): Promise<TechnicalLocalAdapterDeps> {
   const [{ getPriceFeedAdapter, getDefaultPriceSource }, { computeTechnicalEnrichment }] = await Promise.all([
@@ -35,6 +60,7 @@ async function loadProductionDeps(): Promise<TechnicalLocalAdapterDeps> {
     resolvePriceSource: getDefaultPriceSource,
     getAdapter: getPriceFeedAdapter,
     computeTechnical: computeTechnicalEnrichment,
+    indicatorStreams: productionIndicatorStreams,
   };
 }
 
@@ -72,13 +98,33 @@ export function createTechnicalLocalAdapter(deps?: TechnicalLocalAdapterDeps): P
           "technical adapter requires facts.symbol and facts.timeframe on the canonical signal"
         );
       }
+      let declared: DeclaredIndicatorConfig | null;
+      try {
+        declared = parseDeclaredIndicatorConfig(ctx.config["indicators"]);
+      } catch (error) {
+        throw new NodeConfigurationError(
+          `technical node config: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
       const limitRaw = ctx.config["candleLimit"];
       const limit = typeof limitRaw === "number" ? limitRaw : 100;
 
       const feed = d.getAdapter(priceSource as Parameters<typeof getPriceFeedAdapter>[0]);
       const rawCandles = await feed.getOHLCV({ symbol, timeframe, limit });
       const candles = toAfiCandles(rawCandles);
-      const technical = d.computeTechnical(candles);
+      tagCandleCacheReport(candles, candleCacheReportOf(rawCandles));
+      const technical = d.computeTechnical(candles, {
+        ...(d.indicatorStreams
+          ? {
+              indicators: d.indicatorStreams.bundleFor(
+                `${priceSource}|${symbol}|${timeframe}`,
+                candles,
+                FROGGY_INDICATOR_CONFIG
+              ),
+            }
+          : {}),
+        declared,
+      });
 
       ctx.logger.info("technical enrichment computed (provider adapter)", {
         priceSource,
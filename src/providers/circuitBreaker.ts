@@ -0,0 +1,206 @@
+/**
+ * Per-provider-instance health tracking + circuit breaker.
+ *
+ * The ProviderRuntime records every adapter invocation outcome here, keyed by
+ * providerInstanceId: a rolling window of outcomes (error rate), the
+ * consecutive-failure count and latency. When either threshold trips, the
+ * instance's circuit OPENS and the runtime fails the invocation fast with a
+ * ProviderCircuitOpenError — the lane degrades as `provider-circuit-open`
+ * instead of waiting out the node timeout and every retry. After
+ * `openDurationMs` the circuit goes HALF-OPEN and admits exactly one probe:
+ * success closes it (fresh window), failure re-opens it.
+ *
+ * Only the provider's own behavior counts: resolution and credential failures
+ * never reach the adapter and are not recorded (the runtime decides).
+ *
+ * Operational state only — never hash material, never part of a proof.
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default 5). */
+  consecutiveFailures?: number;
+  /** Rolling error rate in [0,1] that opens the circuit (default 0.5). */
+  errorRate?: number;
+  /** Outcomes required in the window before the error rate applies (default 10). */
+  minimumSamples?: number;
+  /** Rolling window size in outcomes (default 20). */
+  windowSize?: number;
+  /** How long an open circuit rejects before half-open probing (default 30s). */
+  openDurationMs?: number;
+  /** Injectable clock (tests). */
+  now?: () => number;
+}
+
+export interface ProviderHealthSnapshot {
+  providerInstanceId: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** Failures / outcomes over the rolling window (0 when empty). */
+  errorRate: number;
+  samples: number;
+  /** Mean latency over the rolling window, in ms (null when empty). */
+  meanLatencyMs: number | null;
+  lastLatencyMs: number | null;
+  /** ISO instant the circuit last opened (present while open/half-open). */
+  openedAt?: string;
+}
+
+export type CircuitAdmission =
+  | { allowed: true; probe: boolean }
+  | { allowed: false; retryAfterMs: number };
+
+interface InstanceHealth {
+  state: CircuitState;
+  outcomes: Array<{ ok: boolean; latencyMs: number }>;
+  consecutiveFailures: number;
+  lastLatencyMs: number | null;
+  openedAt?: number;
+  probeInFlight: boolean;
+}
+
+export class ProviderCircuitBreaker {
+  private readonly instances = new Map<string, InstanceHealth>();
+  private readonly consecutiveFailures: number;
+  private readonly errorRate: number;
+  private readonly minimumSamples: number;
+  private readonly windowSize: number;
+  private readonly openDurationMs: number;
+  private readonly now: () => number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.consecutiveFailures = options.consecutiveFailures ?? 5;
+    this.errorRate = options.errorRate ?? 0.5;
+    this.minimumSamples = options.minimumSamples ?? 10;
+    this.windowSize = options.windowSize ?? 20;
+    this.openDurationMs = options.openDurationMs ?? 30_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  private healthOf(providerInstanceId: string): InstanceHealth {
+    let health = this.instances.get(providerInstanceId);
+    if (!health) {
+      health = { state: "closed", outcomes: [], consecutiveFailures: 0, lastLatencyMs: null, probeInFlight: false };
+      this.instances.set(providerInstanceId, health);
+    }
+    return health;
+  }
+
+  /** Decide whether an invocation may reach the adapter now. */
+  admit(providerInstanceId: string): CircuitAdmission {
+    const health = this.healthOf(providerInstanceId);
+    if (health.state === "closed") return { allowed: true, probe: false };
+    if (health.state === "open") {
+      const elapsed = this.now() - (health.openedAt ?? 0);
+      if (elapsed < this.openDurationMs) {
+        return { allowed: false, retryAfterMs: this.openDurationMs - elapsed };
+      }
+      health.state = "half-open";
+    }
+    // half-open: one probe at a time; everyone else still fails fast.
+    if (health.probeInFlight) return { allowed: false, retryAfterMs: 0 };
+    health.probeInFlight = true;
+    return { allowed: true, probe: true };
+  }
+
+  recordSuccess(providerInstanceId: string, latencyMs: number): void {
+    const health = this.healthOf(providerInstanceId);
+    if (health.state !== "closed") {
+      // A successful probe closes the circuit with a fresh window.
+      health.state = "closed";
+      health.outcomes = [];
+      health.openedAt = undefined;
+      health.probeInFlight = false;
+    }
+    health.consecutiveFailures = 0;
+    this.push(health, true, latencyMs);
+  }
+
+  recordFailure(providerInstanceId: string, latencyMs: number): void {
+    const health = this.healthOf(providerInstanceId);
+    health.consecutiveFailures += 1;
+    this.push(health, false, latencyMs);
+    if (health.state === "half-open") {
+      this.open(health);
+      return;
+    }
+    if (health.state === "closed" && this.shouldOpen(health)) this.open(health);
+  }
+
+  /** Release a probe whose outcome says nothing about the provider (e.g. a pipeline-wide abort). */
+  releaseProbe(providerInstanceId: string): void {
+    this.healthOf(providerInstanceId).probeInFlight = false;
+  }
+
+  snapshot(): ProviderHealthSnapshot[] {
+    return [...this.instances.entries()]
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([providerInstanceId, health]) => {
+        const samples = health.outcomes.length;
+        const failures = health.outcomes.filter((o) => !o.ok).length;
+        // Report an elapsed open window as half-open even before the next admit.
+        const state =
+          health.state === "open" && this.now() - (health.openedAt ?? 0) >= this.openDurationMs
+            ? "half-open"
+            : health.state;
+        return {
+          providerInstanceId,
+          state,
+          consecutiveFailures: health.consecutiveFailures,
+          errorRate: samples === 0 ? 0 : failures / samples,
+          samples,
+          meanLatencyMs:
+            samples === 0 ? null : health.outcomes.reduce((sum, o) => sum + o.latencyMs, 0) / samples,
+          lastLatencyMs: health.lastLatencyMs,
+          ...(health.openedAt !== undefined ? { openedAt: new Date(health.openedAt).toISOString() } : {}),
+        };
+      });
+  }
+
+  private push(health: InstanceHealth, ok: boolean, latencyMs: number): void {
+    health.outcomes.push({ ok, latencyMs });
+    if (health.outcomes.length > this.windowSize) health.outcomes.shift();
+    health.lastLatencyMs = latencyMs;
+  }
+
+  private shouldOpen(health: InstanceHealth): boolean {
+    if (health.consecutiveFailures >= this.consecutiveFailures) return true;
+    const samples = health.outcomes.length;
+    if (samples < this.minimumSamples) return false;
+    const failures = health.outcomes.filter((o) => !o.ok).length;
+    return failures / samples >= this.errorRate;
+  }
+
+  private open(health: InstanceHealth): void {
+    health.state = "open";
+    health.openedAt = this.now();
+    health.probeInFlight = false;
+  }
+}
+
+function envNumber(name: string, min: number, max: number): number | undefined {
+  const raw = process.env[name]?.trim();
+  if (!raw) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`${name} must be a number in [${min}, ${max}] (got "${raw}")`);
+  }
+  return value;
+}
+
+/**
+ * Breaker configuration from the environment: AFI_PROVIDER_BREAKER=off
+ * disables it; AFI_PROVIDER_BREAKER_FAILURES, _ERROR_RATE, _MIN_SAMPLES,
+ * _WINDOW and _OPEN_MS override the defaults. Malformed values throw at boot.
+ */
+export function circuitBreakerFromEnv(): ProviderCircuitBreaker | undefined {
+  if (process.env.AFI_PROVIDER_BREAKER?.trim().toLowerCase() === "off") return undefined;
+  return new ProviderCircuitBreaker({
+    consecutiveFailures: envNumber("AFI_PROVIDER_BREAKER_FAILURES", 1, 1_000),
+    errorRate: envNumber("AFI_PROVIDER_BREAKER_ERROR_RATE", 0.01, 1),
+    minimumSamples: envNumber("AFI_PROVIDER_BREAKER_MIN_SAMPLES", 1, 10_000),
+    windowSize: envNumber("AFI_PROVIDER_BREAKER_WINDOW", 1, 10_000),
+    openDurationMs: envNumber("AFI_PROVIDER_BREAKER_OPEN_MS", 0, 86_400_000),
+  });
+}
@@ -0,0 +1,226 @@
+/**
+ * Credential bundles handed to adapters (PBF-GOV D-PBF-7 "Preferred").
+ *
+ * The runtime turns the resolver's secret material into the adapter-facing
+ * bundle. An apiKeyHeader bundle is the header value itself (the adapter must
+ * set it); every other kind is a HELPER closed over the secret — the adapter
+ * asks for the headers to send and never holds the key secret, client secret
+ * or password:
+ *   - hmacSignature: `sign(request)` → key id, timestamp and signature headers
+ *   - oauth2ClientCredentials: `authorize({ tokenUrl })` → a bearer header,
+ *     the token fetched once and refreshed before expiry (OAuth2TokenCache)
+ *   - basicAuth: `authorize()` → the basic authorization header
+ *
+ * Every secret value the helper holds or mints (including access tokens and
+ * the encoded basic header) is registered with the invocation's scrubbing
+ * logger as it appears.
+ */
+import { createHmac } from "node:crypto";
+import { CredentialUnavailableError } from "./errors.js";
+import type { CredentialSecret } from "./secretResolver.js";
+import type {
+  HmacSigningScheme,
+  OAuth2TokenRequest,
+  ProviderCredentialBundle,
+  SignableRequest,
+} from "./types.js";
+
+export const DEFAULT_HMAC_SIGNING_SCHEME: Required<HmacSigningScheme> = {
+  keyHeader: "X-API-KEY",
+  timestampHeader: "X-API-TIMESTAMP",
+  signatureHeader: "X-API-SIGNATURE",
+  algorithm: "sha256",
+  encoding: "hex",
+  timestampUnit: "ms",
+};
+
+/** The signed payload: timestamp + upper-cased method + path + body. */
+export function hmacSigningPayload(timestamp: string, request: SignableRequest): string {
+  return `${timestamp}${request.method.toUpperCase()}${request.path}${request.body ?? ""}`;
+}
+
+/** Caller abort OR timeout (the newsdata client's pattern; no AbortSignal.any()). */
+function combineAbort(caller: AbortSignal | undefined, timeoutMs: number): AbortSignal {
+  const timer = AbortSignal.timeout(timeoutMs);
+  if (!caller) return timer;
+  const controller = new AbortController();
+  if (caller.aborted) {
+    controller.abort(caller.reason);
+    return controller.signal;
+  }
+  caller.addEventListener("abort", () => controller.abort(caller.reason), { once: true });
+  timer.addEventListener("abort", () => controller.abort(timer.reason), { once: true });
+  return controller.signal;
+}
+
+/** Refresh a token this long before its declared expiry. */
+const TOKEN_REFRESH_SKEW_MS = 30_000;
+/** Lifetime assumed when a token response declares no `expires_in`. */
+const DEFAULT_TOKEN_LIFETIME_MS = 300_000;
+
+export interface OAuth2TokenCacheOptions {
+  fetchImpl?: typeof fetch;
+  /** Per-request timeout for the token endpoint (default 10000ms). */
+  timeoutMs?: number;
+  /** Injectable clock (tests). */
+  now?: () => number;
+}
+
+interface TokenFetch {
+  /** Cache scope: tenant + credentialRef + client id + endpoint + scope. */
+  cacheKey: string;
+  providerInstanceId: string;
+  clientId: string;
+  clientSecret: string;
+  request: OAuth2TokenRequest;
+}
+
+/**
+ * Client-credentials access tokens, cached per credential + endpoint + scope
+ * for the runtime's lifetime. Concurrent refreshes for one key share one
+ * token request. A failed token request is a non-revealing
+ * CredentialUnavailableError and is never cached.
+ */
+export class OAuth2TokenCache {
+  private readonly tokens = new Map<string, { accessToken: string; expiresAt: number }>();
+  private readonly inFlight = new Map<string, Promise<string>>();
+  private readonly fetchImpl: typeof fetch;
+  private readonly timeoutMs: number;
+  private readonly now: () => number;
+
+  constructor(options: OAuth2TokenCacheOptions = {}) {
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  async accessToken(fetchSpec: TokenFetch): Promise<string> {
+    const { cacheKey, request } = fetchSpec;
+    if (request.forceRefresh) this.tokens.delete(cacheKey);
+    const cached = this.tokens.get(cacheKey);
+    if (cached && cached.expiresAt - TOKEN_REFRESH_SKEW_MS > this.now()) return cached.accessToken;
+
+    let pending = this.inFlight.get(cacheKey);
+    if (!pending) {
+      pending = this.requestToken(fetchSpec).finally(() => this.inFlight.delete(cacheKey));
+      this.inFlight.set(cacheKey, pending);
+    }
+    return pending;
+  }
+
+  private async requestToken({ cacheKey, providerInstanceId, clientId, clientSecret, request }: TokenFetch): Promise<string> {
+    const unavailable = (reason: string) =>
+      new CredentialUnavailableError(`credential unavailable for provider instance '${providerInstanceId}' (${reason})`);
+
+    let url: URL;
+    try {
+      url = new URL(request.tokenUrl);
+    } catch {
+      throw unavailable("invalid token endpoint");
+    }
+    // The client secret travels only over TLS (plain http is for loopback stand-ins).
+    const loopback = url.hostname === "127.0.0.1" || url.hostname === "localhost" || url.hostname === "[::1]";
+    if (url.protocol !== "https:" && !(url.protocol === "http:" && loopback)) {
+      throw unavailable("token endpoint must use https");
+    }
+
+    const form = new URLSearchParams({ grant_type: "client_credentials" });
+    if (request.scope) form.set("scope", request.scope);
+
+    // RFC 6749 §2.3.1: client authentication via HTTP basic (form-encoded parts).
+    const basic = Buffer.from(`${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`).toString("base64");
+
+    let body: unknown;
+    try {
+      const response = await this.fetchImpl(url, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${basic}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+          Accept: "application/json",
+        },
+        body: form.toString(),
+        signal: combineAbort(request.abort, this.timeoutMs),
+      });
+      if (!response.ok) throw unavailable(`token endpoint answered ${response.status}`);
+      body = await response.json();
+    } catch (err) {
+      if (err instanceof CredentialUnavailableError) throw err;
+      throw unavailable("token request failed");
+    }
+
+    const token = body as { access_token?: unknown; expires_in?: unknown } | null;
+    if (typeof token?.access_token !== "string" || !token.access_token) {
+      throw unavailable("token response carried no access_token");
+    }
+    const lifetimeMs =
+      typeof token.expires_in === "number" && token.expires_in > 0 ? token.expires_in * 1000 : DEFAULT_TOKEN_LIFETIME_MS;
+    this.tokens.set(cacheKey, { accessToken: token.access_token, expiresAt: this.now() + lifetimeMs });
+    return token.access_token;
+  }
+}
+
+export interface CredentialBundleScope {
+  tenant: string;
+  credentialRef: string;
+  providerInstanceId: string;
+  tokenCache: OAuth2TokenCache;
+  /** Register a secret value with the invocation's scrubbing logger. */
+  registerSecret: (value: string) => void;
+  /** Injectable clock for HMAC timestamps (tests). */
+  now?: () => number;
+}
+
+/** Build the adapter-facing bundle for one resolved secret. */
+export function credentialBundleFor(secret: CredentialSecret, scope: CredentialBundleScope): ProviderCredentialBundle {
+  const now = scope.now ?? Date.now;
+  switch (secret.kind) {
+    case "apiKeyHeader":
+      scope.registerSecret(secret.headerValue);
+      return secret;
+
+    case "hmacSignature": {
+      scope.registerSecret(secret.key);
+      scope.registerSecret(secret.secret);
+      return {
+        kind: "hmacSignature",
+        sign(request: SignableRequest, scheme: HmacSigningScheme = {}): Record<string, string> {
+          const s = { ...DEFAULT_HMAC_SIGNING_SCHEME, ...scheme };
+          const timestamp = String(s.timestampUnit === "s" ? Math.floor(now() / 1000) : now());
+          const signature = createHmac(s.algorithm, secret.secret)
+            .update(hmacSigningPayload(timestamp, request))
+            .digest(s.encoding);
+          return { [s.keyHeader]: secret.key, [s.timestampHeader]: timestamp, [s.signatureHeader]: signature };
+        },
+      };
+    }
+
+    case "oauth2ClientCredentials": {
+      scope.registerSecret(secret.clientSecret);
+      return {
+        kind: "oauth2ClientCredentials",
+        async authorize(request: OAuth2TokenRequest): Promise<Record<string, string>> {
+          const accessToken = await scope.tokenCache.accessToken({
+            cacheKey: [scope.tenant, scope.credentialRef, secret.clientId, request.tokenUrl, request.scope ?? ""].join("\u0000"),
+            providerInstanceId: scope.providerInstanceId,
+            clientId: secret.clientId,
+            clientSecret: secret.clientSecret,
+            request,
+          });
+          scope.registerSecret(accessToken);
+          return { Authorization: `Bearer ${accessToken}` };
+        },
+      };
+    }
+
+    case "basicAuth": {
+      const encoded = Buffer.from(`${secret.username}:${secret.password}`).toString("base64");
+      scope.registerSecret(secret.password);
+      scope.registerSecret(encoded);
+      return {
+        kind: "basicAuth",
+        authorize: () => ({ Authorization: `Basic ${encoded}` }),
+      };
+    }
+  }
+}
@@ -18,7 +18,10 @@ export type ProviderErrorCode =
   | "credential-unavailable"
   | "credential-scope-mismatch"
   | "unauthorized-credential"
-  | "provider-output-invalid";
+  | "provider-output-invalid"
+  | "recording-not-found"
+  | "provider-circuit-open"
+  | "provider-selection-exhausted";
 
 export class ProviderLayerError extends Error {
   readonly code: ProviderErrorCode;
@@ -71,3 +74,44 @@ export class ProviderOutputInvalidError extends ProviderLayerError {
     this.name = "ProviderOutputInvalidError";
   }
 }
+
+/** Playback mode has no recording for this invocation (fail closed, never live). */
+export class RecordingNotFoundError extends ProviderLayerError {
+  constructor(message: string) {
+    super("recording-not-found", message);
+    this.name = "RecordingNotFoundError";
+  }
+}
+
+/**
+ * The provider instance's circuit is open (circuitBreaker.ts): the invocation
+ * fails fast without reaching the adapter. Names only the instance.
+ */
+export class ProviderCircuitOpenError extends ProviderLayerError {
+  readonly providerInstanceId: string;
+  readonly retryAfterMs: number;
+  constructor(providerInstanceId: string, retryAfterMs: number) {
+    super(
+      "provider-circuit-open",
+      `provider instance '${providerInstanceId}' circuit is open — failing fast (retry in ${Math.ceil(retryAfterMs / 1000)}s)`
+    );
+    this.name = "ProviderCircuitOpenError";
+    this.providerInstanceId = providerInstanceId;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * No candidate of a multi-provider lane produced an admissible answer
+ * (laneSelection.ts): every candidate failed, or a quorum was not met.
+ * Names only the instances and their error codes.
+ */
+export class ProviderSelectionExhaustedError extends ProviderLayerError {
+  /** True when every failed candidate failed because its circuit was open. */
+  readonly allCircuitsOpen: boolean;
+  constructor(message: string, allCircuitsOpen: boolean) {
+    super("provider-selection-exhausted", message);
+    this.name = "ProviderSelectionExhaustedError";
+    this.allCircuitsOpen = allCircuitsOpen;
+  }
+}
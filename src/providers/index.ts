@@ -12,7 +12,13 @@ import { createAdapterRegistry } from "./adapterRegistry.js";
 import { createProviderRecordStore, type ProviderRecordStore } from "./records.js";
 import { createCategoryOutputValidator } from "./outputValidation.js";
 import { NoCredentialsResolver, type SecretResolver } from "./secretResolver.js";
-import { ProviderRuntime } from "./providerRuntime.js";
+import { ProviderRuntime, type ProviderRuntimeDeps } from "./providerRuntime.js";
+import {
+  createRecordedAdapterRegistry,
+  type ProviderRecordingMode,
+  type ProviderRecordingStore,
+} from "./recording.js";
+import type { ProviderCircuitBreaker } from "./circuitBreaker.js";
 import { technicalLocalAdapter } from "./adapters/technicalLocalAdapter.js";
 import { httpNewsAdapter } from "./adapters/httpNewsAdapter.js";
 import { newsSecEdgarAdapter } from "./adapters/newsSecEdgarAdapter.js";
@@ -27,11 +33,16 @@ export * from "./types.js";
 export * from "./errors.js";
 export * from "./redaction.js";
 export * from "./secretResolver.js";
+export * from "./secretBackends.js";
+export * from "./credentials.js";
 export * from "./adapterRegistry.js";
 export * from "./records.js";
 export * from "./outputValidation.js";
 export * from "./providerRuntime.js";
 export * from "./providerBackedNode.js";
+export * from "./laneSelection.js";
+export * from "./recording.js";
+export * from "./circuitBreaker.js";
 export { createTechnicalLocalAdapter, technicalLocalAdapter } from "./adapters/technicalLocalAdapter.js";
 export { createHttpNewsAdapter, httpNewsAdapter } from "./adapters/httpNewsAdapter.js";
 export { createPatternCandlestickAdapter, patternCandlestickAdapter } from "./adapters/patternCandlestickAdapter.js";
@@ -69,6 +80,12 @@ export interface BuildProviderRuntimeOptions {
   extraAdapters?: ReadonlyArray<ProviderAdapter>;
   /** Vendored governed-schema dir override (tests only). */
   schemaDir?: string;
+  /** Record every adapter invocation, or play recordings back instead of calling providers. */
+  recording?: { mode: ProviderRecordingMode; store: ProviderRecordingStore };
+  /** Provider-layer failure hook (metrics only). */
+  onProviderError?: ProviderRuntimeDeps["onProviderError"];
+  /** Per-instance circuit breaker; omitted = invocations never fail fast. */
+  breaker?: ProviderCircuitBreaker;
 }
 
 /**
@@ -76,15 +93,23 @@ export interface BuildProviderRuntimeOptions {
  * construction (duplicate registration fails closed — D-PBF-5). With no records
  * and the default resolver, provider-backed nodes fail closed; production boot
  * loads the governed provider/instance/credential-ref registries and injects
- * the env-backed reference secret resolver (FLPR-GOV D-FLPR-7).
+ * the env-backed reference secret resolver (FLPR-GOV D-FLPR-7). With
+ * `recording`, every adapter is wrapped for record or playback (recording.ts).
  */
 export function buildProviderRuntime(options: BuildProviderRuntimeOptions = {}): ProviderRuntime {
-  const adapters = createAdapterRegistry([
-    ...builtinProviderAdapters(),
-    ...(options.extraAdapters ?? []),
-  ]);
+  const adapterSet = [...builtinProviderAdapters(), ...(options.extraAdapters ?? [])];
+  const adapters = options.recording
+    ? createRecordedAdapterRegistry(adapterSet, options.recording.mode, options.recording.store)
+    : createAdapterRegistry(adapterSet);
   const records = options.records ?? createProviderRecordStore({}, options.schemaDir);
   const resolver = options.resolver ?? new NoCredentialsResolver();
   const outputValidator = createCategoryOutputValidator(options.schemaDir);
-  return new ProviderRuntime({ adapters, records, resolver, outputValidator });
+  return new ProviderRuntime({
+    adapters,
+    records,
+    resolver,
+    outputValidator,
+    onProviderError: options.onProviderError,
+    breaker: options.breaker,
+  });
 }
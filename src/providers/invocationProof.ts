@@ -16,7 +16,7 @@
  */
 
 import type { CanonicalHashRef } from "../pipeline/hashing.js";
-import type { AnalysisCategory } from "./types.js";
+import type { AnalysisCategory, CredentialKind } from "./types.js";
 
 /** How an adapter reached its capability (D-EV3-2(4)). Never a URL. */
 export type AdapterTransportKind = "in-process" | "http";
@@ -162,12 +162,21 @@ export interface AdapterIdentityProof {
   transportKind: AdapterTransportKind;
 }
 
+/**
+ * The credential kinds the governed (vendored afi-config) invocation-proof
+ * and credential-ref schemas admit. The runtime resolves more (CredentialKind;
+ * registry validation sees the locally extended enum), but afi-infra validates
+ * stored evidence against the governed enum — so the Evidence V3 builder
+ * refuses a proof naming any other kind until afi-config ships it.
+ */
+export const EVIDENCE_CREDENTIAL_KINDS: ReadonlySet<CredentialKind> = new Set<CredentialKind>(["apiKeyHeader"]);
+
 /** Credential binding: keyless posture XOR opaque CredentialRef facts (D-EV3-6). */
 export type CredentialBindingProof =
   | { mode: "keyless" }
   | {
       mode: "credentialRef";
-      credentialKind: "apiKeyHeader";
+      credentialKind: CredentialKind;
       credentialRef: string;
       recordVersion: string;
       status: "active" | "disabled";
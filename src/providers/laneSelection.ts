@@ -0,0 +1,228 @@
+/**
+ * Multi-provider lane selection (the manifest node's providerSelection).
+ *
+ * A lane may name further provider instances after its providerInstanceRef.
+ * Every candidate goes through the unchanged ProviderRuntime flow (resolution
+ * → credential → adapter → output validation, each behind its own circuit);
+ * the policy decides which answer enters the join:
+ *   - first-success: candidates in order; the first that answers wins
+ *   - fallback-on-degradation: as first-success, but an answer carrying no
+ *     observations (isDegradedResult) also falls through to the next
+ *     candidate; when every answer is degraded the first one is kept
+ *   - quorum (sentiment only): every candidate is invoked concurrently, at
+ *     least `quorum` non-degraded answers are required, and their axes are
+ *     combined (combineSentimentAxes)
+ *
+ * The lane still yields exactly ONE result and ONE invocation proof, naming
+ * the selected candidate (quorum: the first contributor). Every attempted
+ * candidate is reported separately as a ProviderSelectionRecord: operational
+ * metadata the Evidence V3 builder checks against the lane's boot-verified
+ * candidates but never persists — the governed invocation-proof schema is
+ * closed, and the stored proof keeps exactly its governed shape.
+ */
+import type { CanonicalHashRef } from "../pipeline/hashing.js";
+import type { ProviderSelection, ProviderSelectionPolicy } from "../pipeline/manifestTypes.js";
+import type { SentimentAxisObservation } from "../pipeline/nodes/laneView.js";
+import type { CategoryResult, ProviderInstanceRef } from "./types.js";
+import type { ProviderInvokeContext, ProviderRuntime } from "./providerRuntime.js";
+import type { ProviderInvocationProofV1 } from "./invocationProof.js";
+import { ProviderLayerError, ProviderSelectionExhaustedError } from "./errors.js";
+import {
+  categoryResultHash,
+  providerResultHash,
+} from "../evidence/provenance/invocationProofHashes.js";
+
+/** One candidate instance a multi-provider lane attempted. */
+export interface ProviderSelectionAttempt {
+  providerInstanceId: string;
+  recordVersion: string;
+  outcome: "selected" | "contributed" | "degraded" | "failed";
+  /** Failed attempts only: the provider-layer error code. */
+  errorCode?: string;
+  /** Answered attempts only: the candidate's own provider-result commitment. */
+  providerResultHash?: CanonicalHashRef;
+}
+
+/**
+ * A multi-provider lane's selection record: the policy and every attempted
+ * candidate, in candidate order. Operational — it rides the run beside the
+ * invocation proof, never inside it.
+ */
+export interface ProviderSelectionRecord {
+  policy: ProviderSelectionPolicy;
+  attempts: ProviderSelectionAttempt[];
+}
+
+/** Answers a quorum needs when the node declares no `quorum`. */
+export const DEFAULT_PROVIDER_QUORUM = 2;
+
+/** The error code recorded for a candidate that failed outside the provider layer. */
+const INVOCATION_FAILED_CODE = "provider-invocation-failed";
+
+/**
+ * An answer that carries no observations: no sentiment axes, no news items
+ * or headlines, no technical candles. Pattern and aiMl results always carry
+ * their structure, so they never count as degraded.
+ */
+export function isDegradedResult(result: CategoryResult): boolean {
+  switch (result.category) {
+    case "sentiment":
+      return !Array.isArray(result.axes) || result.axes.length === 0;
+    case "news": {
+      const news = result.news as { items?: unknown[]; headlines?: unknown[] } | undefined;
+      return !news?.items?.length && !news?.headlines?.length;
+    }
+    case "technical":
+      return !Array.isArray(result.candles) || result.candles.length === 0;
+    default:
+      return false;
+  }
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round6(n: number): number {
+  return Math.round(n * 1e6) / 1e6;
+}
+
+/**
+ * Combine sentiment answers axis by axis, in first-seen order: the mean
+ * score, the mean of the confidences that were given, and the horizon only
+ * when every observation of the axis agrees on it.
+ */
+export function combineSentimentAxes(results: CategoryResult[]): CategoryResult {
+  const byAxis = new Map<SentimentAxisObservation["axis"], SentimentAxisObservation[]>();
+  for (const result of results) {
+    for (const observation of result.axes as SentimentAxisObservation[]) {
+      const seen = byAxis.get(observation.axis);
+      if (seen) seen.push(observation);
+      else byAxis.set(observation.axis, [observation]);
+    }
+  }
+  const axes = [...byAxis].map(([axis, observations]) => {
+    const combined: SentimentAxisObservation = { axis, score: round6(mean(observations.map((o) => o.score))) };
+    const confidences = observations.flatMap((o) => (o.confidence === undefined ? [] : [o.confidence]));
+    if (confidences.length > 0) combined.confidence = round6(mean(confidences));
+    const horizon = observations[0].horizon;
+    if (horizon !== undefined && observations.every((o) => o.horizon === horizon)) combined.horizon = horizon;
+    return combined;
+  });
+  return { category: "sentiment", axes };
+}
+
+type CandidateOutcome =
+  | { ref: ProviderInstanceRef; ok: true; result: CategoryResult; proof?: ProviderInvocationProofV1 }
+  | { ref: ProviderInstanceRef; ok: false; code: string };
+type Answered = Extract<CandidateOutcome, { ok: true }>;
+
+async function invokeCandidate(
+  runtime: ProviderRuntime,
+  ref: ProviderInstanceRef,
+  ctx: ProviderInvokeContext
+): Promise<CandidateOutcome> {
+  let proof: ProviderInvocationProofV1 | undefined;
+  try {
+    const result = await runtime.invoke(ref, {
+      ...ctx,
+      onInvocationProof: ctx.onInvocationProof ? (captured) => (proof = captured) : undefined,
+    });
+    return { ref, ok: true, result, proof };
+  } catch (err) {
+    // A pipeline-wide abort or the node's own timeout ends the whole lane.
+    if (ctx.abort.aborted) throw err;
+    return { ref, ok: false, code: err instanceof ProviderLayerError ? err.code : INVOCATION_FAILED_CODE };
+  }
+}
+
+function attemptRecord(
+  outcome: CandidateOutcome,
+  kind: ProviderSelectionAttempt["outcome"]
+): ProviderSelectionAttempt {
+  const attempt: ProviderSelectionAttempt = {
+    providerInstanceId: outcome.ref.providerInstanceId,
+    recordVersion: outcome.ref.recordVersion,
+    outcome: kind,
+  };
+  if (outcome.ok) attempt.providerResultHash = providerResultHash(outcome.result);
+  else attempt.errorCode = outcome.code;
+  return attempt;
+}
+
+function exhausted(
+  selection: ProviderSelection,
+  outcomes: CandidateOutcome[],
+  reason: string
+): ProviderSelectionExhaustedError {
+  const failures = outcomes.filter((o): o is Extract<CandidateOutcome, { ok: false }> => !o.ok);
+  const detail = outcomes
+    .map((o) => `${o.ref.providerInstanceId}: ${o.ok ? "degraded" : o.code}`)
+    .join("; ");
+  return new ProviderSelectionExhaustedError(
+    `provider selection '${selection.policy}' ${reason} (${detail})`,
+    failures.length === outcomes.length && failures.every((f) => f.code === "provider-circuit-open")
+  );
+}
+
+/**
+ * Resolve a multi-provider lane into exactly one validated result, depositing
+ * one proof and one selection record through the caller's sinks. Throws
+ * ProviderSelectionExhaustedError when no admissible answer exists.
+ */
+export async function invokeProviderSelection(
+  runtime: ProviderRuntime,
+  primary: ProviderInstanceRef,
+  selection: ProviderSelection,
+  ctx: ProviderInvokeContext
+): Promise<CategoryResult> {
+  const candidates = [primary, ...selection.alternates];
+
+  if (selection.policy === "quorum") {
+    const quorum = selection.quorum ?? DEFAULT_PROVIDER_QUORUM;
+    const outcomes = await Promise.all(candidates.map((ref) => invokeCandidate(runtime, ref, ctx)));
+    const answered = outcomes.filter(
+      (o): o is Answered => o.ok && !isDegradedResult(o.result)
+    );
+    if (answered.length < quorum) {
+      throw exhausted(selection, outcomes, `met no quorum of ${quorum} (${answered.length} answered)`);
+    }
+    const combined = combineSentimentAxes(answered.map((o) => o.result));
+    const contributing = new Set<CandidateOutcome>(answered);
+    if (ctx.onInvocationProof && answered[0].proof) {
+      ctx.onInvocationProof({
+        ...answered[0].proof,
+        providerResultHash: providerResultHash(combined),
+        categoryResultHash: categoryResultHash(combined),
+      });
+    }
+    ctx.onProviderSelection?.({
+      policy: selection.policy,
+      attempts: outcomes.map((o) =>
+        attemptRecord(o, !o.ok ? "failed" : contributing.has(o) ? "contributed" : "degraded")
+      ),
+    });
+    return combined;
+  }
+
+  const outcomes: CandidateOutcome[] = [];
+  let chosen: Answered | undefined;
+  for (const ref of candidates) {
+    const outcome = await invokeCandidate(runtime, ref, ctx);
+    outcomes.push(outcome);
+    if (!outcome.ok) continue;
+    if (selection.policy === "fallback-on-degradation" && isDegradedResult(outcome.result)) continue;
+    chosen = outcome;
+    break;
+  }
+  // Every answer was degraded: the first honest (empty) answer still stands.
+  chosen ??= outcomes.find((o): o is Answered => o.ok);
+  if (!chosen) throw exhausted(selection, outcomes, "found no answering provider instance");
+
+  if (ctx.onInvocationProof && chosen.proof) ctx.onInvocationProof(chosen.proof);
+  ctx.onProviderSelection?.({
+    policy: selection.policy,
+    attempts: outcomes.map((o) => attemptRecord(o, o === chosen ? "selected" : o.ok ? "degraded" : "failed")),
+  });
+  return chosen.result;
+}
@@ -7,9 +7,13 @@
  * canonical output validation), and returns exactly ONE validated category
  * result to the existing scorer-facing join. It performs no credential handling
  * itself; the runtime owns the secret boundary.
+ *
+ * A node that also declares a providerSelection resolves through
+ * invokeProviderSelection (laneSelection.ts) over its ordered candidates.
  */
 import {
   NodeConfigurationError,
+  NodeFastFailError,
   ok,
   type AnalysisNodePlugin,
   type NodeRunContext,
@@ -17,6 +21,11 @@ import {
 } from "../pipeline/nodeSdk.js";
 import type { AnalysisCategory } from "./types.js";
 import type { ProviderRuntime } from "./providerRuntime.js";
+import { ProviderCircuitOpenError, ProviderSelectionExhaustedError } from "./errors.js";
+import { invokeProviderSelection } from "./laneSelection.js";
+
+/** The degradation class a lane records when its provider's circuit is open. */
+export const PROVIDER_CIRCUIT_OPEN_DEGRADATION = "provider-circuit-open";
 
 export function createProviderBackedNode(
   manifestRef: { pluginId: string; pluginVersion: string },
@@ -33,7 +42,13 @@ export function createProviderBackedNode(
           `provider-backed '${category}' node requires a providerInstanceRef on its manifest node`
         );
       }
-      const result = await runtime.invoke(ctx.providerInstanceRef, {
+      const selection = ctx.providerSelection;
+      if (selection?.policy === "quorum" && category !== "sentiment") {
+        throw new NodeConfigurationError(
+          `provider-backed '${category}' node cannot combine providers by quorum (sentiment axes only)`
+        );
+      }
+      const invokeContext = {
         signal: ctx.signal,
         input,
         config: ctx.config,
@@ -43,7 +58,25 @@ export function createProviderBackedNode(
         // the per-lane proof through the executor-wired sink; the node itself
         // never reads or reshapes it (carried, never consumed — D-EV3-2).
         onInvocationProof: ctx.depositInvocationProof,
-      });
+        onProviderSelection: ctx.depositProviderSelection,
+      };
+      let result;
+      try {
+        result = selection
+          ? await invokeProviderSelection(runtime, ctx.providerInstanceRef, selection, invokeContext)
+          : await runtime.invoke(ctx.providerInstanceRef, invokeContext);
+      } catch (err) {
+        // An open circuit (on every candidate, for a selection) fails the
+        // lane fast: no retry, and a distinct degradation class instead of
+        // the generic node failure.
+        if (
+          err instanceof ProviderCircuitOpenError ||
+          (err instanceof ProviderSelectionExhaustedError && err.allCircuitsOpen)
+        ) {
+          throw new NodeFastFailError(PROVIDER_CIRCUIT_OPEN_DEGRADATION, err.message);
+        }
+        throw err;
+      }
       // The runtime already enforced result.category === the resolved instance's
       // category and validated the canonical category contract. Additionally
       // enforce that the resolved category matches THIS node's declared lane, so
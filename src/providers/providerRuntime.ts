@@ -9,26 +9,40 @@
  *   7-8. resolve the exact registered adapter; validate its category
  *   9. resolve ONLY the authorized credential (least-privilege) when required;
  *      a keyless provider NEVER invokes the resolver
- *   10. invoke the adapter with a bounded credential bundle + scrubbing logger,
+ *   10. invoke the adapter with a bounded credential bundle (credentials.ts)
+ *       + scrubbing logger,
  *       validate the returned category result, and return exactly ONE result.
  *
+ * With a circuit breaker bound (circuitBreaker.ts), an instance whose circuit
+ * is open fails fast before step 1; step 10's outcome and latency feed it.
+ *
  * This is NOT a second executor: it is invoked BELOW the node by a provider-
  * backed plugin; the GraphExecutor and the scorer-facing join are unchanged.
  */
 import type { NodeLogger } from "../pipeline/nodeSdk.js";
 import type { CanonicalUss } from "../types/canonicalUss.js";
-import { isAdapterRunEnvelope, type CategoryResult, type ProviderInstanceRef } from "./types.js";
+import {
+  isAdapterRunEnvelope,
+  type CategoryResult,
+  type ProviderCredentialBundle,
+  type ProviderInstanceRef,
+} from "./types.js";
 import type { AdapterRegistry } from "./adapterRegistry.js";
 import type { ProviderRecordStore } from "./records.js";
 import type { SecretResolver } from "./secretResolver.js";
 import type { CategoryOutputValidator } from "./outputValidation.js";
 import { scrubbingLogger } from "./redaction.js";
+import { credentialBundleFor, OAuth2TokenCache } from "./credentials.js";
 import {
+  ProviderLayerError,
   ProviderResolutionError,
   CredentialUnavailableError,
   CredentialScopeError,
   ProviderOutputInvalidError,
+  ProviderCircuitOpenError,
+  type ProviderErrorCode,
 } from "./errors.js";
+import type { ProviderCircuitBreaker, ProviderHealthSnapshot } from "./circuitBreaker.js";
 import {
   RESULT_SCHEMA_BY_CATEGORY,
   toAimlInvocationProof,
@@ -36,6 +50,7 @@ import {
   type ProviderInvocationProofV1,
   type TinyBrainsInvocationBlock,
 } from "./invocationProof.js";
+import type { ProviderSelectionRecord } from "./laneSelection.js";
 import {
   buildInvocationInputProjection,
   categoryResultHash,
@@ -46,6 +61,9 @@ import {
 } from "../evidence/provenance/invocationProofHashes.js";
 import type { CanonicalHashRef } from "../pipeline/hashing.js";
 
+/** The header an apiKeyHeader credential is carried in. */
+const API_KEY_HEADER_NAME = "X-ACCESS-KEY";
+
 export interface ProviderInvokeContext {
   signal: CanonicalUss;
   /** Executor node input (parent outputs / port selection), passed through verbatim. */
@@ -61,6 +79,17 @@ export interface ProviderInvokeContext {
    * never a re-call) and deposits it here after output validation succeeds.
    */
   onInvocationProof?: (proof: ProviderInvocationProofV1) => void;
+  /**
+   * Multi-provider lanes only (laneSelection.ts): receives the lane's
+   * selection record — operational, never part of the invocation proof.
+   */
+  onProviderSelection?: (record: ProviderSelectionRecord) => void;
+}
+
+/** Operational provider-failure event (never hash material). */
+export interface ProviderErrorEvent {
+  code: ProviderErrorCode;
+  providerInstanceId: string;
 }
 
 export interface ProviderRuntimeDeps {
@@ -68,6 +97,12 @@ export interface ProviderRuntimeDeps {
   records: ProviderRecordStore;
   resolver: SecretResolver;
   outputValidator: CategoryOutputValidator;
+  /** Provider-layer failure hook: { code, providerInstanceId } — metrics only. */
+  onProviderError?: (event: ProviderErrorEvent) => void;
+  /** Per-instance circuit breaker (circuitBreaker.ts); absent = never fail fast. */
+  breaker?: ProviderCircuitBreaker;
+  /** OAuth2 client-credentials token cache (defaults to one per runtime). */
+  tokenCache?: OAuth2TokenCache;
 }
 
 export class ProviderRuntime {
@@ -77,8 +112,11 @@ export class ProviderRuntime {
    * (D-EV3-5(2): no per-invocation recompute cost, no drift window).
    */
   private readonly fingerprints = new WeakMap<object, CanonicalHashRef>();
+  private readonly tokenCache: OAuth2TokenCache;
 
-  constructor(private readonly deps: ProviderRuntimeDeps) {}
+  constructor(private readonly deps: ProviderRuntimeDeps) {
+    this.tokenCache = deps.tokenCache ?? new OAuth2TokenCache();
+  }
 
   private fingerprintOf(
     record: object,
@@ -92,8 +130,67 @@ export class ProviderRuntime {
     return cached;
   }
 
-  /** Resolve one provider-backed category node into exactly one validated result. */
+  /**
+   * Resolve one provider-backed category node into exactly one validated
+   * result. With a circuit breaker bound, an open circuit fails fast with
+   * ProviderCircuitOpenError before any resolution or adapter call.
+   */
   async invoke(ref: ProviderInstanceRef, ctx: ProviderInvokeContext): Promise<CategoryResult> {
+    const breaker = this.deps.breaker;
+    let probe = false;
+    try {
+      const admission = breaker?.admit(ref.providerInstanceId);
+      if (admission && !admission.allowed) {
+        throw new ProviderCircuitOpenError(ref.providerInstanceId, admission.retryAfterMs);
+      }
+      probe = admission?.probe ?? false;
+      return await this.resolveAndInvoke(ref, ctx);
+    } catch (err) {
+      if (err instanceof ProviderLayerError) {
+        this.deps.onProviderError?.({ code: err.code, providerInstanceId: ref.providerInstanceId });
+      }
+      throw err;
+    } finally {
+      // A probe that never reached the adapter (or was cut by a pipeline-wide
+      // abort) leaves the circuit half-open for the next caller.
+      if (probe) breaker?.releaseProbe(ref.providerInstanceId);
+    }
+  }
+
+  /** Per-instance health + breaker states (empty when no breaker is bound). */
+  healthSnapshot(): ProviderHealthSnapshot[] {
+    return this.deps.breaker?.snapshot() ?? [];
+  }
+
+  /**
+   * Record one adapter outcome on the breaker. A pipeline-wide abort says
+   * nothing about the provider and is not recorded; the node's own timeout
+   * (the executor aborts with a NodeTimeoutError reason) is a failure. Layer
+   * errors raised around the provider (e.g. a missing playback recording) are
+   * not the provider's behavior — only invalid output is.
+   */
+  private recordOutcome(
+    providerInstanceId: string,
+    startedAt: number,
+    abort: AbortSignal,
+    error?: unknown
+  ): void {
+    const breaker = this.deps.breaker;
+    if (!breaker) return;
+    const latencyMs = Date.now() - startedAt;
+    if (error === undefined) {
+      breaker.recordSuccess(providerInstanceId, latencyMs);
+      return;
+    }
+    if (abort.aborted && (abort.reason as { name?: unknown } | undefined)?.name !== "NodeTimeoutError") return;
+    if (error instanceof ProviderLayerError && error.code !== "provider-output-invalid") return;
+    breaker.recordFailure(providerInstanceId, latencyMs);
+  }
+
+  private async resolveAndInvoke(
+    ref: ProviderInstanceRef,
+    ctx: ProviderInvokeContext
+  ): Promise<CategoryResult> {
     const { adapters, records, resolver, outputValidator } = this.deps;
 
     // 1. resolve the non-secret provider-instance record
@@ -163,7 +260,7 @@ export class ProviderRuntime {
     }
 
     // 9. least-privilege credential resolution
-    let credential = undefined as Awaited<ReturnType<SecretResolver["resolve"]>> | undefined;
+    let credential: ProviderCredentialBundle | undefined;
     let credRecord = undefined as ReturnType<ProviderRecordStore["getCredentialRef"]>;
     const secretsToScrub: string[] = [];
     if (provider.requiresCredential) {
@@ -202,15 +299,27 @@ export class ProviderRuntime {
           `credential kind mismatch for provider instance '${instance.providerInstanceId}'`
         );
       }
-      const headerName = credentialHeaderName(provider.credentialKind);
-      credential = await resolver.resolve({
+      const secret = await resolver.resolve({
         tenant: instance.tenant,
         providerInstanceId: instance.providerInstanceId,
         credentialRef: instance.credentialRef,
         credentialKind: provider.credentialKind,
-        headerName,
+        ...(provider.credentialKind === "apiKeyHeader" ? { headerName: API_KEY_HEADER_NAME } : {}),
+      });
+      if (secret.kind !== provider.credentialKind) {
+        throw new CredentialUnavailableError(
+          `credential unavailable for provider instance '${instance.providerInstanceId}'`
+        );
+      }
+      // Helpers register every value they hold or mint; the scrubbing logger
+      // reads this list at log time, so late-minted tokens are covered too.
+      credential = credentialBundleFor(secret, {
+        tenant: instance.tenant,
+        credentialRef: instance.credentialRef,
+        providerInstanceId: instance.providerInstanceId,
+        tokenCache: this.tokenCache,
+        registerSecret: (value) => secretsToScrub.push(value),
       });
-      secretsToScrub.push(credential.headerValue);
     } else if (instance.credentialRef) {
       // keyless provider MUST NOT carry a credential (unauthorized)
       throw new CredentialScopeError(
@@ -221,33 +330,43 @@ export class ProviderRuntime {
 
     // 10. invoke the adapter with a bounded bundle + scrubbing logger; validate output
     const config = { ...(instance.invocation ?? {}), ...(ctx.config ?? {}) };
-    const runResult = await adapter.run({
-      signal: ctx.signal,
-      input: ctx.input,
-      config,
-      model: instance.model,
-      logger: scrubbingLogger(ctx.logger, secretsToScrub),
-      abort: ctx.abort,
-      credential,
-    });
-
-    // Unwrap the optional adapter envelope (EV3-GOV D-EV3-3): the verified
-    // service-invocation side-channel travels ONLY to the proof capture —
-    // never into the CategoryResult, never to the join.
+    // The adapter call through output validation is the provider's own
+    // behavior — the only span the circuit breaker records.
+    const startedAt = Date.now();
     let serviceInvocation: TinyBrainsInvocationBlock | undefined;
-    let result: unknown = runResult;
-    if (runResult && typeof runResult === "object" && isAdapterRunEnvelope(runResult)) {
-      serviceInvocation = runResult.serviceInvocation;
-      result = runResult.result;
-    }
+    let validated: CategoryResult;
+    try {
+      const runResult = await adapter.run({
+        signal: ctx.signal,
+        input: ctx.input,
+        config,
+        model: instance.model,
+        logger: scrubbingLogger(ctx.logger, secretsToScrub),
+        abort: ctx.abort,
+        credential,
+      });
 
-    if (!result || typeof result !== "object" || (result as CategoryResult).category !== instance.category) {
-      throw new ProviderOutputInvalidError(
-        `adapter for '${instance.providerInstanceId}' returned a result whose category marker is not '${instance.category}'`
-      );
+      // Unwrap the optional adapter envelope (EV3-GOV D-EV3-3): the verified
+      // service-invocation side-channel travels ONLY to the proof capture —
+      // never into the CategoryResult, never to the join.
+      let result: unknown = runResult;
+      if (runResult && typeof runResult === "object" && isAdapterRunEnvelope(runResult)) {
+        serviceInvocation = runResult.serviceInvocation;
+        result = runResult.result;
+      }
+
+      if (!result || typeof result !== "object" || (result as CategoryResult).category !== instance.category) {
+        throw new ProviderOutputInvalidError(
+          `adapter for '${instance.providerInstanceId}' returned a result whose category marker is not '${instance.category}'`
+        );
+      }
+      // canonical category validation BEFORE scoring — malformed output never passes
+      validated = outputValidator.validate(instance.category, result);
+      this.recordOutcome(instance.providerInstanceId, startedAt, ctx.abort);
+    } catch (err) {
+      this.recordOutcome(instance.providerInstanceId, startedAt, ctx.abort, err);
+      throw err;
     }
-    // canonical category validation BEFORE scoring — malformed output never passes
-    const validated = outputValidator.validate(instance.category, result);
 
     // 11. invocation-proof capture (EV3-GOV D-EV3-2/D-EV3-5(2)): describe the
     // invocation that JUST occurred from the resolved identity chain — no
@@ -321,10 +440,3 @@ export class ProviderRuntime {
     return validated;
   }
 }
-
-function credentialHeaderName(kind: "apiKeyHeader"): string {
-  switch (kind) {
-    case "apiKeyHeader":
-      return "X-ACCESS-KEY";
-  }
-}
@@ -0,0 +1,210 @@
+/**
+ * Provider record/replay — deterministic lane playback.
+ *
+ * RECORD wraps each trusted adapter: the live run happens exactly as before,
+ * and its run result (the CategoryResult, or the adapter envelope carrying the
+ * verified service-invocation block) is stored under the invocation's
+ * invocationInputHash — the SAME closed, non-secret, volatile-free projection
+ * the invocation proof commits to (src/evidence/provenance/
+ * invocationProofHashes.ts). PLAYBACK registers a stand-in under each
+ * adapter's identity that serves the recording for that hash and never
+ * touches the network; an unrecorded invocation fails closed.
+ *
+ * Both modes sit BELOW the ProviderRuntime: resolution, credential scoping,
+ * canonical output validation and proof capture run unchanged, so a played
+ * back lane yields byte-identical results and invocation proofs. The key
+ * admits no credential (the projection builder cannot carry one), so a
+ * recording never holds secret material — only what the provider returned.
+ */
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import {
+  buildInvocationInputProjection,
+  invocationInputHash,
+} from "../evidence/provenance/invocationProofHashes.js";
+import type { CanonicalHashRef } from "../pipeline/hashing.js";
+import { createAdapterRegistry, type AdapterRegistry } from "./adapterRegistry.js";
+import { RecordingNotFoundError } from "./errors.js";
+import type {
+  AnalysisCategory,
+  ProviderAdapter,
+  ProviderAdapterContext,
+  ProviderAdapterRunResult,
+} from "./types.js";
+
+export const PROVIDER_RECORDING_SCHEMA = "afi.provider-recording.v0";
+
+/** One recorded adapter invocation. */
+export interface ProviderRecording {
+  schema: typeof PROVIDER_RECORDING_SCHEMA;
+  category: AnalysisCategory;
+  adapterId: string;
+  adapterVersion: string;
+  model?: string;
+  invocationInputHash: CanonicalHashRef;
+  /** What the adapter's run() resolved with (JSON semantics). */
+  result: ProviderAdapterRunResult;
+}
+
+/** Recording persistence port, keyed by invocationInputHash.value. */
+export interface ProviderRecordingStore {
+  get(inputHash: string): Promise<ProviderRecording | undefined>;
+  put(recording: ProviderRecording): Promise<void>;
+}
+
+export type ProviderRecordingMode = "record" | "playback";
+
+/** The invocation key: invocationInputHash over the adapter's own context. */
+export function invocationKeyOf(adapter: ProviderAdapter, ctx: ProviderAdapterContext): CanonicalHashRef {
+  return invocationInputHash(
+    buildInvocationInputProjection({
+      category: adapter.category,
+      adapterId: adapter.adapterId,
+      adapterVersion: adapter.adapterVersion,
+      model: ctx.model,
+      params: ctx.config,
+      signal: ctx.signal,
+      graphInput: ctx.input,
+    })
+  );
+}
+
+/** Copy the adapter identity (everything but run) onto a stand-in. */
+function withIdentity(
+  adapter: ProviderAdapter,
+  run: ProviderAdapter["run"]
+): ProviderAdapter {
+  return {
+    adapterId: adapter.adapterId,
+    adapterVersion: adapter.adapterVersion,
+    transportKind: adapter.transportKind,
+    category: adapter.category,
+    providerCompatibility: adapter.providerCompatibility,
+    requiresCredential: adapter.requiresCredential,
+    run,
+  };
+}
+
+/** RECORD: run live, store the result under the invocation key, return it untouched. */
+export function createRecordingAdapter(
+  adapter: ProviderAdapter,
+  store: ProviderRecordingStore
+): ProviderAdapter {
+  return withIdentity(adapter, async (ctx) => {
+    const result = await adapter.run(ctx);
+    const recording: ProviderRecording = {
+      schema: PROVIDER_RECORDING_SCHEMA,
+      category: adapter.category,
+      adapterId: adapter.adapterId,
+      adapterVersion: adapter.adapterVersion,
+      invocationInputHash: invocationKeyOf(adapter, ctx),
+      result: JSON.parse(JSON.stringify(result)) as ProviderAdapterRunResult,
+    };
+    if (ctx.model !== undefined) recording.model = ctx.model;
+    await store.put(recording);
+    return result;
+  });
+}
+
+/** PLAYBACK: serve the recording for this invocation; never run the live adapter. */
+export function createPlaybackAdapter(
+  adapter: ProviderAdapter,
+  store: ProviderRecordingStore
+): ProviderAdapter {
+  return withIdentity(adapter, async (ctx) => {
+    const key = invocationKeyOf(adapter, ctx);
+    const recording = await store.get(key.value);
+    if (
+      !recording ||
+      recording.adapterId !== adapter.adapterId ||
+      recording.adapterVersion !== adapter.adapterVersion
+    ) {
+      throw new RecordingNotFoundError(
+        `no recording for ${adapter.adapterId}@${adapter.adapterVersion} invocation ${key.value}`
+      );
+    }
+    // Every playback gets its own copy: the join may never mutate a recording.
+    return JSON.parse(JSON.stringify(recording.result)) as ProviderAdapterRunResult;
+  });
+}
+
+/**
+ * The trusted adapter registry with every adapter wrapped for `mode`. Same
+ * identities, same fail-closed duplicate/unknown discipline.
+ */
+export function createRecordedAdapterRegistry(
+  adapters: ReadonlyArray<ProviderAdapter>,
+  mode: ProviderRecordingMode,
+  store: ProviderRecordingStore
+): AdapterRegistry {
+  const wrap = mode === "record" ? createRecordingAdapter : createPlaybackAdapter;
+  return createAdapterRegistry(adapters.map((adapter) => wrap(adapter, store)));
+}
+
+/** In-memory store (tests, single-process capture). */
+export function createMemoryRecordingStore(): ProviderRecordingStore & { size(): number } {
+  const byHash = new Map<string, ProviderRecording>();
+  return {
+    get: async (inputHash) => byHash.get(inputHash),
+    put: async (recording) => {
+      byHash.set(recording.invocationInputHash.value, recording);
+    },
+    size: () => byHash.size,
+  };
+}
+
+/**
+ * Directory store: one `<invocationInputHash>.json` per recording, so a
+ * captured set can be committed as a CI fixture and diffed file by file.
+ * Writes go through a temp file + rename (never a torn recording).
+ */
+export function createFileRecordingStore(dir: string): ProviderRecordingStore {
+  const fileFor = (inputHash: string) => {
+    if (!/^[0-9a-f]{64}$/.test(inputHash)) {
+      throw new Error(`recording key '${inputHash}' is not a sha256 hex digest`);
+    }
+    return path.join(dir, `${inputHash}.json`);
+  };
+  return {
+    async get(inputHash) {
+      try {
+        const parsed = JSON.parse(await fs.readFile(fileFor(inputHash), "utf-8")) as ProviderRecording;
+        return parsed.schema === PROVIDER_RECORDING_SCHEMA ? parsed : undefined;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+        throw error;
+      }
+    },
+    async put(recording) {
+      await fs.mkdir(dir, { recursive: true });
+      const file = fileFor(recording.invocationInputHash.value);
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(recording, null, 2) + "\n", "utf-8");
+      await fs.rename(tmp, file);
+    },
+  };
+}
+
+/**
+ * The recording mode from the environment: AFI_PROVIDER_RECORDING=record|playback
+ * with AFI_PROVIDER_RECORDING_DIR naming the directory store. Unset → live.
+ * Playback REFUSES to run under NODE_ENV=production — recorded data can never
+ * silently serve a live request.
+ */
+export function providerRecordingFromEnv():
+  | { mode: ProviderRecordingMode; store: ProviderRecordingStore }
+  | undefined {
+  const mode = process.env.AFI_PROVIDER_RECORDING?.trim();
+  if (!mode) return undefined;
+  if (mode !== "record" && mode !== "playback") {
+    throw new Error(`AFI_PROVIDER_RECORDING must be "record" or "playback" (got "${mode}")`);
+  }
+  if (mode === "playback" && process.env.NODE_ENV === "production") {
+    throw new Error("AFI_PROVIDER_RECORDING=playback refuses to run under NODE_ENV=production.");
+  }
+  const dir = process.env.AFI_PROVIDER_RECORDING_DIR?.trim();
+  if (!dir) {
+    throw new Error("AFI_PROVIDER_RECORDING requires AFI_PROVIDER_RECORDING_DIR (the recording directory).");
+  }
+  return { mode, store: createFileRecordingStore(dir) };
+}
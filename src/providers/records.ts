@@ -8,7 +8,7 @@
  * values live behind the SecretResolver, never here.
  */
 import type { ValidateFunction } from "ajv";
-import type { AnalysisCategory } from "./types.js";
+import type { AnalysisCategory, CredentialKind } from "./types.js";
 import { compileGovernedValidator } from "./schemaSupport.js";
 
 export interface ProviderRecord {
@@ -21,7 +21,7 @@ export interface ProviderRecord {
   deterministic: boolean;
   adapterId: string;
   requiresCredential: boolean;
-  credentialKind?: "apiKeyHeader";
+  credentialKind?: CredentialKind;
   supportedModels?: string[];
   status: "active" | "inactive";
 }
@@ -32,7 +32,7 @@ export interface CredentialRefRecord {
   recordVersion: string;
   tenant: string;
   providerId: string;
-  credentialKind: "apiKeyHeader";
+  credentialKind: CredentialKind;
   status: "active" | "disabled";
 }
 
@@ -37,17 +37,32 @@ const SECRET_FIELD_NAMES = new Set([
   "headervalue",
   "credential",
   "credentials",
+  // hmacSignature / oauth2ClientCredentials / basicAuth material
+  "apisecret",
+  "secretkey",
+  "signingkey",
+  "clientsecret",
+  "passphrase",
 ]);
 
 /** Query-string / key=value secret patterns (e.g. apikey=..., token=..., access_token=...). */
-const URL_SECRET_PARAM = /\b(api[_-]?key|access[_-]?token|refresh[_-]?token|token|secret|password|key)=([^&\s"'#]+)/gi;
+const URL_SECRET_PARAM =
+  /\b(api[_-]?key|access[_-]?token|refresh[_-]?token|client[_-]?secret|token|secret|password|key)=([^&\s"'#]+)/gi;
+
+/**
+ * Authorization scheme material inside free text (e.g. a logged header line).
+ * The credential must contain a digit, so prose like "Basic information" stays.
+ */
+const AUTH_SCHEME_VALUE = /\b(Bearer|Basic)\s+(?=[A-Za-z._~+/-]*[0-9])[A-Za-z0-9._~+/-]{8,}=*/g;
 
 function normalizeKey(k: string): string {
   return k.toLowerCase().replace(/[-_]/g, "");
 }
 
 function redactString(value: string, secrets: readonly string[]): string {
-  let out = value.replace(URL_SECRET_PARAM, (_m, k) => `${k}=${REDACTED}`);
+  let out = value
+    .replace(URL_SECRET_PARAM, (_m, k) => `${k}=${REDACTED}`)
+    .replace(AUTH_SCHEME_VALUE, (_m, scheme) => `${scheme} ${REDACTED}`);
   for (const sec of secrets) {
     if (sec && sec.length >= 4 && out.includes(sec)) out = out.split(sec).join(REDACTED);
   }
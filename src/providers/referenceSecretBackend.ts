@@ -8,8 +8,9 @@
  * invocation (CredentialUnavailableError → the lane's declared failure policy
  * records the degradation; nothing is fabricated).
  *
- * HONESTLY NON-PRODUCTION: deployment-grade secret backends remain a later
- * staging wave (PBF-GOV posture unchanged).
+ * HONESTLY NON-PRODUCTION: deployments select a real backend with
+ * AFI_SECRET_BACKEND (secretBackends.ts); this map is the fallback when none
+ * is configured.
  */
 import { EnvSecretResolver, type SecretResolver } from "./secretResolver.js";
 
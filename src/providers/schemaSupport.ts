@@ -3,13 +3,14 @@
  *
  * Mirrors the registryLoader house setup exactly (strict draft-07 + x-afi
  * vocabulary + ajv-formats) and reads the byte-pinned vendored governed schemas
- * from src/pipeline/governed-schema/ (the same anchor registryLoader uses).
+ * from src/pipeline/governed-schema/ (the same anchor registryLoader uses), with
+ * their local extensions applied (src/pipeline/schemaExtensions.ts).
  */
-import { readFileSync } from "node:fs";
 import { join } from "node:path";
 import { Ajv } from "ajv";
 import type { ValidateFunction } from "ajv";
 import * as ajvFormatsModule from "ajv-formats";
+import { readGovernedSchema } from "../pipeline/schemaExtensions.js";
 
 const addFormats = (ajvFormatsModule as { default?: unknown }).default ?? ajvFormatsModule;
 
@@ -33,10 +34,7 @@ export function createProviderAjv(): Ajv {
 }
 
 export function loadGovernedSchema(basename: string, dirOverride?: string): Record<string, unknown> {
-  return JSON.parse(readFileSync(join(governedSchemaDir(dirOverride), basename), "utf-8")) as Record<
-    string,
-    unknown
-  >;
+  return readGovernedSchema(governedSchemaDir(dirOverride), basename);
 }
 
 export function compileGovernedValidator(basename: string, dirOverride?: string): ValidateFunction {
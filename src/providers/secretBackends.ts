@@ -0,0 +1,246 @@
+/**
+ * Deployment-grade SecretResolver backends (PBF-GOV D-PBF-7 boundary, unchanged).
+ *
+ * Two backends behind the same narrow resolve-exactly-one contract:
+ *   - FileMountSecretResolver: a mounted secret volume (Kubernetes / Cloud Run)
+ *     laid out as `<root>/<tenant>/<credentialRef>`, one value per file.
+ *   - HttpKvSecretResolver: a HashiCorp-Vault-style KV v2 HTTP API —
+ *     `GET <address>/v1/<mount>/data/<tenant>/<credentialRef>` with the token
+ *     in the `X-Vault-Token` header, the value at `data.data.<field>`.
+ *
+ * An apiKeyHeader secret is the stored value itself; the multi-part kinds
+ * (hmacSignature, oauth2ClientCredentials, basicAuth) are a JSON object of
+ * their fields in the file, or the secret's own data fields in the KV store.
+ *
+ * Both address a secret ONLY by the exact (tenant, credentialRef) pair the
+ * runtime already authorized — the pair is validated as plain path segments,
+ * so no request can traverse to a neighbouring tenant or an arbitrary path.
+ * Resolved values are cached for a bounded TTL; an expired entry is re-read
+ * from the backend, so a rotated secret is picked up without a restart.
+ * Failures are never cached and never served stale.
+ *
+ * Every failure is a NON-REVEALING CredentialUnavailableError naming only the
+ * provider instance — never the value, file path, backend URL, token or HTTP
+ * body.
+ */
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { CredentialUnavailableError } from "./errors.js";
+import {
+  toCredentialSecret,
+  type CredentialSecret,
+  type SecretResolveRequest,
+  type SecretResolver,
+} from "./secretResolver.js";
+
+/** Default cache TTL: short enough that a rotation lands within a minute. */
+export const DEFAULT_SECRET_CACHE_TTL_MS = 60_000;
+
+/** A tenant or credentialRef usable as ONE path segment (no separators, no dot-segments). */
+const SAFE_SEGMENT = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+
+function unavailable(request: SecretResolveRequest): CredentialUnavailableError {
+  return new CredentialUnavailableError(
+    `credential unavailable for provider instance '${request.providerInstanceId}'`
+  );
+}
+
+function assertSafeSegments(request: SecretResolveRequest): void {
+  if (!SAFE_SEGMENT.test(request.tenant) || !SAFE_SEGMENT.test(request.credentialRef)) {
+    throw new CredentialUnavailableError(
+      `credential unavailable for provider instance '${request.providerInstanceId}' (unaddressable reference)`
+    );
+  }
+}
+
+interface CacheOptions {
+  /** How long a resolved value is served before the backend is re-read (0 = never cache). */
+  cacheTtlMs?: number;
+  /** Injectable clock (tests). */
+  now?: () => number;
+}
+
+/** What a backend stores for one (tenant, credentialRef): a value or a field map. */
+type SecretPayload = string | Record<string, unknown>;
+
+/**
+ * Shared TTL cache + fetch path. Concurrent misses for the same pair share
+ * one backend read.
+ */
+abstract class CachingSecretResolver implements SecretResolver {
+  private readonly cache = new Map<string, { payload: SecretPayload; expiresAt: number }>();
+  private readonly inFlight = new Map<string, Promise<SecretPayload>>();
+  private readonly cacheTtlMs: number;
+  private readonly now: () => number;
+
+  protected constructor(options: CacheOptions) {
+    this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_SECRET_CACHE_TTL_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Read the current value from the backend; throw CredentialUnavailableError on any failure. */
+  protected abstract fetchValue(request: SecretResolveRequest): Promise<SecretPayload>;
+
+  async resolve(request: SecretResolveRequest): Promise<CredentialSecret> {
+    assertSafeSegments(request);
+    const cacheKey = `${request.tenant}::${request.credentialRef}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > this.now()) return toCredentialSecret(request, cached.payload);
+    this.cache.delete(cacheKey);
+
+    let pending = this.inFlight.get(cacheKey);
+    if (!pending) {
+      pending = this.fetchValue(request).finally(() => this.inFlight.delete(cacheKey));
+      this.inFlight.set(cacheKey, pending);
+    }
+    const payload = await pending;
+    if (this.cacheTtlMs > 0) this.cache.set(cacheKey, { payload, expiresAt: this.now() + this.cacheTtlMs });
+    return toCredentialSecret(request, payload);
+  }
+}
+
+export interface FileMountSecretResolverOptions extends CacheOptions {
+  /** The mount root; each secret lives at `<root>/<tenant>/<credentialRef>`. */
+  root: string;
+}
+
+/**
+ * Mounted secret volume backend. The file content is the value (a JSON object
+ * for the multi-part kinds); one trailing newline (as written by most secret tooling) is stripped. Rotation: the
+ * orchestrator swaps the mounted file in place and the next read after the
+ * TTL picks it up.
+ */
+export class FileMountSecretResolver extends CachingSecretResolver {
+  private readonly root: string;
+
+  constructor(options: FileMountSecretResolverOptions) {
+    super(options);
+    this.root = options.root;
+  }
+
+  protected async fetchValue(request: SecretResolveRequest): Promise<string> {
+    let raw: string;
+    try {
+      raw = await readFile(join(this.root, request.tenant, request.credentialRef), "utf8");
+    } catch {
+      // Missing, unreadable or a directory — all fail closed the same way.
+      throw unavailable(request);
+    }
+    const value = raw.replace(/\r?\n$/, "");
+    if (!value) throw unavailable(request);
+    return value;
+  }
+}
+
+export interface HttpKvSecretResolverOptions extends CacheOptions {
+  /** Backend base URL, e.g. `https://vault.internal:8200`. */
+  address: string;
+  /** Access token, sent as `X-Vault-Token` (never logged, never in an error). */
+  token: string;
+  /** KV v2 mount (default "secret"). */
+  mount?: string;
+  /** Field inside the secret's data holding an apiKeyHeader value (default "value"). */
+  field?: string;
+  /** Optional `X-Vault-Namespace` header. */
+  namespace?: string;
+  /** Per-request timeout (default 5000ms). */
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Vault-style KV v2 HTTP backend. Any non-2xx status, transport failure,
+ * timeout or malformed body fails closed; the response body is never echoed.
+ */
+export class HttpKvSecretResolver extends CachingSecretResolver {
+  private readonly address: string;
+  private readonly token: string;
+  private readonly mount: string;
+  private readonly field: string;
+  private readonly namespace?: string;
+  private readonly timeoutMs: number;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: HttpKvSecretResolverOptions) {
+    super(options);
+    this.address = options.address.replace(/\/+$/, "");
+    this.token = options.token;
+    this.mount = (options.mount ?? "secret").replace(/^\/+|\/+$/g, "");
+    this.field = options.field ?? "value";
+    this.namespace = options.namespace;
+    this.timeoutMs = options.timeoutMs ?? 5_000;
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  protected async fetchValue(request: SecretResolveRequest): Promise<SecretPayload> {
+    const url = `${this.address}/v1/${this.mount}/data/${request.tenant}/${request.credentialRef}`;
+    const headers: Record<string, string> = { "X-Vault-Token": this.token, Accept: "application/json" };
+    if (this.namespace) headers["X-Vault-Namespace"] = this.namespace;
+
+    let body: unknown;
+    try {
+      const response = await this.fetchImpl(url, {
+        method: "GET",
+        headers,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      if (!response.ok) throw unavailable(request);
+      body = await response.json();
+    } catch {
+      throw unavailable(request);
+    }
+
+    const data = (body as { data?: { data?: Record<string, unknown> } } | null)?.data?.data;
+    if (!data || typeof data !== "object") throw unavailable(request);
+    // The multi-part kinds read their named fields from the whole data map.
+    if (request.credentialKind !== "apiKeyHeader") return data;
+    const value = data[this.field];
+    if (typeof value !== "string" || !value) throw unavailable(request);
+    return value;
+  }
+}
+
+/**
+ * The deployment secret backend from the environment, or undefined when none
+ * is selected (the caller keeps its reference backend):
+ *   - AFI_SECRET_BACKEND=file  with AFI_SECRET_FILE_ROOT
+ *   - AFI_SECRET_BACKEND=vault with AFI_VAULT_ADDR and AFI_VAULT_TOKEN
+ *     (optional AFI_VAULT_MOUNT, AFI_VAULT_FIELD, AFI_VAULT_NAMESPACE)
+ *   - AFI_SECRET_CACHE_TTL_MS overrides the cache TTL for either.
+ * Malformed or incomplete configuration throws at boot.
+ */
+export function secretResolverFromEnv(env: NodeJS.ProcessEnv = process.env): SecretResolver | undefined {
+  const backend = env.AFI_SECRET_BACKEND?.trim();
+  if (!backend) return undefined;
+
+  let cacheTtlMs: number | undefined;
+  const rawTtl = env.AFI_SECRET_CACHE_TTL_MS?.trim();
+  if (rawTtl) {
+    cacheTtlMs = Number(rawTtl);
+    if (!Number.isInteger(cacheTtlMs) || cacheTtlMs < 0 || cacheTtlMs > 86_400_000) {
+      throw new Error(`AFI_SECRET_CACHE_TTL_MS must be an integer in [0, 86400000] (got "${rawTtl}")`);
+    }
+  }
+
+  if (backend === "file") {
+    const root = env.AFI_SECRET_FILE_ROOT?.trim();
+    if (!root) throw new Error("AFI_SECRET_BACKEND=file requires AFI_SECRET_FILE_ROOT (the secret mount root).");
+    return new FileMountSecretResolver({ root, cacheTtlMs });
+  }
+  if (backend === "vault") {
+    const address = env.AFI_VAULT_ADDR?.trim();
+    const token = env.AFI_VAULT_TOKEN?.trim();
+    if (!address || !token) {
+      throw new Error("AFI_SECRET_BACKEND=vault requires AFI_VAULT_ADDR and AFI_VAULT_TOKEN.");
+    }
+    return new HttpKvSecretResolver({
+      address,
+      token,
+      mount: env.AFI_VAULT_MOUNT?.trim() || undefined,
+      field: env.AFI_VAULT_FIELD?.trim() || undefined,
+      namespace: env.AFI_VAULT_NAMESPACE?.trim() || undefined,
+      cacheTtlMs,
+    });
+  }
+  throw new Error(`AFI_SECRET_BACKEND must be "file" or "vault" (got "${backend}")`);
+}
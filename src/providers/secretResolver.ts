@@ -8,15 +8,15 @@
  * adapter never receives the resolver; the Reactor resolves the exact bundle
  * and hands the adapter only that.
  *
- * This mission provisions NO GCP Secret Manager. Two minimal backends prove the
- * architecture safely:
+ * Two minimal backends live here:
  *   - InMemorySecretResolver: the test/reference backend (tenant-scoped map).
  *   - EnvSecretResolver: a bounded, EXPLICITLY NON-PRODUCTION dev backend that
  *     can read ONLY the one env var pre-authorized for a given (tenant,
- *     credentialRef) — never arbitrary env. A real GCP backend belongs to the
- *     later staging/deployment wave.
+ *     credentialRef) — never arbitrary env.
+ * The deployment backends (mounted secret files, Vault-style HTTP KV) live in
+ * secretBackends.ts behind the same interface.
  */
-import type { ProviderCredentialBundle } from "./types.js";
+import type { ApiKeyHeaderCredential, CredentialKind } from "./types.js";
 import { CredentialUnavailableError } from "./errors.js";
 
 /** The exact, already-authorized credential to resolve. Nothing broader is expressible. */
@@ -24,23 +24,87 @@ export interface SecretResolveRequest {
   tenant: string;
   providerInstanceId: string;
   credentialRef: string;
-  credentialKind: "apiKeyHeader";
-  /** The header name the provider requires (non-secret). */
-  headerName: string;
+  credentialKind: CredentialKind;
+  /** The header name the provider requires (non-secret; apiKeyHeader only). */
+  headerName?: string;
 }
 
+/**
+ * The resolved secret material for one credential kind. It travels ONLY from
+ * the resolver to the runtime, which hands the adapter the matching bundle —
+ * for every kind but apiKeyHeader a signing/authorizing helper over it
+ * (credentials.ts), never these fields.
+ */
+export type CredentialSecret =
+  | ApiKeyHeaderCredential
+  | { kind: "hmacSignature"; key: string; secret: string }
+  | { kind: "oauth2ClientCredentials"; clientId: string; clientSecret: string }
+  | { kind: "basicAuth"; username: string; password: string };
+
 /**
  * Resolves ONLY the exact authorized credential for the active provider
  * instance. There is deliberately no list/enumerate/write/delete/rotate.
  */
 export interface SecretResolver {
-  resolve(request: SecretResolveRequest): Promise<ProviderCredentialBundle>;
+  resolve(request: SecretResolveRequest): Promise<CredentialSecret>;
 }
 
 function key(tenant: string, credentialRef: string): string {
   return `${tenant}::${credentialRef}`;
 }
 
+/** The stored fields each multi-part credential kind requires. */
+const SECRET_FIELDS = {
+  hmacSignature: ["key", "secret"],
+  oauth2ClientCredentials: ["clientId", "clientSecret"],
+  basicAuth: ["username", "password"],
+} as const;
+
+/**
+ * Shape a backend's stored payload into the requested kind's secret material.
+ * An apiKeyHeader secret is the plain string; the multi-part kinds are an
+ * object (or its JSON text) carrying every required field as a non-empty
+ * string. Anything else fails closed, naming only the provider instance.
+ */
+export function toCredentialSecret(
+  request: SecretResolveRequest,
+  payload: string | Record<string, unknown>
+): CredentialSecret {
+  const unavailable = () =>
+    new CredentialUnavailableError(`credential unavailable for provider instance '${request.providerInstanceId}'`);
+
+  if (request.credentialKind === "apiKeyHeader") {
+    if (typeof payload !== "string" || !payload || !request.headerName) throw unavailable();
+    return { kind: "apiKeyHeader", headerName: request.headerName, headerValue: payload };
+  }
+
+  let fields: unknown = payload;
+  if (typeof payload === "string") {
+    try {
+      fields = JSON.parse(payload);
+    } catch {
+      // Never echo the parse error: it quotes the payload.
+      throw unavailable();
+    }
+  }
+  if (!fields || typeof fields !== "object" || Array.isArray(fields)) throw unavailable();
+  const record = fields as Record<string, unknown>;
+  const values: string[] = [];
+  for (const field of SECRET_FIELDS[request.credentialKind]) {
+    const value = record[field];
+    if (typeof value !== "string" || !value) throw unavailable();
+    values.push(value);
+  }
+  switch (request.credentialKind) {
+    case "hmacSignature":
+      return { kind: "hmacSignature", key: values[0], secret: values[1] };
+    case "oauth2ClientCredentials":
+      return { kind: "oauth2ClientCredentials", clientId: values[0], clientSecret: values[1] };
+    case "basicAuth":
+      return { kind: "basicAuth", username: values[0], password: values[1] };
+  }
+}
+
 /**
  * In-memory resolver keyed by (tenant, credentialRef). A request for tenant A's
  * instance can only ever resolve a secret stored under tenant A — cross-tenant
@@ -48,13 +112,15 @@ function key(tenant: string, credentialRef: string): string {
  * own instance's ref). Unknown refs fail closed with a non-revealing error.
  */
 export class InMemorySecretResolver implements SecretResolver {
-  private readonly store = new Map<string, string>();
+  private readonly store = new Map<string, string | Record<string, string>>();
 
-  constructor(entries: ReadonlyArray<{ tenant: string; credentialRef: string; value: string }> = []) {
+  constructor(
+    entries: ReadonlyArray<{ tenant: string; credentialRef: string; value: string | Record<string, string> }> = []
+  ) {
     for (const e of entries) this.store.set(key(e.tenant, e.credentialRef), e.value);
   }
 
-  async resolve(request: SecretResolveRequest): Promise<ProviderCredentialBundle> {
+  async resolve(request: SecretResolveRequest): Promise<CredentialSecret> {
     const value = this.store.get(key(request.tenant, request.credentialRef));
     if (value === undefined) {
       // NON-REVEALING: names the provider instance, never the value/path/tenant secret.
@@ -62,15 +128,15 @@ export class InMemorySecretResolver implements SecretResolver {
         `credential unavailable for provider instance '${request.providerInstanceId}'`
       );
     }
-    return { kind: "apiKeyHeader", headerName: request.headerName, headerValue: value };
+    return toCredentialSecret(request, value);
   }
 }
 
 /**
  * EXPLICITLY NON-PRODUCTION dev backend. It resolves a (tenant, credentialRef)
  * ONLY via a pre-authorized allow-map to a single env var name — it can never
- * read an arbitrary env var and never lists anything. A real secret manager
- * (GCP Secret Manager) is deferred to the staging/deployment wave.
+ * read an arbitrary env var and never lists anything. A multi-part kind's env
+ * var holds the JSON object of its fields.
  */
 export class EnvSecretResolver implements SecretResolver {
   /** (tenant, credentialRef) -> the ONE authorized env var name. */
@@ -83,7 +149,7 @@ export class EnvSecretResolver implements SecretResolver {
     for (const a of authorized) this.allow.set(key(a.tenant, a.credentialRef), a.envVar);
   }
 
-  async resolve(request: SecretResolveRequest): Promise<ProviderCredentialBundle> {
+  async resolve(request: SecretResolveRequest): Promise<CredentialSecret> {
     const envVar = this.allow.get(key(request.tenant, request.credentialRef));
     if (envVar === undefined) {
       throw new CredentialUnavailableError(
@@ -96,13 +162,13 @@ export class EnvSecretResolver implements SecretResolver {
         `credential unavailable for provider instance '${request.providerInstanceId}'`
       );
     }
-    return { kind: "apiKeyHeader", headerName: request.headerName, headerValue: value };
+    return toCredentialSecret(request, value);
   }
 }
 
 /** A resolver that always fails closed — the safe default when none is configured. */
 export class NoCredentialsResolver implements SecretResolver {
-  async resolve(request: SecretResolveRequest): Promise<ProviderCredentialBundle> {
+  async resolve(request: SecretResolveRequest): Promise<CredentialSecret> {
     throw new CredentialUnavailableError(
       `no secret resolver configured for provider instance '${request.providerInstanceId}'`
     );
@@ -26,7 +26,10 @@ export type AnalysisCategory = Extract<
   "technical" | "pattern" | "sentiment" | "news" | "aiMl"
 >;
 
-/** The only credential kind v0.1 supports: an API key carried in a request header. */
+/** The credential classes a provider may require (names the KIND — never a value). */
+export type CredentialKind = "apiKeyHeader" | "hmacSignature" | "oauth2ClientCredentials" | "basicAuth";
+
+/** An API key carried in a request header. */
 export interface ApiKeyHeaderCredential {
   kind: "apiKeyHeader";
   /** The header the adapter must set (e.g. "X-ACCESS-KEY"). Non-secret. */
@@ -35,12 +38,75 @@ export interface ApiKeyHeaderCredential {
   headerValue: string;
 }
 
+/** The parts of one outbound request an HMAC credential signs. */
+export interface SignableRequest {
+  method: string;
+  /** Request path including any query string, e.g. "/v1/orders?limit=5". */
+  path: string;
+  /** The exact serialized body sent (omit for bodiless requests). */
+  body?: string;
+}
+
+/**
+ * Provider-specific signing conventions (header names, digest, encoding).
+ * Every field defaults to DEFAULT_HMAC_SIGNING_SCHEME (credentials.ts).
+ */
+export interface HmacSigningScheme {
+  keyHeader?: string;
+  timestampHeader?: string;
+  signatureHeader?: string;
+  algorithm?: "sha256" | "sha512";
+  encoding?: "hex" | "base64";
+  timestampUnit?: "ms" | "s";
+}
+
+/**
+ * Key + secret HMAC request signing. The adapter receives only the signer:
+ * the secret never leaves the helper; `sign` returns the headers to send
+ * (key id, timestamp, signature over timestamp + METHOD + path + body).
+ */
+export interface HmacSignatureCredential {
+  kind: "hmacSignature";
+  sign(request: SignableRequest, scheme?: HmacSigningScheme): Record<string, string>;
+}
+
+/** Where and how to obtain an OAuth2 client-credentials access token. */
+export interface OAuth2TokenRequest {
+  /** The provider's FIXED token endpoint (adapter policy — never from a record). */
+  tokenUrl: string;
+  scope?: string;
+  /** Discard the cached token first (e.g. after the provider answered 401). */
+  forceRefresh?: boolean;
+  abort?: AbortSignal;
+}
+
+/**
+ * OAuth2 client-credentials bearer auth. `authorize` returns the
+ * `Authorization: Bearer …` header, fetching the token on first use and
+ * refreshing it before expiry; the client secret never leaves the helper.
+ */
+export interface OAuth2ClientCredentialsCredential {
+  kind: "oauth2ClientCredentials";
+  authorize(request: OAuth2TokenRequest): Promise<Record<string, string>>;
+}
+
+/** HTTP basic auth; `authorize` returns the `Authorization: Basic …` header. */
+export interface BasicAuthCredential {
+  kind: "basicAuth";
+  authorize(): Record<string, string>;
+}
+
 /**
  * A bounded, provider-specific credential bundle. The Reactor resolves the
  * exact authorized credential and hands the adapter ONLY this — never a
  * resolver, never a secret-management client (PBF-GOV D-PBF-7 "Preferred").
+ * Every kind but apiKeyHeader is a helper, not raw secret material.
  */
-export type ProviderCredentialBundle = ApiKeyHeaderCredential;
+export type ProviderCredentialBundle =
+  | ApiKeyHeaderCredential
+  | HmacSignatureCredential
+  | OAuth2ClientCredentialsCredential
+  | BasicAuthCredential;
 
 /** One resolved category result — the ONE value a provider contributes to the join. */
 export interface CategoryResult {
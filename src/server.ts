@@ -5,12 +5,37 @@
  *
  * Endpoints:
  *   - GET /health
+ *   - GET /metrics
  *   - POST /api/webhooks/tradingview
+ *   - POST /api/webhooks/tradingview/markittick
  *   - POST /api/ingest/cpj
+ *   - POST /api/score/batch
+ *   - GET /api/jobs/:jobId
+ *   - GET /api/analytics/outcomes
+ *   - GET /api/signals/:signalId
+ *   - GET /api/signals
+ *   - POST /api/evidence/verify
+ *   - POST /api/admin/registries/reload
  *
  * Returns ReactorScoredSignalV1:
  *   - signalId, analystScore, scoredAt, decayParams, lenses, rawUss
  *
+ * Async ingestion: the three ingress routes accept `?async=1` (or `Prefer:
+ * respond-async`) — validation and strategy resolution stay synchronous, the
+ * graph run + evidence submit is queued (services/ingestJobQueue.ts) and the
+ * route answers 202 with a job id to poll on GET /api/jobs/:jobId (read
+ * token required); an optional `?callbackUrl=` (https, on the
+ * AFI_INGEST_CALLBACK_ALLOWED_HOSTS allowlist) receives the finished job.
+ *
+ * Batch scoring: POST /api/score/batch scores an array of USS v1.1 / CPJ v0.1
+ * payloads (services/batchScoringService.ts) with bounded parallelism and one
+ * candle fetch per shared window, answering per-item results in order.
+ *
+ * Registry hot-reload: POST /api/admin/registries/reload (bearer
+ * AFI_ADMIN_TOKEN) re-validates the governed registries into a fresh runtime
+ * composition and swaps it in only when validation passes; each request
+ * scores on the composition it started with.
+ *
  * NOT Reactor's responsibility:
  *   - Validator certification (moved to external certification layer)
  *   - Execution (moved to consumer/adapter layer)
@@ -22,6 +47,32 @@
  * - WEBHOOK_SHARED_SECRET: Optional shared secret for webhook authentication
  * - COINALYZE_API_KEY: Optional API key for Coinalyze perp sentiment data
  * - AFI_PRICE_FEED_SOURCE: Price feed source (blofin, coinbase)
+ * - AFI_CANDLE_CACHE: "off" disables the candle cache in front of the price feed
+ * - AFI_CANDLE_CACHE_DIR: Optional directory persisting cached candles across restarts
+ * - AFI_NODE_RESULT_CACHE: "off" disables memoization of deterministic pipeline nodes
+ * - AFI_NODE_RESULT_CACHE_MAX_ENTRIES / AFI_NODE_RESULT_CACHE_DIR: Result cache size (default: 1024) and optional persistent directory
+ * - AFI_PROVIDER_RECORDING: "record" | "playback" provider invocations (with AFI_PROVIDER_RECORDING_DIR)
+ * - AFI_PROVIDER_BREAKER: "off" disables the per-provider circuit breaker
+ *   (thresholds: AFI_PROVIDER_BREAKER_FAILURES, _ERROR_RATE, _MIN_SAMPLES, _WINDOW, _OPEN_MS)
+ * - AFI_SECRET_BACKEND: "file" (AFI_SECRET_FILE_ROOT) | "vault" (AFI_VAULT_ADDR, AFI_VAULT_TOKEN,
+ *   optional AFI_VAULT_MOUNT, AFI_VAULT_FIELD, AFI_VAULT_NAMESPACE); unset = reference env backend
+ * - AFI_SECRET_CACHE_TTL_MS: Resolved-secret cache TTL (default: 60000)
+ * - AFI_OUTCOME_TRACKER: "1" runs outcome capture in-process (needs AFI_EVIDENCE_MONGODB_URI)
+ * - AFI_OUTCOME_TRACKER_INTERVAL_MINUTES: Outcome capture interval (default: 15)
+ * - AFI_OUTCOME_PRICE_SOURCE: Price source for outcome candles (default: AFI_PRICE_FEED_SOURCE)
+ * - AFI_INGEST_QUEUE_CONCURRENCY / AFI_INGEST_QUEUE_MAX_PENDING: Async ingest job queue bounds (default: 2 / 100)
+ * - AFI_INGEST_JOB_RETENTION_MINUTES / AFI_INGEST_JOB_MAX_RETAINED: Finished-job polling window (default: 60 / 1000)
+ * - AFI_INGEST_CALLBACK_ALLOWED_HOSTS: Comma-separated callback host allowlist (unset: callbacks refused)
+ * - AFI_INGEST_CALLBACK_TIMEOUT_MS / AFI_INGEST_QUEUE_DRAIN_MS: Callback and shutdown-drain bounds (default: 5000 / 8000)
+ * - AFI_SCORE_BATCH_MAX_ITEMS / AFI_SCORE_BATCH_CONCURRENCY: Batch scoring bounds (default: 500 / 4);
+ *   MAX_ITEMS also sizes the batch route's JSON body limit (16 KB per item, read at boot)
+ * - AFI_SCORE_DEADLINE_MS: Pipeline time budget per scoring run on the ingress and batch routes
+ *   (unset: the registered manifest's deadlineMs, if any)
+ * - AFI_ADMIN_TOKEN: Bearer token for the admin routes (unset: admin routes refuse every request)
+ * - AFI_READ_API_TOKEN: Bearer token for GET /api/jobs/:jobId, the /api/signals read API and GET /api/analytics/outcomes
+ *   (the admin token is also accepted; neither set: reads refuse every request)
+ * - AFI_REGISTRY_WATCH: "1" reloads the registries when files under the registry root change
+ *   (AFI_REGISTRY_WATCH_DEBOUNCE_MS, default: 1000)
  *
  * @module server
  */
@@ -30,6 +81,7 @@
 import dotenv from "dotenv";
 dotenv.config();
 
+import { createHash, timingSafeEqual } from "node:crypto";
 import express, { Request, Response } from "express";
 import { validateUsignalV11 } from "./uss/ussValidator.js";
 import {
@@ -48,6 +100,11 @@ import { mapCpjToUssV11 } from "./uss/cpjMapper.js";
 import {
   getRuntimeComposition,
   initRuntimeComposition,
+  peekRuntimeComposition,
+  preloadPluginBundles,
+  registryWatchConfigFromEnv,
+  reloadRuntimeComposition,
+  watchRuntimeRegistries,
 } from "./config/runtimeComposition.js";
 // Boot warm-up only (perf/platform-floor-v0.1) — see the warm-up block below.
 import { getPriceFeedAdapter } from "./adapters/exchanges/priceFeedRegistry.js";
@@ -57,21 +114,64 @@ import {
   resolveWebhookProviderId,
   StrategyResolutionError,
 } from "./config/strategyResolution.js";
-import { scoreRegisteredStrategyFromCanonicalUss } from "./services/graphScoringService.js";
+import { RuntimeConfigValidationError } from "./pipeline/registryLoader.js";
+import { PluginBundleError } from "./pipeline/pluginBundles.js";
+import { scoreDeadlineFromEnv, scoreRegisteredStrategyFromCanonicalUss } from "./services/graphScoringService.js";
 import type { Server as HttpServer } from "http";
 import {
   initDedupeCache,
   checkDuplicate,
   recordIngest,
+  forgetIngest,
   shutdownDedupeCache,
 } from "./services/ingestDedupeService.js";
+import {
+  getIngestJobQueue,
+  IngestModeError,
+  IngestQueueFullError,
+  parseIngestMode,
+  shutdownIngestJobQueue,
+  type IngestJobOutcome,
+  type IngestMode,
+} from "./services/ingestJobQueue.js";
+import {
+  parseScoreBatchRequest,
+  prepareBatchItem,
+  runScoreBatch,
+  scoreBatchBodyLimit,
+  scoreBatchConfigFromEnv,
+  ScoreBatchItemError,
+  ScoreBatchRequestError,
+} from "./services/batchScoringService.js";
 import {
   getEvidenceStore,
   submitScoredSignalEvidence,
   ReactorEvidencePersistenceError,
   closeEvidenceStore,
+  verifyEvidenceRecord,
 } from "./evidence/index.js";
 import { captureScoringContext } from "./analytics/scoringContextStore.js";
+import {
+  getOutcomeTracker,
+  startOutcomeTrackerFromEnv,
+  stopOutcomeTracker,
+} from "./analytics/outcomeTracker.js";
+import {
+  getSignalView,
+  listSignalViews,
+  parseSignalQuery,
+  resolveSignalQueryPort,
+  SignalQueryError,
+  type SignalQueryPort,
+} from "./analytics/signalQuery.js";
+import {
+  countEvidencePersistence,
+  countIngestJob,
+  countStrategyRejection,
+  METRICS_CONTENT_TYPE,
+  observeHttpRequest,
+  renderMetrics,
+} from "./services/metricsService.js";
 import { startTelegramCollector } from "./collectors/telegram/telegramCollector.js";
 import { createMtprotoClientFromEnv } from "./collectors/telegram_mtproto/mtprotoClient.js";
 import { startMtprotoCollector } from "./collectors/telegram_mtproto/mtprotoCollector.js";
@@ -79,42 +179,136 @@ import { startMtprotoCollector } from "./collectors/telegram_mtproto/mtprotoColl
 const app = express();
 
 /**
- * Honest failure response. A canonical-persistence failure NEVER returns a
+ * Honest failure outcome. A canonical-persistence failure NEVER returns a
  * success: it maps to its first-class HTTP status (409 conflict / 503 store
  * unavailable / 500 internal) and reports `persisted: false`. Logs carry only
- * the signalId + category/code — never the full record or payload.
+ * the signalId + category/code — never the full record or payload. The same
+ * mapping answers a synchronous request and records an async job's result.
  */
-function respondWithFailure(res: Response, err: unknown, context: string): Response {
+function failureOutcome(err: unknown, context: string): IngestJobOutcome {
   if (err instanceof StrategyResolutionError) {
     // Honest resolution rejection (W3 spec section 4): no binding / inactive
     // binding / unauthorized strategy → 403 with the typed discriminator.
+    countStrategyRejection(err.code);
     console.warn(`⚠️ ${context}: strategy resolution refused`, {
       code: err.code,
       providerId: err.providerId,
       requestedStrategy: err.requestedStrategy,
     });
-    return res.status(err.httpStatus).json({
-      error: err.code,
-      message: err.message,
-    });
+    return { httpStatus: err.httpStatus, body: { error: err.code, message: err.message } };
   }
   if (err instanceof ReactorEvidencePersistenceError) {
+    countEvidencePersistence(err.category);
     console.error(`❌ ${context}: canonical persistence failed`, {
       signalId: err.signalId,
       category: err.category,
       code: (err.cause as { code?: string } | undefined)?.code,
     });
-    return res.status(err.httpStatus).json({
-      error: `evidence_persistence_${err.category}`,
-      message: err.message,
-      signalId: err.signalId,
-      persisted: false,
-    });
+    return {
+      httpStatus: err.httpStatus,
+      body: {
+        error: `evidence_persistence_${err.category}`,
+        message: err.message,
+        signalId: err.signalId,
+        persisted: false,
+      },
+    };
+  }
+  if (err instanceof IngestModeError || err instanceof ScoreBatchRequestError) {
+    return { httpStatus: err.httpStatus, body: { error: err.code, message: err.message } };
+  }
+  if (err instanceof ScoreBatchItemError) {
+    return {
+      httpStatus: err.httpStatus,
+      body: {
+        error: err.code,
+        message: err.message,
+        ...(err.details !== undefined ? { details: err.details } : {}),
+      },
+    };
+  }
+  if (err instanceof IngestQueueFullError) {
+    console.warn(`⚠️ ${context}: ${err.message}`);
+    return { httpStatus: err.httpStatus, body: { error: "ingest_queue_full", message: err.message } };
   }
   console.error(`❌ ${context}:`, (err as Error)?.message ?? String(err));
-  return res.status(500).json({
-    error: "internal_error",
-    message: (err as Error)?.message || "Unknown error",
+  return {
+    httpStatus: 500,
+    body: { error: "internal_error", message: (err as Error)?.message || "Unknown error" },
+  };
+}
+
+function respondWithFailure(res: Response, err: unknown, context: string): Response {
+  if (err instanceof IngestQueueFullError) res.setHeader("Retry-After", String(err.retryAfterSeconds));
+  const outcome = failureOutcome(err, context);
+  return res.status(outcome.httpStatus).json(outcome.body);
+}
+
+/**
+ * Read the request's ingest mode (async + optional callback) — after auth,
+ * before any side effect, so a malformed callbackUrl is refused up front.
+ */
+function ingestModeOf(req: Request): IngestMode {
+  return parseIngestMode(
+    req.query as Record<string, unknown>,
+    req.get("prefer"),
+    getIngestJobQueue().config.callbackAllowedHosts
+  );
+}
+
+/**
+ * Finish an ingress request whose payload is validated and whose strategy is
+ * resolved. Sync mode runs the scoring work inline and answers with its
+ * response (a thrown failure reaches the route's respondWithFailure). Async
+ * mode queues the work and answers 202 with the job id — the job records the
+ * very response (or failure mapping) the synchronous route would have sent.
+ * `accepted` runs once the work is taken on — before the inline run, or after
+ * the queue admits the job — so a queue-full 503 leaves no trace (e.g. no
+ * dedupe record that would turn the client's retry into a 409).
+ */
+async function completeIngest(
+  res: Response,
+  mode: IngestMode,
+  ingest: {
+    route: string;
+    signalId?: string;
+    context: string;
+    accepted?: () => void;
+    run: () => Promise<IngestJobOutcome>;
+  }
+): Promise<Response> {
+  if (!mode.async) {
+    ingest.accepted?.();
+    const outcome = await ingest.run();
+    return res.status(outcome.httpStatus).json(outcome.body);
+  }
+
+  let job;
+  try {
+    job = getIngestJobQueue().submit({
+      route: ingest.route,
+      signalId: ingest.signalId,
+      callbackUrl: mode.callbackUrl,
+      run: async () => {
+        const outcome = await ingest.run().catch((err) => failureOutcome(err, ingest.context));
+        countIngestJob(ingest.route, outcome.httpStatus < 400 ? "succeeded" : "failed");
+        return outcome;
+      },
+    });
+  } catch (err) {
+    if (err instanceof IngestQueueFullError) countIngestJob(ingest.route, "rejected-full");
+    throw err;
+  }
+  ingest.accepted?.();
+  countIngestJob(ingest.route, "accepted");
+
+  const statusUrl = `/api/jobs/${job.jobId}`;
+  console.log(`📥 Ingest job accepted:`, { jobId: job.jobId, route: ingest.route, signalId: ingest.signalId });
+  return res.status(202).location(statusUrl).json({
+    jobId: job.jobId,
+    status: job.status,
+    statusUrl,
+    ...(ingest.signalId !== undefined ? { signalId: ingest.signalId } : {}),
   });
 }
 
@@ -122,6 +316,11 @@ function respondWithFailure(res: Response, err: unknown, context: string): Respo
 initDedupeCache();
 
 // Middleware
+// The batch route parses with a body limit sized from AFI_SCORE_BATCH_MAX_ITEMS
+// and MUST be mounted before the global parser: body-parser skips a request
+// whose body stream was already read, so the global 100 KB default (which
+// would 413 a full batch) never sees it.
+app.use("/api/score/batch", express.json({ limit: scoreBatchBodyLimit(scoreBatchConfigFromEnv()) }));
 app.use(express.json());
 
 // Request logging
@@ -130,6 +329,17 @@ app.use((req: Request, res: Response, next) => {
   next();
 });
 
+// Route latency metrics — labelled by the matched route pattern (never the
+// raw URL, so signal ids and query strings cannot explode the label space).
+app.use((req: Request, res: Response, next) => {
+  const startedAt = Date.now();
+  res.on("finish", () => {
+    const route = req.route?.path ? `${req.baseUrl}${String(req.route.path)}` : "unmatched";
+    observeHttpRequest(req.method, route, res.statusCode, Date.now() - startedAt);
+  });
+  next();
+});
+
 // Test endpoints removed - Reactor is scoring-only
 
 /**
@@ -141,17 +351,40 @@ app.use((req: Request, res: Response, next) => {
  * {
  *   "status": "ok",
  *   "service": "afi-reactor",
- *   "composition": "available"
+ *   "composition": "available",
+ *   "compositionHash": "<sha256 of the serving registry composition>",
+ *   "providers": [ { providerInstanceId, state, consecutiveFailures, errorRate, ... } ]
  * }
+ *
+ * `providers` lists the per-instance circuit breaker states observed so far
+ * (empty before the first invocation or with AFI_PROVIDER_BREAKER=off). An
+ * open circuit degrades its lane; it never fails the liveness check.
  */
 app.get("/health", (req: Request, res: Response) => {
   res.status(200).json({
     status: "ok",
     service: "afi-reactor",
     composition: "available",
+    compositionHash: peekRuntimeComposition()?.compositionHash,
+    providers: peekRuntimeComposition()?.providerRuntime.healthSnapshot() ?? [],
   });
 });
 
+/**
+ * Prometheus metrics endpoint.
+ *
+ * GET /metrics
+ *
+ * Text exposition format 0.0.4: route and lane latency histograms, node
+ * status / retry counters, provider errors by ProviderErrorCode, strategy
+ * resolution rejections and evidence persistence outcomes. Operational only —
+ * nothing exposed here is hash material.
+ */
+app.get("/metrics", (req: Request, res: Response) => {
+  res.setHeader("Content-Type", METRICS_CONTENT_TYPE);
+  res.status(200).send(renderMetrics());
+});
+
 /**
  * Debug endpoint to check environment variables (GATED: OFF by default).
  *
@@ -263,6 +496,8 @@ app.post("/api/webhooks/tradingview", async (req: Request, res: Response) => {
       return res.status(401).json({ error: "Unauthorized: invalid secret" });
     }
 
+    const mode = ingestModeOf(req);
+
     console.log(`📨 TradingView webhook received:`, {
       symbol: rawPayload.symbol,
       timeframe: rawPayload.timeframe,
@@ -274,14 +509,17 @@ app.post("/api/webhooks/tradingview", async (req: Request, res: Response) => {
     // facts.strategy is the RESOLVED registered strategyId. Resolution runs
     // against the boot-validated provider-binding registry; every rejection
     // is an honest 403 (no silent froggy fallback).
+    // One composition per request: a registry reload mid-request never
+    // mixes the resolution of one composition with the executor of another.
     const providerId = resolveWebhookProviderId(rawPayload);
+    const composition = getRuntimeComposition();
     const resolution = resolveStrategyForProvider(
       {
         providerId,
         providerType: "webhook",
         requestedStrategy: rawPayload.strategy,
       },
-      getRuntimeComposition().runtime
+      composition.runtime
     );
 
     console.log(`✅ Strategy resolved:`, {
@@ -311,34 +549,44 @@ app.post("/api/webhooks/tradingview", async (req: Request, res: Response) => {
       source: canonicalUss.provenance.source,
     });
 
-    // ✅ Execute the RESOLVED registered composition through the
-    // manifest-driven GraphExecutor (boot-validated registry composition —
-    // the production switch of SLOT-FCP-REACTOR).
-    const run = await scoreRegisteredStrategyFromCanonicalUss(
-      canonicalUss,
-      resolution.strategy
-    );
+    return await completeIngest(res, mode, {
+      route: "tradingview-webhook",
+      signalId: canonicalUss.provenance.signalId,
+      context: "Error processing TradingView webhook",
+      run: async () => {
+        // ✅ Execute the RESOLVED registered composition through the
+        // manifest-driven GraphExecutor (boot-validated registry composition —
+        // the production switch of SLOT-FCP-REACTOR).
+        const run = await scoreRegisteredStrategyFromCanonicalUss(
+          canonicalUss,
+          resolution.strategy,
+          composition,
+          { deadlineMs: scoreDeadlineFromEnv() }
+        );
 
-    console.log(`✅ Scoring complete:`, {
-      signalId: run.scored.signalId,
-      uwrScore: run.scored.analystScore.uwrScore,
-    });
+        console.log(`✅ Scoring complete:`, {
+          signalId: run.scored.signalId,
+          uwrScore: run.scored.analystScore.uwrScore,
+        });
 
-    // Canonical evidence persistence is a REQUIRED step of the scoring run
-    // (MONGO-GOV D-MONGO-3): submit the governed v3 record (with its
-    // composition provenance + the five captured invocation proofs,
-    // EV3-GOV) through the afi-infra interface. A persistence failure is a
-    // first-class, honestly-reported failure — never a masked 200.
-    const persistence = await submitScoredSignalEvidence(run.scored, getEvidenceStore(), {
-      composition: run.composition,
-      registration: run.registration,
-      invocations: run.invocations,
-    });
+        // Canonical evidence persistence is a REQUIRED step of the scoring run
+        // (MONGO-GOV D-MONGO-3): submit the governed v3 record (with its
+        // composition provenance + the five captured invocation proofs,
+        // EV3-GOV) through the afi-infra interface. A persistence failure is a
+        // first-class, honestly-reported failure — never a masked 200.
+        const persistence = await submitScoredSignalEvidence(run.scored, getEvidenceStore(), {
+          composition: run.composition,
+          registration: run.registration,
+          invocations: run.invocations,
+        });
+        countEvidencePersistence(persistence.outcome);
 
-    // Operational analytics capture — fail-open, never awaited (D-MONGO-4).
-    void captureScoringContext(run.scored, persistence, "tradingview-webhook", run.composition);
+        // Operational analytics capture — fail-open, never awaited (D-MONGO-4).
+        void captureScoringContext(run.scored, persistence, "tradingview-webhook", run.composition, run.invocations.laneResults);
 
-    return res.status(200).json({ ...run.scored, persistence });
+        return { httpStatus: 200, body: { ...run.scored, persistence } };
+      },
+    });
   } catch (err: any) {
     return respondWithFailure(res, err, "Error processing TradingView webhook");
   }
@@ -377,8 +625,9 @@ function mapLaneStatus(status: string): string {
  *
  * Same score + persist pipeline as the other ingress routes (a REAL synchronous
  * scored signal), plus a fully-instrumented `latency` block (total / ingest /
- * mapper / scorer / persistence + per-lane latency & status + selectedProfileId)
- * and a `source` block (source=tradingview, indicatorId, originMode). Latency is
+ * mapper / scorer / persistence + per-lane latency & status + selectedProfileId,
+ * and the pipeline deadline outcome under AFI_SCORE_DEADLINE_MS or a manifest
+ * deadlineMs) and a `source` block (source=tradingview, indicatorId, originMode). Latency is
  * emitted on the HTTP response ONLY — never in the canonical evidence record.
  *
  * Persistence is included + measured by default; set AFI_MARKITTICK_PERSIST=false
@@ -422,6 +671,8 @@ app.post("/api/webhooks/tradingview/markittick", async (req: Request, res: Respo
       return res.status(401).json({ error: "unauthorized", message: "Unauthorized: invalid secret" });
     }
 
+    const mode = ingestModeOf(req);
+
     // MarkitTick alerts carry no provider identity — inject the staging provider
     // (or an env override) so provider-binding resolution reaches the binding.
     const providerId =
@@ -439,9 +690,10 @@ app.post("/api/webhooks/tradingview/markittick", async (req: Request, res: Respo
 
     // Strategy resolution: MarkitTick names no strategy → the provider binding's
     // defaultStrategy governs (unknown/inactive provider → honest 403).
+    const composition = getRuntimeComposition();
     const resolution = resolveStrategyForProvider(
       { providerId, providerType: "webhook", requestedStrategy: null },
-      getRuntimeComposition().runtime
+      composition.runtime
     );
     const ingestLatencyMs = Date.now() - t0;
 
@@ -470,79 +722,95 @@ app.post("/api/webhooks/tradingview/markittick", async (req: Request, res: Respo
     }
     const mapperLatencyMs = Date.now() - mapStart;
 
-    // Score synchronously through the resolved composition (lanes run in
-    // parallel dependency waves inside the GraphExecutor).
-    const scoreStart = Date.now();
-    const run = await scoreRegisteredStrategyFromCanonicalUss(canonicalUss, resolution.strategy);
-    const scorerLatencyMs = Date.now() - scoreStart;
-
-    // Evidence V3 persistence — included + measured by default; excludable by
-    // config (AFI_MARKITTICK_PERSIST=false) with an honest reported outcome.
-    const persistEnabled =
-      (process.env.AFI_MARKITTICK_PERSIST ?? "true").toLowerCase() !== "false";
-    let persistence: unknown;
-    let persistenceLatencyMs = 0;
-    if (persistEnabled) {
-      const persistStart = Date.now();
-      persistence = await submitScoredSignalEvidence(run.scored, getEvidenceStore(), {
-        composition: run.composition,
-        registration: run.registration,
-        invocations: run.invocations,
-      });
-      persistenceLatencyMs = Date.now() - persistStart;
-    } else {
-      persistence = {
-        outcome: "skipped-by-config",
-        reason: "AFI_MARKITTICK_PERSIST=false (persistence excluded by config for this run)",
-      };
-    }
+    return await completeIngest(res, mode, {
+      route: "markittick",
+      signalId: canonicalUss.provenance.signalId,
+      context: "Error processing MarkitTick TradingView webhook",
+      run: async () => {
+        // Score through the resolved composition (lanes run in parallel
+        // dependency waves inside the GraphExecutor) — inline, or as a queued
+        // job in async mode (the latency block then includes the queue wait).
+        const scoreStart = Date.now();
+        const run = await scoreRegisteredStrategyFromCanonicalUss(canonicalUss, resolution.strategy, composition, {
+          deadlineMs: scoreDeadlineFromEnv(),
+        });
+        const scorerLatencyMs = Date.now() - scoreStart;
+
+        // Evidence V3 persistence — included + measured by default; excludable by
+        // config (AFI_MARKITTICK_PERSIST=false) with an honest reported outcome.
+        const persistEnabled =
+          (process.env.AFI_MARKITTICK_PERSIST ?? "true").toLowerCase() !== "false";
+        let persistence: unknown;
+        let persistenceLatencyMs = 0;
+        if (persistEnabled) {
+          const persistStart = Date.now();
+          const outcome = await submitScoredSignalEvidence(run.scored, getEvidenceStore(), {
+            composition: run.composition,
+            registration: run.registration,
+            invocations: run.invocations,
+          });
+          countEvidencePersistence(outcome.outcome);
+          persistence = outcome;
+          persistenceLatencyMs = Date.now() - persistStart;
+        } else {
+          persistence = {
+            outcome: "skipped-by-config",
+            reason: "AFI_MARKITTICK_PERSIST=false (persistence excluded by config for this run)",
+          };
+        }
 
-    // Operational analytics capture — fail-open, never awaited (D-MONGO-4).
-    void captureScoringContext(run.scored, persistence, "markittick", run.composition);
+        // Operational analytics capture — fail-open, never awaited (D-MONGO-4).
+        void captureScoringContext(run.scored, persistence, "markittick", run.composition, run.invocations.laneResults);
 
-    const totalLatencyMs = Date.now() - t0;
-    const selectedProfileId = `${run.registration.analystId}/${run.registration.strategyId}@${run.registration.strategyVersion}`;
+        const totalLatencyMs = Date.now() - t0;
+        const selectedProfileId = `${run.registration.analystId}/${run.registration.strategyId}@${run.registration.strategyVersion}`;
 
-    console.log(`✅ MarkitTick scored:`, {
-      signalId: run.scored.signalId,
-      uwrScore: run.scored.analystScore.uwrScore,
-      totalLatencyMs,
-    });
+        console.log(`✅ MarkitTick scored:`, {
+          signalId: run.scored.signalId,
+          uwrScore: run.scored.analystScore.uwrScore,
+          totalLatencyMs,
+        });
 
-    return res.status(200).json({
-      ...run.scored,
-      persistence,
-      // `origin` (not `source`) — ReactorScoredSignalV1 already reserves a
-      // top-level optional `source` (UwrProfileStampSource); this block is the
-      // MarkitTick signal-origin metadata and must not shadow it.
-      origin: {
-        source: "tradingview",
-        indicatorId: mapped.meta!.indicatorId,
-        event: mapped.meta!.event,
-        direction: mapped.meta!.direction,
-        symbol: mapped.meta!.symbol,
-        timeframe: mapped.meta!.timeframe,
-        ...(mapped.meta!.arsi !== undefined ? { arsi: mapped.meta!.arsi } : {}),
-        ...(mapped.meta!.merged !== undefined ? { merged: mapped.meta!.merged } : {}),
-        providerId,
-        originMode,
-      },
-      latency: {
-        selectedProfileId,
-        clock: "Date.now-ms",
-        totalLatencyMs,
-        ingestLatencyMs,
-        mapperLatencyMs,
-        scorerLatencyMs,
-        persistenceLatencyMs,
-        persistence: persistEnabled ? "included" : "excluded-by-config",
-        lanes: (run.laneTimings ?? []).map((l) => ({
-          lane: l.category,
-          nodeId: l.nodeId,
-          wave: l.wave,
-          latencyMs: l.durationMs,
-          status: mapLaneStatus(l.status),
-        })),
+        return {
+          httpStatus: 200,
+          body: {
+            ...run.scored,
+            persistence,
+            // `origin` (not `source`) — ReactorScoredSignalV1 already reserves a
+            // top-level optional `source` (UwrProfileStampSource); this block is the
+            // MarkitTick signal-origin metadata and must not shadow it.
+            origin: {
+              source: "tradingview",
+              indicatorId: mapped.meta!.indicatorId,
+              event: mapped.meta!.event,
+              direction: mapped.meta!.direction,
+              symbol: mapped.meta!.symbol,
+              timeframe: mapped.meta!.timeframe,
+              ...(mapped.meta!.arsi !== undefined ? { arsi: mapped.meta!.arsi } : {}),
+              ...(mapped.meta!.merged !== undefined ? { merged: mapped.meta!.merged } : {}),
+              providerId,
+              originMode,
+            },
+            latency: {
+              selectedProfileId,
+              clock: "Date.now-ms",
+              totalLatencyMs,
+              ingestLatencyMs,
+              mapperLatencyMs,
+              scorerLatencyMs,
+              persistenceLatencyMs,
+              persistence: persistEnabled ? "included" : "excluded-by-config",
+              ...(run.deadline !== undefined ? { deadline: run.deadline } : {}),
+              lanes: (run.laneTimings ?? []).map((l) => ({
+                lane: l.category,
+                nodeId: l.nodeId,
+                wave: l.wave,
+                latencyMs: l.durationMs,
+                status: mapLaneStatus(l.status),
+              })),
+            },
+          },
+        };
       },
     });
   } catch (err: any) {
@@ -609,6 +877,8 @@ app.post("/api/ingest/cpj", async (req: Request, res: Response) => {
       return res.status(401).json({ error: "Unauthorized: invalid secret" });
     }
 
+    const mode = ingestModeOf(req);
+
     console.log(`📨 CPJ ingestion received:`, {
       providerType: rawPayload.provenance?.providerType,
       providerId: rawPayload.provenance?.providerId,
@@ -638,12 +908,13 @@ app.post("/api/ingest/cpj", async (req: Request, res: Response) => {
     // (replaces the removed cpj-ingested constant). CPJ payloads name no
     // strategy: the provider binding's defaultStrategy resolves; absence of a
     // binding is an honest 403 rejection, never a silent default composition.
+    const composition = getRuntimeComposition();
     const resolution = resolveStrategyForProvider(
       {
         providerId: rawPayload.provenance.providerId,
         providerType: "cpj",
       },
-      getRuntimeComposition().runtime
+      composition.runtime
     );
 
     console.log(`✅ Strategy resolved (CPJ):`, {
@@ -721,46 +992,430 @@ app.post("/api/ingest/cpj", async (req: Request, res: Response) => {
       });
     }
 
-    // Record this ingest for future dedupe checks
-    if (ingestHash) recordIngest(ingestHash, signalId);
+    return await completeIngest(res, mode, {
+      route: "cpj",
+      signalId,
+      context: "Error processing CPJ ingestion",
+      // Record this ingest for future dedupe checks. Nothing awaits between
+      // the check above and acceptance, so two identical posts cannot both pass.
+      accepted: () => {
+        if (ingestHash) recordIngest(ingestHash, signalId);
+      },
+      run: async () => {
+        // ✅ STEP 4: Execute the RESOLVED registered composition through the
+        // manifest-driven GraphExecutor (boot-validated registry composition).
+        const run = await scoreRegisteredStrategyFromCanonicalUss(
+          canonicalUss,
+          resolution.strategy,
+          composition,
+          { deadlineMs: scoreDeadlineFromEnv() }
+        );
+        const pipelineResult = run.scored;
 
-    // ✅ STEP 4: Execute the RESOLVED registered composition through the
-    // manifest-driven GraphExecutor (boot-validated registry composition).
-    const run = await scoreRegisteredStrategyFromCanonicalUss(
-      canonicalUss,
-      resolution.strategy
-    );
-    const pipelineResult = run.scored;
+        console.log(`✅ Scoring complete (CPJ ingestion):`, {
+          signalId: pipelineResult.signalId,
+          uwrScore: pipelineResult.analystScore.uwrScore,
+        });
 
-    console.log(`✅ Scoring complete (CPJ ingestion):`, {
-      signalId: pipelineResult.signalId,
-      uwrScore: pipelineResult.analystScore.uwrScore,
+        // Canonical evidence persistence (REQUIRED; failure is first-class) —
+        // the governed v3 record with its composition provenance + the five
+        // captured invocation proofs (EV3-GOV).
+        const persistence = await submitScoredSignalEvidence(pipelineResult, getEvidenceStore(), {
+          composition: run.composition,
+          registration: run.registration,
+          invocations: run.invocations,
+        });
+        countEvidencePersistence(persistence.outcome);
+
+        // Operational analytics capture — fail-open, never awaited (D-MONGO-4).
+        void captureScoringContext(pipelineResult, persistence, "cpj", run.composition, run.invocations.laneResults);
+
+        // Return result
+        return {
+          httpStatus: 200,
+          body: {
+            ok: true,
+            signalId: canonicalUss.provenance.signalId,
+            providerId: canonicalUss.provenance.providerId,
+            ingestHash: canonicalUss.provenance.ingestHash,
+            uss: canonicalUss,
+            pipelineResult,
+            persistence,
+          },
+        };
+      },
     });
+  } catch (err: any) {
+    return respondWithFailure(res, err, "Error processing CPJ ingestion");
+  }
+});
+
+/**
+ * Batch scoring (backfills / research runs).
+ *
+ * POST /api/score/batch
+ *
+ * Body: { items: [USS v1.1 | CPJ v0.1 payloads], secret?, persist?, concurrency? }
+ *
+ * Each item passes the gates of its single-payload route (schema validation,
+ * provider-binding strategy resolution, CPJ → USS mapping) and is scored
+ * through scoreRegisteredStrategyFromCanonicalUss — at most
+ * AFI_SCORE_BATCH_CONCURRENCY at once (a request may ask for fewer), all
+ * inside one shared-candle scope. Canonical evidence persistence runs per item
+ * unless `persist: false` (reported as skipped-by-request). CPJ items go
+ * through the CPJ route's ingest dedupe (AFI_INGEST_DEDUPE) exactly as a
+ * single CPJ ingest would: a CPJ whose ingestHash was seen inside the window —
+ * earlier, or as an earlier item of the same batch — is that item's 409
+ * duplicate, so a batch can never double-persist what the CPJ route refused.
+ * USS items are not deduped (neither is their single route). The body limit
+ * is sized from AFI_SCORE_BATCH_MAX_ITEMS (scoreBatchBodyLimit), not the
+ * global 100 KB.
+ *
+ * Response 200 (whatever the items' outcomes):
+ * {
+ *   "count": 3, "succeeded": 2, "failed": 1,
+ *   "candleFetches": { "fetched": 1, "shared": 1 },
+ *   "results": [
+ *     { "index": 0, "ok": true, "httpStatus": 200, "body": { ...scored signal, "persistence": {...} } },
+ *     { "index": 1, "ok": false, "httpStatus": 403, "body": { "error": "unknown_provider_binding", ... } },
+ *     ...
+ *   ]
+ * }
+ * Each item's { httpStatus, body } is what its single route would have
+ * answered. A malformed envelope (no items, over AFI_SCORE_BATCH_MAX_ITEMS) is
+ * a 400 invalid_score_batch.
+ */
+app.post("/api/score/batch", async (req: Request, res: Response) => {
+  try {
+    const expectedSecret = process.env.WEBHOOK_SHARED_SECRET;
+    if (expectedSecret && req.body?.secret !== expectedSecret) {
+      console.warn(`⚠️ Batch scoring authentication failed: invalid secret`);
+      return res.status(401).json({ error: "Unauthorized: invalid secret" });
+    }
 
-    // Canonical evidence persistence (REQUIRED; failure is first-class) —
-    // the governed v3 record with its composition provenance + the five
-    // captured invocation proofs (EV3-GOV).
-    const persistence = await submitScoredSignalEvidence(pipelineResult, getEvidenceStore(), {
-      composition: run.composition,
-      registration: run.registration,
-      invocations: run.invocations,
+    const batch = parseScoreBatchRequest(req.body, scoreBatchConfigFromEnv());
+    const composition = getRuntimeComposition();
+    const t0 = Date.now();
+    console.log(`📨 Batch scoring received:`, {
+      items: batch.items.length,
+      concurrency: batch.concurrency,
+      persist: batch.persist,
     });
 
-    // Operational analytics capture — fail-open, never awaited (D-MONGO-4).
-    void captureScoringContext(pipelineResult, persistence, "cpj", run.composition);
+    const result = await runScoreBatch(
+      batch.items,
+      batch.concurrency,
+      async (item) => {
+        const prepared = prepareBatchItem(item, composition.runtime);
+        let recordedHash: string | undefined;
+        if (prepared.kind === "cpj") {
+          // Checked and recorded before the first await, so two identical
+          // items of one batch cannot both pass (as for the single CPJ route);
+          // forgotten again if the item fails, so its retry is not a 409.
+          const { ingestHash, signalId } = prepared.uss.provenance;
+          const duplicate = ingestHash ? checkDuplicate(ingestHash) : undefined;
+          if (duplicate) {
+            return {
+              httpStatus: 409,
+              body: {
+                ok: false,
+                duplicate: true,
+                ingestHash,
+                signalId,
+                firstSeenAt: duplicate.firstSeenAt,
+                message: "Duplicate signal already ingested recently",
+              },
+            };
+          }
+          if (ingestHash) {
+            recordIngest(ingestHash, signalId);
+            recordedHash = ingestHash;
+          }
+        }
+        try {
+          const run = await scoreRegisteredStrategyFromCanonicalUss(
+            prepared.uss,
+            prepared.resolution.strategy,
+            composition,
+            { deadlineMs: scoreDeadlineFromEnv() }
+          );
+
+          let persistence: unknown;
+          if (batch.persist) {
+            const outcome = await submitScoredSignalEvidence(run.scored, getEvidenceStore(), {
+              composition: run.composition,
+              registration: run.registration,
+              invocations: run.invocations,
+            });
+            countEvidencePersistence(outcome.outcome);
+            persistence = outcome;
+          } else {
+            persistence = {
+              outcome: "skipped-by-request",
+              reason: "persist=false on the batch request (persistence excluded for this run)",
+            };
+          }
 
-    // Return result
-    return res.status(200).json({
-      ok: true,
-      signalId: canonicalUss.provenance.signalId,
-      providerId: canonicalUss.provenance.providerId,
-      ingestHash: canonicalUss.provenance.ingestHash,
-      uss: canonicalUss,
-      pipelineResult,
-      persistence,
+          // Operational analytics capture — fail-open, never awaited (D-MONGO-4).
+          void captureScoringContext(run.scored, persistence, "score-batch", run.composition, run.invocations.laneResults);
+
+          return { httpStatus: 200, body: { ...run.scored, persistence } };
+        } catch (err) {
+          if (recordedHash) forgetIngest(recordedHash);
+          throw err;
+        }
+      },
+      (err, index) => failureOutcome(err, `Error scoring batch item ${index}`)
+    );
+
+    console.log(`✅ Batch scored:`, {
+      count: result.count,
+      succeeded: result.succeeded,
+      failed: result.failed,
+      candleFetches: result.candleFetches,
+      totalLatencyMs: Date.now() - t0,
     });
+    return res.status(200).json(result);
   } catch (err: any) {
-    return respondWithFailure(res, err, "Error processing CPJ ingestion");
+    return respondWithFailure(res, err, "Error processing batch scoring request");
+  }
+});
+
+/** Constant-time `Authorization: Bearer <expected>` check; false when `expected` is unset. */
+function carriesBearerToken(req: Request, expected: string | undefined): boolean {
+  const header = req.headers.authorization;
+  if (!expected || !header?.startsWith("Bearer ")) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(header.slice("Bearer ".length)), digest(expected));
+}
+
+/**
+ * True when the request may read scored results back — job status, the
+ * signal read API and outcome analytics: `Authorization: Bearer
+ * <AFI_READ_API_TOKEN>` (or the admin token). With neither token set every
+ * read is refused (fail closed): a job result and a signal view carry the full
+ * scored signal, and outcome aggregates expose per-strategy performance.
+ */
+function isReadRequest(req: Request): boolean {
+  return carriesBearerToken(req, process.env.AFI_READ_API_TOKEN) || isAdminRequest(req);
+}
+
+/**
+ * Async ingest job status.
+ *
+ * GET /api/jobs/:jobId   (Authorization: Bearer <AFI_READ_API_TOKEN>)
+ *
+ * Returns the job view: { jobId, route, signalId, status (queued | running |
+ * succeeded | failed), createdAt, startedAt, finishedAt, result, callback }.
+ * `result` is { httpStatus, body } — exactly what the synchronous route would
+ * have answered (the scored signal, or its honest failure mapping). 401
+ * without the read token; 404 when the id is unknown or the finished job is
+ * past its retention window.
+ */
+app.get("/api/jobs/:jobId", (req: Request, res: Response) => {
+  if (!isReadRequest(req)) {
+    return res.status(401).json({ error: "Unauthorized: read token required" });
+  }
+  const job = getIngestJobQueue().get(String(req.params.jobId));
+  if (!job) {
+    return res.status(404).json({ error: "job_not_found", jobId: req.params.jobId });
+  }
+  return res.status(200).json(job);
+});
+
+/**
+ * Outcome aggregates (operational analytics, non-normative).
+ *
+ * GET /api/analytics/outcomes?strategy=<strategy>&horizon=<label>
+ *   (Authorization: Bearer <AFI_READ_API_TOKEN>)
+ *
+ * Per-strategy, per-horizon hit rate and mean signed return / MFE / MAE over
+ * the signal_outcomes rows the in-process outcome tracker has written.
+ * 401 without the read token; 503 when the tracker is not running
+ * (AFI_OUTCOME_TRACKER unset).
+ */
+app.get("/api/analytics/outcomes", async (req: Request, res: Response) => {
+  if (!isReadRequest(req)) {
+    return res.status(401).json({ error: "Unauthorized: read token required" });
+  }
+  const tracker = getOutcomeTracker();
+  if (!tracker) {
+    return res.status(503).json({ error: "outcome_tracker_disabled" });
+  }
+  const strategy = typeof req.query.strategy === "string" ? req.query.strategy : undefined;
+  const horizon = typeof req.query.horizon === "string" ? req.query.horizon : undefined;
+  try {
+    const aggregates = await tracker.aggregates({ strategy, horizon });
+    return res.status(200).json({ aggregates });
+  } catch (err) {
+    return res.status(500).json({
+      error: "internal_error",
+      message: (err as Error)?.message || "Unknown error",
+    });
+  }
+});
+
+/**
+ * The signal read port: scoring contexts from the analytics db, evidence
+ * hashes read back through the canonical store (null when the bound store is
+ * submit-only). Null when the read API is not configured.
+ */
+function signalQueryPort(): SignalQueryPort | null {
+  return resolveSignalQueryPort(async (signalId) => {
+    const store = getEvidenceStore();
+    return store.getBySignalId ? store.getBySignalId(signalId) : null;
+  });
+}
+
+/**
+ * Read back one scored signal.
+ *
+ * GET /api/signals/:signalId   (Authorization: Bearer <AFI_READ_API_TOKEN>)
+ *
+ * Returns the signal view: scoring context (meta, analyst score, decay),
+ * composition ref, per-lane summaries and the evidence record hashes
+ * (`evidence: null` when the canonical store has no record). 401 without the
+ * read token; 404 when no scoring context exists; 503 when the read API is
+ * not configured.
+ */
+app.get("/api/signals/:signalId", async (req: Request, res: Response) => {
+  if (!isReadRequest(req)) {
+    return res.status(401).json({ error: "Unauthorized: read token required" });
+  }
+  const port = signalQueryPort();
+  if (!port) {
+    return res.status(503).json({ error: "signal_query_unavailable" });
+  }
+  try {
+    const view = await getSignalView(port, String(req.params.signalId));
+    if (!view) {
+      return res.status(404).json({ error: "signal_not_found", signalId: req.params.signalId });
+    }
+    return res.status(200).json(view);
+  } catch (err) {
+    return res.status(500).json({
+      error: "internal_error",
+      message: (err as Error)?.message || "Unknown error",
+    });
+  }
+});
+
+/**
+ * Query scored signals.
+ *
+ * GET /api/signals?strategy=&symbol=&from=&to=&limit=   (Authorization: Bearer <AFI_READ_API_TOKEN>)
+ *
+ * Signal views newest first; `from`/`to` bound the capture instant (ISO or
+ * epoch ms, inclusive), `limit` defaults to 50 (max 500). 400 on a malformed
+ * query; 401 without the read token; 503 when the read API is not configured.
+ */
+app.get("/api/signals", async (req: Request, res: Response) => {
+  if (!isReadRequest(req)) {
+    return res.status(401).json({ error: "Unauthorized: read token required" });
+  }
+  const port = signalQueryPort();
+  if (!port) {
+    return res.status(503).json({ error: "signal_query_unavailable" });
+  }
+  try {
+    const filter = parseSignalQuery(req.query as Record<string, unknown>);
+    const signals = await listSignalViews(port, filter);
+    return res.status(200).json({ signals, count: signals.length });
+  } catch (err) {
+    if (err instanceof SignalQueryError) {
+      return res.status(err.httpStatus).json({ error: "invalid_query", message: err.message });
+    }
+    return res.status(500).json({
+      error: "internal_error",
+      message: (err as Error)?.message || "Unknown error",
+    });
+  }
+});
+
+/**
+ * Verify an evidence record independently.
+ *
+ * POST /api/evidence/verify
+ *   { "record": { ...afi.scored-signal-evidence.v3 }, "laneResults"?: { <category>: result }, "rawUss"?: { ... } }
+ *
+ * Re-validates the record against the vendored v3 schema, recomputes its
+ * hashes and cross-checks its invocation proofs against the supplied lane
+ * results. Always 200 with the per-field report (`ok: false` when any check
+ * failed); 400 when no record object is supplied. Pure recomputation — the
+ * evidence store is never read.
+ */
+app.post("/api/evidence/verify", (req: Request, res: Response) => {
+  const body = (req.body ?? {}) as { record?: unknown; laneResults?: unknown; rawUss?: unknown };
+  if (!body.record || typeof body.record !== "object" || Array.isArray(body.record)) {
+    return res.status(400).json({ error: "invalid_request", message: "body.record must be an evidence record object" });
+  }
+  const lanes = body.laneResults;
+  if (lanes !== undefined && (!lanes || typeof lanes !== "object" || Array.isArray(lanes))) {
+    return res.status(400).json({ error: "invalid_request", message: "body.laneResults must be an object keyed by category" });
+  }
+  try {
+    const report = verifyEvidenceRecord(body.record, {
+      laneResults: lanes as Record<string, unknown> | undefined,
+      rawUss: body.rawUss,
+    });
+    return res.status(200).json(report);
+  } catch (err) {
+    return res.status(500).json({
+      error: "internal_error",
+      message: (err as Error)?.message || "Unknown error",
+    });
+  }
+});
+
+/**
+ * True when the request carries `Authorization: Bearer <AFI_ADMIN_TOKEN>`.
+ * An unset token disables the admin routes entirely (fail closed).
+ */
+function isAdminRequest(req: Request): boolean {
+  return carriesBearerToken(req, process.env.AFI_ADMIN_TOKEN);
+}
+
+/**
+ * Hot-reload the governed registries.
+ *
+ * POST /api/admin/registries/reload   (Authorization: Bearer <AFI_ADMIN_TOKEN>)
+ *
+ * Re-runs the boot validation (registries, provider records, pinned plugin
+ * bundles) into a fresh runtime composition and swaps it in atomically.
+ * Requests already in flight finish on the composition they started with.
+ *
+ * Returns:
+ *   200 { "status": "reloaded", "compositionHash", "previousCompositionHash", "changed" }
+ *   401 missing or wrong token
+ *   422 { "error": "invalid_registry_composition", "issues": [...], "compositionHash" }
+ *       — the registries did not validate; the serving composition is unchanged
+ */
+app.post("/api/admin/registries/reload", async (req: Request, res: Response) => {
+  if (!isAdminRequest(req)) {
+    console.warn(`⚠️ Registry reload authentication failed`);
+    return res.status(401).json({ error: "Unauthorized: admin token required" });
+  }
+  try {
+    const reload = await reloadRuntimeComposition();
+    console.log(`🔄 Registry composition reloaded:`, reload);
+    return res.status(200).json({ status: "reloaded", ...reload });
+  } catch (err) {
+    const serving = peekRuntimeComposition()?.compositionHash;
+    if (err instanceof RuntimeConfigValidationError || err instanceof PluginBundleError) {
+      console.warn(`⚠️ Registry reload rejected — still serving ${serving}:`, err.message);
+      return res.status(422).json({
+        error: "invalid_registry_composition",
+        message: err.message,
+        ...(err instanceof RuntimeConfigValidationError ? { issues: err.issues } : {}),
+        compositionHash: serving,
+      });
+    }
+    console.error(`❌ Registry reload failed:`, err);
+    return res.status(500).json({
+      error: "internal_error",
+      message: (err as Error)?.message || "Unknown error",
+      compositionHash: serving,
+    });
   }
 });
 
@@ -769,21 +1424,30 @@ app.post("/api/ingest/cpj", async (req: Request, res: Response) => {
 // Export the app for testing
 export default app;
 
+/** Stops the AFI_REGISTRY_WATCH file watcher (set at boot when enabled). */
+let stopRegistryWatch: (() => void) | undefined;
+
 /**
- * Graceful shutdown: stop accepting requests (close the HTTP server), then
- * release every long-lived handle — the canonical afi-infra evidence store's
- * MongoDB connection and the ingest dedupe cache — so the process exits
+ * Graceful shutdown: stop accepting requests (close the HTTP server), let
+ * accepted async ingest jobs finish (bounded drain — they still need the
+ * evidence store), then release every long-lived handle — the canonical
+ * afi-infra evidence store's MongoDB connection, the ingest dedupe cache and
+ * the outcome tracker's schedule — so the process exits
  * naturally. This is SIGTERM-compatible for a Cloud Run deployment. Safe to call
  * without a live server (compiled integration tests import the app but do not
  * listen); passing no server just closes the store + cache.
  */
 export async function shutdownReactor(server?: HttpServer): Promise<void> {
+  stopRegistryWatch?.();
+  stopRegistryWatch = undefined;
   if (server) {
     await new Promise<void>((resolve, reject) =>
       server.close((err) => (err ? reject(err) : resolve()))
     );
   }
+  await shutdownIngestJobQueue();
   shutdownDedupeCache();
+  stopOutcomeTracker();
   await closeEvidenceStore();
 }
 
@@ -804,6 +1468,9 @@ if (process.env.NODE_ENV !== "test") {
   // ANY invalid ACTIVE entry throws here and the process refuses to serve —
   // no lazy discovery at request time, no partial boot.
   try {
+    // Pinned plugin bundles are verified + imported first (the one async boot
+    // step); a bundle that does not match its pin refuses boot the same way.
+    await preloadPluginBundles();
     const composition = initRuntimeComposition();
     console.log(
       `✅ Runtime registry composition validated:`,
@@ -811,6 +1478,7 @@ if (process.env.NODE_ENV !== "test") {
         strategies: [...composition.runtime.strategies.keys()],
         bindings: composition.runtime.bindings.size,
         plugins: composition.pluginRegistry.keys().length,
+        compositionHash: composition.compositionHash,
       }
     );
   } catch (err) {
@@ -821,6 +1489,20 @@ if (process.env.NODE_ENV !== "test") {
     throw err;
   }
 
+  // 🔄 Optional registry watch (AFI_REGISTRY_WATCH=1): a change under the
+  // registry root reloads the composition; a rejected reload keeps serving the
+  // last valid one.
+  const watchConfig = registryWatchConfigFromEnv();
+  if (watchConfig) {
+    stopRegistryWatch = watchRuntimeRegistries({
+      ...watchConfig,
+      onReload: ({ reload, error }) => {
+        if (reload) console.log(`🔄 Registry composition reloaded (watch):`, reload);
+        else console.warn(`⚠️ Registry reload rejected (watch):`, (error as Error)?.message ?? String(error));
+      },
+    });
+  }
+
   // ⚡ BOOT WARM-UP (perf/platform-floor-v0.1) — FAIL OPEN. Never a boot gate.
   //
   // Three initialisations used to fire lazily on the FIRST REQUEST of every
@@ -880,8 +1562,14 @@ if (process.env.NODE_ENV !== "test") {
       console.log(`   Listening on http://localhost:${PORT}`);
       console.log(`   Endpoints:`);
       console.log(`     GET  /health`);
+      console.log(`     GET  /metrics`);
       console.log(`     POST /api/webhooks/tradingview`);
       console.log(`     POST /api/ingest/cpj (CPJ v0.1 ingestion - Telegram/Discord signals)`);
+      console.log(`     GET  /api/jobs/:jobId (async ingestion: ?async=1 on the ingest routes)`);
+      console.log(`     GET  /api/analytics/outcomes`);
+      console.log(`     GET  /api/signals, /api/signals/:signalId`);
+      console.log(`     POST /api/evidence/verify`);
+      console.log(`     POST /api/admin/registries/reload (AFI_ADMIN_TOKEN)`);
       console.log(``);
       console.log(`   Returns: ReactorScoredSignalV1 (signalId, analystScore, scoredAt, decayParams, lenses, rawUss)`);
       const priceSource = process.env.AFI_PRICE_FEED_SOURCE;
@@ -913,6 +1601,13 @@ if (process.env.NODE_ENV !== "test") {
           console.error(`❌ Failed to start MTProto collector:`, error.message);
         }
       }
+
+      // Start the outcome tracker if enabled
+      try {
+        startOutcomeTrackerFromEnv();
+      } catch (error: any) {
+        console.error(`❌ Failed to start outcome tracker:`, error.message);
+      }
     });
 
     // SIGTERM-compatible graceful shutdown (Cloud Run sends SIGTERM).
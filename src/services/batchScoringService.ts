@@ -0,0 +1,285 @@
+/**
+ * Batch Scoring Service
+ *
+ * Backs POST /api/score/batch: scores an array of canonical USS v1.1 (or CPJ
+ * v0.1) payloads through scoreRegisteredStrategyFromCanonicalUss in ONE
+ * request — for backfills and research runs that would otherwise post
+ * hundreds of single-signal ingests.
+ *
+ * Each item goes through exactly the gates its single-payload route applies:
+ * schema validation, provider-binding strategy resolution (403 on refusal),
+ * CPJ → USS mapping. A failing item becomes that item's error entry (the same
+ * { httpStatus, body } the single route would have answered) and never
+ * aborts the batch. Items run with bounded parallelism, results come back in
+ * request order, and the whole batch runs inside one shared-candle scope so
+ * items on the same symbol/timeframe window share a single candle fetch.
+ *
+ * Operational only: the batch envelope (counts, candle-sharing stats) is not
+ * hash material; each item's scored signal is byte-identical to what its
+ * single-payload route would have produced.
+ *
+ * @module batchScoringService
+ */
+import { withSharedCandleFetches, type SharedCandleFetchStats } from "../adapters/exchanges/sharedCandleFetches.js";
+import {
+  resolveStrategyForProvider,
+  type StrategyResolutionResult,
+} from "../config/strategyResolution.js";
+import { validateCpjV01, type CpjV01Payload } from "../cpj/cpjValidator.js";
+import type { ValidatedRuntimeConfig } from "../pipeline/registryLoader.js";
+import type { CanonicalUss } from "../types/canonicalUss.js";
+import { mapCpjToUssV11 } from "../uss/cpjMapper.js";
+import { validateUsignalV11, type ValidationResult } from "../uss/ussValidator.js";
+import { positiveIntFromEnv } from "../utils/envConfig.js";
+import type { IngestJobOutcome } from "./ingestJobQueue.js";
+
+const USS_V11_SCHEMA = "afi.usignal.v1.1";
+const CPJ_V01_SCHEMA = "afi.cpj.v0.1";
+
+export interface ScoreBatchConfig {
+  /** Items admitted per request (default 500). */
+  maxItems: number;
+  /** Items scored at once, and the ceiling on a request's own `concurrency` (default 4). */
+  concurrency: number;
+}
+
+export const DEFAULT_SCORE_BATCH_CONFIG: Readonly<ScoreBatchConfig> = Object.freeze({
+  maxItems: 500,
+  concurrency: 4,
+});
+
+/** The batch envelope itself is malformed (400 — no item was scored). */
+export class ScoreBatchRequestError extends Error {
+  readonly httpStatus = 400;
+  readonly code = "invalid_score_batch";
+  constructor(message: string) {
+    super(message);
+    this.name = "ScoreBatchRequestError";
+  }
+}
+
+/**
+ * One item was refused before scoring (invalid payload, mapping failure) —
+ * carries the same status and error discriminator as its single route.
+ */
+export class ScoreBatchItemError extends Error {
+  readonly httpStatus: number;
+  readonly code: string;
+  readonly details?: unknown;
+  constructor(httpStatus: number, code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = "ScoreBatchItemError";
+    this.httpStatus = httpStatus;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export interface ScoreBatchRequest {
+  items: unknown[];
+  /** False skips canonical evidence persistence for every item (default true). */
+  persist: boolean;
+  /** Effective parallelism: the request's ask, capped by the config. */
+  concurrency: number;
+}
+
+/**
+ * Parse the batch envelope `{ items, persist?, concurrency? }`. Throws
+ * ScoreBatchRequestError on a malformed envelope; items are NOT inspected
+ * here — a bad item is that item's error, not the batch's.
+ */
+export function parseScoreBatchRequest(body: unknown, config: ScoreBatchConfig): ScoreBatchRequest {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ScoreBatchRequestError("batch body must be a JSON object with an `items` array");
+  }
+  const { items, persist, concurrency } = body as Record<string, unknown>;
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new ScoreBatchRequestError("`items` must be a non-empty array of USS v1.1 or CPJ v0.1 payloads");
+  }
+  if (items.length > config.maxItems) {
+    throw new ScoreBatchRequestError(`batch carries ${items.length} items; at most ${config.maxItems} are admitted`);
+  }
+  if (persist !== undefined && typeof persist !== "boolean") {
+    throw new ScoreBatchRequestError("`persist` must be a boolean");
+  }
+  if (concurrency !== undefined && !(Number.isInteger(concurrency) && (concurrency as number) >= 1)) {
+    throw new ScoreBatchRequestError("`concurrency` must be an integer >= 1");
+  }
+  return {
+    items,
+    persist: persist ?? true,
+    concurrency: Math.min((concurrency as number | undefined) ?? config.concurrency, config.concurrency),
+  };
+}
+
+/** A batch item ready to score: the canonical USS and its resolved strategy. */
+export interface PreparedBatchItem {
+  kind: "uss" | "cpj";
+  uss: CanonicalUss;
+  resolution: StrategyResolutionResult;
+}
+
+export interface BatchItemValidators {
+  uss: (payload: unknown) => ValidationResult;
+  cpj: (payload: unknown) => ValidationResult;
+}
+
+const DEFAULT_VALIDATORS: BatchItemValidators = { uss: validateUsignalV11, cpj: validateCpjV01 };
+
+/**
+ * Validate, resolve and (for CPJ) map one item. USS items resolve against the
+ * binding of their provenance.providerId — as a "cpj" provider when the USS
+ * came out of the CPJ mapper (source "cpj-*"), else as a "webhook" provider —
+ * and the strategy they carry in facts.strategy must be the one the binding
+ * resolves (a USS is never re-pointed at a different composition than the
+ * one it names). Throws ScoreBatchItemError or StrategyResolutionError.
+ */
+export function prepareBatchItem(
+  payload: unknown,
+  runtime: ValidatedRuntimeConfig,
+  validators: BatchItemValidators = DEFAULT_VALIDATORS
+): PreparedBatchItem {
+  const schema = (payload as { schema?: unknown } | null)?.schema;
+
+  if (schema === USS_V11_SCHEMA) {
+    const validation = validators.uss(payload);
+    if (!validation.ok) {
+      throw new ScoreBatchItemError(400, "invalid_uss", "Payload does not conform to USS v1.1 schema", validation.errors);
+    }
+    const uss = payload as CanonicalUss;
+    const requestedStrategy = typeof uss.facts?.strategy === "string" ? uss.facts.strategy : null;
+    const resolution = resolveStrategyForProvider(
+      {
+        providerId: uss.provenance.providerId,
+        providerType: uss.provenance.source.startsWith("cpj-") ? "cpj" : "webhook",
+        requestedStrategy,
+      },
+      runtime
+    );
+    if (requestedStrategy !== null && resolution.triple.strategyId !== requestedStrategy) {
+      throw new ScoreBatchItemError(
+        422,
+        "strategy_mismatch",
+        `facts.strategy '${requestedStrategy}' does not name a strategy the binding for provider '${uss.provenance.providerId}' resolves (resolved '${resolution.triple.strategyId}')`
+      );
+    }
+    return { kind: "uss", uss, resolution };
+  }
+
+  if (schema === CPJ_V01_SCHEMA) {
+    const validation = validators.cpj(payload);
+    if (!validation.ok) {
+      throw new ScoreBatchItemError(400, "invalid_cpj", "Payload does not conform to CPJ v0.1 schema", validation.errors);
+    }
+    const cpj = payload as CpjV01Payload;
+    const resolution = resolveStrategyForProvider(
+      { providerId: cpj.provenance.providerId, providerType: "cpj" },
+      runtime
+    );
+    const mapping = mapCpjToUssV11(cpj, resolution.triple);
+    if (!mapping.success) {
+      throw new ScoreBatchItemError(
+        422,
+        "symbol_normalization_failed",
+        "Could not normalize symbol to canonical BASE/QUOTE format",
+        mapping.error
+      );
+    }
+    const ussValidation = validators.uss(mapping.uss);
+    if (!ussValidation.ok) {
+      throw new ScoreBatchItemError(
+        400,
+        "invalid_uss",
+        "Mapped USS does not conform to USS v1.1 schema",
+        ussValidation.errors
+      );
+    }
+    return { kind: "cpj", uss: mapping.uss as CanonicalUss, resolution };
+  }
+
+  throw new ScoreBatchItemError(
+    400,
+    "unsupported_batch_item",
+    `batch items must be '${USS_V11_SCHEMA}' or '${CPJ_V01_SCHEMA}' payloads (got schema ${JSON.stringify(schema ?? null)})`
+  );
+}
+
+/** One item's entry in the batch response, in request order. */
+export interface ScoreBatchItemResult extends IngestJobOutcome {
+  index: number;
+  ok: boolean;
+}
+
+export interface ScoreBatchResult {
+  count: number;
+  succeeded: number;
+  failed: number;
+  /** Candle windows fetched upstream vs. served to a second item from the batch scope. */
+  candleFetches: SharedCandleFetchStats;
+  results: ScoreBatchItemResult[];
+}
+
+/**
+ * Score `items` with at most `concurrency` in flight, inside one shared-candle
+ * scope. `scoreItem` answers an item's outcome; a throw is mapped through
+ * `failureOutcome` (the single routes' mapping) into that item's entry — one
+ * item's failure never reaches its siblings.
+ */
+export async function runScoreBatch(
+  items: readonly unknown[],
+  concurrency: number,
+  scoreItem: (item: unknown, index: number) => Promise<IngestJobOutcome>,
+  failureOutcome: (err: unknown, index: number) => IngestJobOutcome
+): Promise<ScoreBatchResult> {
+  const results: ScoreBatchItemResult[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      let outcome: IngestJobOutcome;
+      try {
+        outcome = await scoreItem(items[index], index);
+      } catch (err) {
+        outcome = failureOutcome(err, index);
+      }
+      results[index] = { index, ok: outcome.httpStatus < 400, ...outcome };
+    }
+  };
+
+  const { candleFetches } = await withSharedCandleFetches(() =>
+    Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+  );
+  const succeeded = results.filter((r) => r.ok).length;
+  return { count: items.length, succeeded, failed: items.length - succeeded, candleFetches, results };
+}
+
+/**
+ * JSON body budget per admitted item. A canonical USS or CPJ payload is a few
+ * KB; 16 KB leaves room for verbose provenance/context without letting a
+ * request carry far more bytes than its item count justifies.
+ */
+export const SCORE_BATCH_ITEM_BODY_BYTES = 16 * 1024;
+
+/**
+ * The JSON body limit for POST /api/score/batch: maxItems items at
+ * SCORE_BATCH_ITEM_BODY_BYTES each, plus one item's worth for the envelope.
+ * The global express.json() parser keeps its 100 KB default; without a
+ * route-sized parser a full batch would be refused 413 before
+ * parseScoreBatchRequest ever counted its items.
+ */
+export function scoreBatchBodyLimit(config: ScoreBatchConfig): number {
+  return (config.maxItems + 1) * SCORE_BATCH_ITEM_BODY_BYTES;
+}
+
+/**
+ * Batch configuration from the environment (AFI_SCORE_BATCH_MAX_ITEMS,
+ * AFI_SCORE_BATCH_CONCURRENCY). Throws on a malformed value.
+ */
+export function scoreBatchConfigFromEnv(env: NodeJS.ProcessEnv = process.env): ScoreBatchConfig {
+  return {
+    maxItems: positiveIntFromEnv(env, "AFI_SCORE_BATCH_MAX_ITEMS", DEFAULT_SCORE_BATCH_CONFIG.maxItems),
+    concurrency: positiveIntFromEnv(env, "AFI_SCORE_BATCH_CONCURRENCY", DEFAULT_SCORE_BATCH_CONFIG.concurrency),
+  };
+}
@@ -28,16 +28,21 @@
  *   of the bundle (Dates as ISO strings, undefined dropped).
  */
 import type { ReactorScoredSignalV1 } from "../types/ReactorScoredSignalV1.js";
+import type { CandleCacheReport } from "../adapters/exchanges/cachingPriceFeedAdapter.js";
 import type { CanonicalUss } from "../types/canonicalUss.js";
 import { getRuntimeComposition, type RuntimeComposition } from "../config/runtimeComposition.js";
 import { canonicalHashOf, DOMAIN_TAGS } from "../pipeline/hashing.js";
+import type { PipelineDeadlineOutcome } from "../pipeline/executor.js";
 import type { CompositionRefV1, PipelineManifest } from "../pipeline/manifestTypes.js";
 import { resolveDecayParamsForSignal, type ResolvedStrategy } from "../pipeline/registryLoader.js";
-import type { AnalysisCategory, ProviderRecordStore } from "../providers/index.js";
+import type { ScorerOutput } from "../pipeline/scorerSdk.js";
+import type { AnalysisCategory, ProviderRecordStore, ProviderSelectionRecord } from "../providers/index.js";
 import type {
   EvidenceInvocationCapture,
   LaneBindingExpectation,
 } from "../evidence/reactorEvidenceRecord.js";
+import { observeGraphPass } from "./metricsService.js";
+import { positiveIntFromEnv } from "../utils/envConfig.js";
 
 /** The registration identity the evidence stamp site consumes (registry-backed
  *  UWR recognition — src/config/uwrProfilePin.ts). */
@@ -71,6 +76,29 @@ export interface ScoredCompositionRun {
    * latency-instrumented ingress routes can report per-lane latency.
    */
   laneTimings: LaneTiming[];
+  /**
+   * Budgeted runs only: the pipeline deadline outcome. Operational like
+   * laneTimings — NEVER hashed and NEVER part of the Evidence V3 record.
+   */
+  deadline?: PipelineDeadlineOutcome;
+}
+
+/** Per-request execution options for one scoring run. */
+export interface ScoreRunOptions {
+  /**
+   * Pipeline time budget in milliseconds (ExecuteRequest.deadlineMs);
+   * overrides the manifest's deadlineMs. Absent → the manifest's, if any.
+   */
+  deadlineMs?: number;
+}
+
+/**
+ * The ingress routes' scoring deadline (AFI_SCORE_DEADLINE_MS, the webhook
+ * SLA); unset → undefined (the manifest's deadlineMs, if any, applies).
+ * Throws on a malformed value.
+ */
+export function scoreDeadlineFromEnv(env: NodeJS.ProcessEnv = process.env): number | undefined {
+  return positiveIntFromEnv(env, "AFI_SCORE_DEADLINE_MS");
 }
 
 /** Operational per-lane timing (never hashed; not in the evidence record). */
@@ -83,7 +111,7 @@ export interface LaneTiming {
 }
 
 /** The five governed analysis lanes (D-FCP-1 namespace, casing exact). */
-const ANALYSIS_LANES: ReadonlySet<string> = new Set([
+export const ANALYSIS_LANES: ReadonlySet<string> = new Set([
   "technical",
   "pattern",
   "sentiment",
@@ -104,48 +132,41 @@ function laneBindingExpectations(
   const bindings: LaneBindingExpectation[] = [];
   for (const node of manifest.nodes) {
     if (!ANALYSIS_LANES.has(node.category) || !node.providerInstanceRef) continue;
-    const ref = node.providerInstanceRef;
-    const instance = records.getProviderInstance(ref.providerInstanceId, ref.recordVersion);
-    if (!instance) {
-      // Boot validation guarantees resolution; reaching here is a defensive
-      // impossibility — refuse rather than emit an unverifiable expectation.
-      throw new Error(
-        `lane '${node.id}' names unresolvable provider instance '${ref.providerInstanceId}@${ref.recordVersion}'`
-      );
-    }
-    const provider = records.getProvider(instance.providerId);
-    if (!provider) {
-      throw new Error(
-        `provider instance '${instance.providerInstanceId}' names unresolvable provider '${instance.providerId}'`
-      );
+    // A multi-provider lane expects any of its candidates (laneSelection.ts);
+    // the builder matches each proof to the binding of the instance it names.
+    for (const ref of [node.providerInstanceRef, ...(node.providerSelection?.alternates ?? [])]) {
+      const instance = records.getProviderInstance(ref.providerInstanceId, ref.recordVersion);
+      if (!instance) {
+        // Boot validation guarantees resolution; reaching here is a defensive
+        // impossibility — refuse rather than emit an unverifiable expectation.
+        throw new Error(
+          `lane '${node.id}' names unresolvable provider instance '${ref.providerInstanceId}@${ref.recordVersion}'`
+        );
+      }
+      const provider = records.getProvider(instance.providerId);
+      if (!provider) {
+        throw new Error(
+          `provider instance '${instance.providerInstanceId}' names unresolvable provider '${instance.providerId}'`
+        );
+      }
+      const binding: LaneBindingExpectation = {
+        category: node.category as AnalysisCategory,
+        nodeId: node.id,
+        providerInstanceId: instance.providerInstanceId,
+        instanceRecordVersion: instance.recordVersion,
+        providerId: provider.providerId,
+        providerRecordVersion: provider.recordVersion,
+        adapterId: instance.adapterId,
+        adapterVersion: instance.adapterVersion,
+      };
+      if (instance.model !== undefined) binding.model = instance.model;
+      if (instance.credentialRef !== undefined) binding.credentialRef = instance.credentialRef;
+      bindings.push(binding);
     }
-    const binding: LaneBindingExpectation = {
-      category: node.category as AnalysisCategory,
-      nodeId: node.id,
-      providerInstanceId: instance.providerInstanceId,
-      instanceRecordVersion: instance.recordVersion,
-      providerId: provider.providerId,
-      providerRecordVersion: provider.recordVersion,
-      adapterId: instance.adapterId,
-      adapterVersion: instance.adapterVersion,
-    };
-    if (instance.model !== undefined) binding.model = instance.model;
-    if (instance.credentialRef !== undefined) binding.credentialRef = instance.credentialRef;
-    bindings.push(binding);
   }
   return bindings;
 }
 
-/** The scorer sink's output envelope (identical to the live analyst plugin's). */
-interface ScorerOutput {
-  analysis?: { analystScore?: ReactorScoredSignalV1["analystScore"] };
-  uwrResolvedSource?: unknown;
-  lenses?: unknown[];
-  _priceFeedMetadata?: Record<string, unknown>;
-  enrichmentMeta?: { categories?: string[] };
-  [key: string]: unknown;
-}
-
 /**
  * Apply the registration's validated nodeOverrides to the registered manifest
  * (config merge per node).
@@ -199,13 +220,15 @@ export function effectiveManifest(resolved: ResolvedStrategy): PipelineManifest
 export async function scoreRegisteredStrategyFromCanonicalUss(
   canonicalUss: CanonicalUss,
   resolved: ResolvedStrategy,
-  composition: RuntimeComposition = getRuntimeComposition()
+  composition: RuntimeComposition = getRuntimeComposition(),
+  options: ScoreRunOptions = {}
 ): Promise<ScoredCompositionRun> {
   const manifest = effectiveManifest(resolved);
   const execution = await composition.executor.execute({
     manifest,
     input: {},
     signal: canonicalUss,
+    deadlineMs: options.deadlineMs,
   });
 
   const scorerOutput = execution.result as ScorerOutput;
@@ -252,6 +275,9 @@ export async function scoreRegisteredStrategyFromCanonicalUss(
       marketType: priceFeedMetadata.marketType as string | undefined,
       technicalIndicators: priceFeedMetadata.technicalIndicators,
       patternSignals: priceFeedMetadata.patternSignals,
+      ...(priceFeedMetadata.candleCache !== undefined
+        ? { candleCache: priceFeedMetadata.candleCache as CandleCacheReport }
+        : {}),
     },
     analystScore,
     uwrResolvedSource,
@@ -312,6 +338,7 @@ export async function scoreRegisteredStrategyFromCanonicalUss(
   // one live pass. First-write-wins per category — a manifest with duplicate
   // lane categories fails the builder's duplicate-proof law anyway.
   const laneResults: Partial<Record<AnalysisCategory, unknown>> = {};
+  const providerSelections: Partial<Record<AnalysisCategory, ProviderSelectionRecord>> = {};
   for (const node of manifest.nodes) {
     if (!ANALYSIS_LANES.has(node.category)) continue;
     const category = node.category as AnalysisCategory;
@@ -323,9 +350,19 @@ export async function scoreRegisteredStrategyFromCanonicalUss(
       record.output !== undefined
     ) {
       laneResults[category] = record.output;
+      if (record.providerSelection) providerSelections[category] = record.providerSelection;
     }
   }
 
+  const laneTimings: LaneTiming[] = execution.nodes.map((r) => ({
+    nodeId: r.nodeId,
+    category: manifest.nodes.find((n) => n.id === r.nodeId)?.category ?? "unknown",
+    status: r.status,
+    durationMs: r.durationMs,
+    wave: r.wave,
+  }));
+  observeGraphPass(laneTimings, ANALYSIS_LANES);
+
   return {
     scored,
     composition: compositionRef,
@@ -338,6 +375,7 @@ export async function scoreRegisteredStrategyFromCanonicalUss(
     invocations: {
       proofs: execution.invocationProofs,
       laneResults,
+      providerSelections,
       laneBindings: laneBindingExpectations(manifest, composition.providerRecordStore),
       decay: {
         halfLifeMinutes: decayParams.halfLifeMinutes,
@@ -353,12 +391,7 @@ export async function scoreRegisteredStrategyFromCanonicalUss(
           : {}),
       },
     },
-    laneTimings: execution.nodes.map((r) => ({
-      nodeId: r.nodeId,
-      category: manifest.nodes.find((n) => n.id === r.nodeId)?.category ?? "unknown",
-      status: r.status,
-      durationMs: r.durationMs,
-      wave: r.wave,
-    })),
+    laneTimings,
+    ...(execution.deadline !== undefined ? { deadline: execution.deadline } : {}),
   };
 }
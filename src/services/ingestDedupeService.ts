@@ -76,6 +76,15 @@ class IngestDedupeCache {
     });
   }
 
+  /**
+   * Drop a recorded ingest (the work it admitted was never taken on)
+   * 
+   * @param ingestHash - SHA256 hash of CPJ payload
+   */
+  forget(ingestHash: string): void {
+    this.cache.delete(ingestHash);
+  }
+
   /**
    * Cleanup expired entries (called periodically)
    */
@@ -180,3 +189,15 @@ export function recordIngest(ingestHash: string, signalId: string): void {
   }
 }
 
+/**
+ * Forget a recorded ingest whose scoring failed, so the client's retry is
+ * scored instead of rejected as a duplicate
+ * 
+ * @param ingestHash - SHA256 hash of CPJ payload
+ */
+export function forgetIngest(ingestHash: string): void {
+  if (dedupeCache) {
+    dedupeCache.forget(ingestHash);
+  }
+}
+
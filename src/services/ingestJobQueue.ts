@@ -0,0 +1,402 @@
+/**
+ * Ingest Job Queue
+ *
+ * Bounded in-process queue behind the ASYNC mode of the ingress routes
+ * (/api/webhooks/tradingview, /api/webhooks/tradingview/markittick,
+ * /api/ingest/cpj). The route validates the payload and resolves the strategy
+ * synchronously, then hands the graph run + evidence submit to this queue and
+ * answers 202 with a job id; GET /api/jobs/:id polls the job.
+ *
+ * Backpressure is explicit: at most `concurrency` jobs run at once and at
+ * most `maxPending` wait behind them — a submit beyond that is refused
+ * (IngestQueueFullError → 503 + Retry-After), never buffered without bound.
+ * A job's result is exactly the response the synchronous route would have
+ * sent ({ httpStatus, body }), so a failed job reports the same honest
+ * status and error discriminator. Finished jobs are retained for polling for
+ * a bounded time and count.
+ *
+ * An optional https callback URL receives the finished job view as one JSON
+ * POST — fail-open: a failed delivery is recorded on the job, never retried
+ * and never alters the job's result.
+ *
+ * Operational only: nothing here is hash material or read by scoring.
+ *
+ * @module ingestJobQueue
+ */
+import { randomUUID } from "node:crypto";
+import { positiveIntFromEnv } from "../utils/envConfig.js";
+
+export type IngestJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/** The response the synchronous route would have sent. */
+export interface IngestJobOutcome {
+  httpStatus: number;
+  body: unknown;
+}
+
+export interface IngestJobCallbackReport {
+  url: string;
+  outcome: "pending" | "delivered" | "failed";
+  /** The callback endpoint's response status (delivered or failed with a response). */
+  httpStatus?: number;
+  error?: string;
+}
+
+/** The pollable job view (GET /api/jobs/:id and the callback body). */
+export interface IngestJobView {
+  jobId: string;
+  route: string;
+  signalId?: string;
+  status: IngestJobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Present once the job finished. */
+  result?: IngestJobOutcome;
+  callback?: IngestJobCallbackReport;
+}
+
+export interface IngestJobRequest {
+  /** Bounded route label ("tradingview-webhook", "markittick", "cpj"). */
+  route: string;
+  signalId?: string;
+  /** An already-validated callback URL (parseIngestMode). */
+  callbackUrl?: string;
+  /** The deferred work; a rejection is recorded as a 500 internal_error. */
+  run: () => Promise<IngestJobOutcome>;
+}
+
+/** The queue is at capacity (backpressure — the caller should retry later). */
+export class IngestQueueFullError extends Error {
+  readonly httpStatus = 503;
+  readonly retryAfterSeconds: number;
+  constructor(maxPending: number, retryAfterSeconds: number) {
+    super(`ingest job queue is full (${maxPending} pending jobs); retry later`);
+    this.name = "IngestQueueFullError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/** The async-mode request options are malformed (400). */
+export class IngestModeError extends Error {
+  readonly httpStatus = 400;
+  readonly code = "invalid_ingest_mode";
+  constructor(message: string) {
+    super(message);
+    this.name = "IngestModeError";
+  }
+}
+
+export interface IngestJobQueueConfig {
+  /** Jobs allowed to run at once (default 2). */
+  concurrency: number;
+  /** Jobs allowed to wait behind the running ones (default 100). */
+  maxPending: number;
+  /** How long a finished job stays pollable (default 1h). */
+  retentionMs: number;
+  /** Finished jobs retained at most (oldest evicted first; default 1000). */
+  maxRetained: number;
+  /** Per-delivery callback timeout (default 5s). */
+  callbackTimeoutMs: number;
+  /**
+   * Callback hosts admitted (lowercase). Empty — the default — refuses every
+   * callbackUrl: the reactor only POSTs to hosts an operator named.
+   */
+  callbackAllowedHosts: ReadonlySet<string>;
+  /** Bound on the shutdown drain (default 8s). */
+  drainTimeoutMs: number;
+}
+
+export const DEFAULT_INGEST_JOB_QUEUE_CONFIG: Readonly<IngestJobQueueConfig> = Object.freeze({
+  concurrency: 2,
+  maxPending: 100,
+  retentionMs: 60 * 60 * 1000,
+  maxRetained: 1000,
+  callbackTimeoutMs: 5000,
+  callbackAllowedHosts: new Set<string>(),
+  drainTimeoutMs: 8000,
+});
+
+/** Retry-After hint on a full queue. */
+export const INGEST_QUEUE_RETRY_AFTER_SECONDS = 5;
+
+export interface IngestJobQueueDeps {
+  fetchImpl?: typeof fetch;
+  now?: () => number;
+  logger?: Pick<Console, "warn" | "error">;
+}
+
+interface IngestJob {
+  view: IngestJobView;
+  run: () => Promise<IngestJobOutcome>;
+  finishedAtMs?: number;
+}
+
+export class IngestJobQueue {
+  private readonly jobs = new Map<string, IngestJob>();
+  private readonly pending: IngestJob[] = [];
+  private running = 0;
+  private readonly idleWaiters: Array<() => void> = [];
+  private readonly callbacks = new Set<Promise<void>>();
+  private readonly fetchImpl: typeof fetch;
+  private readonly now: () => number;
+  private readonly logger: Pick<Console, "warn" | "error">;
+
+  constructor(
+    readonly config: Readonly<IngestJobQueueConfig> = DEFAULT_INGEST_JOB_QUEUE_CONFIG,
+    deps: IngestJobQueueDeps = {}
+  ) {
+    this.fetchImpl = deps.fetchImpl ?? fetch;
+    this.now = deps.now ?? Date.now;
+    this.logger = deps.logger ?? console;
+  }
+
+  /**
+   * Accept a job (queued, started as soon as a slot frees). Throws
+   * IngestQueueFullError when `maxPending` jobs are already waiting.
+   */
+  submit(request: IngestJobRequest): IngestJobView {
+    this.prune();
+    if (this.pending.length >= this.config.maxPending) {
+      throw new IngestQueueFullError(this.config.maxPending, INGEST_QUEUE_RETRY_AFTER_SECONDS);
+    }
+    const job: IngestJob = {
+      view: {
+        jobId: randomUUID(),
+        route: request.route,
+        ...(request.signalId !== undefined ? { signalId: request.signalId } : {}),
+        status: "queued",
+        createdAt: new Date(this.now()).toISOString(),
+        ...(request.callbackUrl !== undefined
+          ? { callback: { url: request.callbackUrl, outcome: "pending" as const } }
+          : {}),
+      },
+      run: request.run,
+    };
+    this.jobs.set(job.view.jobId, job);
+    this.pending.push(job);
+    this.pump();
+    return this.snapshot(job);
+  }
+
+  /** The job's current view; undefined when unknown or no longer retained. */
+  get(jobId: string): IngestJobView | undefined {
+    this.prune();
+    const job = this.jobs.get(jobId);
+    return job ? this.snapshot(job) : undefined;
+  }
+
+  stats(): { queued: number; running: number; retained: number } {
+    return { queued: this.pending.length, running: this.running, retained: this.jobs.size };
+  }
+
+  /**
+   * Resolves once every accepted job (and its callback) finished, or after
+   * `timeoutMs`; returns how many jobs were still unfinished.
+   */
+  async drain(timeoutMs: number = this.config.drainTimeoutMs): Promise<number> {
+    let timer: NodeJS.Timeout | undefined;
+    const idle = new Promise<void>((resolve) => {
+      if (this.running === 0 && this.pending.length === 0) resolve();
+      else this.idleWaiters.push(resolve);
+    }).then(() => Promise.all([...this.callbacks]));
+    await Promise.race([
+      idle,
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, timeoutMs);
+        timer.unref();
+      }),
+    ]);
+    if (timer) clearTimeout(timer);
+    return this.running + this.pending.length;
+  }
+
+  /** Forget every job (for testing/shutdown); running work is not interrupted. */
+  clear(): void {
+    this.pending.length = 0;
+    this.jobs.clear();
+  }
+
+  private pump(): void {
+    while (this.running < this.config.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      this.running += 1;
+      void this.execute(job).finally(() => {
+        this.running -= 1;
+        this.pump();
+        if (this.running === 0 && this.pending.length === 0) {
+          for (const resolve of this.idleWaiters.splice(0)) resolve();
+        }
+      });
+    }
+  }
+
+  private async execute(job: IngestJob): Promise<void> {
+    job.view.status = "running";
+    job.view.startedAt = new Date(this.now()).toISOString();
+    let outcome: IngestJobOutcome;
+    try {
+      outcome = await job.run();
+    } catch (err) {
+      this.logger.error(`❌ ingest job ${job.view.jobId} failed:`, (err as Error)?.message ?? String(err));
+      outcome = {
+        httpStatus: 500,
+        body: { error: "internal_error", message: (err as Error)?.message || "Unknown error" },
+      };
+    }
+    job.finishedAtMs = this.now();
+    job.view.finishedAt = new Date(job.finishedAtMs).toISOString();
+    job.view.result = outcome;
+    job.view.status = outcome.httpStatus < 400 ? "succeeded" : "failed";
+
+    if (job.view.callback) {
+      const delivery = this.deliverCallback(job).finally(() => this.callbacks.delete(delivery));
+      this.callbacks.add(delivery);
+    }
+  }
+
+  private async deliverCallback(job: IngestJob): Promise<void> {
+    const callback = job.view.callback!;
+    try {
+      const response = await this.fetchImpl(callback.url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ ...this.snapshot(job), callback: undefined }),
+        signal: AbortSignal.timeout(this.config.callbackTimeoutMs),
+        redirect: "error",
+      });
+      callback.httpStatus = response.status;
+      callback.outcome = response.ok ? "delivered" : "failed";
+      if (!response.ok) callback.error = `callback endpoint answered ${response.status}`;
+    } catch (err) {
+      callback.outcome = "failed";
+      callback.error = (err as Error)?.message ?? String(err);
+    }
+    if (callback.outcome === "failed") {
+      this.logger.warn(`⚠️ ingest job ${job.view.jobId} callback not delivered: ${callback.error}`);
+    }
+  }
+
+  /** Drop finished jobs past retention, then the oldest beyond maxRetained. */
+  private prune(): void {
+    const now = this.now();
+    let finished = 0;
+    for (const job of this.jobs.values()) if (job.finishedAtMs !== undefined) finished += 1;
+    for (const [jobId, job] of this.jobs) {
+      if (job.finishedAtMs === undefined) continue;
+      if (now - job.finishedAtMs > this.config.retentionMs || finished > this.config.maxRetained) {
+        this.jobs.delete(jobId);
+        finished -= 1;
+      }
+    }
+  }
+
+  private snapshot(job: IngestJob): IngestJobView {
+    return {
+      ...job.view,
+      ...(job.view.callback ? { callback: { ...job.view.callback } } : {}),
+    };
+  }
+}
+
+/** Whether (and where to call back) a request asked for async ingestion. */
+export interface IngestMode {
+  async: boolean;
+  callbackUrl?: string;
+}
+
+/**
+ * Read the ingress mode: async when `?async=1|true` or `Prefer:
+ * respond-async` (RFC 7240); `?callbackUrl=` names an https endpoint on the
+ * configured allowlist and is admissible only in async mode — with no
+ * allowlist configured every callbackUrl is refused. Throws IngestModeError
+ * on anything malformed.
+ */
+export function parseIngestMode(
+  query: Record<string, unknown>,
+  preferHeader: string | undefined,
+  allowedHosts: ReadonlySet<string>
+): IngestMode {
+  const asyncParam = query.async;
+  if (asyncParam !== undefined && !["1", "true", "0", "false"].includes(String(asyncParam))) {
+    throw new IngestModeError(`async must be 1|true|0|false, got ${JSON.stringify(asyncParam)}`);
+  }
+  const preferAsync = (preferHeader ?? "")
+    .split(",")
+    .some((token) => token.trim().toLowerCase() === "respond-async");
+  const isAsync = asyncParam === "1" || asyncParam === "true" || (asyncParam === undefined && preferAsync);
+
+  const rawCallback = query.callbackUrl;
+  if (rawCallback === undefined) return { async: isAsync };
+  if (!isAsync) throw new IngestModeError("callbackUrl is admissible only in async mode");
+  if (typeof rawCallback !== "string") throw new IngestModeError("callbackUrl must be a single URL");
+
+  let url: URL;
+  try {
+    url = new URL(rawCallback);
+  } catch {
+    throw new IngestModeError("callbackUrl is not a valid URL");
+  }
+  if (url.protocol !== "https:") throw new IngestModeError("callbackUrl must use https");
+  if (url.username || url.password) throw new IngestModeError("callbackUrl must not carry credentials");
+  if (allowedHosts.size === 0) {
+    throw new IngestModeError("callbacks are disabled: AFI_INGEST_CALLBACK_ALLOWED_HOSTS names no host");
+  }
+  if (!allowedHosts.has(url.hostname.toLowerCase())) {
+    throw new IngestModeError(`callbackUrl host '${url.hostname}' is not on the callback allowlist`);
+  }
+  return { async: true, callbackUrl: url.toString() };
+}
+
+/**
+ * Queue configuration from the environment (AFI_INGEST_QUEUE_CONCURRENCY,
+ * AFI_INGEST_QUEUE_MAX_PENDING, AFI_INGEST_JOB_RETENTION_MINUTES,
+ * AFI_INGEST_JOB_MAX_RETAINED, AFI_INGEST_CALLBACK_TIMEOUT_MS,
+ * AFI_INGEST_CALLBACK_ALLOWED_HOSTS (comma-separated), AFI_INGEST_QUEUE_DRAIN_MS).
+ * Throws on a malformed value.
+ */
+export function ingestJobQueueConfigFromEnv(env: NodeJS.ProcessEnv = process.env): IngestJobQueueConfig {
+  const d = DEFAULT_INGEST_JOB_QUEUE_CONFIG;
+  const hosts = (env.AFI_INGEST_CALLBACK_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter((h) => h.length > 0);
+  return {
+    concurrency: positiveIntFromEnv(env, "AFI_INGEST_QUEUE_CONCURRENCY", d.concurrency),
+    maxPending: positiveIntFromEnv(env, "AFI_INGEST_QUEUE_MAX_PENDING", d.maxPending),
+    retentionMs:
+      positiveIntFromEnv(env, "AFI_INGEST_JOB_RETENTION_MINUTES", d.retentionMs / 60_000) * 60_000,
+    maxRetained: positiveIntFromEnv(env, "AFI_INGEST_JOB_MAX_RETAINED", d.maxRetained),
+    callbackTimeoutMs: positiveIntFromEnv(env, "AFI_INGEST_CALLBACK_TIMEOUT_MS", d.callbackTimeoutMs),
+    callbackAllowedHosts: new Set(hosts),
+    drainTimeoutMs: positiveIntFromEnv(env, "AFI_INGEST_QUEUE_DRAIN_MS", d.drainTimeoutMs),
+  };
+}
+
+// Singleton instance
+let ingestJobQueue: IngestJobQueue | null = null;
+
+/** The process-wide queue, created from the environment on first use. */
+export function getIngestJobQueue(): IngestJobQueue {
+  if (!ingestJobQueue) ingestJobQueue = new IngestJobQueue(ingestJobQueueConfigFromEnv());
+  return ingestJobQueue;
+}
+
+/**
+ * Graceful shutdown: let accepted jobs finish (bounded by drainTimeoutMs) so
+ * a 202 is not silently dropped, then forget the queue.
+ */
+export async function shutdownIngestJobQueue(): Promise<void> {
+  if (!ingestJobQueue) return;
+  const unfinished = await ingestJobQueue.drain();
+  if (unfinished > 0) {
+    console.warn(`⚠️ ingest job queue shut down with ${unfinished} unfinished job(s)`);
+  }
+  ingestJobQueue.clear();
+  ingestJobQueue = null;
+}
+
+/** TEST-ONLY seam: install (or drop) the process-wide queue. */
+export function __setIngestJobQueueForTests(queue: IngestJobQueue | null): void {
+  ingestJobQueue = queue;
+}
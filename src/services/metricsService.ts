@@ -0,0 +1,252 @@
+/**
+ * Metrics Service
+ *
+ * In-process Prometheus metrics for the scoring pipeline and the provider
+ * layer, served as text exposition format 0.0.4 on GET /metrics.
+ *
+ * Every observation is taken from OPERATIONAL records only — the executor's
+ * per-node metric events and runtime records, the per-lane timings, HTTP
+ * request timings and typed error codes. Nothing here is ever read back into
+ * a scoring path, and no metric value enters any hashed artifact.
+ *
+ * Label values are bounded vocabularies (route patterns, node ids, lane
+ * categories, typed error codes) — never raw URLs, signal ids or payloads.
+ *
+ * @module metricsService
+ */
+
+import type { ProviderErrorCode } from "../providers/errors.js";
+import type { StrategyResolutionRejection } from "../config/strategyResolution.js";
+import type {
+  EvidencePersistenceCategory,
+  EvidencePersistenceOutcome,
+} from "../evidence/submitScoredSignalEvidence.js";
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Latency buckets in seconds: sub-10ms local lanes up to slow remote providers. */
+const LATENCY_BUCKETS_SECONDS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+type Labels = Record<string, string>;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(names: readonly string[], values: readonly string[], extra?: string): string {
+  const pairs = names.map((n, i) => `${n}="${escapeLabelValue(values[i])}"`);
+  if (extra) pairs.push(extra);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+abstract class Metric<S> {
+  protected readonly series = new Map<string, { values: string[]; state: S }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[]
+  ) {}
+
+  protected seriesFor(labels: Labels, init: () => S): S {
+    const values = this.labelNames.map((n) => labels[n] ?? "");
+    const key = values.join("\u0000");
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { values, state: init() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  abstract render(): string[];
+}
+
+class Counter extends Metric<{ value: number }> {
+  inc(labels: Labels, by = 1): void {
+    this.seriesFor(labels, () => ({ value: 0 })).value += by;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { values, state } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(this.labelNames, values)} ${state.value}`);
+    }
+    return lines;
+  }
+}
+
+class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[],
+    private readonly bounds: readonly number[] = LATENCY_BUCKETS_SECONDS
+  ) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const state = this.seriesFor(labels, () => ({
+      buckets: this.bounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) state.buckets[i] += 1;
+    });
+    state.sum += value;
+    state.count += 1;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { values, state } of this.series.values()) {
+      this.bounds.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels(this.labelNames, values, `le="${bound}"`)} ${state.buckets[i]}`
+        );
+      });
+      lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, 'le="+Inf"')} ${state.count}`);
+      lines.push(`${this.name}_sum${formatLabels(this.labelNames, values)} ${state.sum}`);
+      lines.push(`${this.name}_count${formatLabels(this.labelNames, values)} ${state.count}`);
+    }
+    return lines;
+  }
+}
+
+const httpRequestDuration = new Histogram(
+  "afi_http_request_duration_seconds",
+  "HTTP request latency by route pattern.",
+  ["method", "route", "status"]
+);
+const laneDuration = new Histogram(
+  "afi_lane_duration_seconds",
+  "Analysis lane latency per settled graph node.",
+  ["lane", "status"]
+);
+const nodeStatus = new Counter(
+  "afi_pipeline_node_status_total",
+  "Settled pipeline nodes by status (executed, skipped, degraded, failed-optional, cancelled).",
+  ["node", "status"]
+);
+const nodeRetries = new Counter("afi_pipeline_node_retries_total", "Pipeline node retry attempts.", ["node"]);
+const nodeCacheHits = new Counter(
+  "afi_pipeline_node_cache_hits_total",
+  "Deterministic pipeline nodes served from the result cache.",
+  ["node"]
+);
+const providerErrors = new Counter(
+  "afi_provider_errors_total",
+  "Provider-layer failures by ProviderErrorCode.",
+  ["code", "provider_instance"]
+);
+const strategyRejections = new Counter(
+  "afi_strategy_resolution_rejections_total",
+  "Ingress requests refused by strategy resolution.",
+  ["code"]
+);
+const evidencePersistence = new Counter(
+  "afi_evidence_persistence_total",
+  "Canonical evidence submissions by outcome or failure category.",
+  ["result"]
+);
+
+const ingestJobs = new Counter(
+  "afi_ingest_jobs_total",
+  "Async ingress jobs by route and result (accepted, rejected-full, succeeded, failed).",
+  ["route", "result"]
+);
+
+const registryReloads = new Counter(
+  "afi_registry_reloads_total",
+  "Governed registry reloads by result (succeeded, rejected).",
+  ["result"]
+);
+
+const ALL_METRICS: ReadonlyArray<Metric<unknown>> = [
+  httpRequestDuration,
+  laneDuration,
+  nodeStatus,
+  nodeRetries,
+  nodeCacheHits,
+  providerErrors,
+  strategyRejections,
+  evidencePersistence,
+  ingestJobs,
+  registryReloads,
+] as ReadonlyArray<Metric<unknown>>;
+
+/** One settled node of a graph pass (the operational runtime record). */
+export interface SettledNodeObservation {
+  nodeId: string;
+  /** The node's lane category; non-lane nodes (join, scorer) are not lane-timed. */
+  category?: string;
+  status: string;
+  durationMs: number;
+}
+
+/** Observe one completed HTTP request (route is the matched pattern, never the raw URL). */
+export function observeHttpRequest(method: string, route: string, status: number, durationMs: number): void {
+  httpRequestDuration.observe({ method, route, status: String(status) }, durationMs / 1000);
+}
+
+/**
+ * Observe every settled node of one graph pass: a status count per node, and
+ * a latency sample per analysis-lane node.
+ */
+export function observeGraphPass(nodes: ReadonlyArray<SettledNodeObservation>, lanes: ReadonlySet<string>): void {
+  for (const node of nodes) {
+    nodeStatus.inc({ node: node.nodeId, status: node.status });
+    if (node.category !== undefined && lanes.has(node.category)) {
+      laneDuration.observe({ lane: node.category, status: node.status }, node.durationMs / 1000);
+    }
+  }
+}
+
+export function countNodeRetry(nodeId: string): void {
+  nodeRetries.inc({ node: nodeId });
+}
+
+export function countNodeCacheHit(nodeId: string): void {
+  nodeCacheHits.inc({ node: nodeId });
+}
+
+export function countProviderError(code: ProviderErrorCode, providerInstanceId: string): void {
+  providerErrors.inc({ code, provider_instance: providerInstanceId });
+}
+
+export function countStrategyRejection(code: StrategyResolutionRejection): void {
+  strategyRejections.inc({ code });
+}
+
+export function countEvidencePersistence(
+  result: EvidencePersistenceOutcome["outcome"] | EvidencePersistenceCategory
+): void {
+  evidencePersistence.inc({ result });
+}
+
+export function countIngestJob(
+  route: string,
+  result: "accepted" | "rejected-full" | "succeeded" | "failed"
+): void {
+  ingestJobs.inc({ route, result });
+}
+
+export function countRegistryReload(result: "succeeded" | "rejected"): void {
+  registryReloads.inc({ result });
+}
+
+/** Render every metric in Prometheus text exposition format. */
+export function renderMetrics(): string {
+  return ALL_METRICS.flatMap((m) => m.render()).join("\n") + "\n";
+}
+
+/** TEST-ONLY seam: clear every recorded series. */
+export function __resetMetricsForTests(): void {
+  for (const metric of ALL_METRICS) metric.reset();
+}
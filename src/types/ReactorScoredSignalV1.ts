@@ -12,6 +12,7 @@
 
 import type { AnalystScoreTemplate } from "afi-core/analyst";
 import type { UwrProfileSource } from "../config/uwrRuntimeProfile.js";
+import type { CandleCacheReport } from "../adapters/exchanges/cachingPriceFeedAdapter.js";
 
 /**
  * RC-6 source discriminator (PR-UWR-STAMP-SEMANTICS,
@@ -88,6 +89,8 @@ export interface ReactorScoredSignalV1 {
     marketType?: string;
     technicalIndicators?: any;
     patternSignals?: any;
+    /** Candle-cache hit/miss (present only behind the caching price feed). */
+    candleCache?: CandleCacheReport;
   };
 
   /** Analyst score (canonical UWR score from afi-core) */
@@ -60,6 +60,22 @@ export interface TechnicalLensV1 extends UssLens {
      * every atrRegime classification auditable against these bytes.
      */
     atrPercentile?: number;
+    /**
+     * Strategy-declared indicators (technical node `config.indicators`).
+     * Each is present only when declared AND stable over the candle window.
+     */
+    /** MACD line, signal line and histogram */
+    macd?: { value: number; signal: number; histogram: number };
+    /** Bollinger Bands; width = (upper - lower) / middle */
+    bollinger?: { upper: number; middle: number; lower: number; width: number };
+    /** Slow stochastic %K / %D (0-100) */
+    stochastic?: { k: number; d: number };
+    /** Average Directional Index (0-100) */
+    adx?: number;
+    /** On-Balance Volume, cumulative over the candle window */
+    obv?: number;
+    /** Volume-Weighted Average Price over the candle window */
+    vwap?: number;
   };
 }
 
@@ -0,0 +1,21 @@
+/**
+ * Environment readers shared by the `xxxFromEnv(env = process.env)` config
+ * functions. Malformed values throw at the reader (boot / first use) — a typo
+ * in a bound never silently falls back to the default.
+ */
+
+/**
+ * A positive integer from `env[name]`; unset or blank → `fallback`. Throws
+ * `<name> must be a positive integer, got "<raw>"` on anything else.
+ */
+export function positiveIntFromEnv(env: NodeJS.ProcessEnv, name: string, fallback: number): number;
+export function positiveIntFromEnv(env: NodeJS.ProcessEnv, name: string): number | undefined;
+export function positiveIntFromEnv(env: NodeJS.ProcessEnv, name: string, fallback?: number): number | undefined {
+  const raw = env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer, got ${JSON.stringify(raw)}`);
+  }
+  return value;
+}
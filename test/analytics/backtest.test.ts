@@ -0,0 +1,312 @@
+/**
+ * Backtest engine — the historical-evaluation contract:
+ *  - every signal is scored through the production technical lane over a feed
+ *    frozen at the signal instant: the lane sees the bar that just closed and
+ *    never a later one;
+ *  - non-price lanes are offline (they fail and degrade per the manifest);
+ *  - outcomes follow the outcome tracker's horizon law over the scored decay
+ *    stamp, with windows past the end of the series reported pending;
+ *  - CSV alerts parse strictly, line-numbered.
+ * The graph is technical + news joined at a probe scorer that reports what
+ * the technical lane saw.
+ */
+import { describe, it, expect } from "@jest/globals";
+import type { RuntimeComposition } from "../../src/config/runtimeComposition.js";
+import type { OHLCVCandle } from "../../src/adapters/exchanges/types.js";
+import { computeAnalystConfigHash, computeManifestHash } from "../../src/pipeline/hashing.js";
+import type { PipelineManifest } from "../../src/pipeline/manifestTypes.js";
+import { ok, type AnalysisNodePlugin } from "../../src/pipeline/nodeSdk.js";
+import { createPluginRegistry } from "../../src/pipeline/pluginRegistry.js";
+import type { ResolvedStrategy } from "../../src/pipeline/registryLoader.js";
+import {
+  createProviderBackedNode,
+  createProviderRecordStore,
+  type ProviderRuntime,
+} from "../../src/providers/index.js";
+import { parseBacktestAlertsCsv, runBacktest } from "../../src/analytics/backtest.js";
+import type { LoadedPluginBundle, PluginBundleModule } from "../../src/pipeline/pluginBundles.js";
+
+const HOUR = 3600000;
+const T0 = Date.UTC(2025, 0, 1);
+
+/** A deterministic zig-zag uptrend, 1h bars. */
+const CANDLES: OHLCVCandle[] = Array.from({ length: 120 }, (_, i) => {
+  const close = 100 + i * 0.5 + (i % 3 === 0 ? 1 : -0.5);
+  return { timestamp: T0 + i * HOUR, open: close - 0.25, high: close + 1, low: close - 1, close, volume: 1000 + i };
+});
+
+const MANIFEST: PipelineManifest = {
+  schema: "afi.pipeline.v1",
+  pipelineId: "backtest-probe",
+  pipelineVersion: "1.0.0",
+  entry: "technical",
+  nodes: [
+    {
+      id: "technical",
+      category: "technical",
+      pluginId: "probe-technical",
+      pluginVersion: "1.0.0",
+      critical: true,
+      providerInstanceRef: { providerInstanceId: "pi-technical-local", recordVersion: "1.0.0" },
+    },
+    {
+      id: "news",
+      category: "news",
+      pluginId: "probe-news",
+      pluginVersion: "1.0.0",
+      critical: false,
+      failurePolicy: "degrade",
+      maxRetries: 0,
+      providerInstanceRef: { providerInstanceId: "pi-news-http", recordVersion: "1.0.0" },
+    },
+    {
+      id: "scorer",
+      category: "scorer",
+      pluginId: "probe-scorer",
+      pluginVersion: "1.0.0",
+      critical: true,
+      join: { policy: "all", merge: { strategy: "namespace-by-node", conflictRule: "error" } },
+    },
+  ],
+  edges: [
+    { from: "technical", to: "news" },
+    { from: "technical", to: "scorer" },
+    { from: "news", to: "scorer", optional: true },
+  ],
+};
+
+const CONFIG = { scorerRef: { pluginId: "probe-scorer", pluginVersion: "1.0.0" }, uwrProfileRef: { profileId: "probe" } };
+
+const RESOLVED = {
+  registration: { analystId: "probe", strategyId: "backtest_probe", strategyVersion: "1.0.0" },
+  config: CONFIG,
+  pipeline: MANIFEST,
+  manifestHash: computeManifestHash(MANIFEST),
+  analystConfigHash: computeAnalystConfigHash(CONFIG),
+  pluginSetHash: { algorithm: "sha256", value: "0".repeat(64) },
+  plugins: new Map(),
+  // 1h bars x 10 → H = 600 min → horizons 150m / 5h / 10h.
+  decay: { kind: "ratio", barsPerHalfLife: 10 },
+} as unknown as ResolvedStrategy;
+
+const RECORDS = createProviderRecordStore({
+  providers: [
+    {
+      schema: "afi.provider.v1",
+      providerId: "afi-provider-technical-local",
+      recordVersion: "1.0.0",
+      displayName: "AFI Local Technical Indicators (keyless)",
+      supportedCategories: ["technical"],
+      executionClass: "local",
+      deterministic: true,
+      adapterId: "afi-adapter-technical-local",
+      requiresCredential: false,
+      status: "active",
+    },
+    {
+      schema: "afi.provider.v1",
+      providerId: "afi-provider-news-http",
+      recordVersion: "1.0.0",
+      displayName: "AFI HTTP News Provider (BYOK)",
+      supportedCategories: ["news"],
+      executionClass: "remote",
+      deterministic: false,
+      adapterId: "afi-adapter-news-http",
+      requiresCredential: true,
+      credentialKind: "apiKeyHeader",
+      status: "active",
+    },
+  ],
+  credentialRefs: [
+    {
+      schema: "afi.credential-ref.v1",
+      credentialRef: "newsdata-key",
+      recordVersion: "1.0.0",
+      tenant: "tenant-a",
+      providerId: "afi-provider-news-http",
+      credentialKind: "apiKeyHeader",
+      status: "active",
+    },
+  ],
+  providerInstances: [
+    {
+      schema: "afi.provider-instance.v1",
+      providerInstanceId: "pi-technical-local",
+      recordVersion: "1.0.0",
+      tenant: "tenant-a",
+      category: "technical",
+      providerId: "afi-provider-technical-local",
+      adapterId: "afi-adapter-technical-local",
+      adapterVersion: "1.0.0",
+      status: "active",
+    },
+    {
+      schema: "afi.provider-instance.v1",
+      providerInstanceId: "pi-news-http",
+      recordVersion: "1.0.0",
+      tenant: "tenant-a",
+      category: "news",
+      providerId: "afi-provider-news-http",
+      adapterId: "afi-adapter-news-http",
+      adapterVersion: "1.0.0",
+      credentialRef: "newsdata-key",
+      status: "active",
+    },
+  ],
+});
+
+/** Reports the last candle the technical lane saw, and whether news arrived. */
+const probeScorer: AnalysisNodePlugin = {
+  manifestRef: { pluginId: "probe-scorer", pluginVersion: "1.0.0" },
+  async run(input) {
+    const parents = (input as { parents: Record<string, { candles?: OHLCVCandle[] } | undefined> }).parents;
+    const candles = parents.technical?.candles ?? [];
+    return ok({
+      analysis: {
+        analystScore: {
+          uwrScore: 0.5,
+          seenCandles: candles.length,
+          seenLastTimestamp: candles.at(-1)?.timestamp ?? null,
+          newsArrived: parents.news !== undefined && Object.keys(parents.news).length > 0,
+        },
+      },
+      uwrResolvedSource: "builtin",
+      lenses: [],
+      enrichmentMeta: { categories: ["technical"] },
+    });
+  },
+};
+
+const BASE = {
+  runtime: { registries: { analysisPlugins: new Map() }, strategies: new Map(), bindings: new Map() },
+  providerRecordStore: RECORDS,
+  pluginBundles: [],
+} as unknown as RuntimeComposition;
+
+const pluginRegistryFor = (rt: ProviderRuntime) =>
+  createPluginRegistry([
+    createProviderBackedNode({ pluginId: "probe-technical", pluginVersion: "1.0.0" }, "technical", rt),
+    createProviderBackedNode({ pluginId: "probe-news", pluginVersion: "1.0.0" }, "news", rt),
+    probeScorer,
+  ]);
+
+const backtest = (overrides: Partial<Parameters<typeof runBacktest>[0]> = {}) =>
+  runBacktest({
+    resolved: RESOLVED,
+    symbol: "BTC/USDT",
+    timeframe: "1h",
+    candles: CANDLES,
+    composition: BASE,
+    pluginRegistryFor,
+    ...overrides,
+  });
+
+describe("backtest engine", () => {
+  it("scores every bar after the warm-up on the window that had closed by then", async () => {
+    const report = await backtest();
+    expect(report.signals).toBe(70);
+    expect(report.failed).toBe(0);
+    for (const result of report.results) {
+      const score = result.analystScore as { seenCandles: number; seenLastTimestamp: number; newsArrived: boolean };
+      expect(score.seenLastTimestamp + HOUR).toBe(Date.parse(result.at));
+      expect(score.seenCandles).toBeLessThanOrEqual(100);
+      expect(score.newsArrived).toBe(false);
+    }
+  });
+
+  it("measures outcomes under the decay-derived horizon law", async () => {
+    const report = await backtest({ alerts: [{ at: T0 + 60 * HOUR, direction: "short" }] });
+    const [result] = report.results;
+    expect(result.outcomes.map((o) => [o.horizon, o.horizonBasis])).toEqual([
+      ["150m", "decay-derived"],
+      ["5h", "decay-derived"],
+      ["10h", "decay-derived"],
+    ]);
+    // Entry: the bar that closed at the signal; exit: the bar opening at the window end.
+    const h10 = result.outcomes[2];
+    expect(h10.entryPrice).toBe(CANDLES[59].close);
+    expect(h10.exitPrice).toBe(CANDLES[70].close);
+    const raw = ((CANDLES[70].close - CANDLES[59].close) / CANDLES[59].close) * 100;
+    expect(h10.returnPct).toBeCloseTo(raw, 10);
+    expect(h10.signedReturnPct).toBeCloseTo(-raw, 10);
+    expect(report.horizons.map((h) => h.samples)).toEqual([1, 1, 1]);
+    expect(report.horizons[2].winRate).toBe(0);
+  });
+
+  it("reports horizons past the end of the series as pending, and honors an override", async () => {
+    const late = await backtest({ alerts: [{ at: T0 + 115 * HOUR, direction: "long" }] });
+    expect(late.results[0].pendingHorizons).toEqual(["5h", "10h"]);
+    expect(late.results[0].outcomes.map((o) => o.horizon)).toEqual(["150m"]);
+
+    const overridden = await backtest({ alerts: [{ at: T0 + 60 * HOUR, direction: "long" }], horizonMinutes: [60] });
+    expect(overridden.results[0].outcomes).toEqual([
+      expect.objectContaining({ horizon: "1h", horizonBasis: "operator-override" }),
+    ]);
+  });
+
+  it("a signal whose outcome window cannot be measured fails without stopping the run", async () => {
+    const report = await backtest({
+      alerts: [
+        { at: T0 + 60 * HOUR, direction: "long" },
+        { at: T0 + 70 * HOUR, direction: "long" },
+      ],
+      // A front-truncated outcome series: the first signal's entry bar is missing.
+      outcomeCandles: CANDLES.slice(61),
+      outcomeTimeframe: "1h",
+    });
+    expect(report.results.map((r) => r.status)).toEqual(["failed", "scored"]);
+    expect(report.results[0].error).toMatch(/window head missing/);
+    expect(report.results[1].signalId).toBe(`backtest-backtest_probe-BTC/USDT-1h-${T0 + 70 * HOUR}`);
+    expect(report).toMatchObject({ signals: 2, scored: 1, failed: 1 });
+  });
+
+  it("binds the base composition's plugin bundles when no registry is supplied", async () => {
+    const bundle = (pluginId: string, createNode: PluginBundleModule["createNode"]): LoadedPluginBundle => ({
+      pluginId,
+      pluginVersion: "1.0.0",
+      sha256: "0".repeat(64),
+      module: { createNode },
+      moduleUrl: "data:text/javascript;base64,",
+    });
+    const bundled = {
+      ...BASE,
+      pluginBundles: [
+        bundle("probe-technical", (host) =>
+          host.createProviderBackedNode(
+            { pluginId: "probe-technical", pluginVersion: "1.0.0" },
+            "technical",
+            host.providerRuntime
+          )
+        ),
+        bundle("probe-news", (host) =>
+          host.createProviderBackedNode(
+            { pluginId: "probe-news", pluginVersion: "1.0.0" },
+            "news",
+            host.providerRuntime
+          )
+        ),
+        bundle("probe-scorer", () => probeScorer),
+      ],
+    } as RuntimeComposition;
+
+    const report = await backtest({
+      composition: bundled,
+      pluginRegistryFor: undefined,
+      alerts: [{ at: T0 + 60 * HOUR, direction: "long" }],
+    });
+    expect(report).toMatchObject({ signals: 1, scored: 1, failed: 0 });
+    expect((report.results[0].analystScore as { seenLastTimestamp: number }).seenLastTimestamp).toBe(T0 + 59 * HOUR);
+  });
+
+  it("parses alert CSVs strictly", () => {
+    expect(
+      parseBacktestAlertsCsv(`time,direction,signalId\n2025-01-03T12:00:00Z,BUY,a1\n\n${T0},sell,\n`)
+    ).toEqual([
+      { at: Date.parse("2025-01-03T12:00:00Z"), direction: "long", signalId: "a1" },
+      { at: T0, direction: "short" },
+    ]);
+    expect(() => parseBacktestAlertsCsv("when,side\n")).toThrow(/line 1/);
+    expect(() => parseBacktestAlertsCsv("time,direction\nyesterday,long")).toThrow(/line 2: time/);
+    expect(() => parseBacktestAlertsCsv("time,direction\n1,up")).toThrow(/line 2: direction/);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * DH-GOV D-DH-2/D-DH-3 derivation law — pure unit coverage for
+ * src/analytics/horizonLaw.ts (no Mongo, no network). Carries every check of
+ * the retired test/operational/captureOutcomesDerivation.test.mjs.
+ */
+import { describe, it, expect } from "@jest/globals";
+import {
+  deriveHorizonMinutes,
+  excursions,
+  horizonLabel,
+  parseHorizonLabel,
+  resolveHorizonPlan,
+  selectWindow,
+  toCcxtSymbol,
+  type CandleRow,
+} from "../../src/analytics/horizonLaw.js";
+
+describe("D-DH-2(1) horizon derivation", () => {
+  it("derives {ceil(H/4), ceil(H/2), H}", () => {
+    expect(deriveHorizonMinutes(60)).toEqual([15, 30, 60]);
+    expect(deriveHorizonMinutes(720)).toEqual([180, 360, 720]);
+    expect(deriveHorizonMinutes(8)).toEqual([2, 4, 8]);
+    // H=90 ceils the quarter (22.5 -> 23).
+    expect(deriveHorizonMinutes(90)).toEqual([23, 45, 90]);
+    // Fractional inline H ceils per-window, never rewrites H itself.
+    expect(deriveHorizonMinutes(7.5)).toEqual([2, 4, 8]);
+  });
+
+  it("rejects zero, negative and absent half-lives", () => {
+    expect(deriveHorizonMinutes(0)).toBeNull();
+    expect(deriveHorizonMinutes(-5)).toBeNull();
+    expect(deriveHorizonMinutes(undefined)).toBeNull();
+  });
+
+  it("labels whole hours as <n>h and everything else as <n>m, and parses them back", () => {
+    expect([15, 60, 90, 180, 720, 1440].map(horizonLabel)).toEqual(["15m", "1h", "90m", "3h", "12h", "24h"]);
+    expect(["15m", "1h", "24h", "90m"].map(parseHorizonLabel)).toEqual([15, 60, 1440, 90]);
+    expect(parseHorizonLabel("h1")).toBeNull();
+    expect(parseHorizonLabel("0m")).toBeNull();
+    for (const m of [2, 4, 8, 15, 23, 30, 45, 60, 180, 360, 720]) {
+      expect(parseHorizonLabel(horizonLabel(m) as string)).toBe(m);
+    }
+  });
+});
+
+describe("D-DH-2 resolveHorizonPlan", () => {
+  const CUT = "2026-08-04T00:00:00Z";
+  const intradayCtx = {
+    capturedAt: "2026-08-04T01:00:00.000Z",
+    decayParams: { halfLifeMinutes: 60, greeksTemplateId: "decay-intraday-v1" },
+  };
+
+  it("derives 15m/30m/1h for a post-cutover intraday doc", () => {
+    expect(resolveHorizonPlan(intradayCtx, { cutoverIso: CUT })).toEqual({
+      basis: "decay-derived",
+      decayRef: { greeksTemplateId: "decay-intraday-v1", halfLifeMinutes: 60 },
+      horizons: [
+        { label: "15m", minutes: 15, fractionOfHalfLife: 0.25 },
+        { label: "30m", minutes: 30, fractionOfHalfLife: 0.5 },
+        { label: "1h", minutes: 60, fractionOfHalfLife: 1 },
+      ],
+    });
+  });
+
+  it("never captures pre-cutover, unstamped or malformed docs (DHP-GOV D-DHP-1, retired legacy law)", () => {
+    expect(resolveHorizonPlan({ ...intradayCtx, capturedAt: "2026-08-03T23:59:59.999Z" }, { cutoverIso: CUT })).toBeNull();
+    expect(resolveHorizonPlan({ capturedAt: "2026-08-04T01:00:00.000Z" }, { cutoverIso: CUT })).toBeNull();
+    expect(
+      resolveHorizonPlan(
+        { capturedAt: "2026-08-04T01:00:00.000Z", decayParams: { halfLifeMinutes: -1, greeksTemplateId: "x" } },
+        { cutoverIso: CUT }
+      )
+    ).toBeNull();
+  });
+
+  it("lets an explicit --horizons override win outright (D-DH-2(4))", () => {
+    expect(resolveHorizonPlan(intradayCtx, { overrideMinutes: [10, 25], cutoverIso: CUT })).toEqual({
+      basis: "operator-override",
+      horizons: [
+        { label: "10m", minutes: 10 },
+        { label: "25m", minutes: 25 },
+      ],
+    });
+  });
+
+  it("derives a swing-stamped doc's windows from its own stamp (stamped-value law)", () => {
+    const plan = resolveHorizonPlan(
+      { capturedAt: "2026-08-04T01:00:00.000Z", decayParams: { halfLifeMinutes: 720, greeksTemplateId: "decay-swing-v1" } },
+      { cutoverIso: CUT }
+    );
+    expect(plan?.horizons.map((h) => h.label)).toEqual(["3h", "6h", "12h"]);
+  });
+
+  it("fails closed on an unparseable or future cutover", () => {
+    expect(resolveHorizonPlan(intradayCtx, { cutoverIso: "not-a-date" })).toBeNull();
+    expect(resolveHorizonPlan(intradayCtx, { cutoverIso: "9999-01-01T00:00:00Z" })).toBeNull();
+  });
+});
+
+describe("D-DH-4(1) selectWindow head assertion", () => {
+  const W0 = Date.parse("2026-08-04T01:00:00Z");
+  const mk = (offsetsMin: number[]): CandleRow[] => offsetsMin.map((m) => [W0 + m * 60_000, 100, 101, 99, 100.5]);
+
+  it("passes a well-formed window", () => {
+    expect(selectWindow(mk([-5, 0, 5, 10]), W0 - 5 * 60_000, W0 + 15 * 60_000, W0)).toHaveLength(4);
+  });
+
+  it("throws loudly on a front-truncated fetch and on a single-candle window", () => {
+    expect(() => selectWindow(mk([5, 10, 15]), W0 - 5 * 60_000, W0 + 15 * 60_000, W0)).toThrow(/window head missing/);
+    expect(() => selectWindow(mk([0]), W0 - 5 * 60_000, W0 + 15 * 60_000, W0)).toThrow(/insufficient candles/);
+  });
+});
+
+describe("D-DH-3(2) excursions and timing", () => {
+  const T0 = Date.parse("2026-08-04T01:00:00Z");
+  const M = 60_000;
+  const candles: CandleRow[] = [
+    [T0, 100, 101, 99.5, 100.4], // entry candle (close 100.4)
+    [T0 + 5 * M, 100.4, 103, 100.2, 102], // max high @ +5m
+    [T0 + 10 * M, 102, 102.5, 98, 99], // min low @ +10m
+    [T0 + 15 * M, 99, 103, 98, 100], // ties with earlier extremes -> first occurrence wins
+  ];
+  const entry = 100.4;
+
+  it("long: MFE at the max-high candle, MAE at the min-low candle, values per the v0 formulas", () => {
+    const exc = excursions(candles, entry, 1);
+    expect([exc.mfeAtMinutes, exc.maeAtMinutes]).toEqual([5, 10]);
+    expect(exc.mfePct).toBeCloseTo(((103 - entry) / entry) * 100, 10);
+    expect(exc.maePct).toBeCloseTo(((entry - 98) / entry) * 100, 10);
+  });
+
+  it("short mirrors favorable/adverse; neutral follows the long branch (v0 convention)", () => {
+    const short = excursions(candles, entry, -1);
+    expect([short.mfeAtMinutes, short.maeAtMinutes]).toEqual([10, 5]);
+    const neutral = excursions(candles, entry, 0);
+    expect([neutral.mfeAtMinutes, neutral.maeAtMinutes]).toEqual([5, 10]);
+  });
+});
+
+describe("governed-fact symbol translation", () => {
+  it("maps by the market fact, honors the legacy .P suffix, and refuses to guess", () => {
+    expect(toCcxtSymbol("BTC/USDT", "perp")).toBe("BTC/USDT:USDT");
+    expect(toCcxtSymbol("BTC/USDT", "spot")).toBe("BTC/USDT");
+    expect(toCcxtSymbol("BTC/USDT.P", undefined)).toBe("BTC/USDT:USDT");
+    expect(toCcxtSymbol("BTC/USDT", undefined)).toBeNull();
+    expect(toCcxtSymbol("BTCUSDT", "perp")).toBeNull();
+  });
+});
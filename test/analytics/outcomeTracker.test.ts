@@ -0,0 +1,167 @@
+/**
+ * Outcome tracker — the capture contract:
+ *  - rows are written only for horizons that have elapsed, once per
+ *    (signalId, horizon): a second pass writes nothing;
+ *  - candles come from the registered price source the tracker is pointed at,
+ *    fetched with the window anchored by `until`;
+ *  - retired-law (pre-cutover / unstamped), unmappable and unsupported-market
+ *    docs are skipped; a bad window fails that row only;
+ *  - the placeholder-shipped guard refuses a future cutover over stamped docs;
+ *  - aggregates report per-strategy hit rate / mean signed return / MFE / MAE.
+ */
+import { describe, it, expect, afterEach } from "@jest/globals";
+import type { OHLCVCandle, PriceFeedAdapter } from "../../src/adapters/exchanges/types.js";
+import { registerPriceFeedAdapterForTests } from "../../src/adapters/exchanges/priceFeedRegistry.js";
+import {
+  createMemoryOutcomeStore,
+  OutcomeTracker,
+  type OutcomeContextDoc,
+  type OutcomeStoreSession,
+} from "../../src/analytics/outcomeTracker.js";
+
+const M = 60_000;
+const T0 = Date.parse("2026-08-04T01:00:00Z");
+const CUTOVER = "2026-08-01T00:00:00Z";
+
+/** A steady 5m uptrend: close +1 per candle, ±0.5 wicks. */
+const SERIES: OHLCVCandle[] = Array.from({ length: 400 }, (_, i) => {
+  const close = 100 + i;
+  return { timestamp: T0 - 30 * M + i * 5 * M, open: close - 0.25, high: close + 0.5, low: close - 0.5, close, volume: 1 };
+});
+
+function scriptedFeed(id: string, opts: { supportsSpot?: boolean; dropBefore?: number } = {}) {
+  const calls: Array<{ symbol: string; since?: number; until?: number; limit?: number }> = [];
+  const feed: PriceFeedAdapter = {
+    id,
+    name: "Scripted outcome feed",
+    supportsPerps: true,
+    supportsSpot: opts.supportsSpot ?? false,
+    async getOHLCV({ symbol, since, limit, until }) {
+      calls.push({ symbol, since, until, limit });
+      return SERIES.filter(
+        (c) =>
+          (since === undefined || c.timestamp >= since) &&
+          (until === undefined || c.timestamp <= until) &&
+          (opts.dropBefore === undefined || c.timestamp >= opts.dropBefore)
+      ).slice(0, limit);
+    },
+    async getTicker(symbol) {
+      return { symbol, last: SERIES[0].close, timestamp: SERIES[0].timestamp };
+    },
+  };
+  return { feed, calls };
+}
+
+const ctx = (signalId: string, overrides: Partial<OutcomeContextDoc> = {}): OutcomeContextDoc => ({
+  signalId,
+  capturedAt: new Date(T0).toISOString(),
+  meta: { symbol: "BTC/USDT", direction: "long", strategy: "trend_pullback_v1", market: "perp" },
+  decayParams: { halfLifeMinutes: 60, greeksTemplateId: "decay-intraday-v1" },
+  ...overrides,
+});
+
+let unregister: (() => void) | null = null;
+afterEach(() => {
+  unregister?.();
+  unregister = null;
+});
+
+function trackerOver(contexts: OutcomeContextDoc[], feedOpts: Parameters<typeof scriptedFeed>[1] = {}, now = T0 + 70 * M) {
+  const { feed, calls } = scriptedFeed("outcome-test", feedOpts);
+  unregister = registerPriceFeedAdapterForTests(feed);
+  const store = createMemoryOutcomeStore(contexts);
+  const tracker = new OutcomeTracker({
+    session: (fn) => fn(store),
+    source: "outcome-test",
+    cutoverIso: CUTOVER,
+    now: () => now,
+  });
+  return { tracker, store, calls };
+}
+
+describe("outcome tracker", () => {
+  it("writes one row per elapsed horizon, idempotently, from the configured price source", async () => {
+    const swing = ctx("sig-swing", { decayParams: { halfLifeMinutes: 720, greeksTemplateId: "decay-swing-v1" } });
+    const { tracker, store, calls } = trackerOver([ctx("sig-1"), swing]);
+
+    expect(await tracker.runOnce()).toEqual({ written: 3, skipped: 3, skippedRetired: 0, failed: 0, mixedLaw: 0 });
+    const rows = store.rows();
+    expect(rows.map((r) => r.horizon)).toEqual(["15m", "30m", "1h"]);
+    const h1 = rows[2];
+    expect(h1).toMatchObject({
+      schema: "afi.operational.signal-outcome.v0.1",
+      signalId: "sig-1",
+      horizonBasis: "decay-derived",
+      decayRef: { greeksTemplateId: "decay-intraday-v1", halfLifeMinutes: 60, fractionOfHalfLife: 1 },
+      strategy: "trend_pullback_v1",
+      ccxtSymbol: "BTC/USDT:USDT",
+      source: "outcome-test",
+      candleTimeframe: "5m",
+    });
+    // Entry: the candle closing at capture; exit: the one opening at T0+1h.
+    expect(h1.entryPrice).toBe(105);
+    expect(h1.exitPrice).toBe(118);
+    expect(h1.signedReturnPct).toBeCloseTo((13 / 105) * 100, 10);
+    expect(calls[2]).toEqual({ symbol: "BTC/USDT", since: T0 - 5 * M, until: T0 + 65 * M, limit: 15 });
+
+    expect(await tracker.runOnce()).toMatchObject({ written: 0, skipped: 6 });
+    expect(store.rows()).toHaveLength(3);
+  });
+
+  it("skips retired-law, unmappable and unsupported-market docs, and isolates a bad window", async () => {
+    const { tracker, store } = trackerOver(
+      [
+        ctx("sig-pre", { capturedAt: "2026-07-31T00:00:00.000Z" }),
+        ctx("sig-unstamped", { decayParams: null }),
+        ctx("sig-no-market", { meta: { symbol: "BTC/USDT", direction: "long" } }),
+        ctx("sig-spot", { meta: { symbol: "BTC/USDT", direction: "long", market: "spot" } }),
+        ctx("sig-legacy-suffix", { meta: { symbol: "ETH/USDT.P", direction: "short" } }),
+      ],
+      // Front-truncated: nothing before the capture instant.
+      { dropBefore: T0 + 5 * M }
+    );
+    expect(await tracker.runOnce()).toEqual({ written: 0, skipped: 2, skippedRetired: 2, failed: 3, mixedLaw: 0 });
+    expect(store.rows()).toEqual([]);
+  });
+
+  it("refuses a future cutover while post-deploy stamps exist, unless legacy law is accepted", async () => {
+    const { feed } = scriptedFeed("outcome-test");
+    unregister = registerPriceFeedAdapterForTests(feed);
+    const store = createMemoryOutcomeStore([ctx("sig-1")]);
+    const session: OutcomeStoreSession = (fn) => fn(store);
+    const options = { session, source: "outcome-test", cutoverIso: "2099-01-01T00:00:00Z", now: () => T0 + 70 * M };
+    await expect(new OutcomeTracker(options).runOnce()).rejects.toThrow(/cutover was not set at deploy/);
+    expect(await new OutcomeTracker({ ...options, allowLegacyLaw: true }).runOnce()).toMatchObject({
+      written: 0,
+      skippedRetired: 1,
+    });
+    expect(() => new OutcomeTracker({ ...options, cutoverIso: "not-a-date" })).toThrow(/does not parse/);
+  });
+
+  it("aggregates hit rate, mean signed return, MFE and MAE per strategy and horizon", async () => {
+    const { tracker } = trackerOver([
+      ctx("sig-long"),
+      ctx("sig-short", { meta: { symbol: "BTC/USDT", direction: "short", strategy: "trend_pullback_v1", market: "perp" } }),
+      ctx("sig-neutral", { meta: { symbol: "BTC/USDT", direction: "neutral", strategy: "breakout_v1", market: "perp" } }),
+    ]);
+    await tracker.runOnce();
+
+    const all = await tracker.aggregates();
+    expect(all.map((a) => [a.strategy, a.horizon])).toEqual([
+      ["breakout_v1", "15m"],
+      ["breakout_v1", "30m"],
+      ["breakout_v1", "1h"],
+      ["trend_pullback_v1", "15m"],
+      ["trend_pullback_v1", "30m"],
+      ["trend_pullback_v1", "1h"],
+    ]);
+    expect(all[0]).toMatchObject({ samples: 1, directional: 0, hitRate: null, meanSignedReturnPct: null });
+
+    const [h1] = await tracker.aggregates({ strategy: "trend_pullback_v1", horizon: "1h" });
+    expect(h1).toMatchObject({ samples: 2, directional: 2, hitRate: 0.5 });
+    expect(h1.meanSignedReturnPct).toBeCloseTo(0, 10);
+    // Long and short mirror each other on the same window.
+    expect(h1.meanMfePct).toBeCloseTo((((118.5 - 105) + (105 - 104.5)) / 105) * 50, 10);
+    expect(h1.meanMaePct).toBeCloseTo(h1.meanMfePct as number, 10);
+  });
+});
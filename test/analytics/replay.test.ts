@@ -0,0 +1,212 @@
+/**
+ * Offline replay — the reproducibility contract over captured scoring
+ * contexts:
+ *  - a row captured from a live pass replays to the SAME executionSummaryHash,
+ *    enrichmentHash and analyst score (scoredAt excluded);
+ *  - a tampered recording or a changed scorer is reported as per-field drift;
+ *  - a row whose composition is no longer registered, or that carries no lane
+ *    recording, is unreplayable — never re-scored under another graph.
+ * The composition here is a two-lane test graph (technical → news, both
+ * joined at a test scorer); the replay path is the production one.
+ */
+import { describe, it, expect } from "@jest/globals";
+import type { RuntimeComposition } from "../../src/config/runtimeComposition.js";
+import { GraphExecutor } from "../../src/pipeline/executor.js";
+import { computeAnalystConfigHash, computeManifestHash } from "../../src/pipeline/hashing.js";
+import type { PipelineManifest } from "../../src/pipeline/manifestTypes.js";
+import { ok, SILENT_NODE_LOGGER, type AnalysisNodePlugin } from "../../src/pipeline/nodeSdk.js";
+import { createPluginRegistry } from "../../src/pipeline/pluginRegistry.js";
+import type { ResolvedStrategy } from "../../src/pipeline/registryLoader.js";
+import { scoreRegisteredStrategyFromCanonicalUss } from "../../src/services/graphScoringService.js";
+import {
+  parseScoringContextJsonl,
+  replayScoringContext,
+  type ScoringContextDoc,
+} from "../../src/analytics/replay.js";
+import type { CanonicalUss } from "../../src/types/canonicalUss.js";
+
+const MANIFEST: PipelineManifest = {
+  schema: "afi.pipeline.v1",
+  pipelineId: "replay-probe",
+  pipelineVersion: "1.0.0",
+  entry: "technical",
+  nodes: [
+    { id: "technical", category: "technical", pluginId: "probe-technical", pluginVersion: "1.0.0", critical: true },
+    {
+      id: "news",
+      category: "news",
+      pluginId: "probe-news",
+      pluginVersion: "1.0.0",
+      critical: false,
+      failurePolicy: "degrade",
+      maxRetries: 0,
+    },
+    {
+      id: "scorer",
+      category: "scorer",
+      pluginId: "probe-scorer",
+      pluginVersion: "1.0.0",
+      critical: true,
+      join: { policy: "all", merge: { strategy: "namespace-by-node", conflictRule: "error" } },
+    },
+  ],
+  edges: [
+    { from: "technical", to: "news" },
+    { from: "technical", to: "scorer" },
+    { from: "news", to: "scorer", optional: true },
+  ],
+};
+
+const CONFIG = { scorerRef: { pluginId: "probe-scorer", pluginVersion: "1.0.0" }, uwrProfileRef: { profileId: "probe" } };
+
+/** Live lanes: a deterministic technical reading and a news lane that can be switched off. */
+function liveLanes(newsUp = true): AnalysisNodePlugin[] {
+  return [
+    {
+      manifestRef: { pluginId: "probe-technical", pluginVersion: "1.0.0" },
+      async run() {
+        return ok({ category: "technical", priceSource: "probe", candles: [], technical: { ema20: 101, ema50: 99, rsi14: 62, trendBias: "bullish" } });
+      },
+    },
+    {
+      manifestRef: { pluginId: "probe-news", pluginVersion: "1.0.0" },
+      async run() {
+        if (!newsUp) throw new Error("news provider down");
+        return ok({ category: "news", news: { hasShockEvent: false, shockDirection: "none", headlines: ["calm"] } });
+      },
+    },
+  ];
+}
+
+function probeScorer(weight = 1): AnalysisNodePlugin {
+  return {
+    manifestRef: { pluginId: "probe-scorer", pluginVersion: "1.0.0" },
+    async run(input) {
+      const parents = (input as { parents: Record<string, { technical?: { rsi14: number } } | undefined> }).parents;
+      const rsi = parents.technical?.technical?.rsi14 ?? 0;
+      const categories = Object.keys(parents).filter((id) => parents[id] !== undefined && Object.keys(parents[id]!).length > 0);
+      return ok({
+        analysis: {
+          analystScore: { uwrScore: (rsi / 100) * weight, categories: categories.length, scoredAt: new Date().toISOString() },
+        },
+        uwrResolvedSource: "builtin",
+        lenses: [{ type: "technical", version: "v1", payload: parents.technical?.technical }],
+        enrichmentMeta: { categories: categories.sort() },
+      });
+    },
+  };
+}
+
+function composition(plugins: AnalysisNodePlugin[], manifest: PipelineManifest = MANIFEST): {
+  composition: RuntimeComposition;
+  resolved: ResolvedStrategy;
+} {
+  const registry = createPluginRegistry(plugins);
+  const resolved = {
+    registration: { analystId: "probe", strategyId: "replay_probe", strategyVersion: "1.0.0" },
+    config: CONFIG,
+    pipeline: manifest,
+    manifestHash: computeManifestHash(manifest),
+    analystConfigHash: computeAnalystConfigHash(CONFIG),
+    pluginSetHash: { algorithm: "sha256", value: "0".repeat(64) },
+    plugins: new Map(),
+    decay: { kind: "ratio", barsPerHalfLife: 10 },
+  } as unknown as ResolvedStrategy;
+  return {
+    resolved,
+    composition: {
+      runtime: {
+        registries: { analysisPlugins: new Map() },
+        strategies: new Map([["probe/replay_probe@1.0.0", resolved]]),
+        bindings: new Map(),
+      },
+      pluginRegistry: registry,
+      executor: new GraphExecutor({ registry, logger: SILENT_NODE_LOGGER }),
+      providerRecordStore: {},
+      providerRuntime: {},
+    } as unknown as RuntimeComposition,
+  };
+}
+
+const SIGNAL = {
+  provenance: { signalId: "sig-replay-1" },
+  facts: { symbol: "BTC/USDT", timeframe: "1h", strategy: "replay_probe", direction: "long" },
+} as unknown as CanonicalUss;
+
+/** Score live and capture the row exactly as server.ts hands it to the store (JSON round-trip = the store). */
+async function capture(newsUp = true): Promise<ScoringContextDoc> {
+  const { composition: live, resolved } = composition([...liveLanes(newsUp), probeScorer()]);
+  const run = await scoreRegisteredStrategyFromCanonicalUss(SIGNAL, resolved, live);
+  return JSON.parse(
+    JSON.stringify({
+      signalId: run.scored.signalId,
+      rawUss: run.scored.rawUss,
+      compositionRef: run.composition,
+      analystScore: run.scored.analystScore,
+      laneResults: run.invocations.laneResults,
+    })
+  );
+}
+
+/** The replay side: live merge/scorer bindings, lanes that must never be called. */
+function replayComposition(weight = 1, manifest?: PipelineManifest): RuntimeComposition {
+  const explode: AnalysisNodePlugin[] = liveLanes().map((p) => ({
+    manifestRef: p.manifestRef,
+    async run() {
+      throw new Error("a live provider was invoked during replay");
+    },
+  }));
+  return composition([...explode, probeScorer(weight)], manifest).composition;
+}
+
+describe("offline replay of captured scoring contexts", () => {
+  it("a captured run replays to identical hashes and score", async () => {
+    const doc = await capture();
+    const report = await replayScoringContext(doc, replayComposition());
+    expect(report).toEqual({ signalId: "sig-replay-1", status: "match", drift: [] });
+  });
+
+  it("a lane that failed live fails again in replay (same summary)", async () => {
+    const doc = await capture(false);
+    expect(doc.laneResults).not.toHaveProperty("news");
+    expect((await replayScoringContext(doc, replayComposition())).status).toBe("match");
+  });
+
+  it("reports per-field drift", async () => {
+    const doc = await capture();
+    const tampered = structuredClone(doc);
+    (tampered.laneResults!.technical as { technical: { rsi14: number } }).technical.rsi14 = 70;
+    delete tampered.laneResults!.news;
+    const report = await replayScoringContext(tampered, replayComposition());
+    expect(report.status).toBe("drift");
+    expect(report.drift.map((d) => d.field)).toEqual(["executionSummaryHash", "enrichmentHash", "analystScore"]);
+
+    const rescored = await replayScoringContext(doc, replayComposition(0.5));
+    expect(rescored.drift).toEqual([
+      { field: "analystScore", captured: doc.analystScore, replayed: expect.objectContaining({ uwrScore: 0.31 }) },
+    ]);
+  });
+
+  it("is unreplayable without a lane recording or under an unregistered composition", async () => {
+    const doc = await capture();
+    const { laneResults: _dropped, ...legacy } = doc;
+    expect(await replayScoringContext(legacy, replayComposition())).toMatchObject({
+      status: "unreplayable",
+      reason: expect.stringMatching(/lane results/),
+    });
+    const moved = replayComposition(1, { ...MANIFEST, pipelineVersion: "1.0.1" });
+    expect(await replayScoringContext(doc, moved)).toMatchObject({
+      status: "unreplayable",
+      reason: expect.stringMatching(/not registered/),
+    });
+  });
+
+  it("parses exported JSONL and refuses malformed lines", () => {
+    expect(parseScoringContextJsonl('{"signalId":"a"}\n\n{"signalId":"b"}\n')).toEqual([
+      { signalId: "a" },
+      { signalId: "b" },
+    ]);
+    expect(() => parseScoringContextJsonl('{"signalId":"a"}\n{nope')).toThrow(/line 2: not JSON/);
+    expect(() => parseScoringContextJsonl('{"id":"a"}')).toThrow(/line 1: not a scoring_context row/);
+  });
+});
@@ -93,6 +93,24 @@ describe("operational scoring-context capture", () => {
     expect(doc.compositionRef).toEqual(compositionRef);
   });
 
+  it("records the lane results the join consumed (the offline replay's recording)", async () => {
+    const updates: Array<{ update: unknown }> = [];
+    __setAnalyticsCollectionForTests(async () =>
+      ({
+        updateOne: async (_f: unknown, update: unknown) => {
+          updates.push({ update });
+          return { acknowledged: true };
+        },
+      }) as never
+    );
+
+    const laneResults = { technical: { category: "technical", priceSource: "blofin", candles: [] } };
+    await captureScoringContext(scored(), { outcome: "inserted" }, "cpj", undefined, laneResults);
+
+    const doc = (updates[0].update as { $setOnInsert: Record<string, unknown> }).$setOnInsert;
+    expect(doc.laneResults).toEqual(laneResults);
+  });
+
   it("omits nothing else when the caller passes no compositionRef (additive field)", async () => {
     const updates: Array<{ update: unknown }> = [];
     __setAnalyticsCollectionForTests(async () =>
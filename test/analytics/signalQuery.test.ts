@@ -0,0 +1,146 @@
+/**
+ * Signal read side — the view contract:
+ *  - a view projects the scoring context (meta, score, composition ref) and
+ *    copies the sealed evidence record's hashes, never recomputing them;
+ *  - lanes are the union of captured lane results and evidence proofs,
+ *    ascending by category;
+ *  - a signal without an evidence record reads back with `evidence: null`;
+ *  - queries filter by strategy / symbol / capture window, newest first,
+ *    and malformed queries are rejected as SignalQueryError (HTTP 400).
+ */
+import { describe, it, expect } from "@jest/globals";
+import {
+  createMemorySignalQueryPort,
+  getSignalView,
+  listSignalViews,
+  parseSignalQuery,
+  SignalQueryError,
+  type EvidenceRecordLike,
+  type ScoringContextRecord,
+} from "../../src/analytics/signalQuery.js";
+import type { CanonicalHashRef } from "../../src/pipeline/hashing.js";
+import type { CompositionRefV1 } from "../../src/pipeline/manifestTypes.js";
+import type { ProviderInvocationProofV1 } from "../../src/providers/invocationProof.js";
+
+const hash = (c: string): CanonicalHashRef => ({
+  algorithm: "sha256",
+  canonicalizationVersion: "afi.hash.v1",
+  domainTag: "afi.d2.evidence-record",
+  value: c.repeat(64),
+});
+
+const COMPOSITION = {
+  schema: "afi.composition-ref.v1",
+  pipelineId: "froggy-trend-pullback",
+  pipelineVersion: "1.0.0",
+  manifestHash: hash("1"),
+} as unknown as CompositionRefV1;
+
+const ctx = (signalId: string, capturedAt: string, meta: ScoringContextRecord["meta"]): ScoringContextRecord => ({
+  signalId,
+  capturedAt,
+  route: "tradingview-webhook",
+  scoredAt: capturedAt,
+  meta,
+  compositionRef: COMPOSITION,
+  analystScore: { uwrScore: 0.61 },
+  laneResults: { technical: { category: "technical" }, news: { category: "news" } },
+});
+
+const proof = (category: string, providerId: string, c: string, priceSource?: string) =>
+  ({
+    category,
+    provider: { providerId },
+    providerInstance: { providerInstanceId: `pi-${category}` },
+    adapter: { adapterId: `adapter-${category}`, adapterVersion: "1.0.0" },
+    categoryResultHash: hash(c),
+    ...(priceSource ? { priceSource } : {}),
+  }) as unknown as ProviderInvocationProofV1;
+
+const EVIDENCE: EvidenceRecordLike = {
+  signalId: "sig-a",
+  analystId: "froggy",
+  strategyId: "trend_pullback_v1",
+  strategyVersion: "1.0.0",
+  recordHash: hash("a"),
+  replayHash: hash("b"),
+  providerInvocations: [proof("aiMl", "tiny-brains", "c"), proof("technical", "technical-local", "d", "blofin")],
+};
+
+const PORT = createMemorySignalQueryPort({
+  contexts: [
+    ctx("sig-a", "2026-08-05T10:00:00.000Z", { symbol: "BTC/USDT", strategy: "trend_pullback_v1", direction: "long" }),
+    ctx("sig-b", "2026-08-05T12:00:00.000Z", { symbol: "ETH/USDT", strategy: "trend_pullback_v1", direction: "short" }),
+    ctx("sig-c", "2026-08-06T09:00:00.000Z", { symbol: "BTC/USDT", strategy: "breakout_v1", direction: "long" }),
+  ],
+  evidence: [EVIDENCE],
+});
+
+describe("signal read side", () => {
+  it("projects the scoring context, composition ref, lane summaries and evidence hashes", async () => {
+    const view = await getSignalView(PORT, "sig-a");
+    expect(view).toMatchObject({
+      schema: "afi.operational.signal-view.v0",
+      signalId: "sig-a",
+      meta: { symbol: "BTC/USDT", strategy: "trend_pullback_v1" },
+      analystScore: { uwrScore: 0.61 },
+      compositionRef: COMPOSITION,
+      evidence: {
+        analystId: "froggy",
+        strategyId: "trend_pullback_v1",
+        strategyVersion: "1.0.0",
+        recordHash: hash("a"),
+        replayHash: hash("b"),
+      },
+    });
+    expect(view?.lanes).toEqual([
+      {
+        category: "aiMl",
+        captured: false,
+        providerId: "tiny-brains",
+        providerInstanceId: "pi-aiMl",
+        adapterId: "adapter-aiMl",
+        adapterVersion: "1.0.0",
+        categoryResultHash: hash("c"),
+      },
+      { category: "news", captured: true },
+      {
+        category: "technical",
+        captured: true,
+        providerId: "technical-local",
+        providerInstanceId: "pi-technical",
+        adapterId: "adapter-technical",
+        adapterVersion: "1.0.0",
+        priceSource: "blofin",
+        categoryResultHash: hash("d"),
+      },
+    ]);
+    // The raw lane payloads stay in the analytics store; the view summarizes.
+    expect(view).not.toHaveProperty("laneResults");
+  });
+
+  it("reads a signal without an evidence record, and misses an unknown one", async () => {
+    expect((await getSignalView(PORT, "sig-b"))?.evidence).toBeNull();
+    expect(await getSignalView(PORT, "sig-missing")).toBeNull();
+  });
+
+  it("filters by strategy, symbol and capture window, newest first", async () => {
+    const ids = async (query: Record<string, unknown>) =>
+      (await listSignalViews(PORT, parseSignalQuery(query))).map((v) => v.signalId);
+    expect(await ids({})).toEqual(["sig-c", "sig-b", "sig-a"]);
+    expect(await ids({ strategy: "trend_pullback_v1" })).toEqual(["sig-b", "sig-a"]);
+    expect(await ids({ symbol: "BTC/USDT" })).toEqual(["sig-c", "sig-a"]);
+    expect(await ids({ from: "2026-08-05T11:00:00Z", to: String(Date.parse("2026-08-06T09:00:00Z")) })).toEqual([
+      "sig-c",
+      "sig-b",
+    ]);
+    expect(await ids({ limit: "1" })).toEqual(["sig-c"]);
+  });
+
+  it("rejects malformed queries", () => {
+    expect(() => parseSignalQuery({ from: "yesterday" })).toThrow(SignalQueryError);
+    expect(() => parseSignalQuery({ from: "2026-08-06T00:00:00Z", to: "2026-08-05T00:00:00Z" })).toThrow(/after/);
+    expect(() => parseSignalQuery({ limit: "0" })).toThrow(/limit/);
+    expect(() => parseSignalQuery({ strategy: ["a", "b"] })).toThrow(/single/);
+  });
+});
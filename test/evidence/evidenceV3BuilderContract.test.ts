@@ -178,6 +178,21 @@ describe("EV3-GOV 15.1 — registry-identity law (boot-verified resolution agree
     expectReason(context, "registry-identity-mismatch");
   });
 
+  it("reason 'registry-identity-mismatch': the lane's provider selection attempted an instance outside its candidates", () => {
+    const context = makeContext();
+    const news = proofOf(context, "news").providerInstance;
+    context.invocations.providerSelections = {
+      news: {
+        policy: "first-success",
+        attempts: [
+          { providerInstanceId: "pi-rogue", recordVersion: "1.0.0", outcome: "failed", errorCode: "provider-invocation-failed" },
+          { providerInstanceId: news.providerInstanceId, recordVersion: news.recordVersion, outcome: "selected" },
+        ],
+      },
+    };
+    expectReason(context, "registry-identity-mismatch");
+  });
+
   it("reason 'proof-undeclared-category': a proof exists for a lane with no boot-verified binding (the composition does not declare it — CFG-GOV D-CFG-3)", () => {
     // Pre-CFG-GOV this tripped 'registry-identity-mismatch' at the identity
     // cross-check; the declared lane set is now DERIVED from the bindings, so
@@ -224,6 +239,23 @@ describe("EV3-GOV 15.1 — credential-binding law (keyless iff no credentialRef;
     };
     expectReason(context, "credential-binding-mismatch");
   });
+
+  it.each(["hmacSignature", "oauth2ClientCredentials", "basicAuth"] as const)(
+    "reason 'credential-kind-ungoverned': a %s proof (runtime-supported, not yet in the governed contract)",
+    (credentialKind) => {
+      const context = makeContext();
+      context.invocations.laneBindings.find((b) => b.category === "news")!.credentialRef =
+        "newsdata-key-tenant-a";
+      proofOf(context, "news").credential = {
+        mode: "credentialRef",
+        credentialKind,
+        credentialRef: "newsdata-key-tenant-a",
+        recordVersion: "1.0.0",
+        status: "active",
+      };
+      expectReason(context, "credential-kind-ungoverned");
+    }
+  );
 });
 
 describe("EV3-GOV 15.1 — result recomputation law (evidence never re-calls a provider)", () => {
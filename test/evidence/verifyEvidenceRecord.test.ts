@@ -0,0 +1,103 @@
+/**
+ * Independent evidence verification — the auditor's contract:
+ *  - a record built by the production builder verifies clean when its lane
+ *    results and raw USS are supplied;
+ *  - without them, the proof and inputHash checks are `skipped`, never `pass`;
+ *  - a tampered scoring value fails exactly the commitments covering it;
+ *  - a tampered lane result fails exactly that lane's proof hashes;
+ *  - a non-object record is a structured failure, never a throw.
+ */
+
+import { buildReactorEvidenceRecord } from "../../src/evidence/reactorEvidenceRecord.js";
+import {
+  verifyEvidenceRecord,
+  type EvidenceVerificationReport,
+} from "../../src/evidence/verifyEvidenceRecord.js";
+import { makeContext, makeLaneResults, makeScored } from "./support/evidenceV3World.js";
+
+const scored = makeScored();
+const baseline = () =>
+  JSON.parse(JSON.stringify(buildReactorEvidenceRecord(makeScored(), makeContext()))) as Record<string, unknown>;
+
+const failing = (report: EvidenceVerificationReport) =>
+  report.verdicts.filter((v) => v.status === "fail").map((v) => v.field);
+const statusOf = (report: EvidenceVerificationReport, field: string) =>
+  report.verdicts.find((v) => v.field === field)?.status;
+
+describe("verifyEvidenceRecord", () => {
+  it("verifies a builder-produced record end to end when its inputs are supplied", () => {
+    const report = verifyEvidenceRecord(baseline(), { laneResults: makeLaneResults(), rawUss: scored.rawUss });
+    expect(failing(report)).toEqual([]);
+    expect(report.ok).toBe(true);
+    expect(report.signalId).toBe("sig-reactor-unit-1");
+    expect(report.verdicts.some((v) => v.status === "skipped")).toBe(false);
+    expect(statusOf(report, "providerInvocations.technical.priceSource")).toBe("pass");
+  });
+
+  it("skips the checks whose inputs were not supplied", () => {
+    const report = verifyEvidenceRecord(baseline());
+    expect(statusOf(report, "recordHash")).toBe("pass");
+    expect(statusOf(report, "replayHash")).toBe("pass");
+    expect(statusOf(report, "provenanceRecord.outputHash")).toBe("pass");
+    expect(statusOf(report, "provenanceRecord.inputHash")).toBe("skipped");
+    expect(statusOf(report, "providerInvocations.aiMl.categoryResultHash")).toBe("skipped");
+    expect(statusOf(report, "providerInvocations.aiMl.providerResultHash")).toBe("skipped");
+  });
+
+  it("fails the record, replay and output commitments when a scoring value is tampered", () => {
+    const record = baseline();
+    (record.scoredSignal as Record<string, unknown>).uwrScore = 0.99;
+    const report = verifyEvidenceRecord(record, { laneResults: makeLaneResults(), rawUss: scored.rawUss });
+    expect(report.ok).toBe(false);
+    expect(failing(report).filter((f) => f !== "schema")).toEqual([
+      "recordHash",
+      "replayHash",
+      "provenanceRecord.outputHash",
+    ]);
+  });
+
+  it("moves only the recordHash when the lifecycle marker is tampered (outside the replay preimage)", () => {
+    const record = baseline();
+    record.lifecycleState = "CERTIFIED";
+    expect(failing(verifyEvidenceRecord(record)).filter((f) => f !== "schema")).toEqual(["recordHash"]);
+  });
+
+  it("fails exactly the tampered lane's proof hashes against the supplied lane results", () => {
+    const lanes = makeLaneResults();
+    lanes.news = { category: "news", news: { hasShockEvent: true, headlines: [] } };
+    const report = verifyEvidenceRecord(baseline(), { laneResults: lanes, rawUss: scored.rawUss });
+    expect(failing(report)).toEqual([
+      "providerInvocations.news.categoryResultHash",
+      "providerInvocations.news.providerResultHash",
+    ]);
+  });
+
+  it("fails the technical priceSource and the inputHash against mismatched inputs", () => {
+    const lanes = makeLaneResults();
+    lanes.technical = { ...lanes.technical, priceSource: "coinbase" };
+    const rawUss = { ...(scored.rawUss as Record<string, unknown>), facts: { symbol: "ETHUSDT" } };
+    const report = verifyEvidenceRecord(baseline(), { laneResults: lanes, rawUss });
+    expect(failing(report)).toEqual([
+      "provenanceRecord.inputHash",
+      "providerInvocations.technical.categoryResultHash",
+      "providerInvocations.technical.providerResultHash",
+      "providerInvocations.technical.priceSource",
+    ]);
+  });
+
+  it("fails mis-ordered proofs", () => {
+    const record = baseline();
+    record.providerInvocations = [...(record.providerInvocations as unknown[])].reverse();
+    expect(failing(verifyEvidenceRecord(record))).toContain("providerInvocations");
+  });
+
+  it("reports a non-object record as a structured failure", () => {
+    for (const value of [null, "record", [1, 2]]) {
+      const report = verifyEvidenceRecord(value);
+      expect(report).toMatchObject({ ok: false, signalId: null });
+      expect(report.verdicts).toEqual([
+        { field: "(root)", status: "fail", message: "evidence record must be a JSON object" },
+      ]);
+    }
+  });
+});
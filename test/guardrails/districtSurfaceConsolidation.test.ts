@@ -173,6 +173,9 @@ describe("FLPR-1: no classic direct-call category node may return", () => {
       "laneView.ts",
       "mergeEnrichedView.ts",
       "scorerFroggyTrendPullback.ts",
+      // A second scorer family (scorerSdk.ts): a scorer reads only the merged
+      // enriched view and invokes no provider, so it is no category lane.
+      "scorerRegimeBreakout.ts",
     ]);
   });
 });
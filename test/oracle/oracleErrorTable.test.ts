@@ -58,6 +58,12 @@ import {
   initDedupeCache,
   shutdownDedupeCache,
 } from "../../src/services/ingestDedupeService.js";
+import {
+  DEFAULT_INGEST_JOB_QUEUE_CONFIG,
+  IngestJobQueue,
+  __setIngestJobQueueForTests,
+  shutdownIngestJobQueue,
+} from "../../src/services/ingestJobQueue.js";
 import {
   __resetUwrRuntimeConfigForTests,
   UWR_PROFILE_SOURCE_ENV,
@@ -360,4 +366,28 @@ describe("oracle error table — persistence honesty (503/409/200-idempotent)",
       shutdownDedupeCache();
     }
   });
+
+  it("cpj async ingest refused by a full queue → 503, and the retry is accepted (not a 409 duplicate)", async () => {
+    setEvidenceStore(new OracleEvidenceStore());
+    process.env.AFI_INGEST_DEDUPE = "1";
+    initDedupeCache();
+    __setIngestJobQueueForTests(new IngestJobQueue({ ...DEFAULT_INGEST_JOB_QUEUE_CONFIG, maxPending: 0 }));
+    try {
+      const payload = loadFixture("cpj/cpj-blofin-perp-long.json");
+      const refused = await request(app).post(`${CPJ}?async=1`).send(payload);
+      expect(refused.status).toBe(503);
+      expect(refused.headers["retry-after"]).toBeDefined();
+
+      __setIngestJobQueueForTests(new IngestJobQueue());
+      const retry = await request(app).post(`${CPJ}?async=1`).send(payload);
+      expect(retry.status).toBe(202);
+
+      const dup = await request(app).post(`${CPJ}?async=1`).send(payload);
+      expect(dup.status).toBe(409); // accepted once → recorded
+    } finally {
+      await shutdownIngestJobQueue();
+      delete process.env.AFI_INGEST_DEDUPE;
+      shutdownDedupeCache();
+    }
+  }, 15000);
 });
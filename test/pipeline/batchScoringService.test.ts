@@ -0,0 +1,305 @@
+/**
+ * Batch scoring (src/services/batchScoringService.ts): the envelope bounds,
+ * per-item gates identical to the single routes, bounded in-order execution
+ * where one item's failure never reaches its siblings, and the shared-candle
+ * scope that lets items on the same window share one upstream fetch.
+ */
+import { jest } from "@jest/globals";
+
+// Repo idiom (see graphProofs.test.ts): no ccxt request is ever issued.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return {
+    __esModule: true,
+    default: { blofin: UnusedExchange, coinbase: UnusedExchange },
+  };
+});
+
+import { candleCacheReportOf } from "../../src/adapters/exchanges/cachingPriceFeedAdapter.js";
+import {
+  getPriceFeedAdapter,
+  registerPriceFeedAdapterForTests,
+} from "../../src/adapters/exchanges/priceFeedRegistry.js";
+import { withSharedCandleFetches } from "../../src/adapters/exchanges/sharedCandleFetches.js";
+import type { OHLCVCandle, PriceFeedAdapter } from "../../src/adapters/exchanges/types.js";
+import { StrategyResolutionError } from "../../src/config/strategyResolution.js";
+import type { ProviderStrategyBinding } from "../../src/pipeline/manifestTypes.js";
+import type { ValidatedRuntimeConfig } from "../../src/pipeline/registryLoader.js";
+import {
+  DEFAULT_SCORE_BATCH_CONFIG,
+  ScoreBatchItemError,
+  ScoreBatchRequestError,
+  parseScoreBatchRequest,
+  prepareBatchItem,
+  runScoreBatch,
+  scoreBatchBodyLimit,
+  scoreBatchConfigFromEnv,
+  type BatchItemValidators,
+} from "../../src/services/batchScoringService.js";
+import type { IngestJobOutcome } from "../../src/services/ingestJobQueue.js";
+
+const TRIPLE = { analystId: "froggy", strategyId: "trend_pullback_v1", strategyVersion: "1.0.0" };
+const VALID: BatchItemValidators = { uss: () => ({ ok: true }), cpj: () => ({ ok: true }) };
+
+function binding(providerId: string, providerType: ProviderStrategyBinding["providerType"]): ProviderStrategyBinding {
+  return {
+    schema: "afi.provider-strategy-binding.v1",
+    bindingId: `${providerId}-binding`,
+    providerId,
+    providerType,
+    authenticatedBy: "route-secret",
+    allowedStrategies: [TRIPLE],
+    defaultStrategy: TRIPLE,
+    status: "active",
+  };
+}
+
+const RUNTIME = {
+  strategies: new Map([
+    ["froggy/trend_pullback_v1@1.0.0", { registration: { strategyId: "trend_pullback_v1" } }],
+    ["froggy/breakout_v1@1.0.0", { registration: { strategyId: "breakout_v1" } }],
+  ]),
+  bindings: new Map([
+    ["tv", binding("tv-provider", "webhook")],
+    ["tg", binding("tg-channel", "cpj")],
+  ]),
+} as unknown as ValidatedRuntimeConfig;
+
+function uss(providerId: string, source: string, strategy?: string) {
+  return {
+    schema: "afi.usignal.v1.1",
+    provenance: { source, providerId, signalId: `${providerId}-sig` },
+    facts: { symbol: "BTC/USDT", timeframe: "1h", ...(strategy ? { strategy } : {}) },
+  };
+}
+
+function cpj(symbolRaw: string) {
+  return {
+    schema: "afi.cpj.v0.1",
+    provenance: { providerType: "telegram", providerId: "tg-channel", messageId: "m1", postedAt: "2026-01-01T00:00:00Z" },
+    extracted: { symbolRaw, side: "long" },
+    parse: { parserId: "p", parserVersion: "1", confidence: 0.9 },
+  };
+}
+
+function countingFeed(id: string, failFirst = false) {
+  const calls: string[] = [];
+  let failures = failFirst ? 1 : 0;
+  const feed: PriceFeedAdapter = {
+    id,
+    name: "Counting",
+    supportsPerps: true,
+    supportsSpot: true,
+    async getOHLCV({ symbol, limit }) {
+      calls.push(symbol);
+      await new Promise((r) => setTimeout(r, 5));
+      if (failures > 0) {
+        failures -= 1;
+        throw new Error("exchange timeout");
+      }
+      return Array.from(
+        { length: limit ?? 100 },
+        (_, i): OHLCVCandle => ({ timestamp: i, open: 1, high: 1, low: 1, close: 1, volume: 1 })
+      );
+    },
+    async getTicker(symbol) {
+      return { symbol, last: 1, timestamp: 0 };
+    },
+  };
+  return { feed, calls };
+}
+
+describe("parseScoreBatchRequest", () => {
+  it("admits a bounded items array and caps the requested concurrency at the config", () => {
+    const config = { maxItems: 3, concurrency: 4 };
+    expect(parseScoreBatchRequest({ items: [1, 2] }, config)).toEqual({ items: [1, 2], persist: true, concurrency: 4 });
+    expect(parseScoreBatchRequest({ items: [1], persist: false, concurrency: 2 }, config)).toMatchObject({
+      persist: false,
+      concurrency: 2,
+    });
+    expect(parseScoreBatchRequest({ items: [1], concurrency: 64 }, config).concurrency).toBe(4);
+
+    const refusals: Array<[unknown, RegExp]> = [
+      [[1, 2], /JSON object/],
+      [{ items: [] }, /non-empty array/],
+      [{ items: [1, 2, 3, 4] }, /at most 3 are admitted/],
+      [{ items: [1], persist: "no" }, /`persist` must be a boolean/],
+      [{ items: [1], concurrency: 0 }, /`concurrency` must be an integer >= 1/],
+    ];
+    for (const [body, message] of refusals) {
+      expect(() => parseScoreBatchRequest(body, config)).toThrow(ScoreBatchRequestError);
+      expect(() => parseScoreBatchRequest(body, config)).toThrow(message);
+    }
+  });
+
+  it("reads its bounds from the environment and refuses malformed values", () => {
+    expect(scoreBatchConfigFromEnv({})).toEqual(DEFAULT_SCORE_BATCH_CONFIG);
+    expect(scoreBatchConfigFromEnv({ AFI_SCORE_BATCH_MAX_ITEMS: "50", AFI_SCORE_BATCH_CONCURRENCY: "8" })).toEqual({
+      maxItems: 50,
+      concurrency: 8,
+    });
+    expect(() => scoreBatchConfigFromEnv({ AFI_SCORE_BATCH_CONCURRENCY: "1.5" })).toThrow(
+      /AFI_SCORE_BATCH_CONCURRENCY must be a positive integer/
+    );
+  });
+
+  it("sizes the route's body limit from the item bound, well past the global 100 KB", () => {
+    expect(scoreBatchBodyLimit(DEFAULT_SCORE_BATCH_CONFIG)).toBe(501 * 16 * 1024);
+    expect(scoreBatchBodyLimit({ maxItems: 1, concurrency: 1 })).toBe(32 * 1024);
+  });
+});
+
+describe("prepareBatchItem", () => {
+  it("resolves a USS through its provider's binding (cpj-sourced USS as a cpj provider)", () => {
+    const webhook = prepareBatchItem(uss("tv-provider", "tradingview-webhook", "trend_pullback_v1"), RUNTIME, VALID);
+    expect(webhook.kind).toBe("uss");
+    expect(webhook.resolution.binding.bindingId).toBe("tv-provider-binding");
+    expect(webhook.resolution.triple).toEqual(TRIPLE);
+
+    const fromCpj = prepareBatchItem(uss("tg-channel", "cpj-telegram"), RUNTIME, VALID);
+    expect(fromCpj.resolution.binding.bindingId).toBe("tg-channel-binding");
+
+    expect(() => prepareBatchItem(uss("tg-channel", "tradingview-webhook"), RUNTIME, VALID)).toThrow(
+      StrategyResolutionError
+    );
+  });
+
+  it("refuses a USS whose facts.strategy is not the strategy its binding resolves", () => {
+    expect(() => prepareBatchItem(uss("tv-provider", "tradingview-webhook", "breakout_v1"), RUNTIME, VALID)).toThrow(
+      expect.objectContaining({ code: "unauthorized_strategy" })
+    );
+    const freeText = () => prepareBatchItem(uss("tv-provider", "tradingview-webhook", "my notes"), RUNTIME, VALID);
+    expect(freeText).toThrow(ScoreBatchItemError);
+    expect(freeText).toThrow(expect.objectContaining({ httpStatus: 422, code: "strategy_mismatch" }));
+  });
+
+  it("maps a CPJ to USS with the binding's resolved strategy", () => {
+    const prepared = prepareBatchItem(cpj("BTCUSDT"), RUNTIME, VALID);
+    expect(prepared.kind).toBe("cpj");
+    expect(prepared.uss.provenance.source).toBe("cpj-telegram");
+    expect(prepared.uss.facts).toMatchObject({ symbol: "BTC/USDT", strategy: "trend_pullback_v1" });
+  });
+
+  it("answers each refusal with its single route's status and discriminator", () => {
+    const invalid: BatchItemValidators = {
+      uss: () => ({ ok: false, errors: [{ field: "/provenance", message: "required" }] }),
+      cpj: () => ({ ok: false, errors: [{ field: "/extracted", message: "required" }] }),
+    };
+    const cases: Array<[unknown, BatchItemValidators, number, string]> = [
+      [uss("tv-provider", "tradingview-webhook"), invalid, 400, "invalid_uss"],
+      [cpj("BTCUSDT"), invalid, 400, "invalid_cpj"],
+      [cpj("???"), VALID, 422, "symbol_normalization_failed"],
+      [{ schema: "afi.usignal.v1.0" }, VALID, 400, "unsupported_batch_item"],
+      [null, VALID, 400, "unsupported_batch_item"],
+    ];
+    for (const [item, validators, httpStatus, code] of cases) {
+      expect(() => prepareBatchItem(item, RUNTIME, validators)).toThrow(expect.objectContaining({ httpStatus, code }));
+    }
+  });
+});
+
+describe("runScoreBatch", () => {
+  const mapFailure = (err: unknown): IngestJobOutcome => ({
+    httpStatus: 500,
+    body: { error: "internal_error", message: (err as Error).message },
+  });
+
+  it("keeps at most `concurrency` items in flight and answers in request order", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const result = await runScoreBatch(
+      [30, 5, 20, 1, 10],
+      2,
+      async (item) => {
+        inFlight += 1;
+        peak = Math.max(peak, inFlight);
+        await new Promise((r) => setTimeout(r, item as number));
+        inFlight -= 1;
+        return { httpStatus: 200, body: { waited: item } };
+      },
+      mapFailure
+    );
+    expect(peak).toBe(2);
+    expect(result.results.map((r) => (r.body as { waited: number }).waited)).toEqual([30, 5, 20, 1, 10]);
+    expect(result.results.map((r) => r.index)).toEqual([0, 1, 2, 3, 4]);
+    expect(result).toMatchObject({ count: 5, succeeded: 5, failed: 0 });
+  });
+
+  it("turns a failing item into its own error entry without aborting the batch", async () => {
+    const result = await runScoreBatch(
+      ["ok", "throw", "refused"],
+      4,
+      async (item) => {
+        if (item === "throw") throw new Error("scorer exploded");
+        if (item === "refused") return { httpStatus: 403, body: { error: "unknown_provider_binding" } };
+        return { httpStatus: 200, body: {} };
+      },
+      mapFailure
+    );
+    expect(result).toMatchObject({ count: 3, succeeded: 1, failed: 2 });
+    expect(result.results).toEqual([
+      { index: 0, ok: true, httpStatus: 200, body: {} },
+      { index: 1, ok: false, httpStatus: 500, body: { error: "internal_error", message: "scorer exploded" } },
+      { index: 2, ok: false, httpStatus: 403, body: { error: "unknown_provider_binding" } },
+    ]);
+  });
+
+  it("shares one candle fetch per window across the batch's items", async () => {
+    const { feed, calls } = countingFeed("batch-feed");
+    const unregister = registerPriceFeedAdapterForTests(feed);
+    try {
+      const windows = ["BTC/USDT", "BTC/USDT", "ETH/USDT", "BTC/USDT"];
+      const result = await runScoreBatch(
+        windows,
+        4,
+        async (symbol) => {
+          const candles = await getPriceFeedAdapter("batch-feed").getOHLCV({
+            symbol: symbol as string,
+            timeframe: "1h",
+            limit: 50,
+          });
+          return { httpStatus: 200, body: { candles: candles.length } };
+        },
+        mapFailure
+      );
+      expect(calls).toEqual(["BTC/USDT", "ETH/USDT"]);
+      expect(result.candleFetches).toEqual({ fetched: 2, shared: 2 });
+      expect(result.results.every((r) => (r.body as { candles: number }).candles === 50)).toBe(true);
+    } finally {
+      unregister();
+    }
+  });
+});
+
+describe("shared-candle scope", () => {
+  it("serves adapters unchanged outside a scope", async () => {
+    const { feed } = countingFeed("plain-feed");
+    const unregister = registerPriceFeedAdapterForTests(feed);
+    try {
+      expect(getPriceFeedAdapter("plain-feed")).toBe(feed);
+    } finally {
+      unregister();
+    }
+  });
+
+  it("hands joiners their own array tagged shared, and forgets a rejected fetch", async () => {
+    const { feed, calls } = countingFeed("flaky-feed", true);
+    const unregister = registerPriceFeedAdapterForTests(feed);
+    const params = { symbol: "BTC/USDT", timeframe: "1h", limit: 3 };
+    try {
+      const { result, candleFetches } = await withSharedCandleFetches(async () => {
+        const adapter = getPriceFeedAdapter("flaky-feed");
+        await expect(adapter.getOHLCV(params)).rejects.toThrow("exchange timeout");
+        return Promise.all([adapter.getOHLCV(params), getPriceFeedAdapter("flaky-feed").getOHLCV(params)]);
+      });
+      const [first, joiner] = result;
+      expect(calls).toHaveLength(2);
+      expect(candleFetches).toEqual({ fetched: 2, shared: 1 });
+      expect(joiner).not.toBe(first);
+      expect(joiner).toEqual(first);
+      expect(candleCacheReportOf(joiner)).toEqual({ status: "miss", fetchedCandles: 3, shared: true });
+    } finally {
+      unregister();
+    }
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * CachingPriceFeedAdapter — tail-only fetches, in-flight dedupe, the persistent
+ * store, and the hit/miss report surfaced through the technical lane.
+ *
+ * The law is that a cached window is byte-identical to what a full fetch of
+ * the same limit would have returned; only the number of upstream candles
+ * moved changes.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  CachingPriceFeedAdapter,
+  candleCacheReportOf,
+  createFileCandleCacheStore,
+  type CandleCacheStore,
+} from "../../src/adapters/exchanges/cachingPriceFeedAdapter.js";
+import type { OHLCVCandle, PriceFeedAdapter } from "../../src/adapters/exchanges/types.js";
+import { createTechnicalLocalAdapter } from "../../src/providers/adapters/technicalLocalAdapter.js";
+import { computeTechnicalEnrichment } from "../../src/enrichment/technicalIndicators.js";
+import { SILENT_NODE_LOGGER } from "../../src/pipeline/nodeSdk.js";
+
+const HOUR = 3600000;
+const T0 = 1735689600000;
+
+function bar(i: number, close = 100 + i): OHLCVCandle {
+  return { timestamp: T0 + i * HOUR, open: close, high: close + 1, low: close - 1, close, volume: 1000 + i };
+}
+
+/**
+ * A scripted exchange: `head` is the index of the forming bar; candles up to
+ * it exist. Records every upstream request.
+ */
+function scriptedFeed() {
+  const calls: Array<{ since?: number; limit?: number }> = [];
+  const state = { head: 149, formingClose: undefined as number | undefined };
+  const candleAt = (i: number) => (i === state.head && state.formingClose !== undefined ? bar(i, state.formingClose) : bar(i));
+  const feed: PriceFeedAdapter = {
+    id: "scripted",
+    name: "Scripted",
+    supportsPerps: true,
+    supportsSpot: true,
+    async getOHLCV({ since, limit }) {
+      calls.push({ since, limit });
+      await Promise.resolve();
+      const all = Array.from({ length: state.head + 1 }, (_, i) => candleAt(i));
+      const from = since === undefined ? all : all.filter((c) => c.timestamp >= since);
+      return since === undefined ? from.slice(-(limit ?? 100)) : from.slice(0, limit ?? 100);
+    },
+    async getTicker(symbol) {
+      return { symbol, last: 1, timestamp: T0 };
+    },
+  };
+  const fullWindow = (limit: number) => Array.from({ length: state.head + 1 }, (_, i) => candleAt(i)).slice(-limit);
+  return { feed, calls, state, fullWindow };
+}
+
+const REQ = { symbol: "BTC/USDT", timeframe: "1h", limit: 100 };
+
+describe("CachingPriceFeedAdapter", () => {
+  it("cold request is a full fetch; the next fetches only the tail from the last cached candle", async () => {
+    const { feed, calls, state, fullWindow } = scriptedFeed();
+    const cache = new CachingPriceFeedAdapter(feed);
+
+    const first = await cache.getOHLCV(REQ);
+    expect(first).toEqual(fullWindow(100));
+    expect(candleCacheReportOf(first)).toEqual({ status: "miss", fetchedCandles: 100, shared: false });
+
+    // Two new bars, and the previously forming bar closed at a different price.
+    state.head = 151;
+    state.formingClose = 42;
+    const second = await cache.getOHLCV(REQ);
+    expect(second).toEqual(fullWindow(100));
+    expect(calls[1]).toEqual({ since: T0 + 149 * HOUR, limit: 100 });
+    expect(candleCacheReportOf(second)).toEqual({ status: "hit", fetchedCandles: 3, shared: false });
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it("a tail as long as the window falls back to a full fetch (continuity unproven)", async () => {
+    const { feed, calls, state, fullWindow } = scriptedFeed();
+    const cache = new CachingPriceFeedAdapter(feed);
+    await cache.getOHLCV({ ...REQ, limit: 10 });
+    state.head = 200;
+    const window = await cache.getOHLCV({ ...REQ, limit: 10 });
+    expect(window).toEqual(fullWindow(10));
+    expect(candleCacheReportOf(window)).toEqual({ status: "miss", fetchedCandles: 20, shared: false });
+    expect(calls[2]).toEqual({ since: undefined, limit: 10 });
+  });
+
+  it("a cached window shorter than the requested limit is refetched in full", async () => {
+    const { feed, calls, fullWindow } = scriptedFeed();
+    const cache = new CachingPriceFeedAdapter(feed);
+    await cache.getOHLCV({ ...REQ, limit: 2 });
+    expect(await cache.getOHLCV(REQ)).toEqual(fullWindow(100));
+    expect(calls[1]).toEqual({ since: undefined, limit: 100 });
+  });
+
+  it("concurrent requests for the same series share one upstream fetch", async () => {
+    const { feed, calls } = scriptedFeed();
+    const cache = new CachingPriceFeedAdapter(feed);
+    const [a, b, c] = await Promise.all([cache.getOHLCV(REQ), cache.getOHLCV(REQ), cache.getOHLCV(REQ)]);
+    expect(calls).toHaveLength(1);
+    expect(b).toEqual(a);
+    expect(b).not.toBe(a);
+    expect(candleCacheReportOf(c)).toEqual({ status: "miss", fetchedCandles: 100, shared: true });
+    expect(cache.getStats()).toMatchObject({ misses: 1, shared: 2 });
+  });
+
+  it("historical (since) and unbounded requests pass straight through", async () => {
+    const { feed, calls } = scriptedFeed();
+    const cache = new CachingPriceFeedAdapter(feed);
+    const ranged = await cache.getOHLCV({ ...REQ, since: T0, limit: 5 });
+    expect(candleCacheReportOf(ranged)).toBeUndefined();
+    await cache.getOHLCV({ symbol: "BTC/USDT", timeframe: "1h" });
+    expect(calls).toEqual([{ since: T0, limit: 5 }, { since: undefined, limit: undefined }]);
+    expect(cache.getStats()).toMatchObject({ size: 0, passthrough: 2 });
+  });
+
+  it("evicts the least recently used series", async () => {
+    const { feed, calls } = scriptedFeed();
+    const cache = new CachingPriceFeedAdapter(feed, { maxSeries: 1 });
+    await cache.getOHLCV(REQ);
+    await cache.getOHLCV({ ...REQ, symbol: "ETH/USDT" });
+    await cache.getOHLCV(REQ);
+    expect(calls.map((c) => c.since)).toEqual([undefined, undefined, undefined]);
+  });
+
+  it("resumes warm from the file store after a restart", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "afi-candle-cache-"));
+    try {
+      const { feed, calls, state, fullWindow } = scriptedFeed();
+      const store = createFileCandleCacheStore(dir);
+      const saved: Promise<void>[] = [];
+      const tracking: CandleCacheStore = {
+        load: (key) => store.load(key),
+        save: (key, candles) => {
+          const p = store.save(key, candles);
+          saved.push(p);
+          return p;
+        },
+      };
+      await new CachingPriceFeedAdapter(feed, { store: tracking }).getOHLCV(REQ);
+      await Promise.all(saved);
+
+      state.head = 150;
+      const restarted = new CachingPriceFeedAdapter(feed, { store: tracking });
+      const window = await restarted.getOHLCV(REQ);
+      expect(window).toEqual(fullWindow(100));
+      expect(calls[1].since).toBe(T0 + 149 * HOUR);
+      expect(candleCacheReportOf(window)?.status).toBe("hit");
+      expect(await store.load("ETH/USDT|1h")).toBeUndefined();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("a failing store degrades to memory-only", async () => {
+    const { feed } = scriptedFeed();
+    const broken: CandleCacheStore = {
+      load: async () => {
+        throw new Error("disk gone");
+      },
+      save: async () => {
+        throw new Error("disk gone");
+      },
+    };
+    const cache = new CachingPriceFeedAdapter(feed, { store: broken });
+    await cache.getOHLCV(REQ);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(cache.getStats().storeErrors).toBe(2);
+  });
+});
+
+describe("candle cache report through the technical lane", () => {
+  const adapterCtx = {
+    signal: { facts: { symbol: "BTC/USDT", timeframe: "1h" } } as never,
+    config: {},
+    logger: SILENT_NODE_LOGGER,
+    abort: new AbortController().signal,
+  };
+
+  it("the lane bytes are unchanged; the report rides the candle array only", async () => {
+    const { feed } = scriptedFeed();
+    const lane = (getAdapter: () => PriceFeedAdapter) =>
+      createTechnicalLocalAdapter({
+        resolvePriceSource: () => "scripted",
+        getAdapter,
+        computeTechnical: computeTechnicalEnrichment,
+      }).run(adapterCtx);
+
+    const cached = new CachingPriceFeedAdapter(feed);
+    const viaCache = (await lane(() => cached)) as unknown as { candles: object };
+    const direct = (await lane(() => feed)) as unknown as { candles: object };
+    expect(viaCache).toStrictEqual(direct);
+    expect(candleCacheReportOf(viaCache.candles)?.status).toBe("miss");
+    expect(candleCacheReportOf(direct.candles)).toBeUndefined();
+  });
+});
@@ -1,13 +1,36 @@
 /**
- * Predicate-tree evaluator unit tests: all eleven governed operators,
- * missing-path semantics, fail-closed unknown shapes.
+ * Predicate-tree evaluator unit tests: every governed operator,
+ * missing-path semantics, fail-closed unknown shapes, plus the KAT vectors for
+ * the added operators (test/pipeline/fixtures/predicate-operators.kat.json),
+ * each checked against the (extended) vendored schema AND the evaluator.
  */
+import { jest } from "@jest/globals";
+
+// ccxt's compiled dist pulls ESM-only crypto deps jest cannot parse; the
+// executor import transitively touches the price-feed registry (repo idiom —
+// see graphValidation.test.ts). No ccxt request is ever issued.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return {
+    __esModule: true,
+    default: { blofin: UnusedExchange, coinbase: UnusedExchange },
+  };
+});
+
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { Ajv } from "ajv";
 import {
   ConditionEvaluationError,
+  MATCH_SUBJECT_MAX_LENGTH,
   evaluatePredicate,
   resolvePath,
+  validatePredicate,
   type ConditionEnv,
 } from "../../src/pipeline/conditions.js";
+import { validatePipelineGraph } from "../../src/pipeline/executor.js";
+import type { PipelineManifest } from "../../src/pipeline/manifestTypes.js";
+import { readGovernedSchema } from "../../src/pipeline/schemaExtensions.js";
 
 const env: ConditionEnv = {
   nodes: {
@@ -98,7 +121,7 @@ describe("evaluatePredicate operators", () => {
   });
 
   it("fails closed on unknown operators and malformed shapes", () => {
-    expect(() => evaluatePredicate({ matches: { path: "/x", value: 1 } }, env)).toThrow(
+    expect(() => evaluatePredicate({ regex: { path: "/x", value: 1 } }, env)).toThrow(
       ConditionEvaluationError
     );
     expect(() => evaluatePredicate({}, env)).toThrow(ConditionEvaluationError);
@@ -112,3 +135,117 @@ describe("evaluatePredicate operators", () => {
     expect(() => evaluatePredicate("true", env)).toThrow(ConditionEvaluationError);
   });
 });
+
+interface OperatorKatVector {
+  name: string;
+  predicate: unknown;
+  schemaValid: boolean;
+  expected?: boolean;
+  throws?: true;
+}
+
+const operatorKat = JSON.parse(
+  readFileSync(join(process.cwd(), "test/pipeline/fixtures/predicate-operators.kat.json"), "utf-8")
+) as { schema: string; env: ConditionEnv; vectors: OperatorKatVector[] };
+
+function governedPredicateValidator() {
+  const ajv = new Ajv({ strict: true, allowUnionTypes: true, strictRequired: false, allErrors: true });
+  ajv.addVocabulary([
+    "x-afiStatus",
+    "x-afiPartOf",
+    "x-afiDoctrineRefs",
+    "x-afiOpenItems",
+    "x-afiProposedNotAccepted",
+    "x-afiConstraints",
+  ]);
+  for (const file of ["canonical-hash.schema.json", "pipeline.schema.json"]) {
+    ajv.addSchema(readGovernedSchema(join(process.cwd(), "src/pipeline/governed-schema"), file));
+  }
+  return ajv.compile({
+    $ref: "https://afi-protocol.org/schemas/pipeline/v1/pipeline.schema.json#/definitions/predicate",
+  });
+}
+
+describe("predicate operator KATs (between / matches / contains / containsAny / lengthGt / valuePath)", () => {
+  const validateSchema = governedPredicateValidator();
+
+  it("is the operator KAT file", () => {
+    expect(operatorKat.schema).toBe("afi.predicate-operators-kat.v1");
+    expect(operatorKat.vectors.length).toBeGreaterThan(30);
+  });
+
+  for (const vector of operatorKat.vectors) {
+    it(vector.name, () => {
+      expect(validateSchema(vector.predicate)).toBe(vector.schemaValid);
+      if (vector.throws) {
+        expect(() => evaluatePredicate(vector.predicate, operatorKat.env)).toThrow(ConditionEvaluationError);
+        expect(() => validatePredicate(vector.predicate)).toThrow(ConditionEvaluationError);
+      } else {
+        expect(evaluatePredicate(vector.predicate, operatorKat.env)).toBe(vector.expected);
+        expect(() => validatePredicate(vector.predicate)).not.toThrow();
+      }
+    });
+  }
+
+  it("never matches a subject longer than the bound", () => {
+    const long: ConditionEnv = { nodes: {}, context: { s: `BTC${"x".repeat(MATCH_SUBJECT_MAX_LENGTH)}` } };
+    expect(evaluatePredicate({ matches: { path: "/context/s", pattern: "^BTC" } }, long)).toBe(false);
+  });
+
+  it("rejects patterns whose backtracking grows with the subject", () => {
+    const subject: ConditionEnv = { nodes: {}, context: { s: `${"a".repeat(60)}b` } };
+    for (const [pattern, message] of [
+      [`^${"a*".repeat(12)}$`, /at most one unbounded quantifier/],
+      ["^a+\\w*$", /at most one unbounded quantifier/],
+      [`^${"a?".repeat(30)}$`, /more than 64 alternatives/],
+      ["^(a|ab)(a|ab)(a|ab)(a|ab)(a|ab)(a|ab)(a|ab)$", /more than 64 alternatives/],
+      ["^a|a*b", /only alternate inside a group/],
+    ] as const) {
+      const predicate = { matches: { path: "/context/s", pattern } };
+      expect(() => validatePredicate(predicate)).toThrow(message);
+      expect(() => evaluatePredicate(predicate, subject)).toThrow(ConditionEvaluationError);
+    }
+    for (const [pattern, expected] of [
+      ["^a*b$", true],
+      ["^a*?b", true],
+      ["^[A-Z]{3,5}/USDT?$", false],
+      ["^(?:BTC|ETH)/.+$", false],
+    ] as const) {
+      expect(evaluatePredicate({ matches: { path: "/context/s", pattern } }, subject)).toBe(expected);
+    }
+  });
+
+  it("validatePredicate visits every branch (no short-circuit)", () => {
+    const p = {
+      any: [
+        { exists: "/context/market" },
+        { matches: { path: "/context/market", pattern: "^(x+)+" } },
+      ],
+    };
+    expect(evaluatePredicate(p, env)).toBe(true);
+    expect(() => validatePredicate(p)).toThrow(ConditionEvaluationError);
+  });
+
+  it("an unevaluable edge condition is a graph issue at validation time", () => {
+    const manifest: PipelineManifest = {
+      schema: "afi.pipeline.v1",
+      pipelineId: "predicate-probe",
+      pipelineVersion: "v1.0.0",
+      entry: "technical",
+      nodes: [
+        { id: "technical", category: "technical", pluginId: "afi-analysis-technical", pluginVersion: "2.0.0" },
+        { id: "scorer", category: "scorer", pluginId: "afi-scorer-froggy-trend-pullback", pluginVersion: "1.0.0" },
+      ],
+      edges: [
+        {
+          from: "technical",
+          to: "scorer",
+          condition: { matches: { path: "/context/symbol", pattern: "^(?!ETH)" } },
+        },
+      ],
+    };
+    expect(validatePipelineGraph(manifest)).toEqual([
+      "edge 'technical' -> 'scorer' condition is not evaluable: 'matches' pattern may not use lookaround",
+    ]);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Declared-fields joins (join.merge.strategy 'declared-fields', merged by
+ * src/pipeline/declaredFields.ts): the join node receives ONE flat object of
+ * its parents' outputSchemaRef-declared fields, collisions settle through
+ * the conflictRule, and every resolved conflict lands on the join's
+ * execution-summary entry.
+ */
+import { jest } from "@jest/globals";
+
+// Repo idiom (see graphProofs.test.ts): no ccxt request is ever issued.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return {
+    __esModule: true,
+    default: { blofin: UnusedExchange, coinbase: UnusedExchange },
+  };
+});
+
+import {
+  createGovernedDeclaredFieldsResolver,
+  JoinConflictError,
+  mergeDeclaredFields,
+  type DeclaredFieldsResolver,
+} from "../../src/pipeline/declaredFields.js";
+import { buildExecutionSummary, computeExecutionSummaryHash } from "../../src/pipeline/executionSummary.js";
+import { GraphExecutor, type GraphExecutionResult } from "../../src/pipeline/executor.js";
+import type { AnalysisPluginManifest, PipelineManifest } from "../../src/pipeline/manifestTypes.js";
+import { NodeConfigurationError } from "../../src/pipeline/nodeSdk.js";
+import { loadConformanceFixture, makeTestPluginSet, testSignal, type TestPluginSet } from "./support/testHarness.js";
+
+/** The lane plugins' bound output contracts (the fixtures bind @1.0.0). */
+const OUTPUT_SCHEMA_REFS: Record<string, string> = {
+  "afi-analysis-technical": "afi.enrichment.technical.v1",
+  "afi-analysis-sentiment": "afi.enrichment.sentiment.v1",
+  "afi-analysis-news": "afi.enrichment.news.v1",
+};
+
+function laneManifests(omit: string[] = []): Map<string, AnalysisPluginManifest> {
+  return new Map(
+    Object.entries(OUTPUT_SCHEMA_REFS)
+      .filter(([pluginId]) => !omit.includes(pluginId))
+      .map(([pluginId, outputSchemaRef]) => [
+        `${pluginId}@1.0.0`,
+        { pluginId, pluginVersion: "1.0.0", outputSchemaRef } as AnalysisPluginManifest,
+      ])
+  );
+}
+
+function declaredFieldsJoin(fixture: string, conflictRule = "error"): PipelineManifest {
+  const manifest = loadConformanceFixture(fixture);
+  return {
+    ...manifest,
+    nodes: manifest.nodes.map((n) =>
+      n.id === "merge" ? { ...n, join: { policy: "all", merge: { strategy: "declared-fields", conflictRule } } } : n
+    ),
+  };
+}
+
+function run(
+  manifest: PipelineManifest,
+  set: TestPluginSet,
+  options: { declaredFields?: DeclaredFieldsResolver; omit?: string[] } = {}
+): Promise<GraphExecutionResult> {
+  return new GraphExecutor({
+    registry: set.registry,
+    pluginManifests: laneManifests(options.omit),
+    declaredFields: options.declaredFields,
+  }).execute({ manifest, input: { seed: 1 }, signal: testSignal() });
+}
+
+function mergeInputOf(set: TestPluginSet): unknown {
+  return set.events.find((e) => e.pluginId === "afi-merge-enriched-view")?.input;
+}
+
+/** Each lane reports a shared `bias` field alongside its own. */
+const BIAS_RESOLVER: DeclaredFieldsResolver = (ref) =>
+  ({
+    "afi.enrichment.technical.v1": ["bias", "technical"],
+    "afi.enrichment.sentiment.v1": ["axes", "bias"],
+    "afi.enrichment.news.v1": ["bias", "news"],
+  })[ref];
+
+function biasedLanes(biases: { technical: string; sentiment: string; news: string }): TestPluginSet {
+  return makeTestPluginSet({
+    "afi-analysis-technical": { output: () => ({ bias: biases.technical, technical: { atrPct: 1.2 } }) },
+    "afi-analysis-sentiment": { output: () => ({ bias: biases.sentiment, axes: [] }) },
+    "afi-analysis-news": { output: () => ({ bias: biases.news, news: { items: 3 } }) },
+  });
+}
+
+describe("declared-fields joins", () => {
+  it("projects each parent's governed declared fields into one flat object", async () => {
+    const set = makeTestPluginSet({
+      "afi-analysis-technical": {
+        output: () => ({ category: "technical", technical: { atrPct: 1.2 }, priceSource: "blofin", debug: true }),
+      },
+      "afi-analysis-sentiment": { output: () => ({ category: "sentiment", axes: [{ axis: "funding" }] }) },
+      "afi-analysis-news": { output: () => ({ category: "news", news: { items: 3 }, raw: "<html>" }) },
+    });
+    const result = await run(declaredFieldsJoin("03-parallel-multi-category.json"), set);
+
+    expect(mergeInputOf(set)).toEqual({
+      axes: [{ axis: "funding" }],
+      news: { items: 3 },
+      priceSource: "blofin",
+      technical: { atrPct: 1.2 },
+    });
+    const merge = result.summary.nodes.find((n) => n.nodeId === "merge")!;
+    expect("joinConflicts" in merge).toBe(false);
+    expect(result.executionSummaryHash).toEqual(computeExecutionSummaryHash(buildExecutionSummary(result.summary.nodes)));
+  });
+
+  it("settles a collision through prefer:<nodeId> and records it in the summary", async () => {
+    const set = biasedLanes({ technical: "long", sentiment: "short", news: "long" });
+    const result = await run(declaredFieldsJoin("03-parallel-multi-category.json", "prefer:sentiment"), set, {
+      declaredFields: BIAS_RESOLVER,
+    });
+
+    expect(mergeInputOf(set)).toEqual({ axes: [], bias: "short", news: { items: 3 }, technical: { atrPct: 1.2 } });
+    expect(result.summary.nodes.find((n) => n.nodeId === "merge")?.joinConflicts).toEqual([
+      { field: "bias", parents: ["news", "sentiment", "technical"], resolvedBy: "sentiment" },
+    ]);
+    expect(result.nodes.find((n) => n.nodeId === "scorer")?.status).toBe("executed");
+  });
+
+  it("treats canonically equal values as agreement, not a conflict", async () => {
+    const set = biasedLanes({ technical: "long", sentiment: "long", news: "long" });
+    const result = await run(declaredFieldsJoin("03-parallel-multi-category.json"), set, {
+      declaredFields: BIAS_RESOLVER,
+    });
+    expect((mergeInputOf(set) as { bias: string }).bias).toBe("long");
+    expect(result.summary.nodes.every((n) => n.joinConflicts === undefined)).toBe(true);
+  });
+
+  it("aborts the run on a collision under conflictRule 'error'", async () => {
+    const set = biasedLanes({ technical: "long", sentiment: "short", news: "long" });
+    const failure = run(declaredFieldsJoin("03-parallel-multi-category.json"), set, { declaredFields: BIAS_RESOLVER });
+
+    await expect(failure).rejects.toMatchObject({
+      nodeId: "merge",
+      fatalReason: "critical-failure",
+      cause: expect.any(JoinConflictError),
+    });
+    await expect(failure).rejects.toThrow(
+      "join 'merge' merge conflict: field 'bias' contributed by 'news', 'sentiment', 'technical' (conflictRule 'error')"
+    );
+    expect(mergeInputOf(set)).toBeUndefined();
+  });
+
+  it("a failed-optional parent contributes no fields", async () => {
+    const set = makeTestPluginSet({
+      "afi-analysis-technical": { output: () => ({ technical: { atrPct: 1.2 } }) },
+      "afi-analysis-sentiment": { error: () => new Error("sentiment offline") },
+    });
+    const result = await run(declaredFieldsJoin("07-fail-soft-optional-category.json"), set);
+
+    expect(result.nodes.find((n) => n.nodeId === "sentiment")?.status).toBe("failed-optional");
+    expect(mergeInputOf(set)).toEqual({ technical: { atrPct: 1.2 } });
+  });
+
+  it("refuses a parent whose output contract is unknown", async () => {
+    const unbound = run(declaredFieldsJoin("03-parallel-multi-category.json"), makeTestPluginSet(), {
+      omit: ["afi-analysis-news"],
+    });
+    await expect(unbound).rejects.toMatchObject({
+      nodeId: "merge",
+      fatalReason: "configuration",
+      cause: expect.any(NodeConfigurationError),
+    });
+
+    const unresolved = run(declaredFieldsJoin("03-parallel-multi-category.json"), makeTestPluginSet(), {
+      declaredFields: () => undefined,
+    });
+    await expect(unresolved).rejects.toThrow(/output contract 'afi\.enrichment\.technical\.v1' declares no known fields/);
+  });
+});
+
+describe("declared-fields merge", () => {
+  it("resolves governed contracts by afi id and $id, without the category marker", () => {
+    const resolve = createGovernedDeclaredFieldsResolver();
+    expect(resolve("afi.enrichment.aiml.v1")).toEqual(["forecast", "regime", "riskFlag"]);
+    expect(resolve("https://afi-protocol.org/schemas/enrichment/aiml/v1/enrichment-aiml.schema.json")).toBe(
+      resolve("afi.enrichment.aiml.v1")
+    );
+    expect(resolve("https://afi-protocol.org/schemas/unknown.schema.json")).toBeUndefined();
+  });
+
+  it("fails a prefer rule whose parent does not contribute the conflicting field", () => {
+    expect(() =>
+      mergeDeclaredFields(
+        "merge",
+        [
+          { nodeId: "a", fields: ["x"], output: { x: 1 } },
+          { nodeId: "b", fields: ["x"], output: { x: 2 } },
+          { nodeId: "c", fields: ["y"], output: { y: 3 } },
+        ],
+        "prefer:c"
+      )
+    ).toThrow(JoinConflictError);
+  });
+});
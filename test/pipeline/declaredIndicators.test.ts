@@ -0,0 +1,143 @@
+/**
+ * Strategy-declared technical indicators (MACD, Bollinger, Stochastic, ADX,
+ * OBV, VWAP) — exact unit vectors, the config law, and the lens contract.
+ *
+ * Vectors are hand-derivable: each series is built so the expected value is an
+ * exact float (no tolerance), like the AR-GOV D-AR-2 regime KATs.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  computeIndicatorBundle,
+  IndicatorKernelStream,
+} from "../../src/indicator/indicatorKernel.js";
+import {
+  computeDeclaredIndicators,
+  computeTechnicalEnrichment,
+  parseDeclaredIndicatorConfig,
+} from "../../src/enrichment/technicalIndicators.js";
+import type { AfiCandle } from "../../src/types/AfiCandle.js";
+
+function candle(i: number, high: number, low: number, close: number, volume = 1000): AfiCandle {
+  return { timestamp: 1735689600000 + i * 3600000, open: close, high, low, close, volume };
+}
+
+/** Flat-bar candles (high = low = close) — typical price is the close exactly. */
+function flat(closes: number[], volumes: number[]): AfiCandle[] {
+  return closes.map((c, i) => candle(i, c, c, c, volumes[i]));
+}
+
+describe("declared indicators — exact unit vectors", () => {
+  it("OBV: +volume on up-closes, -volume on down-closes, 0 on unchanged", () => {
+    const candles = flat([10, 11, 11, 9, 12], [100, 200, 300, 400, 500]);
+    // 0 → +200 → +0 → -400 → +500
+    expect(computeIndicatorBundle(candles, { obv: true })).toEqual({ obv: 300 });
+  });
+
+  it("VWAP: volume-weighted typical price over the window", () => {
+    // (10*1 + 20*3) / 4 = 17.5
+    expect(computeIndicatorBundle(flat([10, 20], [1, 3]), { vwap: true })).toEqual({ vwap: 17.5 });
+  });
+
+  it("Bollinger: population standard deviation, width = (upper - lower) / middle", () => {
+    // Window [2..6]: middle 4, variance (4+1+0+1+4)/5 = 2.
+    const bundle = computeIndicatorBundle(flat([1, 2, 3, 4, 5, 6], Array(6).fill(1)), {
+      bollinger: { period: 5, stdDev: 2 },
+    });
+    const upper = 4 + Math.SQRT2 * 2;
+    const lower = 4 - Math.SQRT2 * 2;
+    expect(bundle).toEqual({ bollinger: { upper, middle: 4, lower, width: (upper - lower) / 4 } });
+  });
+
+  it("Stochastic: close at the window high → %K = %D = 100; flat window → 0", () => {
+    const rising = [0, 1, 2, 3].map((i) => candle(i, 12 + i, 10 + i, 12 + i));
+    expect(
+      computeIndicatorBundle(rising, { stochastic: { kPeriod: 3, kSmoothing: 1, dPeriod: 1 } })
+    ).toEqual({ stochastic: { k: 100, d: 100 } });
+    const still = [0, 1, 2, 3].map((i) => candle(i, 10, 10, 10));
+    expect(
+      computeIndicatorBundle(still, { stochastic: { kPeriod: 3, kSmoothing: 1, dPeriod: 1 } })
+    ).toEqual({ stochastic: { k: 0, d: 0 } });
+  });
+
+  it("ADX: a pure up-staircase has no -DM → DX = ADX = 100; absent until stable", () => {
+    const stairs = [0, 1, 2, 3, 4].map((i) => candle(i, 10 + i, 5 + i, 8 + i));
+    expect(computeIndicatorBundle(stairs, { adx: 3 })).toEqual({ adx: 100 });
+    expect(computeIndicatorBundle(stairs.slice(0, 4), { adx: 3 })).toBeNull();
+  });
+
+  it("MACD: value = EMA(fast) - EMA(slow) of the same kernel; signal needs slow + signal - 1 candles", () => {
+    const closes = [10, 12, 11, 14, 13, 17, 16, 19];
+    const candles = flat(closes, Array(closes.length).fill(1));
+    const config = { macd: { fast: 3, slow: 6, signal: 3 } };
+    const { ema } = computeIndicatorBundle(candles, { ema: [3, 6] })!;
+    const bundle = computeIndicatorBundle(candles, config)!;
+    expect(bundle.macd!.value).toBe(ema![3] - ema![6]);
+    expect(bundle.macd!.histogram).toBe(bundle.macd!.value - bundle.macd!.signal);
+    expect(computeIndicatorBundle(candles.slice(0, 7), config)).toBeNull();
+  });
+
+  it("the stream refuses batch-only indicators instead of silently dropping them", () => {
+    expect(() => new IndicatorKernelStream({ ema: [20], macd: { fast: 12, slow: 26, signal: 9 } })).toThrow(
+      /batch|computeIndicatorBundle/
+    );
+  });
+});
+
+describe("declared indicators — config law (technical node config.indicators)", () => {
+  it("absent → null; a full block parses verbatim", () => {
+    expect(parseDeclaredIndicatorConfig(undefined)).toBeNull();
+    const block = {
+      macd: { fast: 12, slow: 26, signal: 9 },
+      bollinger: { period: 20, stdDev: 2 },
+      stochastic: { kPeriod: 14, kSmoothing: 3, dPeriod: 3 },
+      adx: 14,
+      obv: true,
+      vwap: false,
+    };
+    expect(parseDeclaredIndicatorConfig(block)).toEqual(block);
+  });
+
+  it.each([
+    [{ ichimoku: true }, /unknown field/],
+    [{ macd: { fast: 26, slow: 12, signal: 9 } }, /shorter/],
+    [{ macd: { fast: 12, slow: 26 } }, /macd\.signal/],
+    [{ bollinger: { period: 20, stdDev: 0 } }, /stdDev/],
+    [{ bollinger: { period: 1, stdDev: 2 } }, /at least 2/],
+    [{ stochastic: { kPeriod: 14.5, kSmoothing: 3, dPeriod: 3 } }, /kPeriod/],
+    [{ adx: 0 }, /adx/],
+    [{ obv: "yes" }, /obv must be a boolean/],
+    [[], /must be an object/],
+  ])("refuses %j", (block, message) => {
+    expect(() => parseDeclaredIndicatorConfig(block)).toThrow(message);
+  });
+});
+
+describe("declared indicators — technical lens payload", () => {
+  const candles = Array.from({ length: 60 }, (_, i) =>
+    candle(i, 101 + i * 0.5 + (i % 3), 99 + i * 0.5 - (i % 2), 100 + i * 0.5, 1000 + (i % 5) * 100)
+  );
+
+  it("undeclared → the Froggy payload is unchanged (no new keys)", () => {
+    expect(computeTechnicalEnrichment(candles, { declared: null })).toStrictEqual(
+      computeTechnicalEnrichment(candles)
+    );
+  });
+
+  it("declared → each indicator rides the payload under its own name", () => {
+    const declared = parseDeclaredIndicatorConfig({
+      macd: { fast: 12, slow: 26, signal: 9 },
+      bollinger: { period: 20, stdDev: 2 },
+      adx: 14,
+      vwap: true,
+    })!;
+    const base = computeTechnicalEnrichment(candles)!;
+    const payload = computeTechnicalEnrichment(candles, { declared })!;
+    expect(payload).toStrictEqual({ ...base, ...computeDeclaredIndicators(candles, declared) });
+    expect(Object.keys(payload)).toEqual(
+      expect.arrayContaining(["macd", "bollinger", "adx", "vwap"])
+    );
+    expect(payload).not.toHaveProperty("stochastic");
+    expect(payload).not.toHaveProperty("obv");
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * IndicatorKernelStream — byte-equality with the batch Indicator Kernel.
+ *
+ * The stream replaces the technical lane's full-window re-walk, so its law is
+ * strict equality (toStrictEqual over the whole bundle, atrSeries included)
+ * with computeIndicatorBundle over the same candles — at EVERY prefix, across
+ * forming-bar replacement and across snapshot/restore. Anything weaker would
+ * move the oracle goldens.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  computeIndicatorBundle,
+  IndicatorKernelStream,
+  type IndicatorBundleConfig,
+} from "../../src/indicator/indicatorKernel.js";
+import { IndicatorStreamRegistry } from "../../src/indicator/indicatorStreamRegistry.js";
+import { FROGGY_INDICATOR_CONFIG } from "../../src/indicator/froggyProfile.js";
+import { computeTechnicalEnrichment } from "../../src/enrichment/technicalIndicators.js";
+import type { AfiCandle } from "../../src/types/AfiCandle.js";
+
+/** mulberry32 — deterministic PRNG (no Math.random in KAT inputs). */
+function prng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A random-walk candle series, with flat stretches so RSI hits avgLoss = 0. */
+function series(n: number, seed: number): AfiCandle[] {
+  const rand = prng(seed);
+  const candles: AfiCandle[] = [];
+  let close = 100;
+  for (let i = 0; i < n; i++) {
+    const open = close;
+    const flat = i < 20 && i % 7 === 3;
+    close = flat ? open : open * (1 + (rand() - 0.48) * 0.03);
+    const high = Math.max(open, close) * (1 + rand() * 0.01);
+    const low = Math.min(open, close) * (1 - rand() * 0.01);
+    candles.push({ timestamp: 1735689600000 + i * 3600000, open, high, low, close, volume: 1000 + rand() * 500 });
+  }
+  return candles;
+}
+
+const WIDE_CONFIG: IndicatorBundleConfig = { ema: [5, 20, 50], rsi: [2, 14], atr: [3, 14] };
+
+describe("IndicatorKernelStream — equality with computeIndicatorBundle", () => {
+  it("equals the batch bundle at every prefix (Froggy config)", () => {
+    const candles = series(120, 1);
+    const stream = new IndicatorKernelStream(FROGGY_INDICATOR_CONFIG);
+    candles.forEach((candle, i) => {
+      const streamed = stream.update(candle);
+      expect(streamed).toStrictEqual(computeIndicatorBundle(candles.slice(0, i + 1), FROGGY_INDICATOR_CONFIG));
+    });
+    expect(stream.length).toBe(120);
+  });
+
+  it("equals the batch bundle at every prefix (short and duplicated periods)", () => {
+    const candles = series(80, 7);
+    const config: IndicatorBundleConfig = { ...WIDE_CONFIG, ema: [5, 20, 5] };
+    const stream = new IndicatorKernelStream(config);
+    candles.forEach((candle, i) => {
+      expect(stream.update(candle)).toStrictEqual(computeIndicatorBundle(candles.slice(0, i + 1), config));
+    });
+  });
+
+  it("is null before anything is stable, exactly like the batch kernel", () => {
+    const stream = new IndicatorKernelStream({ ema: [50] });
+    expect(stream.getLatest()).toBeNull();
+    const candles = series(10, 2);
+    for (const c of candles) expect(stream.update(c)).toBeNull();
+    expect(computeIndicatorBundle(candles, { ema: [50] })).toBeNull();
+  });
+
+  it("replaces a forming bar (same timestamp) exactly", () => {
+    const candles = series(70, 3);
+    const stream = new IndicatorKernelStream(WIDE_CONFIG);
+    for (const c of candles) stream.update(c);
+    const revised = { ...candles[69], close: candles[69].close * 1.02, high: candles[69].high * 1.03 };
+    const again = { ...revised, close: revised.close * 0.99 };
+    stream.update(revised);
+    expect(stream.update(again)).toStrictEqual(
+      computeIndicatorBundle([...candles.slice(0, 69), again], WIDE_CONFIG)
+    );
+    expect(stream.length).toBe(70);
+  });
+
+  it("refuses an out-of-order candle", () => {
+    const candles = series(3, 4);
+    const stream = new IndicatorKernelStream(WIDE_CONFIG);
+    stream.update(candles[1]);
+    expect(() => stream.update(candles[0])).toThrow(/out-of-order/);
+  });
+
+  it("snapshot → JSON → restore continues byte-identically", () => {
+    const candles = series(100, 5);
+    const stream = new IndicatorKernelStream(WIDE_CONFIG);
+    for (const c of candles.slice(0, 60)) stream.update(c);
+    const restored = IndicatorKernelStream.restore(JSON.parse(JSON.stringify(stream.snapshot())));
+    expect(restored.getLatest()).toStrictEqual(stream.getLatest());
+    // The restored stream can still replace its forming bar.
+    restored.update({ ...candles[59], close: candles[59].close + 1 });
+    restored.update(candles[59]);
+    for (const c of candles.slice(60)) restored.update(c);
+    expect(restored.getLatest()).toStrictEqual(computeIndicatorBundle(candles, WIDE_CONFIG));
+    // The original is untouched by the restored copy.
+    expect(stream.length).toBe(60);
+  });
+});
+
+describe("IndicatorStreamRegistry — incremental technical lane", () => {
+  const key = "demo|BTC/USDT|1h";
+
+  it("extends a window it already consumed and matches the batch lane payload", () => {
+    const registry = new IndicatorStreamRegistry();
+    const candles = series(110, 6);
+    const windows = [
+      candles.slice(0, 100),
+      // Forming bar moved.
+      [...candles.slice(0, 99), { ...candles[99], close: candles[99].close * 1.01 }],
+      candles.slice(0, 100),
+      candles.slice(0, 104),
+      candles.slice(0, 104),
+    ];
+    for (const w of windows) {
+      const bundle = registry.bundleFor(key, w, FROGGY_INDICATOR_CONFIG);
+      expect(bundle).toStrictEqual(computeIndicatorBundle(w, FROGGY_INDICATOR_CONFIG));
+      expect(computeTechnicalEnrichment(w, { indicators: bundle })).toStrictEqual(computeTechnicalEnrichment(w));
+    }
+    expect(registry.getStats()).toMatchObject({ rebuilt: 1, extended: 3, unchanged: 1 });
+  });
+
+  it("rebuilds when the window slides or a closed bar is revised", () => {
+    const registry = new IndicatorStreamRegistry();
+    const candles = series(110, 8);
+    registry.bundleFor(key, candles.slice(0, 100), FROGGY_INDICATOR_CONFIG);
+    const slid = candles.slice(5, 105);
+    expect(registry.bundleFor(key, slid, FROGGY_INDICATOR_CONFIG)).toStrictEqual(
+      computeIndicatorBundle(slid, FROGGY_INDICATOR_CONFIG)
+    );
+    const revised = [...slid];
+    revised[40] = { ...revised[40], low: revised[40].low * 0.9 };
+    expect(registry.bundleFor(key, revised, FROGGY_INDICATOR_CONFIG)).toStrictEqual(
+      computeIndicatorBundle(revised, FROGGY_INDICATOR_CONFIG)
+    );
+    expect(registry.getStats()).toMatchObject({ rebuilt: 3, extended: 0 });
+  });
+
+  it("keeps series and configs apart and evicts the least recently used", () => {
+    const registry = new IndicatorStreamRegistry(2);
+    const a = series(60, 9);
+    const b = series(60, 10);
+    registry.bundleFor("a", a, FROGGY_INDICATOR_CONFIG);
+    registry.bundleFor("b", b, FROGGY_INDICATOR_CONFIG);
+    expect(registry.bundleFor("a", a, WIDE_CONFIG)).toStrictEqual(computeIndicatorBundle(a, WIDE_CONFIG));
+    registry.bundleFor("c", a, FROGGY_INDICATOR_CONFIG);
+    expect(registry.getStats().size).toBe(2);
+    // 'b' was evicted; 'a' (recently used) survived.
+    registry.bundleFor("b", b, FROGGY_INDICATOR_CONFIG);
+    registry.bundleFor("c", a, FROGGY_INDICATOR_CONFIG);
+    expect(registry.getStats()).toMatchObject({ rebuilt: 5, unchanged: 1 });
+  });
+});
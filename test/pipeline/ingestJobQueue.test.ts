@@ -0,0 +1,211 @@
+/**
+ * Async ingest job queue (src/services/ingestJobQueue.ts): bounded
+ * concurrency + explicit backpressure, the job result IS the synchronous
+ * route's response, bounded retention for polling, fail-open https callbacks,
+ * and the async-mode request parsing the ingress routes share.
+ */
+import {
+  DEFAULT_INGEST_JOB_QUEUE_CONFIG,
+  IngestJobQueue,
+  IngestModeError,
+  IngestQueueFullError,
+  ingestJobQueueConfigFromEnv,
+  parseIngestMode,
+  type IngestJobOutcome,
+  type IngestJobQueueConfig,
+} from "../../src/services/ingestJobQueue.js";
+
+const SILENT = { warn: () => {}, error: () => {} };
+
+function deferred(): { promise: Promise<IngestJobOutcome>; resolve: (o: IngestJobOutcome) => void } {
+  let resolve!: (o: IngestJobOutcome) => void;
+  const promise = new Promise<IngestJobOutcome>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+function queueWith(
+  overrides: Partial<IngestJobQueueConfig> = {},
+  deps: ConstructorParameters<typeof IngestJobQueue>[1] = {}
+): IngestJobQueue {
+  return new IngestJobQueue({ ...DEFAULT_INGEST_JOB_QUEUE_CONFIG, ...overrides }, { logger: SILENT, ...deps });
+}
+
+describe("IngestJobQueue", () => {
+  it("runs at most `concurrency` jobs and refuses submits beyond maxPending (backpressure)", async () => {
+    const queue = queueWith({ concurrency: 1, maxPending: 1 });
+    const first = deferred();
+    const second = deferred();
+    const a = queue.submit({ route: "cpj", run: () => first.promise });
+    const b = queue.submit({ route: "cpj", run: () => second.promise });
+
+    expect(queue.get(a.jobId)?.status).toBe("running");
+    expect(queue.get(b.jobId)?.status).toBe("queued");
+    expect(() => queue.submit({ route: "cpj", run: () => first.promise })).toThrow(IngestQueueFullError);
+
+    first.resolve({ httpStatus: 200, body: { ok: true } });
+    await new Promise((r) => setImmediate(r));
+    expect(queue.get(b.jobId)?.status).toBe("running");
+    second.resolve({ httpStatus: 200, body: { ok: true } });
+    await queue.drain(1000);
+    expect(queue.stats()).toEqual({ queued: 0, running: 0, retained: 2 });
+  });
+
+  it("records the synchronous response as the job result (failure statuses settle 'failed')", async () => {
+    const queue = queueWith();
+    const ok = queue.submit({
+      route: "tradingview-webhook",
+      signalId: "sig-1",
+      run: async () => ({ httpStatus: 200, body: { signalId: "sig-1" } }),
+    });
+    const refused = queue.submit({
+      route: "tradingview-webhook",
+      run: async () => ({ httpStatus: 503, body: { error: "evidence_persistence_unavailable" } }),
+    });
+    const crashed = queue.submit({
+      route: "tradingview-webhook",
+      run: async () => {
+        throw new Error("kaboom");
+      },
+    });
+    await queue.drain(1000);
+
+    expect(queue.get(ok.jobId)).toMatchObject({
+      route: "tradingview-webhook",
+      signalId: "sig-1",
+      status: "succeeded",
+      result: { httpStatus: 200, body: { signalId: "sig-1" } },
+    });
+    expect(queue.get(ok.jobId)?.finishedAt).toEqual(expect.any(String));
+    expect(queue.get(refused.jobId)).toMatchObject({ status: "failed", result: { httpStatus: 503 } });
+    expect(queue.get(crashed.jobId)).toMatchObject({
+      status: "failed",
+      result: { httpStatus: 500, body: { error: "internal_error", message: "kaboom" } },
+    });
+  });
+
+  it("forgets finished jobs past retention and beyond maxRetained (oldest first)", async () => {
+    let now = 1_000_000;
+    const queue = queueWith({ retentionMs: 60_000, maxRetained: 2 }, { now: () => now });
+    const ids = [];
+    for (let i = 0; i < 3; i += 1) {
+      ids.push(queue.submit({ route: "cpj", run: async () => ({ httpStatus: 200, body: i }) }).jobId);
+      await queue.drain(1000);
+    }
+    expect(queue.get(ids[0])).toBeUndefined();
+    expect(queue.get(ids[2])?.status).toBe("succeeded");
+
+    now += 60_001;
+    expect(queue.get(ids[2])).toBeUndefined();
+  });
+
+  it("POSTs the finished job to the callback URL and records the delivery (fail-open)", async () => {
+    const calls: Array<{ url: string; body: Record<string, unknown> }> = [];
+    let answer = 204;
+    const fetchImpl = (async (url: string, init: RequestInit) => {
+      calls.push({ url, body: JSON.parse(String(init.body)) });
+      return new Response(null, { status: answer });
+    }) as unknown as typeof fetch;
+    const queue = queueWith({}, { fetchImpl });
+
+    const delivered = queue.submit({
+      route: "markittick",
+      callbackUrl: "https://hooks.example.com/afi",
+      run: async () => ({ httpStatus: 200, body: { signalId: "sig-2" } }),
+    });
+    expect(delivered.callback).toEqual({ url: "https://hooks.example.com/afi", outcome: "pending" });
+    await queue.drain(1000);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].body).toMatchObject({
+      jobId: delivered.jobId,
+      status: "succeeded",
+      result: { httpStatus: 200, body: { signalId: "sig-2" } },
+    });
+    expect(queue.get(delivered.jobId)?.callback).toEqual({
+      url: "https://hooks.example.com/afi",
+      outcome: "delivered",
+      httpStatus: 204,
+    });
+
+    answer = 500;
+    const failed = queue.submit({
+      route: "markittick",
+      callbackUrl: "https://hooks.example.com/afi",
+      run: async () => ({ httpStatus: 200, body: {} }),
+    });
+    await queue.drain(1000);
+    expect(queue.get(failed.jobId)).toMatchObject({
+      status: "succeeded",
+      callback: { outcome: "failed", httpStatus: 500, error: "callback endpoint answered 500" },
+    });
+  });
+
+  it("drain reports the jobs still unfinished when its bound elapses", async () => {
+    const queue = queueWith({ concurrency: 1 });
+    const stuck = deferred();
+    queue.submit({ route: "cpj", run: () => stuck.promise });
+    queue.submit({ route: "cpj", run: () => stuck.promise });
+    expect(await queue.drain(20)).toBe(2);
+    stuck.resolve({ httpStatus: 200, body: {} });
+    expect(await queue.drain(1000)).toBe(0);
+  });
+});
+
+const NO_HOSTS: ReadonlySet<string> = new Set();
+
+describe("parseIngestMode", () => {
+  it("is synchronous by default and async on ?async=1|true or Prefer: respond-async", () => {
+    expect(parseIngestMode({}, undefined, NO_HOSTS)).toEqual({ async: false });
+    expect(parseIngestMode({ async: "1" }, undefined, NO_HOSTS)).toEqual({ async: true });
+    expect(parseIngestMode({ async: "true" }, undefined, NO_HOSTS)).toEqual({ async: true });
+    expect(parseIngestMode({}, "return=minimal, respond-async", NO_HOSTS)).toEqual({ async: true });
+    // An explicit query wins over the header.
+    expect(parseIngestMode({ async: "0" }, "respond-async", NO_HOSTS)).toEqual({ async: false });
+    expect(() => parseIngestMode({ async: "yes" }, undefined, NO_HOSTS)).toThrow(IngestModeError);
+  });
+
+  it("admits only https callback URLs without credentials, on the allowlist", () => {
+    const allowlist = new Set(["hooks.example.com"]);
+    expect(parseIngestMode({ async: "1", callbackUrl: "https://hooks.example.com/x" }, undefined, allowlist)).toEqual({
+      async: true,
+      callbackUrl: "https://hooks.example.com/x",
+    });
+    const refusals: Array<[Record<string, unknown>, RegExp]> = [
+      [{ callbackUrl: "https://hooks.example.com/x" }, /only in async mode/],
+      [{ async: "1", callbackUrl: "http://hooks.example.com/x" }, /must use https/],
+      [{ async: "1", callbackUrl: "https://u:p@hooks.example.com/x" }, /credentials/],
+      [{ async: "1", callbackUrl: "not a url" }, /not a valid URL/],
+      [{ async: "1", callbackUrl: ["https://a.example.com", "https://b.example.com"] }, /single URL/],
+      [{ async: "1", callbackUrl: "https://evil.example.net/x" }, /not on the callback allowlist/],
+    ];
+    for (const [query, message] of refusals) {
+      expect(() => parseIngestMode(query, undefined, allowlist)).toThrow(message);
+    }
+    expect(
+      parseIngestMode({ async: "1", callbackUrl: "https://HOOKS.example.com/x" }, undefined, allowlist).async
+    ).toBe(true);
+  });
+
+  it("refuses every callback when no allowlist is configured (the default)", () => {
+    expect(DEFAULT_INGEST_JOB_QUEUE_CONFIG.callbackAllowedHosts.size).toBe(0);
+    expect(() =>
+      parseIngestMode({ async: "1", callbackUrl: "https://hooks.example.com/x" }, undefined, NO_HOSTS)
+    ).toThrow(/callbacks are disabled/);
+  });
+});
+
+describe("ingestJobQueueConfigFromEnv", () => {
+  it("defaults, overrides and refuses malformed values", () => {
+    expect(ingestJobQueueConfigFromEnv({})).toEqual(DEFAULT_INGEST_JOB_QUEUE_CONFIG);
+    const config = ingestJobQueueConfigFromEnv({
+      AFI_INGEST_QUEUE_CONCURRENCY: "4",
+      AFI_INGEST_QUEUE_MAX_PENDING: "10",
+      AFI_INGEST_JOB_RETENTION_MINUTES: "5",
+      AFI_INGEST_CALLBACK_ALLOWED_HOSTS: " Hooks.Example.com , ops.example.com",
+    });
+    expect(config).toMatchObject({ concurrency: 4, maxPending: 10, retentionMs: 300_000 });
+    expect([...config.callbackAllowedHosts]).toEqual(["hooks.example.com", "ops.example.com"]);
+    expect(() => ingestJobQueueConfigFromEnv({ AFI_INGEST_QUEUE_MAX_PENDING: "0" })).toThrow(
+      /AFI_INGEST_QUEUE_MAX_PENDING must be a positive integer/
+    );
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Worker-thread node isolation (PipelineNode.resourceLimits, enforced by
+ * src/pipeline/isolatedNodeRunner.ts): an isolated node runs in a worker
+ * rebuilt from its plugin's module entry, a heap or active-time breach is a
+ * fast-fail NodeResourceLimitError that follows the node's failure policy,
+ * and misdeclared limits are refused before anything runs.
+ */
+import { jest } from "@jest/globals";
+
+// Repo idiom (see graphProofs.test.ts): no ccxt request is ever issued.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return {
+    __esModule: true,
+    default: { blofin: UnusedExchange, coinbase: UnusedExchange },
+  };
+});
+
+import {
+  GraphExecutor,
+  NodeExecutionError,
+  validatePipelineGraph,
+  type GraphExecutionResult,
+} from "../../src/pipeline/executor.js";
+import { NodeResourceLimitError } from "../../src/pipeline/isolatedNodeRunner.js";
+import type { NodeResourceLimits, PipelineManifest } from "../../src/pipeline/manifestTypes.js";
+import { NodeConfigurationError, type AnalysisNodePlugin, type NodeLogger } from "../../src/pipeline/nodeSdk.js";
+import type { PluginRegistry } from "../../src/pipeline/pluginRegistry.js";
+import { loadConformanceFixture, makeTestPluginSet, testSignal } from "./support/testHarness.js";
+
+/** A worker entry module binding afi-analysis-sentiment@<version> to `runBody`. */
+function sentimentModule(runBody: string, version: string): string {
+  const source = `
+import { threadId } from "node:worker_threads";
+export function createNode(host) {
+  return {
+    manifestRef: { pluginId: "afi-analysis-sentiment", pluginVersion: "${version}" },
+    async run(input, ctx) { ${runBody} },
+  };
+}
+`;
+  return `data:text/javascript;base64,${Buffer.from(source).toString("base64")}`;
+}
+
+function isolatedSentiment(runBody: string | undefined, moduleVersion = "1.0.0"): PluginRegistry {
+  const base = makeTestPluginSet().registry;
+  const plugin: AnalysisNodePlugin = {
+    manifestRef: { pluginId: "afi-analysis-sentiment", pluginVersion: "1.0.0" },
+    run: async () => {
+      throw new Error("the in-process binding must not run for an isolated node");
+    },
+    ...(runBody !== undefined ? { isolatedModuleUrl: sentimentModule(runBody, moduleVersion) } : {}),
+  };
+  return {
+    get: (id, version) => (id === plugin.manifestRef.pluginId ? plugin : base.get(id, version)),
+    has: (id, version) => base.has(id, version),
+    keys: () => base.keys(),
+  };
+}
+
+function withSentiment(patch: Record<string, unknown>): PipelineManifest {
+  const manifest = loadConformanceFixture("07-fail-soft-optional-category.json");
+  return { ...manifest, nodes: manifest.nodes.map((n) => (n.id === "sentiment" ? { ...n, ...patch } : n)) };
+}
+
+function worker(limits: Omit<NodeResourceLimits, "isolation"> = {}): { resourceLimits: NodeResourceLimits } {
+  return { resourceLimits: { isolation: "worker", ...limits } };
+}
+
+function run(manifest: PipelineManifest, registry: PluginRegistry, logger?: NodeLogger): Promise<GraphExecutionResult> {
+  return new GraphExecutor({ registry, logger }).execute({ manifest, input: { seed: 1 }, signal: testSignal() });
+}
+
+function sentimentOf(result: GraphExecutionResult) {
+  return result.nodes.find((n) => n.nodeId === "sentiment")!;
+}
+
+describe("worker-isolated nodes", () => {
+  it("runs the node in a worker thread and forwards its logs", async () => {
+    const logs: Array<{ message: string; fields?: Record<string, unknown> }> = [];
+    const logger: NodeLogger = {
+      debug() {},
+      info(message, fields) {
+        logs.push({ message, fields });
+      },
+      warn() {},
+      error() {},
+    };
+    const registry = isolatedSentiment(
+      `ctx.logger.info("scoring in isolation", { window: ctx.config.window });
+       return host.ok({ threadId, echo: input, window: ctx.config.window, symbol: ctx.signal.facts?.symbol ?? null });`
+    );
+    const result = await run(withSentiment({ ...worker({ maxHeapMb: 64 }), config: { window: 24 } }), registry, logger);
+
+    const sentiment = sentimentOf(result);
+    expect(sentiment.status).toBe("executed");
+    const output = sentiment.output as { threadId: number; echo: unknown; window: number };
+    expect(output.threadId).toBeGreaterThan(0);
+    expect(output.window).toBe(24);
+    expect(output.echo).toEqual(result.nodes.find((n) => n.nodeId === "technical")!.output);
+    expect(logs).toContainEqual({ message: "scoring in isolation", fields: { nodeId: "sentiment", window: 24 } });
+    expect(result.nodes.find((n) => n.nodeId === "scorer")?.status).toBe("executed");
+  });
+
+  it("cuts an active-time breach without retrying and degrades the optional lane", async () => {
+    const registry = isolatedSentiment(`for (;;) {}`);
+    const startedAt = Date.now();
+    const result = await run(withSentiment({ ...worker({ activeTimeMs: 100 }), maxRetries: 2 }), registry);
+
+    expect(Date.now() - startedAt).toBeLessThan(5_000);
+    const sentiment = sentimentOf(result);
+    expect(sentiment.status).toBe("failed-optional");
+    expect(sentiment.attempts).toBe(1);
+    expect(sentiment.degradations).toEqual([
+      { class: "resource-limit", detail: "node 'sentiment' exceeded its 100ms active-time budget" },
+    ]);
+    expect(result.nodes.find((n) => n.nodeId === "scorer")?.status).toBe("executed");
+  });
+
+  it("aborts the run when a critical node exhausts its heap limit", async () => {
+    const registry = isolatedSentiment(`const hoard = []; for (;;) hoard.push(new Array(100_000).fill(input));`);
+    const failure = run(withSentiment({ ...worker({ maxHeapMb: 32 }), critical: true, failurePolicy: "abort" }), registry);
+
+    await expect(failure).rejects.toThrow(NodeExecutionError);
+    await expect(failure).rejects.toMatchObject({
+      nodeId: "sentiment",
+      fatalReason: "critical-failure",
+      cause: expect.objectContaining({ limit: "heap", limitValue: 32 }),
+    });
+    await expect(failure).rejects.toHaveProperty("cause", expect.any(NodeResourceLimitError));
+  });
+
+  it("terminates a spinning worker on the wall-clock timeout", async () => {
+    const registry = isolatedSentiment(`for (;;) {}`);
+    const result = await run(withSentiment({ ...worker(), timeoutMs: 100 }), registry);
+    const sentiment = sentimentOf(result);
+    expect(sentiment.status).toBe("failed-optional");
+    expect(sentiment.degradations[0]).toEqual({ class: "node-failure", detail: "node 'sentiment' timed out after 100ms" });
+  });
+
+  it("carries the worker's own failures back: plain errors retry, configuration errors are fatal", async () => {
+    const flaky = await run(
+      withSentiment({ ...worker(), maxRetries: 1, backoff: "none" }),
+      isolatedSentiment(`throw new Error("model offline");`)
+    );
+    expect(sentimentOf(flaky)).toMatchObject({
+      status: "failed-optional",
+      attempts: 2,
+      degradations: [{ class: "node-failure", detail: "model offline" }],
+    });
+
+    const unconfigured = run(
+      withSentiment(worker()),
+      isolatedSentiment(`const e = new Error("MODEL_PATH is not set"); e.name = "NodeConfigurationError"; throw e;`)
+    );
+    await expect(unconfigured).rejects.toMatchObject({ fatalReason: "configuration" });
+  });
+
+  it("refuses isolation of a plugin without a worker entry, and a module bound to another identity", async () => {
+    await expect(run(withSentiment(worker()), isolatedSentiment(undefined))).rejects.toMatchObject({
+      fatalReason: "configuration",
+      cause: expect.any(NodeConfigurationError),
+    });
+
+    const misbound = isolatedSentiment(`return host.ok({})`, "9.9.9");
+    await expect(run(withSentiment(worker()), misbound)).rejects.toThrow(
+      /isolated module failed to load: the module's createNode did not return a node bound to afi-analysis-sentiment@1.0.0/
+    );
+  });
+
+  it("reports misdeclared resource limits as graph issues", () => {
+    expect(validatePipelineGraph(withSentiment(worker({ maxHeapMb: 64, activeTimeMs: 500, maxConcurrent: 1 })))).toEqual(
+      []
+    );
+    expect(validatePipelineGraph(withSentiment({ resourceLimits: { maxHeapMb: 64 } }))).toEqual([
+      "node 'sentiment' resourceLimits.maxHeapMb requires isolation 'worker'",
+    ]);
+    expect(
+      validatePipelineGraph(withSentiment({ resourceLimits: { isolation: "process", activeTimeMs: 0 } }))
+    ).toEqual([
+      "node 'sentiment' resourceLimits.isolation must be 'worker' or 'inline'",
+      "node 'sentiment' resourceLimits.activeTimeMs must be an integer >= 1",
+    ]);
+    // A CPU-time budget cannot be measured per worker thread: refused, never carried as a hint.
+    expect(validatePipelineGraph(withSentiment(worker({ cpuTimeMs: 500 })))).toEqual([
+      "node 'sentiment' resourceLimits.cpuTimeMs is not enforced; use activeTimeMs (event-loop active time)",
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Prometheus metrics — the exposition contract:
+ *  - histograms render cumulative buckets, +Inf, _sum and _count per series;
+ *  - a graph pass counts every settled node by status and lane-times only
+ *    the analysis-lane nodes;
+ *  - label values are escaped, and unobserved metrics still carry HELP/TYPE;
+ *  - the provider runtime reports a failed invocation's ProviderErrorCode
+ *    through its hook before rethrowing.
+ */
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+
+// Repo idiom (see providerAdapterLayer.test.ts): the adapter barrel touches the
+// price-feed registry; this suite never issues a ccxt request.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return { __esModule: true, default: { blofin: UnusedExchange, coinbase: UnusedExchange } };
+});
+
+import {
+  __resetMetricsForTests,
+  countEvidencePersistence,
+  countNodeRetry,
+  countStrategyRejection,
+  observeGraphPass,
+  observeHttpRequest,
+  renderMetrics,
+} from "../../src/services/metricsService.js";
+import { buildProviderRuntime, ProviderResolutionError, type ProviderErrorEvent } from "../../src/providers/index.js";
+import { ANALYSIS_LANES } from "../../src/services/graphScoringService.js";
+import { SILENT_NODE_LOGGER } from "../../src/pipeline/nodeSdk.js";
+import { testSignal } from "./support/testHarness.js";
+
+const lines = () => renderMetrics().split("\n");
+
+describe("metrics service", () => {
+  beforeEach(() => __resetMetricsForTests());
+
+  it("renders HELP/TYPE for every metric even before any observation", () => {
+    const text = renderMetrics();
+    for (const [name, type] of [
+      ["afi_http_request_duration_seconds", "histogram"],
+      ["afi_lane_duration_seconds", "histogram"],
+      ["afi_pipeline_node_status_total", "counter"],
+      ["afi_pipeline_node_retries_total", "counter"],
+      ["afi_provider_errors_total", "counter"],
+      ["afi_strategy_resolution_rejections_total", "counter"],
+      ["afi_evidence_persistence_total", "counter"],
+    ]) {
+      expect(text).toContain(`# TYPE ${name} ${type}\n`);
+    }
+  });
+
+  it("renders cumulative histogram buckets with sum and count", () => {
+    observeHttpRequest("POST", "/api/webhooks/tradingview", 200, 40);
+    observeHttpRequest("POST", "/api/webhooks/tradingview", 200, 700);
+    const series = 'method="POST",route="/api/webhooks/tradingview",status="200"';
+    expect(lines()).toEqual(
+      expect.arrayContaining([
+        `afi_http_request_duration_seconds_bucket{${series},le="0.025"} 0`,
+        `afi_http_request_duration_seconds_bucket{${series},le="0.05"} 1`,
+        `afi_http_request_duration_seconds_bucket{${series},le="1"} 2`,
+        `afi_http_request_duration_seconds_bucket{${series},le="+Inf"} 2`,
+        `afi_http_request_duration_seconds_sum{${series}} 0.74`,
+        `afi_http_request_duration_seconds_count{${series}} 2`,
+      ])
+    );
+  });
+
+  it("counts settled nodes by status and lane-times analysis lanes only", () => {
+    observeGraphPass(
+      [
+        { nodeId: "technical", category: "technical", status: "executed", durationMs: 12 },
+        { nodeId: "news", category: "news", status: "failed-optional", durationMs: 3000 },
+        { nodeId: "pattern", category: "pattern", status: "skipped", durationMs: 0 },
+        { nodeId: "scorer", category: "scorer", status: "executed", durationMs: 2 },
+      ],
+      ANALYSIS_LANES
+    );
+    countNodeRetry("news");
+    const out = lines();
+    expect(out).toContain('afi_pipeline_node_status_total{node="news",status="failed-optional"} 1');
+    expect(out).toContain('afi_pipeline_node_status_total{node="scorer",status="executed"} 1');
+    expect(out).toContain('afi_lane_duration_seconds_count{lane="technical",status="executed"} 1');
+    expect(out).toContain('afi_lane_duration_seconds_sum{lane="news",status="failed-optional"} 3');
+    expect(out.some((l) => l.includes('lane="scorer"'))).toBe(false);
+    expect(out).toContain('afi_pipeline_node_retries_total{node="news"} 1');
+  });
+
+  it("counts rejections and persistence results, escaping label values", () => {
+    countStrategyRejection("unauthorized_strategy");
+    countEvidencePersistence("inserted");
+    countEvidencePersistence("inserted");
+    countEvidencePersistence("persistence");
+    observeHttpRequest("GET", 'odd"route\\', 404, 1);
+    const out = lines();
+    expect(out).toContain('afi_strategy_resolution_rejections_total{code="unauthorized_strategy"} 1');
+    expect(out).toContain('afi_evidence_persistence_total{result="inserted"} 2');
+    expect(out).toContain('afi_evidence_persistence_total{result="persistence"} 1');
+    expect(out).toContain('afi_http_request_duration_seconds_count{method="GET",route="odd\\"route\\\\",status="404"} 1');
+  });
+
+  it("the provider runtime reports the error code through its hook and rethrows", async () => {
+    const events: ProviderErrorEvent[] = [];
+    const runtime = buildProviderRuntime({ onProviderError: (e) => events.push(e) });
+    await expect(
+      runtime.invoke(
+        { providerInstanceId: "pi-missing", recordVersion: "1.0.0" },
+        { signal: testSignal(), logger: SILENT_NODE_LOGGER, abort: new AbortController().signal }
+      )
+    ).rejects.toBeInstanceOf(ProviderResolutionError);
+    expect(events).toEqual([{ code: "provider-instance-unresolved", providerInstanceId: "pi-missing" }]);
+  });
+});
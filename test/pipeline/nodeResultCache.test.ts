@@ -0,0 +1,212 @@
+/**
+ * Node result memoization (src/pipeline/nodeResultCache.ts): a provider-free
+ * node whose plugin manifest declares `deterministic: true` is served from
+ * the result cache when the same input, config and signal projection ran
+ * before; hits surface as 'cache-hit' node events and never change the run's
+ * outcome. Provider-backed lanes always run.
+ */
+import { jest } from "@jest/globals";
+
+// Repo idiom (see graphProofs.test.ts): no ccxt request is ever issued.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return {
+    __esModule: true,
+    default: { blofin: UnusedExchange, coinbase: UnusedExchange },
+  };
+});
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { GraphExecutor, type GraphExecutionResult, type NodeMetricEvent } from "../../src/pipeline/executor.js";
+import type { AnalysisPluginManifest, PipelineManifest } from "../../src/pipeline/manifestTypes.js";
+import type { CanonicalUss } from "../../src/pipeline/nodeSdk.js";
+import {
+  createFileNodeResultCacheStore,
+  NodeResultCache,
+  nodeResultCacheFromEnv,
+} from "../../src/pipeline/nodeResultCache.js";
+import type { PluginRegistry } from "../../src/pipeline/pluginRegistry.js";
+import type { ProviderInvocationProofV1 } from "../../src/providers/invocationProof.js";
+import { loadConformanceFixture, makeTestPluginSet, testSignal, type TestPluginSet } from "./support/testHarness.js";
+
+const DETERMINISTIC: Record<string, boolean> = {
+  "afi-analysis-technical": true,
+  "afi-analysis-sentiment": false,
+  "afi-analysis-news": false,
+  "afi-merge-enriched-view": true,
+  "afi-scorer-froggy-trend-pullback": true,
+};
+
+const PLUGIN_MANIFESTS = new Map(
+  Object.entries(DETERMINISTIC).map(([pluginId, deterministic]) => [
+    `${pluginId}@1.0.0`,
+    { pluginId, pluginVersion: "1.0.0", deterministic } as AnalysisPluginManifest,
+  ])
+);
+
+const MANIFEST = loadConformanceFixture("03-parallel-multi-category.json");
+
+function run(
+  registry: PluginRegistry,
+  resultCache: NodeResultCache,
+  signal: CanonicalUss = testSignal(),
+  events: NodeMetricEvent[] = []
+): Promise<GraphExecutionResult> {
+  return new GraphExecutor({
+    registry,
+    pluginManifests: PLUGIN_MANIFESTS,
+    resultCache,
+    onNodeEvent: (event) => events.push(event),
+  }).execute({ manifest: MANIFEST, input: { seed: 1 }, signal });
+}
+
+function attempts(set: TestPluginSet): Record<string, number> {
+  return Object.fromEntries([...set.attemptCounts.entries()].sort());
+}
+
+describe("node result memoization", () => {
+  it("serves deterministic nodes from the cache on a repeated signal, with an identical outcome", async () => {
+    const cache = new NodeResultCache();
+    const set = makeTestPluginSet();
+    const first = await run(set.registry, cache);
+    const events: NodeMetricEvent[] = [];
+    const second = await run(set.registry, cache, testSignal(), events);
+
+    expect(attempts(set)).toEqual({
+      "afi-analysis-news": 2,
+      "afi-analysis-sentiment": 2,
+      "afi-analysis-technical": 1,
+      "afi-merge-enriched-view": 1,
+      "afi-scorer-froggy-trend-pullback": 1,
+    });
+    expect(events.filter((e) => e.status === "cache-hit").map((e) => e.nodeId)).toEqual([
+      "technical",
+      "merge",
+      "scorer",
+    ]);
+    expect(second.result).toEqual(first.result);
+    expect(second.executionSummaryHash).toEqual(first.executionSummaryHash);
+    expect(second.nodes.find((n) => n.nodeId === "merge")?.cached).toBe(true);
+    expect(second.nodes.find((n) => n.nodeId === "news")?.cached).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ size: 3, hits: 3, misses: 3 });
+  });
+
+  it("keys on the signal projection: ingest receipts are ignored, a plugin may narrow it", async () => {
+    const cache = new NodeResultCache();
+    const set = makeTestPluginSet();
+    const signal = (signalId: string, ingestedAt: string): CanonicalUss => {
+      const base = testSignal();
+      return { ...base, provenance: { ...base.provenance, signalId, ingestedAt } };
+    };
+
+    await run(set.registry, cache, signal("sig-a", "2026-01-01T00:00:00Z"));
+    await run(set.registry, cache, signal("sig-a", "2026-01-01T00:05:00Z"));
+    expect(set.attemptCounts.get("afi-analysis-technical")).toBe(1);
+    await run(set.registry, cache, signal("sig-b", "2026-01-01T00:05:00Z"));
+    expect(set.attemptCounts.get("afi-analysis-technical")).toBe(2);
+
+    // A pure plugin may declare it reads only the symbol and timeframe.
+    const technical = set.registry.get("afi-analysis-technical", "1.0.0")!;
+    const narrowed: PluginRegistry = {
+      ...set.registry,
+      get: (id, version) =>
+        id === "afi-analysis-technical"
+          ? { ...technical, memoSignalProjection: (s) => [s.facts?.symbol, s.facts?.timeframe] }
+          : set.registry.get(id, version),
+    };
+    await run(narrowed, cache, signal("sig-c", "2026-01-01T00:10:00Z"));
+    await run(narrowed, cache, signal("sig-d", "2026-01-01T00:15:00Z"));
+    expect(set.attemptCounts.get("afi-analysis-technical")).toBe(3);
+  });
+
+  it("never caches a degraded result, and hands out copies a consumer cannot corrupt", async () => {
+    const cache = new NodeResultCache();
+    const degraded = makeTestPluginSet({
+      "afi-analysis-technical": { degradations: [{ class: "provider-unavailable", detail: "partial candles" }] },
+    });
+    await run(degraded.registry, cache);
+    await run(degraded.registry, cache);
+    expect(degraded.attemptCounts.get("afi-analysis-technical")).toBe(2);
+
+    const seen: string[] = [];
+    const set = makeTestPluginSet({
+      "afi-analysis-sentiment": {
+        output: (input) => {
+          seen.push((input as { plugin: string }).plugin);
+          (input as { plugin: string }).plugin = "tampered";
+          return { plugin: "afi-analysis-sentiment" };
+        },
+      },
+    });
+    const fresh = new NodeResultCache();
+    await run(set.registry, fresh);
+    const second = await run(set.registry, fresh);
+    expect(second.nodes.find((n) => n.nodeId === "technical")?.cached).toBe(true);
+    expect(seen).toEqual(["afi-analysis-technical", "afi-analysis-technical"]);
+  });
+
+  it("never memoizes a provider-backed node, nor one that deposited an invocation proof", async () => {
+    const bound: PipelineManifest = {
+      ...MANIFEST,
+      nodes: MANIFEST.nodes.map((n) =>
+        n.id === "technical"
+          ? { ...n, providerInstanceRef: { providerInstanceId: "technical-local", recordVersion: "1.0.0" } }
+          : n
+      ),
+    };
+    const set = makeTestPluginSet();
+    const cache = new NodeResultCache();
+    for (let i = 0; i < 2; i++) {
+      await new GraphExecutor({ registry: set.registry, pluginManifests: PLUGIN_MANIFESTS, resultCache: cache }).execute(
+        { manifest: bound, input: { seed: 1 }, signal: testSignal() }
+      );
+    }
+    expect(set.attemptCounts.get("afi-analysis-technical")).toBe(2);
+
+    const proof = { schema: "afi.provider-invocation-proof.v1", category: "technical" } as ProviderInvocationProofV1;
+    const proving = makeTestPluginSet({
+      "afi-analysis-technical": {
+        output: (_input, ctx) => {
+          ctx.depositInvocationProof?.(proof);
+          return { technical: { atrPct: 1.2 } };
+        },
+      },
+    });
+    const fresh = new NodeResultCache();
+    await run(proving.registry, fresh);
+    const second = await run(proving.registry, fresh);
+
+    expect(proving.attemptCounts.get("afi-analysis-technical")).toBe(2);
+    expect(second.invocationProofs).toEqual([proof]);
+    expect(second.nodes.find((n) => n.nodeId === "technical")?.cached).toBeUndefined();
+  });
+
+  it("resumes warm from the file store and evicts the least recently used entry", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "afi-node-results-"));
+    try {
+      const set = makeTestPluginSet();
+      await run(set.registry, new NodeResultCache({ store: createFileNodeResultCacheStore(dir) }));
+      // Let the fire-and-forget saves land.
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const restarted = new NodeResultCache({ maxEntries: 2, store: createFileNodeResultCacheStore(dir) });
+      await run(set.registry, restarted);
+      expect(set.attemptCounts.get("afi-merge-enriched-view")).toBe(1);
+      expect(restarted.getStats()).toMatchObject({ size: 2, hits: 3, storeErrors: 0 });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("reads its configuration from the environment", () => {
+    expect(nodeResultCacheFromEnv({ AFI_NODE_RESULT_CACHE: "off" })).toBeUndefined();
+    expect(nodeResultCacheFromEnv({ AFI_NODE_RESULT_CACHE_MAX_ENTRIES: "8" })?.getStats()).toMatchObject({
+      maxEntries: 8,
+    });
+    expect(() => nodeResultCacheFromEnv({ AFI_NODE_RESULT_CACHE_MAX_ENTRIES: "0" })).toThrow(
+      'AFI_NODE_RESULT_CACHE_MAX_ENTRIES must be a positive integer, got "0"'
+    );
+  });
+});
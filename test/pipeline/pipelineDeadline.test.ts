@@ -0,0 +1,206 @@
+/**
+ * Pipeline time budget (ExecuteRequest.deadlineMs / manifest deadlineMs) over
+ * the factory conformance fixtures: node timeouts shrink to the remaining
+ * budget, retry delays that no longer fit are shortened (a retry is
+ * abandoned only once the budget is spent), optional degrade lanes
+ * are cut to 'failed-optional' while the critical tail still finishes, and
+ * the outcome is operational run metadata that never reaches the hashed
+ * execution summary.
+ */
+import { jest } from "@jest/globals";
+
+// Repo idiom (see graphProofs.test.ts): no ccxt request is ever issued.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return {
+    __esModule: true,
+    default: { blofin: UnusedExchange, coinbase: UnusedExchange },
+  };
+});
+
+import {
+  DEADLINE_MIN_ATTEMPT_MS,
+  GraphExecutor,
+  GraphValidationError,
+  NodeExecutionError,
+  PipelineDeadlineExceededError,
+  type GraphExecutionResult,
+  type GraphExecutorOptions,
+} from "../../src/pipeline/executor.js";
+import { buildExecutionSummary, computeExecutionSummaryHash } from "../../src/pipeline/executionSummary.js";
+import type { PipelineManifest } from "../../src/pipeline/manifestTypes.js";
+import { scoreDeadlineFromEnv } from "../../src/services/graphScoringService.js";
+import { loadConformanceFixture, makeTestPluginSet, testSignal, type TestPluginSet } from "./support/testHarness.js";
+
+function withNode(
+  manifest: PipelineManifest,
+  nodeId: string,
+  patch: Partial<PipelineManifest["nodes"][number]>
+): PipelineManifest {
+  return { ...manifest, nodes: manifest.nodes.map((n) => (n.id === nodeId ? { ...n, ...patch } : n)) };
+}
+
+function run(
+  manifest: PipelineManifest,
+  set: TestPluginSet,
+  deadlineMs?: number,
+  options: Partial<GraphExecutorOptions> = {}
+): Promise<GraphExecutionResult> {
+  return new GraphExecutor({ registry: set.registry, ...options }).execute({
+    manifest,
+    input: { seed: "entry-input" },
+    signal: testSignal(),
+    deadlineMs,
+  });
+}
+
+function statusOf(result: GraphExecutionResult, nodeId: string): string | undefined {
+  return result.nodes.find((n) => n.nodeId === nodeId)?.status;
+}
+
+describe("pipeline time budget", () => {
+  it("records the outcome outside the hashed summary: a budget never changes the executionSummaryHash", async () => {
+    const manifest = loadConformanceFixture("07-fail-soft-optional-category.json");
+    const budgeted = await run(manifest, makeTestPluginSet(), 5_000);
+    expect(budgeted.deadline).toEqual({ budgetMs: 5_000, outcome: "met", cutNodes: [] });
+    expect("deadline" in budgeted.summary).toBe(false);
+
+    const unbudgeted = await run(manifest, makeTestPluginSet());
+    expect(unbudgeted.deadline).toBeUndefined();
+    expect(budgeted.executionSummaryHash).toEqual(unbudgeted.executionSummaryHash);
+    expect(budgeted.executionSummaryHash).toEqual(
+      computeExecutionSummaryHash(buildExecutionSummary(budgeted.summary.nodes))
+    );
+  });
+
+  it("cuts a hanging optional lane inside the reserve so the merge and scorer still finish", async () => {
+    const set = makeTestPluginSet({ "afi-analysis-sentiment": { hangUntilAbort: true } });
+    const startedAt = Date.now();
+    const result = await run(loadConformanceFixture("07-fail-soft-optional-category.json"), set, 250);
+
+    expect(Date.now() - startedAt).toBeLessThan(250);
+    expect(statusOf(result, "sentiment")).toBe("failed-optional");
+    expect(result.nodes.find((n) => n.nodeId === "sentiment")?.degradations).toEqual([
+      { class: "pipeline-deadline", detail: "node 'sentiment' cut by the 250ms pipeline deadline" },
+    ]);
+    expect(statusOf(result, "merge")).toBe("executed");
+    expect(statusOf(result, "scorer")).toBe("executed");
+    expect(result.deadline).toEqual({ budgetMs: 250, outcome: "exceeded", cutNodes: ["sentiment"] });
+  });
+
+  it("shrinks a critical node's timeout to the budget and aborts the run instead of overrunning", async () => {
+    const set = makeTestPluginSet({ "afi-analysis-technical": { hangUntilAbort: true } });
+    const manifest = withNode(loadConformanceFixture("01-one-category.json"), "technical", {
+      timeoutMs: 10_000,
+    });
+    const startedAt = Date.now();
+    const failure = run(manifest, set, 60);
+
+    await expect(failure).rejects.toThrow(NodeExecutionError);
+    await expect(failure).rejects.toMatchObject({
+      fatalReason: "critical-failure",
+      cause: expect.any(PipelineDeadlineExceededError),
+    });
+    expect(Date.now() - startedAt).toBeLessThan(1_000);
+    expect(set.events.some((e) => e.pluginId === "afi-scorer-froggy-trend-pullback")).toBe(false);
+  });
+
+  it("shortens a retry delay that overruns the budget so the retry still runs", async () => {
+    const sleeps: number[] = [];
+    const set = makeTestPluginSet({
+      "afi-analysis-sentiment": { error: () => new Error("transient provider error"), failuresBeforeSuccess: 1 },
+    });
+    const manifest = withNode(loadConformanceFixture("07-fail-soft-optional-category.json"), "sentiment", {
+      maxRetries: 1,
+      retryDelayMs: 10_000,
+    });
+    const result = await run(manifest, set, 500, {
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+    });
+
+    // The optional lane's share of the budget is 400ms: the delay leaves the
+    // retry at least DEADLINE_MIN_ATTEMPT_MS of it.
+    expect(sleeps).toHaveLength(1);
+    expect(sleeps[0]).toBeGreaterThan(0);
+    expect(sleeps[0]).toBeLessThanOrEqual(400 - DEADLINE_MIN_ATTEMPT_MS);
+    expect(set.attemptCounts.get("afi-analysis-sentiment")).toBe(2);
+    expect(statusOf(result, "sentiment")).toBe("executed");
+    expect(result.deadline?.outcome).toBe("met");
+  });
+
+  it("abandons the retry only once the budget is spent", async () => {
+    const sleeps: number[] = [];
+    const set = makeTestPluginSet({
+      "afi-analysis-sentiment": {
+        error: () => new Error("transient provider error"),
+        // Blocks past the lane's 200ms share, so the failure (not the
+        // deadline timer) settles the attempt with nothing of the budget left.
+        delayMs: () => {
+          const until = Date.now() + 220;
+          while (Date.now() < until);
+          return 0;
+        },
+      },
+    });
+    const manifest = withNode(loadConformanceFixture("07-fail-soft-optional-category.json"), "sentiment", {
+      maxRetries: 3,
+      retryDelayMs: 10,
+    });
+    const result = await run(manifest, set, 250, {
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+    });
+
+    expect(sleeps).toEqual([]);
+    expect(set.attemptCounts.get("afi-analysis-sentiment")).toBe(1);
+    expect(statusOf(result, "sentiment")).toBe("failed-optional");
+    expect(result.nodes.find((n) => n.nodeId === "sentiment")?.degradations[0]).toEqual({
+      class: "pipeline-deadline",
+      detail:
+        "node 'sentiment' cut by the 250ms pipeline deadline (last failure: transient provider error)",
+    });
+    expect(result.deadline?.outcome).toBe("exceeded");
+  });
+
+  it("keeps retries whose delays fit the budget", async () => {
+    const sleeps: number[] = [];
+    const set = makeTestPluginSet({
+      "afi-analysis-technical": { error: () => new Error("transient"), failuresBeforeSuccess: 1 },
+    });
+    const manifest = withNode(loadConformanceFixture("01-one-category.json"), "technical", {
+      maxRetries: 1,
+      retryDelayMs: 10,
+    });
+    const result = await run(manifest, set, 5_000, {
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+    });
+    expect(sleeps).toEqual([10]);
+    expect(statusOf(result, "technical")).toBe("executed");
+    expect(result.deadline?.outcome).toBe("met");
+  });
+
+  it("applies the manifest default and lets the request override it", async () => {
+    const manifest = { ...loadConformanceFixture("01-one-category.json"), deadlineMs: 4_000 };
+    expect((await run(manifest, makeTestPluginSet())).deadline?.budgetMs).toBe(4_000);
+    expect((await run(manifest, makeTestPluginSet(), 9_000)).deadline?.budgetMs).toBe(9_000);
+  });
+
+  it("refuses a non-positive or fractional budget", async () => {
+    const manifest = loadConformanceFixture("01-one-category.json");
+    await expect(run(manifest, makeTestPluginSet(), 0)).rejects.toThrow(GraphValidationError);
+    await expect(run(manifest, makeTestPluginSet(), 1.5)).rejects.toThrow(/deadlineMs must be an integer/);
+  });
+
+  it("reads the ingress routes' budget from AFI_SCORE_DEADLINE_MS", () => {
+    expect(scoreDeadlineFromEnv({})).toBeUndefined();
+    expect(scoreDeadlineFromEnv({ AFI_SCORE_DEADLINE_MS: "2500" })).toBe(2_500);
+    expect(() => scoreDeadlineFromEnv({ AFI_SCORE_DEADLINE_MS: "0" })).toThrow(
+      'AFI_SCORE_DEADLINE_MS must be a positive integer, got "0"'
+    );
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Signed plugin bundles (src/pipeline/pluginBundles.ts): a manifest-pinned
+ * bundle is admitted ONLY when its bytes hash to the pin and, when the pin
+ * names a signing key, its detached Ed25519 signature verifies under an
+ * operator-trusted key. Every other case refuses boot with a
+ * PluginBundleError. The admitted node binds alongside the builtins.
+ */
+import { jest } from "@jest/globals";
+
+// Repo idiom (see providerAdapterLayer.test.ts): no test here issues a ccxt request.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return {
+    __esModule: true,
+    default: { blofin: UnusedExchange, coinbase: UnusedExchange },
+  };
+});
+
+import { createHash, generateKeyPairSync, sign, type KeyObject } from "node:crypto";
+import { cpSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  PluginBundleError,
+  bundleAdapters,
+  bundleNodes,
+  loadPluginBundles,
+  pluginBundleConfigFromEnv,
+  pluginBundleFileName,
+} from "../../src/pipeline/pluginBundles.js";
+import type { AnalysisPluginManifest } from "../../src/pipeline/manifestTypes.js";
+import { builtinPluginRegistry } from "../../src/pipeline/pluginRegistry.js";
+import {
+  RuntimeConfigValidationError,
+  loadAnalysisPluginManifests,
+} from "../../src/pipeline/registryLoader.js";
+import { buildProviderRuntime } from "../../src/providers/index.js";
+import { FIXTURE_CONFIG_ROOT } from "./support/testHarness.js";
+
+const PLUGIN_ID = "acme-analysis-sentiment";
+const PLUGIN_VERSION = "1.0.0";
+
+const NODE_BUNDLE = `
+export function createNode(host) {
+  return {
+    manifestRef: { pluginId: "${PLUGIN_ID}", pluginVersion: "${PLUGIN_VERSION}" },
+    async run() {
+      return host.ok({ bundled: true });
+    },
+  };
+}
+`;
+
+/**
+ * The loader's `importModule` seam for these fixtures. Jest's CJS runtime
+ * cannot `import()` the data: URL the production path uses, so the bundle's
+ * `export function` / `export const` declarations are evaluated as CommonJS
+ * instead (fixtures only — the worker-isolation tests run the real data: URL
+ * import outside jest's module system).
+ */
+async function importModule(bytes: Buffer): Promise<unknown> {
+  const exports: Record<string, unknown> = {};
+  const names: string[] = [];
+  const body = bytes.toString("utf8").replace(/export (function|const) (\w+)/g, (_, kind: string, name: string) => {
+    names.push(name);
+    return `${kind} ${name}`;
+  });
+  new Function("exports", `${body}\n${names.map((n) => `exports.${n} = ${n};`).join("\n")}`)(exports);
+  return exports;
+}
+
+function fixtureManifest(pin: AnalysisPluginManifest["bundle"]): AnalysisPluginManifest {
+  const base = JSON.parse(
+    readFileSync(join(FIXTURE_CONFIG_ROOT, "registries/analysis-plugins/afi-analysis-sentiment--2.0.0.json"), "utf8")
+  ) as AnalysisPluginManifest;
+  return { ...base, pluginId: PLUGIN_ID, pluginVersion: PLUGIN_VERSION, bundle: pin };
+}
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+let dir: string;
+let signingKey: KeyObject;
+let trustedKeys: Map<string, KeyObject>;
+
+function writeBundle(source: string, signer: KeyObject | null = signingKey): void {
+  const file = join(dir, pluginBundleFileName(PLUGIN_ID, PLUGIN_VERSION));
+  writeFileSync(file, source);
+  if (signer) writeFileSync(`${file}.sig`, sign(null, Buffer.from(source), signer).toString("base64"));
+}
+
+async function expectRefusal(promise: Promise<unknown>, code: string): Promise<void> {
+  await expect(promise).rejects.toBeInstanceOf(PluginBundleError);
+  await expect(promise).rejects.toMatchObject({ code, pluginKey: `${PLUGIN_ID}@${PLUGIN_VERSION}` });
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "afi-bundles-"));
+  const pair = generateKeyPairSync("ed25519");
+  signingKey = pair.privateKey;
+  trustedKeys = new Map([["acme-release", pair.publicKey]]);
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("loadPluginBundles", () => {
+  it("admits a signed bundle matching its pin and binds its node alongside the builtins", async () => {
+    writeBundle(NODE_BUNDLE);
+    const manifests = [fixtureManifest({ sha256: sha256(NODE_BUNDLE), signingKeyId: "acme-release" })];
+    const bundles = await loadPluginBundles({ manifests, bundleDir: dir, trustedKeys, importModule });
+
+    expect(bundles).toHaveLength(1);
+    expect(bundles[0]).toMatchObject({ sha256: sha256(NODE_BUNDLE), signedBy: "acme-release" });
+    expect(bundleAdapters(bundles)).toEqual([]);
+
+    const providerRuntime = buildProviderRuntime();
+    const registry = builtinPluginRegistry(providerRuntime, bundleNodes(bundles, providerRuntime));
+    expect(registry.has(PLUGIN_ID, PLUGIN_VERSION)).toBe(true);
+    expect(registry.has("afi-analysis-sentiment", "2.0.0")).toBe(true);
+    const result = await registry.get(PLUGIN_ID, PLUGIN_VERSION)!.run({}, {} as never);
+    expect(result.output).toEqual({ bundled: true });
+    // The verified bytes double as the node's worker-isolation entry.
+    expect(registry.get(PLUGIN_ID, PLUGIN_VERSION)!.isolatedModuleUrl).toBe(bundles[0].moduleUrl);
+  });
+
+  it("skips manifests without a bundle pin", async () => {
+    const manifests = [fixtureManifest(undefined)];
+    await expect(loadPluginBundles({ manifests, bundleDir: dir })).resolves.toEqual([]);
+  });
+
+  it("refuses bytes that do not hash to the pin", async () => {
+    writeBundle(`${NODE_BUNDLE}\n// tampered`);
+    const manifests = [fixtureManifest({ sha256: sha256(NODE_BUNDLE), signingKeyId: "acme-release" })];
+    await expectRefusal(loadPluginBundles({ manifests, bundleDir: dir, trustedKeys }), "bundle-hash-mismatch");
+  });
+
+  it("refuses a missing bundle file", async () => {
+    const manifests = [fixtureManifest({ sha256: sha256(NODE_BUNDLE) })];
+    await expectRefusal(loadPluginBundles({ manifests, bundleDir: dir }), "bundle-missing");
+  });
+
+  it("refuses a missing, foreign or untrusted signature", async () => {
+    const pin = { sha256: sha256(NODE_BUNDLE), signingKeyId: "acme-release" };
+
+    writeBundle(NODE_BUNDLE, null);
+    await expectRefusal(
+      loadPluginBundles({ manifests: [fixtureManifest(pin)], bundleDir: dir, trustedKeys }),
+      "bundle-signature-missing"
+    );
+
+    writeBundle(NODE_BUNDLE, generateKeyPairSync("ed25519").privateKey);
+    await expectRefusal(
+      loadPluginBundles({ manifests: [fixtureManifest(pin)], bundleDir: dir, trustedKeys }),
+      "bundle-signature-invalid"
+    );
+
+    writeBundle(NODE_BUNDLE);
+    await expectRefusal(
+      loadPluginBundles({ manifests: [fixtureManifest(pin)], bundleDir: dir, trustedKeys: new Map() }),
+      "bundle-key-untrusted"
+    );
+  });
+
+  it("refuses an unsigned pin when the deployment requires signatures", async () => {
+    writeBundle(NODE_BUNDLE, null);
+    const manifests = [fixtureManifest({ sha256: sha256(NODE_BUNDLE) })];
+    await expect(loadPluginBundles({ manifests, bundleDir: dir, importModule })).resolves.toHaveLength(1);
+    await expectRefusal(
+      loadPluginBundles({ manifests, bundleDir: dir, requireSignature: true }),
+      "bundle-signature-missing"
+    );
+  });
+
+  it("refuses a bundle whose node binds a different identity", async () => {
+    const source = NODE_BUNDLE.replace(`"${PLUGIN_VERSION}"`, `"9.9.9"`);
+    writeBundle(source);
+    const manifests = [fixtureManifest({ sha256: sha256(source), signingKeyId: "acme-release" })];
+    const bundles = await loadPluginBundles({ manifests, bundleDir: dir, trustedKeys, importModule });
+    expect(() => bundleNodes(bundles, buildProviderRuntime())).toThrow(PluginBundleError);
+  });
+
+  it("refuses a bundle exporting neither a node nor adapters", async () => {
+    const source = "export const nothing = 1;\n";
+    writeBundle(source);
+    const manifests = [fixtureManifest({ sha256: sha256(source), signingKeyId: "acme-release" })];
+    await expectRefusal(
+      loadPluginBundles({ manifests, bundleDir: dir, trustedKeys, importModule }),
+      "bundle-malformed"
+    );
+  });
+});
+
+describe("pluginBundleConfigFromEnv", () => {
+  it("is undefined without a bundle directory", () => {
+    expect(pluginBundleConfigFromEnv({})).toBeUndefined();
+  });
+
+  it("reads trusted Ed25519 keys and refuses other key types", () => {
+    const keysFile = join(dir, "keys.json");
+    const ed = generateKeyPairSync("ed25519").publicKey.export({ type: "spki", format: "pem" });
+    writeFileSync(keysFile, JSON.stringify({ "acme-release": ed }));
+    const config = pluginBundleConfigFromEnv({
+      AFI_PLUGIN_BUNDLE_DIR: dir,
+      AFI_PLUGIN_BUNDLE_TRUSTED_KEYS: keysFile,
+      AFI_PLUGIN_BUNDLE_REQUIRE_SIGNATURE: "1",
+    });
+    expect(config?.requireSignature).toBe(true);
+    expect([...config!.trustedKeys.keys()]).toEqual(["acme-release"]);
+
+    const ec = generateKeyPairSync("ec", { namedCurve: "P-256" }).publicKey.export({ type: "spki", format: "pem" });
+    writeFileSync(keysFile, JSON.stringify({ "acme-release": ec }));
+    expect(() =>
+      pluginBundleConfigFromEnv({ AFI_PLUGIN_BUNDLE_DIR: dir, AFI_PLUGIN_BUNDLE_TRUSTED_KEYS: keysFile })
+    ).toThrow(/must be Ed25519/);
+    expect(() =>
+      pluginBundleConfigFromEnv({ AFI_PLUGIN_BUNDLE_DIR: dir, AFI_PLUGIN_BUNDLE_REQUIRE_SIGNATURE: "yes" })
+    ).toThrow(/AFI_PLUGIN_BUNDLE_REQUIRE_SIGNATURE/);
+  });
+});
+
+describe("loadAnalysisPluginManifests", () => {
+  it("reads the governed manifests and refuses a malformed bundle pin", () => {
+    expect(loadAnalysisPluginManifests({ configRoot: FIXTURE_CONFIG_ROOT }).map((m) => m.pluginId)).toContain(
+      "afi-analysis-sentiment"
+    );
+
+    const root = mkdtempSync(join(tmpdir(), "afi-bundle-pin-"));
+    try {
+      cpSync(FIXTURE_CONFIG_ROOT, root, { recursive: true });
+      const file = join(root, "registries/analysis-plugins/afi-analysis-sentiment--2.0.0.json");
+      const doc = JSON.parse(readFileSync(file, "utf8"));
+      writeFileSync(file, JSON.stringify({ ...doc, bundle: { sha256: "not-a-hash" } }));
+      expect(() => loadAnalysisPluginManifests({ configRoot: root })).toThrow(RuntimeConfigValidationError);
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
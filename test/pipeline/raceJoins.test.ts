@@ -0,0 +1,246 @@
+/**
+ * Race join policies (join.policy any / quorum:<n> / firstN:<n>, see
+ * src/pipeline/joinPolicy.ts): the winners are the first <n> parents to
+ * resolve with an output, the join receives only those, and every parent
+ * still outstanding once they are known is cancelled — running ones through
+ * their abort signal, unscheduled ones before they start — and recorded
+ * 'cancelled'. The join's summary entry records the winner set, so the hash
+ * commits to which parents won and never to how they were timed.
+ */
+import { jest } from "@jest/globals";
+
+// Repo idiom (see graphProofs.test.ts): no ccxt request is ever issued.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return {
+    __esModule: true,
+    default: { blofin: UnusedExchange, coinbase: UnusedExchange },
+  };
+});
+
+import { GraphExecutor, validatePipelineGraph, type GraphExecutionResult } from "../../src/pipeline/executor.js";
+import { JoinPolicyUnmetError } from "../../src/pipeline/joinPolicy.js";
+import type { JoinPolicy, PipelineEdge, PipelineManifest, PipelineNode } from "../../src/pipeline/manifestTypes.js";
+import { makeTestPluginSet, testSignal, type TestPluginSet } from "./support/testHarness.js";
+
+const LANES: Array<Pick<PipelineNode, "id" | "category" | "pluginId">> = [
+  { id: "technical", category: "technical", pluginId: "afi-analysis-technical" },
+  { id: "pattern", category: "pattern", pluginId: "afi-analysis-pattern" },
+  { id: "sentiment", category: "sentiment", pluginId: "afi-analysis-sentiment" },
+  { id: "news", category: "news", pluginId: "afi-analysis-news" },
+  { id: "aiml", category: "aiMl", pluginId: "afi-analysis-aiml" },
+  { id: "merge", category: "merge", pluginId: "afi-merge-enriched-view" },
+  { id: "scorer", category: "scorer", pluginId: "afi-scorer-froggy-trend-pullback" },
+];
+
+/**
+ * technical fans out to pattern / sentiment / news, which race into the
+ * merge (unless `edges` rewires the lanes); merge feeds the scorer.
+ */
+function raceGraph(
+  policy: JoinPolicy,
+  patches: Record<string, Partial<PipelineNode>> = {},
+  edges?: PipelineEdge[]
+): PipelineManifest {
+  const lanes: PipelineEdge[] = edges ?? [
+    { from: "technical", to: "pattern" },
+    { from: "technical", to: "sentiment" },
+    { from: "technical", to: "news" },
+    { from: "pattern", to: "merge" },
+    { from: "sentiment", to: "merge" },
+    { from: "news", to: "merge" },
+  ];
+  const used = new Set(lanes.flatMap((e) => [e.from, e.to]));
+  return {
+    schema: "afi.pipeline.v1",
+    pipelineId: "proof-race-join",
+    pipelineVersion: "v1.0.0",
+    entry: "technical",
+    nodes: LANES.filter((n) => used.has(n.id) || n.id === "scorer").map((n) => ({
+      ...n,
+      pluginVersion: "1.0.0",
+      ...(n.id === "merge" ? { join: { policy, merge: { strategy: "namespace-by-node", conflictRule: "error" } } } : {}),
+      ...patches[n.id],
+    })),
+    edges: [...lanes, { from: "merge", to: "scorer" }],
+  } as PipelineManifest;
+}
+
+const OPTIONAL = { critical: false, failurePolicy: "degrade" } as const;
+
+function run(manifest: PipelineManifest, set: TestPluginSet): Promise<GraphExecutionResult> {
+  return new GraphExecutor({ registry: set.registry }).execute({ manifest, input: { seed: 1 }, signal: testSignal() });
+}
+
+function mergeParents(set: TestPluginSet): string[] {
+  const input = set.events.find((e) => e.pluginId === "afi-merge-enriched-view")?.input as
+    | { parents: Record<string, unknown> }
+    | undefined;
+  return Object.keys(input?.parents ?? {}).sort();
+}
+
+function statuses(result: GraphExecutionResult): Array<[string, string]> {
+  return result.summary.nodes.map((n) => [n.nodeId, n.status]);
+}
+
+function raceWinners(result: GraphExecutionResult): string[] | undefined {
+  return result.summary.nodes.find((n) => n.nodeId === "merge")?.raceWinners;
+}
+
+describe("race join policies", () => {
+  it("any: the first parent to arrive wins; the slower ones are cancelled", async () => {
+    const set = makeTestPluginSet({
+      "afi-analysis-pattern": { delayMs: 40 },
+      "afi-analysis-news": { hangUntilAbort: true },
+    });
+    const startedAt = Date.now();
+    const result = await run(raceGraph("any"), set);
+
+    expect(mergeParents(set)).toEqual(["sentiment"]);
+    expect(statuses(result)).toEqual([
+      ["technical", "executed"],
+      ["news", "cancelled"],
+      ["pattern", "cancelled"],
+      ["sentiment", "executed"],
+      ["merge", "executed"],
+      ["scorer", "executed"],
+    ]);
+    expect(raceWinners(result)).toEqual(["sentiment"]);
+    expect(Date.now() - startedAt).toBeLessThan(1_000);
+  });
+
+  it("any: a parent still retrying when the quota is met is cancelled, not waited on", async () => {
+    const set = makeTestPluginSet({
+      "afi-analysis-pattern": { error: () => new Error("pattern service down") },
+      "afi-analysis-sentiment": { delayMs: 20 },
+      "afi-analysis-news": { hangUntilAbort: true },
+    });
+    const result = await run(raceGraph("any", { pattern: { ...OPTIONAL, maxRetries: 1, retryDelayMs: 200 } }), set);
+
+    expect(mergeParents(set)).toEqual(["sentiment"]);
+    expect(statuses(result)).toEqual([
+      ["technical", "executed"],
+      ["news", "cancelled"],
+      ["pattern", "cancelled"],
+      ["sentiment", "executed"],
+      ["merge", "executed"],
+      ["scorer", "executed"],
+    ]);
+    expect(set.attemptCounts.get("afi-analysis-pattern")).toBe(1);
+  });
+
+  it("the hash commits to the winner set, never to the order the winners finished in", async () => {
+    const fastPattern = makeTestPluginSet({
+      "afi-analysis-sentiment": { delayMs: 30 },
+      "afi-analysis-news": { hangUntilAbort: true },
+    });
+    const fastSentiment = makeTestPluginSet({
+      "afi-analysis-pattern": { delayMs: 30 },
+      "afi-analysis-news": { hangUntilAbort: true },
+    });
+    const first = await run(raceGraph("quorum:2"), fastPattern);
+    const second = await run(raceGraph("quorum:2"), fastSentiment);
+
+    expect(mergeParents(fastPattern)).toEqual(["pattern", "sentiment"]);
+    expect(mergeParents(fastSentiment)).toEqual(["pattern", "sentiment"]);
+    expect(raceWinners(first)).toEqual(["pattern", "sentiment"]);
+    expect(statuses(second)).toEqual(statuses(first));
+    expect(second.executionSummaryHash).toEqual(first.executionSummaryHash);
+
+    // A different winner set is a different record.
+    const fastNews = makeTestPluginSet({
+      "afi-analysis-pattern": { delayMs: 30 },
+      "afi-analysis-sentiment": { hangUntilAbort: true },
+    });
+    const third = await run(raceGraph("quorum:2"), fastNews);
+    expect(raceWinners(third)).toEqual(["news", "pattern"]);
+    expect(third.executionSummaryHash).not.toEqual(first.executionSummaryHash);
+  });
+
+  it("quorum:<n>: failed-optional parents do not count; the first n outputs to arrive win", async () => {
+    const set = makeTestPluginSet({
+      "afi-analysis-pattern": { error: () => new Error("pattern service down") },
+      "afi-analysis-sentiment": { delayMs: 10 },
+      "afi-analysis-news": { delayMs: 40 },
+    });
+    const result = await run(raceGraph("quorum:2", { pattern: OPTIONAL }), set);
+
+    expect(mergeParents(set)).toEqual(["news", "sentiment"]);
+    expect(result.nodes.find((n) => n.nodeId === "pattern")?.status).toBe("failed-optional");
+    expect(result.nodes.find((n) => n.nodeId === "scorer")?.status).toBe("executed");
+  });
+
+  it("quorum:<n>: an unmet quorum fails the join under its failure policy", async () => {
+    const set = makeTestPluginSet({
+      "afi-analysis-pattern": { error: () => new Error("pattern service down") },
+      "afi-analysis-news": { error: () => new Error("news feed down") },
+    });
+    const failure = run(raceGraph("quorum:2", { pattern: OPTIONAL, news: OPTIONAL }), set);
+
+    await expect(failure).rejects.toMatchObject({
+      nodeId: "merge",
+      fatalReason: "critical-failure",
+      cause: expect.any(JoinPolicyUnmetError),
+    });
+    await expect(failure).rejects.toThrow("join 'merge' policy 'quorum:2' unmet: only 1 parent(s) settled with a value");
+    expect(mergeParents(set)).toEqual([]);
+  });
+
+  it("firstN:<n>: proceeds with fewer winners when no more parents can produce", async () => {
+    const set = makeTestPluginSet({
+      "afi-analysis-pattern": { error: () => new Error("pattern service down") },
+      "afi-analysis-news": { error: () => new Error("news feed down") },
+    });
+    const result = await run(raceGraph("firstN:2", { pattern: OPTIONAL, news: OPTIONAL }), set);
+
+    expect(mergeParents(set)).toEqual(["sentiment"]);
+    expect(result.nodes.find((n) => n.nodeId === "merge")?.status).toBe("executed");
+  });
+
+  it("cancels unscheduled losers, and what fed only them, before they start", async () => {
+    const set = makeTestPluginSet();
+    const result = await run(
+      raceGraph("any", {}, [
+        { from: "technical", to: "sentiment" },
+        { from: "technical", to: "news" },
+        { from: "news", to: "pattern" },
+        { from: "pattern", to: "aiml" },
+        { from: "sentiment", to: "merge" },
+        { from: "aiml", to: "merge" },
+      ]),
+      set
+    );
+
+    expect(statuses(result)).toEqual([
+      ["technical", "executed"],
+      ["news", "executed"],
+      ["sentiment", "executed"],
+      ["aiml", "cancelled"],
+      ["pattern", "cancelled"],
+      ["merge", "executed"],
+      ["scorer", "executed"],
+    ]);
+    expect(set.attemptCounts.has("afi-analysis-pattern")).toBe(false);
+    expect(set.attemptCounts.has("afi-analysis-aiml")).toBe(false);
+    expect(mergeParents(set)).toEqual(["sentiment"]);
+  });
+
+  it("reports malformed policies, oversized quotas and shared race parents as graph issues", () => {
+    expect(validatePipelineGraph(raceGraph("firstN:3"))).toEqual([]);
+    expect(validatePipelineGraph(raceGraph("quorum:0" as JoinPolicy))).toEqual([
+      "node 'merge' join policy 'quorum:0' must be 'all', 'any', 'quorum:<n>' or 'firstN:<n>'",
+    ]);
+    expect(validatePipelineGraph(raceGraph("quorum:4"))).toEqual([
+      "node 'merge' join policy 'quorum:4' exceeds its 3 parents",
+    ]);
+    expect(
+      validatePipelineGraph(
+        raceGraph("any", {}, [
+          { from: "technical", to: "sentiment" },
+          { from: "technical", to: "merge" },
+          { from: "sentiment", to: "merge" },
+        ])
+      )
+    ).toEqual(["node 'merge' join policy 'any' may cancel parent 'technical', which feeds other nodes"]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Registry hot-reload (reloadRuntimeComposition / watchRuntimeRegistries in
+ * src/config/runtimeComposition.ts, behind POST /api/admin/registries/reload): a
+ * reload re-runs the boot validation into a FRESH composition and swaps it in
+ * only when validation passes; a held composition (an in-flight request) is
+ * never mutated, and an invalid registry leaves the serving one in place.
+ */
+import { jest } from "@jest/globals";
+
+// ccxt's compiled dist pulls ESM-only crypto deps jest cannot parse (repo
+// idiom — see test/oracle/*.test.ts). No ccxt request is ever issued.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return {
+    __esModule: true,
+    default: { blofin: UnusedExchange, coinbase: UnusedExchange },
+  };
+});
+
+import { cpSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  getRuntimeComposition,
+  initRuntimeComposition,
+  registryWatchConfigFromEnv,
+  reloadRuntimeComposition,
+  watchRuntimeRegistries,
+  __resetRuntimeCompositionForTests,
+  __setRuntimeCompositionOverridesForTests,
+  type RuntimeCompositionReload,
+} from "../../src/config/runtimeComposition.js";
+import { RuntimeConfigValidationError } from "../../src/pipeline/registryLoader.js";
+import { FIXTURE_CONFIG_ROOT } from "./support/testHarness.js";
+
+const BINDINGS = "registries/provider-bindings";
+const REGISTRATION = "registries/analyst-strategies/froggy--trend_pullback_v1--1.0.0.json";
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "afi-reactor-reload-"));
+  cpSync(FIXTURE_CONFIG_ROOT, root, { recursive: true });
+  __setRuntimeCompositionOverridesForTests({ configRoot: root });
+});
+
+afterEach(() => {
+  __resetRuntimeCompositionForTests();
+  rmSync(root, { recursive: true, force: true });
+});
+
+const GUILD_BINDING = "cpj-oracle-discord-guild-3";
+
+/** Retires the guild-3 cpj provider binding (status 'inactive'). */
+function retireBinding(): void {
+  const path = join(root, BINDINGS, `${GUILD_BINDING}.json`);
+  const binding = JSON.parse(readFileSync(path, "utf8"));
+  writeFileSync(path, JSON.stringify({ ...binding, status: "inactive" }, null, 2));
+}
+
+function corruptRegistration(): void {
+  const path = join(root, REGISTRATION);
+  const reg = JSON.parse(readFileSync(path, "utf8"));
+  reg.analystConfigHash.value = reg.analystConfigHash.value.replace(/^./, "0");
+  writeFileSync(path, JSON.stringify(reg, null, 2));
+}
+
+describe("registry hot-reload", () => {
+  it("swaps in a fresh composition and reports its hash; a held composition is untouched", async () => {
+    const before = initRuntimeComposition();
+    retireBinding();
+
+    const reload = await reloadRuntimeComposition();
+
+    const after = getRuntimeComposition();
+    expect(after).not.toBe(before);
+    expect(reload).toEqual({
+      compositionHash: after.compositionHash,
+      previousCompositionHash: before.compositionHash,
+      changed: true,
+    });
+    expect(after.compositionHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(after.compositionHash).not.toBe(before.compositionHash);
+    expect(after.runtime.bindings.get(GUILD_BINDING)?.status).toBe("inactive");
+    // an in-flight request keeps scoring on the composition it started with
+    expect(before.runtime.bindings.get(GUILD_BINDING)?.status).toBe("active");
+  });
+
+  it("keeps serving the current composition when the reloaded registries are invalid", async () => {
+    const serving = initRuntimeComposition();
+    corruptRegistration();
+
+    await expect(reloadRuntimeComposition()).rejects.toThrow(RuntimeConfigValidationError);
+    expect(getRuntimeComposition()).toBe(serving);
+  });
+
+  it("serializes concurrent reloads; an unchanged registry reloads to the same hash", async () => {
+    const serving = initRuntimeComposition();
+    const [first, second] = await Promise.all([reloadRuntimeComposition(), reloadRuntimeComposition()]);
+
+    expect(first).toEqual({
+      compositionHash: serving.compositionHash,
+      previousCompositionHash: serving.compositionHash,
+      changed: false,
+    });
+    expect(second.previousCompositionHash).toBe(first.compositionHash);
+    expect(second.changed).toBe(false);
+  });
+
+  it("watch mode reloads once a registry file changes", async () => {
+    const serving = initRuntimeComposition();
+    let stop: (() => void) | undefined;
+    try {
+      const reloaded = new Promise<RuntimeCompositionReload | undefined>((resolve) => {
+        stop = watchRuntimeRegistries({ debounceMs: 20, onReload: ({ reload }) => resolve(reload) });
+      });
+      retireBinding();
+
+      const reload = await reloaded;
+      expect(reload?.changed).toBe(true);
+      expect(reload?.previousCompositionHash).toBe(serving.compositionHash);
+      expect(getRuntimeComposition().compositionHash).toBe(reload?.compositionHash);
+    } finally {
+      stop?.();
+    }
+  });
+
+  it("reads the watch configuration from the environment", () => {
+    expect(registryWatchConfigFromEnv({})).toBeUndefined();
+    expect(registryWatchConfigFromEnv({ AFI_REGISTRY_WATCH: "1" })).toEqual({ debounceMs: 1000 });
+    expect(() =>
+      registryWatchConfigFromEnv({ AFI_REGISTRY_WATCH: "1", AFI_REGISTRY_WATCH_DEBOUNCE_MS: "soon" })
+    ).toThrow('AFI_REGISTRY_WATCH_DEBOUNCE_MS must be a positive integer, got "soon"');
+  });
+});
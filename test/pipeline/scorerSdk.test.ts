@@ -0,0 +1,175 @@
+/**
+ * Scorer SDK (src/pipeline/scorerSdk.ts) + the reference second scorer family
+ * afi-scorer-regime-breakout@1.0.0: the SDK owns the input guard, the UWR
+ * hand-off and the envelope; the scorer owns only its axis logic, switched by
+ * the technical lane's ATR regime.
+ */
+import { jest } from "@jest/globals";
+
+// Repo idiom (see providerAdapterLayer.test.ts): no test here issues a ccxt request.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return {
+    __esModule: true,
+    default: { blofin: UnusedExchange, coinbase: UnusedExchange },
+  };
+});
+
+import { join } from "node:path";
+import { Ajv } from "ajv";
+import {
+  NodeConfigurationError,
+  SILENT_NODE_LOGGER,
+  type CanonicalUss,
+  type NodeRunContext,
+} from "../../src/pipeline/nodeSdk.js";
+import { scorerRegimeBreakoutNode } from "../../src/pipeline/nodes/scorerRegimeBreakout.js";
+import { builtinPluginRegistry } from "../../src/pipeline/pluginRegistry.js";
+import { loadAnalysisPluginManifests } from "../../src/pipeline/registryLoader.js";
+import {
+  isScorerEnrichedView,
+  scorerIdentityFromConfig,
+  scorerInstrumentOf,
+} from "../../src/pipeline/scorerSdk.js";
+import {
+  UWR_PROFILE_SOURCE_ENV,
+  __resetUwrRuntimeConfigForTests,
+} from "../../src/config/uwrRuntimeProfile.js";
+import { buildProviderRuntime } from "../../src/providers/index.js";
+
+const IDENTITY = { analystId: "atlas", strategyId: "regime_breakout_v1", strategyVersion: "1.0.0" };
+
+function ctxFor(direction: string, config: Record<string, unknown> = IDENTITY): NodeRunContext {
+  return {
+    signal: { facts: { direction } } as unknown as CanonicalUss,
+    config,
+    logger: SILENT_NODE_LOGGER,
+    abort: new AbortController().signal,
+  };
+}
+
+function view(overrides: Record<string, unknown>): Record<string, unknown> {
+  return { signalId: "sig-1", symbol: "BTC/USDT", market: "perp", timeframe: "1h", ...overrides };
+}
+
+interface ScoredEnvelope {
+  analysis: {
+    analystScore: Record<string, unknown> & { uwrAxes: Record<string, number>; uwrScore: number };
+    regime: { atrRegime: string; mode: string };
+  };
+  uwrResolvedSource: string;
+  [key: string]: unknown;
+}
+
+beforeEach(() => {
+  __resetUwrRuntimeConfigForTests();
+  delete process.env[UWR_PROFILE_SOURCE_ENV];
+  jest.spyOn(console, "info").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("afi-scorer-regime-breakout@1.0.0", () => {
+  it("scores a high-ATR signal as a breakout: structure, momentum and sentiment follow the direction", async () => {
+    const enriched = view({
+      technical: { atrRegime: "high" },
+      pattern: { patternName: "bullish engulfing", patternConfidence: 0.8, structureBias: "higher-highs" },
+      sentiment: { score: 0.7, tags: ["crowded_long", "normal"] },
+    });
+    const result = await scorerRegimeBreakoutNode.run(enriched, ctxFor("long"));
+    const out = result.output as ScoredEnvelope;
+
+    expect(out.analysis.regime).toEqual({ atrRegime: "high", mode: "breakout" });
+    expect(out.analysis.analystScore.uwrAxes).toEqual({ structure: 0.85, execution: 0.9, risk: 0.45, insight: 0.7 });
+    expect(out.analysis.analystScore.uwrScore).toBeCloseTo(0.725, 6);
+    expect(out.analysis.analystScore).toMatchObject({
+      ...IDENTITY,
+      direction: "long",
+      riskBucket: "high",
+      holdingHorizon: "swing",
+      marketType: "perp",
+      signalTimeframe: "1h",
+      assetClass: "crypto",
+      instrumentType: "linear-perp",
+      baseAsset: "BTC",
+      quoteAsset: "USDT",
+      tags: ["regime-switched", "breakout"],
+    });
+    // The SDK envelope: the enriched view verbatim + analysis + the UWR source.
+    expect(out.uwrResolvedSource).toBe("builtin");
+    expect(out.signalId).toBe("sig-1");
+    expect(result.degradations).toEqual([]);
+  });
+
+  it("scores a low-ATR signal as a mean reversion: choppy structure and a crowd faded against", async () => {
+    const enriched = view({
+      technical: { atrRegime: "low" },
+      pattern: { patternName: "pin bar", patternConfidence: 0.5, structureBias: "choppy" },
+      sentiment: { score: 0.2, tags: ["crowded_short", "normal"] },
+    });
+    const out = (await scorerRegimeBreakoutNode.run(enriched, ctxFor("long"))).output as ScoredEnvelope;
+
+    expect(out.analysis.regime).toEqual({ atrRegime: "low", mode: "mean-reversion" });
+    expect(out.analysis.analystScore.uwrAxes).toEqual({ structure: 0.8, execution: 0.65, risk: 0.75, insight: 0.8 });
+    expect(out.analysis.analystScore).toMatchObject({ riskBucket: "low", holdingHorizon: "scalp" });
+  });
+
+  it("reads absent lanes as neutral axes, never fabricated strength", async () => {
+    const out = (await scorerRegimeBreakoutNode.run(view({}), ctxFor("short"))).output as ScoredEnvelope;
+    expect(out.analysis.regime).toEqual({ atrRegime: "unknown", mode: "mean-reversion" });
+    expect(out.analysis.analystScore.uwrAxes).toEqual({ structure: 0.5, execution: 0.5, risk: 0.5, insight: 0.5 });
+    expect(out.analysis.analystScore.riskBucket).toBe("medium");
+  });
+
+  it("refuses a node config without the strategy triple (configuration error, always fatal)", async () => {
+    await expect(
+      scorerRegimeBreakoutNode.run(view({}), ctxFor("long", { analystId: "atlas" }))
+    ).rejects.toBeInstanceOf(NodeConfigurationError);
+    expect(() => scorerIdentityFromConfig({ ...IDENTITY, strategyVersion: "" })).toThrow(/strategyVersion/);
+  });
+
+  it("refuses input that is not an enriched view", async () => {
+    expect(isScorerEnrichedView({ parents: {} })).toBe(false);
+    await expect(scorerRegimeBreakoutNode.run({ parents: {} }, ctxFor("long"))).rejects.toThrow(
+      /requires the \(optionally aiMl-augmented\) enriched view/
+    );
+  });
+
+  it("derives the score's instrument from the symbol and the normalized market", () => {
+    expect(scorerInstrumentOf({ symbol: "eth/usd", market: "spot" })).toEqual({
+      assetClass: "crypto",
+      instrumentType: "spot",
+      baseAsset: "ETH",
+      quoteAsset: "USD",
+    });
+    expect(scorerInstrumentOf({ symbol: "BTC/USDT:USDT", market: "perp" })).toMatchObject({
+      baseAsset: "BTC",
+      quoteAsset: "USDT",
+    });
+    expect(scorerInstrumentOf({ symbol: "SOLUSDC", market: "futures" })).toMatchObject({
+      instrumentType: "dated-future",
+      baseAsset: "SOL",
+      quoteAsset: "USDC",
+    });
+    expect(scorerInstrumentOf({ symbol: "XYZ", market: "spot" })).toMatchObject({ baseAsset: "XYZ", quoteAsset: "" });
+  });
+
+  it("has a governed analysis-plugin manifest whose paramsSchema requires the strategy triple", () => {
+    const manifest = loadAnalysisPluginManifests({
+      configRoot: join(process.cwd(), "test/pipeline/fixtures/afi-config-atlas"),
+    }).find((m) => m.pluginId === "afi-scorer-regime-breakout" && m.pluginVersion === "1.0.0");
+    expect(manifest).toMatchObject({ category: "scorer", deterministic: true, mayFeedScorer: false });
+
+    const validateParams = new Ajv().compile(manifest!.paramsSchema);
+    expect(validateParams(IDENTITY)).toBe(true);
+    expect(validateParams({ analystId: "atlas" })).toBe(false);
+  });
+
+  it("is bound in the production plugin registry alongside the froggy scorer", () => {
+    const registry = builtinPluginRegistry(buildProviderRuntime());
+    expect(registry.has("afi-scorer-regime-breakout", "1.0.0")).toBe(true);
+    expect(registry.has("afi-scorer-froggy-trend-pullback", "1.0.0")).toBe(true);
+  });
+});
@@ -5,8 +5,16 @@
  * from the pinned afi-config commit (no afi-config checkout required).
  */
 import { createHash } from "node:crypto";
-import { readFileSync } from "node:fs";
+import { readFileSync, readdirSync } from "node:fs";
 import { join } from "node:path";
+import {
+  SCHEMA_EXTENSIONS_DIRNAME,
+  applySchemaExtension,
+  loadSchemaExtension,
+  readGovernedSchema,
+  type SchemaExtension,
+} from "../../src/pipeline/schemaExtensions.js";
+import { EVIDENCE_CREDENTIAL_KINDS } from "../../src/providers/invocationProof.js";
 
 const repoRoot = process.cwd();
 const manifest = JSON.parse(
@@ -125,3 +133,49 @@ describe("vendored governed schema provenance (MANIFEST integrity)", () => {
     }
   });
 });
+
+describe("local schema extensions (outside the vendored closure)", () => {
+  const governedDir = join(repoRoot, "src/pipeline/governed-schema");
+  const extensionFiles = readdirSync(join(repoRoot, SCHEMA_EXTENSIONS_DIRNAME)).sort();
+
+  it("every extension targets a MANIFEST-pinned vendored schema and applies cleanly", () => {
+    expect(extensionFiles.length).toBeGreaterThan(0);
+    for (const file of extensionFiles) {
+      const { extends: target } = JSON.parse(
+        readFileSync(join(repoRoot, SCHEMA_EXTENSIONS_DIRNAME, file), "utf-8")
+      ) as SchemaExtension;
+      expect(manifest.sources).toHaveProperty([`src/pipeline/governed-schema/${target}`]);
+      expect(() => readGovernedSchema(governedDir, target)).not.toThrow();
+    }
+  });
+
+  it("extends a parsed copy: the vendored bytes and the parsed original are untouched", () => {
+    const vendored = JSON.parse(readFileSync(join(governedDir, "pipeline.schema.json"), "utf-8"));
+    const before = JSON.stringify(vendored);
+    const extended = applySchemaExtension(vendored, loadSchemaExtension("pipeline.schema.json")!);
+
+    expect(JSON.stringify(vendored)).toBe(before);
+    expect(vendored.definitions.join.properties.policy.const).toBe("all");
+    expect(extended).toHaveProperty(["definitions", "join", "properties", "policy", "pattern"]);
+    expect(extended).toHaveProperty(["properties", "deadlineMs"]);
+  });
+
+  it("never widens the persisted evidence contract: proofs admit exactly the governed credential kinds", () => {
+    // afi-infra validates stored evidence against the unextended closure.
+    expect(loadSchemaExtension("provider-invocation-proof.schema.json")).toBeUndefined();
+    const proof = readGovernedSchema(governedDir, "provider-invocation-proof.schema.json") as {
+      properties: { credential: { oneOf: Array<{ properties: { credentialKind?: { enum: string[] } } }> } };
+    };
+    expect(proof.properties.credential.oneOf[1].properties.credentialKind!.enum).toEqual([
+      ...EVIDENCE_CREDENTIAL_KINDS,
+    ]);
+  });
+
+  it("fails loudly when an operation's parent is missing from the vendored schema", () => {
+    const extension: SchemaExtension = {
+      extends: "pipeline.schema.json",
+      operations: [{ op: "set", path: "/definitions/absent/properties/x", feature: "probe", value: {} }],
+    };
+    expect(() => applySchemaExtension({ definitions: {} }, extension)).toThrow(/has no parent/);
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Credential kinds beyond apiKeyHeader — the helper-not-material contract:
+ *  - hmacSignature, oauth2ClientCredentials and basicAuth records validate
+ *    against the governed schemas and resolve through the same runtime path;
+ *  - the adapter receives a signer/authorizer, never the key secret, client
+ *    secret or password, and every value the helper holds or mints is
+ *    scrubbed from the adapter's logs;
+ *  - the OAuth2 helper caches the access token, refreshes it before expiry
+ *    or on demand, and fails closed without revealing the client secret;
+ *  - stored material of the wrong shape fails closed;
+ *  - the invocation proof mirrors the credential kind (the Evidence V3
+ *    builder refuses these kinds until afi-config governs them — see
+ *    evidenceV3BuilderContract.test.ts).
+ */
+import { describe, it, expect, jest, beforeAll, afterAll } from "@jest/globals";
+
+// Repo idiom (see providerAdapterLayer.test.ts): the adapter barrel touches the
+// price-feed registry; this suite never issues a ccxt request.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return { __esModule: true, default: { blofin: UnusedExchange, coinbase: UnusedExchange } };
+});
+
+import { createHmac } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  ProviderRuntime,
+  OAuth2TokenCache,
+  InMemorySecretResolver,
+  CredentialUnavailableError,
+  createAdapterRegistry,
+  createProviderRecordStore,
+  createCategoryOutputValidator,
+  hmacSigningPayload,
+  toCredentialSecret,
+  type CredentialKind,
+  type ProviderAdapter,
+  type ProviderAdapterContext,
+} from "../../src/providers/index.js";
+import type { ProviderInvocationProofV1 } from "../../src/providers/invocationProof.js";
+import type { NodeLogger } from "../../src/pipeline/nodeSdk.js";
+import { testSignal } from "../pipeline/support/testHarness.js";
+
+const HMAC_SECRET = "zzHMAC-SECRET-0d4e2a";
+const CLIENT_SECRET = "zzCLIENT-SECRET-91bf";
+const PASSWORD = "zzBASIC-PASSWORD-5e7c";
+
+const NEWS_RESULT = {
+  category: "news",
+  news: { hasShockEvent: false, shockDirection: "none", headlines: [], items: [] },
+  newsFeatures: {},
+};
+
+function world(kind: CredentialKind, run: (ctx: ProviderAdapterContext) => Promise<void>, tokenCache?: OAuth2TokenCache) {
+  const adapter: ProviderAdapter = {
+    adapterId: "afi-adapter-news-signed",
+    adapterVersion: "1.0.0",
+    category: "news",
+    providerCompatibility: ["afi-provider-news-signed"],
+    requiresCredential: true,
+    transportKind: "http",
+    async run(ctx) {
+      await run(ctx);
+      return NEWS_RESULT;
+    },
+  };
+  const records = createProviderRecordStore({
+    providers: [
+      {
+        schema: "afi.provider.v1",
+        providerId: "afi-provider-news-signed",
+        recordVersion: "1.0.0",
+        displayName: "Signed news provider (test)",
+        supportedCategories: ["news"],
+        executionClass: "remote",
+        deterministic: false,
+        adapterId: "afi-adapter-news-signed",
+        requiresCredential: true,
+        credentialKind: kind,
+        status: "active",
+      },
+    ],
+    credentialRefs: [
+      {
+        schema: "afi.credential-ref.v1",
+        credentialRef: "signed-news-tenant-a",
+        recordVersion: "1.0.0",
+        tenant: "tenant-a",
+        providerId: "afi-provider-news-signed",
+        credentialKind: kind,
+        status: "active",
+      },
+    ],
+    providerInstances: [
+      {
+        schema: "afi.provider-instance.v1",
+        providerInstanceId: "pi-news-signed",
+        recordVersion: "1.0.0",
+        tenant: "tenant-a",
+        category: "news",
+        providerId: "afi-provider-news-signed",
+        adapterId: "afi-adapter-news-signed",
+        adapterVersion: "1.0.0",
+        credentialRef: "signed-news-tenant-a",
+        status: "active",
+      },
+    ],
+  });
+  const stored: Record<CredentialKind, string | Record<string, string>> = {
+    apiKeyHeader: "zzAPI-KEY-unused",
+    hmacSignature: { key: "key-id-tenant-a", secret: HMAC_SECRET },
+    oauth2ClientCredentials: { clientId: "client-tenant-a", clientSecret: CLIENT_SECRET },
+    basicAuth: { username: "tenant-a", password: PASSWORD },
+  };
+  return new ProviderRuntime({
+    adapters: createAdapterRegistry([adapter]),
+    records,
+    resolver: new InMemorySecretResolver([
+      { tenant: "tenant-a", credentialRef: "signed-news-tenant-a", value: stored[kind] },
+    ]),
+    outputValidator: createCategoryOutputValidator(),
+    tokenCache,
+  });
+}
+
+function capturingLogger(lines: string[]): NodeLogger {
+  const sink = (m: string, f?: Record<string, unknown>) => lines.push(`${m} ${JSON.stringify(f ?? {})}`);
+  return { debug: sink, info: sink, warn: sink, error: sink };
+}
+
+const REF = { providerInstanceId: "pi-news-signed", recordVersion: "1.0.0" };
+
+async function invoke(rt: ProviderRuntime, logs: string[] = [], proofs: ProviderInvocationProofV1[] = []) {
+  return rt.invoke(REF, {
+    signal: testSignal(),
+    logger: capturingLogger(logs),
+    abort: new AbortController().signal,
+    onInvocationProof: (p) => proofs.push(p),
+  });
+}
+
+describe("hmacSignature", () => {
+  it("hands the adapter a signer whose headers verify, and never the secret", async () => {
+    let headers: Record<string, string> = {};
+    let bundleKeys: string[] = [];
+    const logs: string[] = [];
+    const proofs: ProviderInvocationProofV1[] = [];
+    const rt = world("hmacSignature", async (ctx) => {
+      if (ctx.credential?.kind !== "hmacSignature") throw new Error("expected an hmac signer");
+      bundleKeys = Object.keys(ctx.credential);
+      headers = ctx.credential.sign({ method: "get", path: "/v1/news?coin=btc" });
+      ctx.logger.info(`leaky adapter ${HMAC_SECRET}`, { signature: headers["X-API-SIGNATURE"] });
+    });
+    await invoke(rt, logs, proofs);
+
+    expect(bundleKeys.sort()).toEqual(["kind", "sign"]);
+    expect(headers["X-API-KEY"]).toBe("key-id-tenant-a");
+    const expected = createHmac("sha256", HMAC_SECRET)
+      .update(hmacSigningPayload(headers["X-API-TIMESTAMP"], { method: "GET", path: "/v1/news?coin=btc" }))
+      .digest("hex");
+    expect(headers["X-API-SIGNATURE"]).toBe(expected);
+    expect(logs.join("\n")).not.toContain(HMAC_SECRET);
+    expect(proofs[0].credential).toEqual({
+      mode: "credentialRef",
+      credentialKind: "hmacSignature",
+      credentialRef: "signed-news-tenant-a",
+      recordVersion: "1.0.0",
+      status: "active",
+    });
+  });
+
+  it("honors a provider-specific signing scheme", async () => {
+    let headers: Record<string, string> = {};
+    const rt = world("hmacSignature", async (ctx) => {
+      if (ctx.credential?.kind !== "hmacSignature") throw new Error("expected an hmac signer");
+      headers = ctx.credential.sign(
+        { method: "POST", path: "/orders", body: '{"size":1}' },
+        { keyHeader: "CB-ACCESS-KEY", timestampHeader: "CB-ACCESS-TIMESTAMP", signatureHeader: "CB-ACCESS-SIGN", encoding: "base64", timestampUnit: "s" }
+      );
+    });
+    await invoke(rt);
+    expect(Object.keys(headers).sort()).toEqual(["CB-ACCESS-KEY", "CB-ACCESS-SIGN", "CB-ACCESS-TIMESTAMP"]);
+    expect(headers["CB-ACCESS-TIMESTAMP"]).toMatch(/^\d{10}$/);
+    expect(headers["CB-ACCESS-SIGN"]).toBe(
+      createHmac("sha256", HMAC_SECRET)
+        .update(`${headers["CB-ACCESS-TIMESTAMP"]}POST/orders{"size":1}`)
+        .digest("base64")
+    );
+  });
+});
+
+describe("oauth2ClientCredentials", () => {
+  let server: Server;
+  let tokenUrl: string;
+  let issued = 0;
+  let refuse = false;
+  const seenAuth: string[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      seenAuth.push(String(req.headers.authorization));
+      let body = "";
+      req.on("data", (c) => (body += c));
+      req.on("end", () => {
+        if (refuse || !body.includes("grant_type=client_credentials")) {
+          res.writeHead(401, { "Content-Type": "application/json" }).end(`{"error":"invalid_client ${CLIENT_SECRET}"}`);
+          return;
+        }
+        issued += 1;
+        res
+          .writeHead(200, { "Content-Type": "application/json" })
+          .end(JSON.stringify({ access_token: `zzACCESS-TOKEN-${issued}`, token_type: "Bearer", expires_in: 120 }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/oauth/token`;
+  });
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("authorizes with a cached bearer token, refreshing it before expiry and on demand", async () => {
+    let clock = 0;
+    issued = 0;
+    seenAuth.length = 0;
+    const tokenCache = new OAuth2TokenCache({ now: () => clock });
+    const seen: string[] = [];
+    const logs: string[] = [];
+    let bundleKeys: string[] = [];
+    let forceRefresh = false;
+    const rt = world(
+      "oauth2ClientCredentials",
+      async (ctx) => {
+        if (ctx.credential?.kind !== "oauth2ClientCredentials") throw new Error("expected an oauth2 authorizer");
+        bundleKeys = Object.keys(ctx.credential);
+        const headers = await ctx.credential.authorize({ tokenUrl, scope: "news:read", forceRefresh });
+        seen.push(headers.Authorization);
+        ctx.logger.warn(`provider said 401 for Authorization: ${headers.Authorization}`);
+      },
+      tokenCache
+    );
+
+    await invoke(rt, logs);
+    await invoke(rt, logs);
+    expect(seen).toEqual(["Bearer zzACCESS-TOKEN-1", "Bearer zzACCESS-TOKEN-1"]);
+    expect(bundleKeys.sort()).toEqual(["authorize", "kind"]);
+    // RFC 6749 client authentication, never the secret in the form body.
+    expect(seenAuth[0]).toBe(`Basic ${Buffer.from(`client-tenant-a:${CLIENT_SECRET}`).toString("base64")}`);
+
+    clock = 90_000; // inside the 30s refresh skew of the 120s lifetime
+    await invoke(rt, logs);
+    forceRefresh = true;
+    await invoke(rt, logs);
+    expect(seen.slice(2)).toEqual(["Bearer zzACCESS-TOKEN-2", "Bearer zzACCESS-TOKEN-3"]);
+    expect(logs.join("\n")).not.toMatch(/zzACCESS-TOKEN-\d/);
+  });
+
+  it("fails closed without revealing the client secret or the endpoint's body", async () => {
+    refuse = true;
+    try {
+      const rt = world("oauth2ClientCredentials", async (ctx) => {
+        if (ctx.credential?.kind !== "oauth2ClientCredentials") throw new Error("expected an oauth2 authorizer");
+        await ctx.credential.authorize({ tokenUrl, forceRefresh: true });
+      });
+      const err = await invoke(rt).then(
+        () => undefined,
+        (e: unknown) => e as Error
+      );
+      expect(err).toBeInstanceOf(CredentialUnavailableError);
+      expect(err!.message).toBe("credential unavailable for provider instance 'pi-news-signed' (token endpoint answered 401)");
+    } finally {
+      refuse = false;
+    }
+  });
+
+  it("refuses a cleartext token endpoint off loopback", async () => {
+    const rt = world("oauth2ClientCredentials", async (ctx) => {
+      if (ctx.credential?.kind !== "oauth2ClientCredentials") throw new Error("expected an oauth2 authorizer");
+      await ctx.credential.authorize({ tokenUrl: "http://auth.example.com/token" });
+    });
+    await expect(invoke(rt)).rejects.toThrow(/token endpoint must use https/);
+  });
+});
+
+describe("basicAuth", () => {
+  it("hands the adapter the authorization header only and scrubs it from logs", async () => {
+    let header = "";
+    let bundleKeys: string[] = [];
+    const logs: string[] = [];
+    const rt = world("basicAuth", async (ctx) => {
+      if (ctx.credential?.kind !== "basicAuth") throw new Error("expected a basic authorizer");
+      bundleKeys = Object.keys(ctx.credential);
+      header = ctx.credential.authorize().Authorization;
+      ctx.logger.error("request failed", { sent: header, password: PASSWORD });
+    });
+    await invoke(rt, logs);
+    const encoded = Buffer.from(`tenant-a:${PASSWORD}`).toString("base64");
+    expect(header).toBe(`Basic ${encoded}`);
+    expect(bundleKeys.sort()).toEqual(["authorize", "kind"]);
+    expect(logs.join("\n")).not.toContain(encoded);
+    expect(logs.join("\n")).not.toContain(PASSWORD);
+  });
+});
+
+describe("stored credential material", () => {
+  const request = (credentialKind: CredentialKind) => ({
+    tenant: "tenant-a",
+    providerInstanceId: "pi-news-signed",
+    credentialRef: "signed-news-tenant-a",
+    credentialKind,
+  });
+
+  it("accepts a multi-part kind as an object or its JSON text", () => {
+    expect(toCredentialSecret(request("basicAuth"), '{"username":"u","password":"p"}')).toEqual({
+      kind: "basicAuth",
+      username: "u",
+      password: "p",
+    });
+    expect(toCredentialSecret(request("hmacSignature"), { key: "k", secret: "s" })).toEqual({
+      kind: "hmacSignature",
+      key: "k",
+      secret: "s",
+    });
+  });
+
+  it("fails closed without echoing a malformed or incomplete payload", () => {
+    for (const [kind, payload] of [
+      ["hmacSignature", `not json ${HMAC_SECRET}`],
+      ["hmacSignature", { key: "k" }],
+      ["oauth2ClientCredentials", '["client", "secret"]'],
+      ["basicAuth", { username: "u", password: "" }],
+      ["apiKeyHeader", { value: "k" }],
+    ] as Array<[CredentialKind, string | Record<string, string>]>) {
+      expect(() => toCredentialSecret(request(kind), payload)).toThrow(
+        new CredentialUnavailableError("credential unavailable for provider instance 'pi-news-signed'")
+      );
+    }
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Provider circuit breaker — the fail-fast contract:
+ *  - consecutive failures, or a rolling error rate over the minimum sample
+ *    count, open an instance's circuit;
+ *  - an open circuit fails the invocation with ProviderCircuitOpenError
+ *    WITHOUT reaching the adapter;
+ *  - after the open window one half-open probe is admitted: success closes
+ *    the circuit, failure re-opens it;
+ *  - resolution failures never count against the provider;
+ *  - through the executor, an optional lane degrades as
+ *    `provider-circuit-open` with no retry.
+ */
+import { describe, it, expect, jest } from "@jest/globals";
+
+// Repo idiom (see providerAdapterLayer.test.ts): the adapter barrel touches the
+// price-feed registry; this suite never issues a ccxt request.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return { __esModule: true, default: { blofin: UnusedExchange, coinbase: UnusedExchange } };
+});
+
+import {
+  ProviderRuntime,
+  ProviderCircuitBreaker,
+  ProviderCircuitOpenError,
+  ProviderResolutionError,
+  PROVIDER_CIRCUIT_OPEN_DEGRADATION,
+  createAdapterRegistry,
+  createProviderRecordStore,
+  createCategoryOutputValidator,
+  createProviderBackedNode,
+  NoCredentialsResolver,
+  type ProviderAdapter,
+  type ProviderRecord,
+  type ProviderInstanceRecord,
+} from "../../src/providers/index.js";
+import { GraphExecutor } from "../../src/pipeline/executor.js";
+import { createPluginRegistry } from "../../src/pipeline/pluginRegistry.js";
+import { ok, SILENT_NODE_LOGGER, type AnalysisNodePlugin } from "../../src/pipeline/nodeSdk.js";
+import type { PipelineManifest } from "../../src/pipeline/manifestTypes.js";
+import { testSignal } from "../pipeline/support/testHarness.js";
+
+const provider: ProviderRecord = {
+  schema: "afi.provider.v1",
+  providerId: "afi-provider-news-flaky",
+  recordVersion: "1.0.0",
+  displayName: "Flaky news provider (test)",
+  supportedCategories: ["news"],
+  executionClass: "remote",
+  deterministic: false,
+  adapterId: "afi-adapter-news-flaky",
+  requiresCredential: false,
+  status: "active",
+};
+const instance: ProviderInstanceRecord = {
+  schema: "afi.provider-instance.v1",
+  providerInstanceId: "pi-news-flaky",
+  recordVersion: "1.0.0",
+  tenant: "tenant-a",
+  category: "news",
+  providerId: "afi-provider-news-flaky",
+  adapterId: "afi-adapter-news-flaky",
+  adapterVersion: "1.0.0",
+  status: "active",
+};
+const REF = { providerInstanceId: "pi-news-flaky", recordVersion: "1.0.0" };
+
+function flakyAdapter(state: { fail: boolean; calls: number }): ProviderAdapter {
+  return {
+    adapterId: "afi-adapter-news-flaky",
+    adapterVersion: "1.0.0",
+    category: "news",
+    providerCompatibility: ["afi-provider-news-flaky"],
+    requiresCredential: false,
+    transportKind: "http",
+    async run() {
+      state.calls += 1;
+      if (state.fail) throw new Error("upstream 503");
+      return {
+        category: "news",
+        news: { hasShockEvent: false, shockDirection: "none", headlines: [], items: [] },
+        newsFeatures: {},
+      };
+    },
+  };
+}
+
+function buildRuntime(breaker: ProviderCircuitBreaker, state: { fail: boolean; calls: number }) {
+  return new ProviderRuntime({
+    adapters: createAdapterRegistry([flakyAdapter(state)]),
+    records: createProviderRecordStore({ providers: [provider], credentialRefs: [], providerInstances: [instance] }),
+    resolver: new NoCredentialsResolver(),
+    outputValidator: createCategoryOutputValidator(),
+    breaker,
+  });
+}
+
+const ctx = () => ({ signal: testSignal(), logger: SILENT_NODE_LOGGER, abort: new AbortController().signal });
+
+async function attempt(rt: ProviderRuntime): Promise<unknown> {
+  return rt.invoke(REF, ctx()).then(
+    () => "ok",
+    (err: unknown) => err
+  );
+}
+
+describe("ProviderCircuitBreaker", () => {
+  it("opens after the consecutive-failure threshold", () => {
+    const breaker = new ProviderCircuitBreaker({ consecutiveFailures: 3, now: () => 0 });
+    breaker.recordFailure("pi-a", 5);
+    breaker.recordFailure("pi-a", 5);
+    expect(breaker.admit("pi-a")).toEqual({ allowed: true, probe: false });
+    breaker.recordFailure("pi-a", 5);
+    expect(breaker.admit("pi-a")).toEqual({ allowed: false, retryAfterMs: 30_000 });
+    expect(breaker.snapshot()[0]).toMatchObject({ providerInstanceId: "pi-a", state: "open", consecutiveFailures: 3 });
+  });
+
+  it("opens on the rolling error rate only once the minimum sample count is reached", () => {
+    const breaker = new ProviderCircuitBreaker({ consecutiveFailures: 100, errorRate: 0.5, minimumSamples: 4, now: () => 0 });
+    breaker.recordFailure("pi-a", 1);
+    breaker.recordSuccess("pi-a", 1);
+    breaker.recordFailure("pi-a", 1);
+    expect(breaker.snapshot()[0].state).toBe("closed");
+    breaker.recordSuccess("pi-a", 3);
+    // The rate is only evaluated on a failure: 3 failures / 5 samples.
+    breaker.recordFailure("pi-a", 1);
+    expect(breaker.snapshot()[0]).toMatchObject({ state: "open", samples: 5, errorRate: 0.6, lastLatencyMs: 1 });
+  });
+});
+
+describe("ProviderRuntime with a circuit breaker", () => {
+  it("fails fast without reaching the adapter once the circuit is open", async () => {
+    const state = { fail: true, calls: 0 };
+    const rt = buildRuntime(new ProviderCircuitBreaker({ consecutiveFailures: 2, now: () => 0 }), state);
+    await attempt(rt);
+    await attempt(rt);
+    expect(state.calls).toBe(2);
+
+    const err = await attempt(rt);
+    expect(err).toBeInstanceOf(ProviderCircuitOpenError);
+    expect(err).toMatchObject({ code: "provider-circuit-open", retryAfterMs: 30_000 });
+    expect(state.calls).toBe(2);
+    expect(rt.healthSnapshot()).toEqual([
+      expect.objectContaining({ providerInstanceId: "pi-news-flaky", state: "open", consecutiveFailures: 2 }),
+    ]);
+  });
+
+  it("admits one half-open probe: failure re-opens, success closes with a fresh window", async () => {
+    let clock = 0;
+    const state = { fail: true, calls: 0 };
+    const rt = buildRuntime(
+      new ProviderCircuitBreaker({ consecutiveFailures: 1, openDurationMs: 1_000, now: () => clock }),
+      state
+    );
+    await attempt(rt);
+    expect(rt.healthSnapshot()[0].state).toBe("open");
+
+    clock = 1_000;
+    expect(rt.healthSnapshot()[0].state).toBe("half-open");
+    await attempt(rt); // failed probe
+    expect(state.calls).toBe(2);
+    expect(rt.healthSnapshot()[0].state).toBe("open");
+    expect(await attempt(rt)).toBeInstanceOf(ProviderCircuitOpenError);
+
+    clock = 2_000;
+    state.fail = false;
+    expect(await attempt(rt)).toBe("ok");
+    expect(rt.healthSnapshot()[0]).toMatchObject({ state: "closed", consecutiveFailures: 0, samples: 1, errorRate: 0 });
+  });
+
+  it("never counts a resolution failure against the provider", async () => {
+    const breaker = new ProviderCircuitBreaker({ consecutiveFailures: 1 });
+    const rt = buildRuntime(breaker, { fail: false, calls: 0 });
+    await expect(rt.invoke({ providerInstanceId: "pi-missing", recordVersion: "1.0.0" }, ctx())).rejects.toBeInstanceOf(
+      ProviderResolutionError
+    );
+    expect(breaker.admit("pi-missing")).toEqual({ allowed: true, probe: false });
+  });
+
+  it("degrades an optional lane as provider-circuit-open without retrying", async () => {
+    const state = { fail: true, calls: 0 };
+    const rt = buildRuntime(new ProviderCircuitBreaker({ consecutiveFailures: 1, now: () => 0 }), state);
+    await attempt(rt); // opens the circuit
+
+    const newsNode = createProviderBackedNode({ pluginId: "afi-analysis-news", pluginVersion: "1.0.0" }, "news", rt);
+    const scorer: AnalysisNodePlugin = {
+      manifestRef: { pluginId: "afi-scorer-froggy-trend-pullback", pluginVersion: "1.0.0" },
+      async run() {
+        return ok({ scored: true });
+      },
+    };
+    const executor = new GraphExecutor({ registry: createPluginRegistry([newsNode, scorer]), logger: SILENT_NODE_LOGGER });
+    const manifest: PipelineManifest = {
+      schema: "afi.pipeline.v1",
+      pipelineId: "circuit-open-news",
+      pipelineVersion: "v1.0.0",
+      entry: "news",
+      nodes: [
+        {
+          id: "news",
+          category: "news",
+          pluginId: "afi-analysis-news",
+          pluginVersion: "1.0.0",
+          providerInstanceRef: REF,
+          critical: false,
+          failurePolicy: "degrade",
+          maxRetries: 3,
+        },
+        { id: "scorer", category: "scorer", pluginId: "afi-scorer-froggy-trend-pullback", pluginVersion: "1.0.0" },
+      ],
+      edges: [{ from: "news", to: "scorer", optional: true }],
+    };
+
+    const exec = await executor.execute({ manifest, input: {}, signal: testSignal() });
+    const news = exec.nodes.find((n) => n.nodeId === "news")!;
+    expect(news.status).toBe("failed-optional");
+    expect(news.attempts).toBe(1);
+    expect(news.degradations).toEqual([
+      { class: PROVIDER_CIRCUIT_OPEN_DEGRADATION, detail: expect.stringContaining("pi-news-flaky") },
+    ]);
+    expect(state.calls).toBe(1);
+  });
+});
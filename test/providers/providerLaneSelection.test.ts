@@ -0,0 +1,314 @@
+/**
+ * Multi-provider lane selection — the providerSelection contract:
+ *  - first-success falls through a failed candidate to the next one;
+ *  - fallback-on-degradation also falls through an answer with no
+ *    observations, and keeps the first such answer when nothing better comes;
+ *  - quorum combines the answering candidates' sentiment axes and fails when
+ *    too few answer;
+ *  - the lane deposits ONE proof naming the chosen instance, its hashes
+ *    committing to the result that entered the join, and a separate selection
+ *    record of every attempted one (operational — never inside the proof);
+ *  - an optional lane whose every candidate is circuit-open degrades as
+ *    `provider-circuit-open`, and graph validation refuses inadmissible
+ *    selections.
+ */
+import { describe, it, expect, jest } from "@jest/globals";
+
+// Repo idiom (see providerAdapterLayer.test.ts): the adapter barrel touches the
+// price-feed registry; this suite never issues a ccxt request.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return { __esModule: true, default: { blofin: UnusedExchange, coinbase: UnusedExchange } };
+});
+
+import {
+  ProviderRuntime,
+  ProviderCircuitBreaker,
+  ProviderSelectionExhaustedError,
+  PROVIDER_CIRCUIT_OPEN_DEGRADATION,
+  combineSentimentAxes,
+  createAdapterRegistry,
+  createProviderRecordStore,
+  createCategoryOutputValidator,
+  createProviderBackedNode,
+  invokeProviderSelection,
+  NoCredentialsResolver,
+  type CategoryResult,
+  type ProviderAdapter,
+  type ProviderRecord,
+  type ProviderInstanceRecord,
+  type ProviderSelectionRecord,
+} from "../../src/providers/index.js";
+import type { ProviderInvocationProofV1 } from "../../src/providers/invocationProof.js";
+import { categoryResultHash, providerResultHash } from "../../src/evidence/provenance/invocationProofHashes.js";
+import { GraphExecutor, validatePipelineGraph } from "../../src/pipeline/executor.js";
+import { createPluginRegistry } from "../../src/pipeline/pluginRegistry.js";
+import { ok, SILENT_NODE_LOGGER, type AnalysisNodePlugin } from "../../src/pipeline/nodeSdk.js";
+import type { PipelineManifest, ProviderSelection } from "../../src/pipeline/manifestTypes.js";
+import { testSignal } from "../pipeline/support/testHarness.js";
+
+type Behavior = { fail?: boolean; axes?: CategoryResult["axes"] };
+
+const NAMES = ["alpha", "beta", "gamma"] as const;
+const refOf = (name: string) => ({ providerInstanceId: `pi-sentiment-${name}`, recordVersion: "1.0.0" });
+
+function buildRuntime(behaviors: Record<string, Behavior>, breaker?: ProviderCircuitBreaker) {
+  const calls: string[] = [];
+  const providers: ProviderRecord[] = [];
+  const instances: ProviderInstanceRecord[] = [];
+  const adapters: ProviderAdapter[] = [];
+  for (const name of NAMES) {
+    providers.push({
+      schema: "afi.provider.v1",
+      providerId: `afi-provider-sentiment-${name}`,
+      recordVersion: "1.0.0",
+      displayName: `Sentiment ${name} (test)`,
+      supportedCategories: ["sentiment"],
+      executionClass: "remote",
+      deterministic: false,
+      adapterId: `afi-adapter-sentiment-${name}`,
+      requiresCredential: false,
+      status: "active",
+    });
+    instances.push({
+      schema: "afi.provider-instance.v1",
+      providerInstanceId: `pi-sentiment-${name}`,
+      recordVersion: "1.0.0",
+      tenant: "tenant-a",
+      category: "sentiment",
+      providerId: `afi-provider-sentiment-${name}`,
+      adapterId: `afi-adapter-sentiment-${name}`,
+      adapterVersion: "1.0.0",
+      status: "active",
+    });
+    adapters.push({
+      adapterId: `afi-adapter-sentiment-${name}`,
+      adapterVersion: "1.0.0",
+      category: "sentiment",
+      providerCompatibility: [`afi-provider-sentiment-${name}`],
+      requiresCredential: false,
+      transportKind: "http",
+      async run() {
+        calls.push(name);
+        const behavior = behaviors[name] ?? {};
+        if (behavior.fail) throw new Error("upstream 503");
+        return { category: "sentiment", axes: behavior.axes ?? [] };
+      },
+    });
+  }
+  const runtime = new ProviderRuntime({
+    adapters: createAdapterRegistry(adapters),
+    records: createProviderRecordStore({ providers, credentialRefs: [], providerInstances: instances }),
+    resolver: new NoCredentialsResolver(),
+    outputValidator: createCategoryOutputValidator(),
+    breaker,
+  });
+  return { runtime, calls };
+}
+
+async function select(runtime: ProviderRuntime, selection: ProviderSelection) {
+  const proofs: ProviderInvocationProofV1[] = [];
+  const selections: ProviderSelectionRecord[] = [];
+  const result = await invokeProviderSelection(runtime, refOf("alpha"), selection, {
+    signal: testSignal(),
+    logger: SILENT_NODE_LOGGER,
+    abort: new AbortController().signal,
+    onInvocationProof: (proof) => proofs.push(proof),
+    onProviderSelection: (record) => selections.push(record),
+  });
+  return { result, proofs, selections };
+}
+
+const POSITIONING = [{ axis: "positioning", score: 0.4, confidence: 0.8, horizon: "weekly" }];
+
+describe("first-success and fallback-on-degradation", () => {
+  it("falls through a failed candidate and records every attempt beside the proof", async () => {
+    const { runtime, calls } = buildRuntime({ alpha: { fail: true }, beta: { axes: POSITIONING } });
+    const { result, proofs, selections } = await select(runtime, {
+      policy: "first-success",
+      alternates: [refOf("beta"), refOf("gamma")],
+    });
+
+    expect(result).toEqual({ category: "sentiment", axes: POSITIONING });
+    expect(calls).toEqual(["alpha", "beta"]);
+    expect(proofs).toHaveLength(1);
+    expect(proofs[0].providerInstance.providerInstanceId).toBe("pi-sentiment-beta");
+    expect(proofs[0]).not.toHaveProperty("providerSelection");
+    expect(selections).toEqual([
+      {
+        policy: "first-success",
+        attempts: [
+          { ...refOf("alpha"), outcome: "failed", errorCode: "provider-invocation-failed" },
+          { ...refOf("beta"), outcome: "selected", providerResultHash: providerResultHash(result) },
+        ],
+      },
+    ]);
+  });
+
+  it("passes over an answer with no axes only under fallback-on-degradation", async () => {
+    const behaviors = { alpha: { axes: [] }, beta: { axes: POSITIONING } };
+
+    const firstSuccess = await select(buildRuntime(behaviors).runtime, {
+      policy: "first-success",
+      alternates: [refOf("beta")],
+    });
+    expect(firstSuccess.result).toEqual({ category: "sentiment", axes: [] });
+
+    const fallback = await select(buildRuntime(behaviors).runtime, {
+      policy: "fallback-on-degradation",
+      alternates: [refOf("beta")],
+    });
+    expect(fallback.result).toEqual({ category: "sentiment", axes: POSITIONING });
+    expect(fallback.selections[0].attempts.map((a) => a.outcome)).toEqual(["degraded", "selected"]);
+  });
+
+  it("keeps the first degraded answer when no candidate does better", async () => {
+    const { runtime } = buildRuntime({ alpha: { axes: [] }, beta: { fail: true } });
+    const { result, proofs, selections } = await select(runtime, {
+      policy: "fallback-on-degradation",
+      alternates: [refOf("beta")],
+    });
+    expect(result).toEqual({ category: "sentiment", axes: [] });
+    expect(proofs[0].providerInstance.providerInstanceId).toBe("pi-sentiment-alpha");
+    expect(selections[0].attempts.map((a) => a.outcome)).toEqual(["selected", "failed"]);
+  });
+});
+
+describe("quorum", () => {
+  it("combines the answering candidates' axes and commits the proof to the combined result", async () => {
+    const { runtime, calls } = buildRuntime({
+      alpha: { axes: [{ axis: "positioning", score: 0.2, confidence: 0.6, horizon: "weekly" }] },
+      beta: {
+        axes: [
+          { axis: "positioning", score: 0.6, horizon: "daily" },
+          { axis: "funding", score: -0.3, confidence: 0.5 },
+        ],
+      },
+      gamma: { fail: true },
+    });
+    const { result, proofs, selections } = await select(runtime, {
+      policy: "quorum",
+      alternates: [refOf("beta"), refOf("gamma")],
+    });
+
+    expect(calls.sort()).toEqual(["alpha", "beta", "gamma"]);
+    expect(result).toEqual({
+      category: "sentiment",
+      axes: [
+        { axis: "positioning", score: 0.4, confidence: 0.6 },
+        { axis: "funding", score: -0.3, confidence: 0.5 },
+      ],
+    });
+    const proof = proofs[0];
+    expect(proof.providerInstance.providerInstanceId).toBe("pi-sentiment-alpha");
+    expect(proof.categoryResultHash).toEqual(categoryResultHash(result));
+    expect(proof.providerResultHash).toEqual(providerResultHash(result));
+    expect(selections[0].attempts.map((a) => [a.providerInstanceId, a.outcome])).toEqual([
+      ["pi-sentiment-alpha", "contributed"],
+      ["pi-sentiment-beta", "contributed"],
+      ["pi-sentiment-gamma", "failed"],
+    ]);
+  });
+
+  it("fails when fewer candidates than the quorum answer with axes", async () => {
+    const { runtime } = buildRuntime({ alpha: { axes: POSITIONING }, beta: { axes: [] }, gamma: { fail: true } });
+    const err = await select(runtime, { policy: "quorum", alternates: [refOf("beta"), refOf("gamma")] }).then(
+      () => undefined,
+      (e: unknown) => e
+    );
+    expect(err).toBeInstanceOf(ProviderSelectionExhaustedError);
+    expect(err).toMatchObject({ code: "provider-selection-exhausted", allCircuitsOpen: false });
+    expect((err as Error).message).toContain("pi-sentiment-beta: degraded");
+  });
+
+  it("averages scores and keeps a horizon only when every observation agrees", () => {
+    expect(
+      combineSentimentAxes([
+        { category: "sentiment", axes: [{ axis: "longShort", score: 1, horizon: "daily" }] },
+        { category: "sentiment", axes: [{ axis: "longShort", score: 0, horizon: "daily" }] },
+        { category: "sentiment", axes: [{ axis: "longShort", score: 0, horizon: "daily" }] },
+      ])
+    ).toEqual({ category: "sentiment", axes: [{ axis: "longShort", score: 0.333333, horizon: "daily" }] });
+  });
+});
+
+describe("through the executor", () => {
+  const scorer: AnalysisNodePlugin = {
+    manifestRef: { pluginId: "afi-scorer-froggy-trend-pullback", pluginVersion: "1.0.0" },
+    async run() {
+      return ok({ scored: true });
+    },
+  };
+  const manifestWith = (selection: ProviderSelection, category: "sentiment" | "news" = "sentiment"): PipelineManifest => ({
+    schema: "afi.pipeline.v1",
+    pipelineId: "multi-provider-sentiment",
+    pipelineVersion: "v1.0.0",
+    entry: "sentiment",
+    nodes: [
+      {
+        id: "sentiment",
+        category,
+        pluginId: "afi-analysis-sentiment",
+        pluginVersion: "1.0.0",
+        providerInstanceRef: refOf("alpha"),
+        providerSelection: selection,
+        critical: false,
+        failurePolicy: "degrade",
+        maxRetries: 2,
+      },
+      { id: "scorer", category: "scorer", pluginId: "afi-scorer-froggy-trend-pullback", pluginVersion: "1.0.0" },
+    ],
+    edges: [{ from: "sentiment", to: "scorer", optional: true }],
+  });
+
+  it("degrades as provider-circuit-open without retrying when every candidate's circuit is open", async () => {
+    const breaker = new ProviderCircuitBreaker({ consecutiveFailures: 1, now: () => 0 });
+    const { runtime, calls } = buildRuntime({ alpha: { fail: true }, beta: { fail: true } }, breaker);
+    const selection: ProviderSelection = { policy: "first-success", alternates: [refOf("beta")] };
+    await select(runtime, selection).catch(() => undefined); // opens both circuits
+    expect(calls).toEqual(["alpha", "beta"]);
+
+    const node = createProviderBackedNode({ pluginId: "afi-analysis-sentiment", pluginVersion: "1.0.0" }, "sentiment", runtime);
+    const executor = new GraphExecutor({ registry: createPluginRegistry([node, scorer]), logger: SILENT_NODE_LOGGER });
+    const exec = await executor.execute({ manifest: manifestWith(selection), input: {}, signal: testSignal() });
+    const sentiment = exec.nodes.find((n) => n.nodeId === "sentiment")!;
+    expect(sentiment.status).toBe("failed-optional");
+    expect(sentiment.attempts).toBe(1);
+    expect(sentiment.degradations).toEqual([
+      { class: PROVIDER_CIRCUIT_OPEN_DEGRADATION, detail: expect.stringContaining("pi-sentiment-beta: provider-circuit-open") },
+    ]);
+    expect(calls).toEqual(["alpha", "beta"]);
+  });
+
+  it("keeps the selection record on the node's runtime record, out of the settled proof", async () => {
+    const { runtime } = buildRuntime({ alpha: { fail: true }, beta: { axes: POSITIONING } });
+    const node = createProviderBackedNode({ pluginId: "afi-analysis-sentiment", pluginVersion: "1.0.0" }, "sentiment", runtime);
+    const executor = new GraphExecutor({ registry: createPluginRegistry([node, scorer]), logger: SILENT_NODE_LOGGER });
+    const exec = await executor.execute({
+      manifest: manifestWith({ policy: "first-success", alternates: [refOf("beta")] }),
+      input: {},
+      signal: testSignal(),
+    });
+    const sentiment = exec.nodes.find((n) => n.nodeId === "sentiment")!;
+    expect(sentiment.status).toBe("executed");
+    expect(sentiment.providerSelection?.attempts.map((a) => [a.providerInstanceId, a.outcome])).toEqual([
+      ["pi-sentiment-alpha", "failed"],
+      ["pi-sentiment-beta", "selected"],
+    ]);
+    expect(exec.invocationProofs).toHaveLength(1);
+    expect(exec.invocationProofs[0]).not.toHaveProperty("providerSelection");
+  });
+
+  it("refuses inadmissible selections at graph validation", () => {
+    expect(validatePipelineGraph(manifestWith({ policy: "quorum", alternates: [refOf("beta")] }))).toEqual([]);
+    expect(validatePipelineGraph(manifestWith({ policy: "quorum", alternates: [refOf("beta")] }, "news"))).toEqual([
+      "node 'sentiment' providerSelection policy 'quorum' is admissible only on a sentiment node",
+    ]);
+    expect(validatePipelineGraph(manifestWith({ policy: "quorum", alternates: [refOf("beta")], quorum: 3 }))).toEqual([
+      "node 'sentiment' providerSelection quorum 3 exceeds its 2 candidates",
+    ]);
+    expect(validatePipelineGraph(manifestWith({ policy: "first-success", alternates: [refOf("alpha")] }))).toEqual([
+      "node 'sentiment' providerSelection repeats a provider instance",
+    ]);
+  });
+});
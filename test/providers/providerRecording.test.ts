@@ -0,0 +1,229 @@
+/**
+ * Provider record/playback — the deterministic lane-playback contract:
+ *  - RECORD passes the live result through untouched and stores it under the
+ *    invocation proof's own invocationInputHash;
+ *  - PLAYBACK serves that recording with ZERO transport calls, yielding the
+ *    same CategoryResult and the same invocation proof;
+ *  - an unrecorded invocation fails closed (RecordingNotFoundError), never live;
+ *  - recordings hold no secret material and round-trip through the file store.
+ */
+import { describe, it, expect, jest } from "@jest/globals";
+
+// Repo idiom (see providerAdapterLayer.test.ts): the adapter barrel touches the
+// price-feed registry; this suite never issues a ccxt request.
+jest.mock("ccxt", () => {
+  class UnusedExchange {}
+  return { __esModule: true, default: { blofin: UnusedExchange, coinbase: UnusedExchange } };
+});
+
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  ProviderRuntime,
+  createAdapterRegistry,
+  createCategoryOutputValidator,
+  createFileRecordingStore,
+  createHttpNewsAdapter,
+  createMemoryRecordingStore,
+  createProviderRecordStore,
+  createRecordedAdapterRegistry,
+  InMemorySecretResolver,
+  providerRecordingFromEnv,
+  RecordingNotFoundError,
+  type AdapterRegistry,
+  type ProviderAdapter,
+  type ProviderRecordingStore,
+} from "../../src/providers/index.js";
+import type { ProviderInvocationProofV1 } from "../../src/providers/invocationProof.js";
+import { SILENT_NODE_LOGGER } from "../../src/pipeline/nodeSdk.js";
+import { computeNewsFeatures } from "../../src/news/newsFeatures.js";
+import { NewsDataProvider } from "../../src/providers/clients/newsdataNewsProvider.js";
+import { testSignal } from "../pipeline/support/testHarness.js";
+
+const SECRET_MARKER = "zzAFI-RECORDING-SECRET-7c1d";
+const REF = { providerInstanceId: "pi-news-http-tenant-a", recordVersion: "1.0.0" };
+
+const records = createProviderRecordStore({
+  providers: [
+    {
+      schema: "afi.provider.v1",
+      providerId: "afi-provider-news-http",
+      recordVersion: "1.0.0",
+      displayName: "AFI HTTP News Provider (BYOK)",
+      supportedCategories: ["news"],
+      executionClass: "remote",
+      deterministic: false,
+      adapterId: "afi-adapter-news-http",
+      requiresCredential: true,
+      credentialKind: "apiKeyHeader",
+      status: "active",
+    },
+  ],
+  credentialRefs: [
+    {
+      schema: "afi.credential-ref.v1",
+      credentialRef: "newsdata-key-tenant-a",
+      recordVersion: "1.0.0",
+      tenant: "tenant-a",
+      providerId: "afi-provider-news-http",
+      credentialKind: "apiKeyHeader",
+      status: "active",
+    },
+  ],
+  providerInstances: [
+    {
+      schema: "afi.provider-instance.v1",
+      providerInstanceId: "pi-news-http-tenant-a",
+      recordVersion: "1.0.0",
+      tenant: "tenant-a",
+      category: "news",
+      providerId: "afi-provider-news-http",
+      adapterId: "afi-adapter-news-http",
+      adapterVersion: "1.0.0",
+      credentialRef: "newsdata-key-tenant-a",
+      status: "active",
+    },
+  ],
+});
+
+/** A news adapter over a fake transport that counts every request. */
+function newsAdapter(calls: string[]): ProviderAdapter {
+  const fetchImpl = (async (url: RequestInfo | URL) => {
+    calls.push(String(url));
+    return {
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      json: async () => ({
+        status: "success",
+        totalResults: 1,
+        results: [
+          {
+            article_id: "n1",
+            title: "BTC ETF inflows rise",
+            source_name: "CoinDesk",
+            link: "https://example.com/n1",
+            pubDate: "2026-01-01T00:00:00.000Z",
+          },
+        ],
+      }),
+    } as Response;
+  }) as typeof fetch;
+  return createHttpNewsAdapter({
+    createProvider: ({ apiKey, fetchImpl: f }) => new NewsDataProvider(apiKey, { fetchImpl: f }),
+    computeFeatures: computeNewsFeatures,
+    fetchImpl,
+  });
+}
+
+function runtime(adapters: AdapterRegistry): ProviderRuntime {
+  return new ProviderRuntime({
+    adapters,
+    records,
+    resolver: new InMemorySecretResolver([
+      { tenant: "tenant-a", credentialRef: "newsdata-key-tenant-a", value: SECRET_MARKER },
+    ]),
+    outputValidator: createCategoryOutputValidator(),
+  });
+}
+
+const signal = testSignal();
+
+async function invoke(rt: ProviderRuntime) {
+  const proofs: ProviderInvocationProofV1[] = [];
+  const result = await rt.invoke(REF, {
+    signal,
+    logger: SILENT_NODE_LOGGER,
+    abort: new AbortController().signal,
+    onInvocationProof: (proof) => proofs.push(proof),
+  });
+  return { result, proof: proofs[0] };
+}
+
+async function recordOnce(store: ProviderRecordingStore, calls: string[] = []) {
+  return invoke(runtime(createRecordedAdapterRegistry([newsAdapter(calls)], "record", store)));
+}
+
+describe("provider recording", () => {
+  it("records the live result under the invocation proof's input hash", async () => {
+    const store = createMemoryRecordingStore();
+    const calls: string[] = [];
+    const live = await invoke(runtime(createAdapterRegistry([newsAdapter([])])));
+    const recorded = await recordOnce(store, calls);
+
+    expect(calls).toHaveLength(1);
+    expect(recorded.result).toEqual(live.result);
+    expect(store.size()).toBe(1);
+    const recording = await store.get(recorded.proof.invocationInputHash.value);
+    expect(recording).toMatchObject({
+      schema: "afi.provider-recording.v0",
+      category: "news",
+      adapterId: "afi-adapter-news-http",
+      adapterVersion: "1.0.0",
+    });
+    expect(JSON.stringify(recording)).not.toContain(SECRET_MARKER);
+  });
+
+  it("playback serves the recording with no transport call and an identical proof", async () => {
+    const store = createMemoryRecordingStore();
+    const recorded = await recordOnce(store);
+
+    const calls: string[] = [];
+    const played = await invoke(runtime(createRecordedAdapterRegistry([newsAdapter(calls)], "playback", store)));
+    expect(calls).toHaveLength(0);
+    expect(played.result).toStrictEqual(recorded.result);
+    expect(played.proof).toStrictEqual(recorded.proof);
+  });
+
+  it("an unrecorded invocation fails closed", async () => {
+    const store = createMemoryRecordingStore();
+    await recordOnce(store);
+    const rt = runtime(createRecordedAdapterRegistry([newsAdapter([])], "playback", store));
+    await expect(
+      rt.invoke(REF, {
+        signal: { ...signal, facts: { ...signal.facts, symbol: "ETH/USDT" } },
+        logger: SILENT_NODE_LOGGER,
+        abort: new AbortController().signal,
+      })
+    ).rejects.toBeInstanceOf(RecordingNotFoundError);
+  });
+
+  it("round-trips through the directory store", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "afi-provider-recording-"));
+    try {
+      const recorded = await recordOnce(createFileRecordingStore(dir));
+      const files = readdirSync(dir);
+      expect(files).toEqual([`${recorded.proof.invocationInputHash.value}.json`]);
+      expect(readFileSync(path.join(dir, files[0]), "utf-8")).not.toContain(SECRET_MARKER);
+
+      const calls: string[] = [];
+      const played = await invoke(
+        runtime(createRecordedAdapterRegistry([newsAdapter(calls)], "playback", createFileRecordingStore(dir)))
+      );
+      expect(calls).toHaveLength(0);
+      expect(played.result).toStrictEqual(recorded.result);
+      await expect(createFileRecordingStore(dir).get("../escape")).rejects.toThrow(/not a sha256/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("reads the mode from the environment and refuses playback in production", () => {
+    const saved = { ...process.env };
+    try {
+      delete process.env.AFI_PROVIDER_RECORDING;
+      expect(providerRecordingFromEnv()).toBeUndefined();
+      process.env.AFI_PROVIDER_RECORDING = "playback";
+      expect(() => providerRecordingFromEnv()).toThrow(/AFI_PROVIDER_RECORDING_DIR/);
+      process.env.AFI_PROVIDER_RECORDING_DIR = tmpdir();
+      expect(providerRecordingFromEnv()?.mode).toBe("playback");
+      process.env.NODE_ENV = "production";
+      expect(() => providerRecordingFromEnv()).toThrow(/production/);
+      process.env.AFI_PROVIDER_RECORDING = "replay";
+      expect(() => providerRecordingFromEnv()).toThrow(/"record" or "playback"/);
+    } finally {
+      process.env = saved;
+    }
+  });
+});
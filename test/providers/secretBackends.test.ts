@@ -0,0 +1,196 @@
+/**
+ * Deployment secret backends — the SecretResolver contract, per backend:
+ *  - resolves exactly the (tenant, credentialRef) pair into an apiKeyHeader
+ *    bundle;
+ *  - serves a cached value within the TTL and picks up a rotated value after
+ *    it, without a new resolver;
+ *  - a missing secret, a backend refusal or an unaddressable reference fails
+ *    closed with a NON-REVEALING CredentialUnavailableError (no value, path,
+ *    URL or token in the message);
+ *  - the env selection refuses incomplete or malformed configuration.
+ */
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  FileMountSecretResolver,
+  HttpKvSecretResolver,
+  secretResolverFromEnv,
+} from "../../src/providers/secretBackends.js";
+import { CredentialUnavailableError } from "../../src/providers/errors.js";
+import type { CredentialSecret, SecretResolveRequest } from "../../src/providers/secretResolver.js";
+
+const SECRET_MARKER = "zzAFI-BACKEND-SECRET-7c1d";
+const VAULT_TOKEN = "zzVAULT-TOKEN-e90a";
+
+const request = (overrides: Partial<SecretResolveRequest> = {}): SecretResolveRequest => ({
+  tenant: "tenant-a",
+  providerInstanceId: "pi-news-http-tenant-a",
+  credentialRef: "newsdata-key-tenant-a",
+  credentialKind: "apiKeyHeader",
+  headerName: "X-ACCESS-KEY",
+  ...overrides,
+});
+
+function headerValueOf(secret: CredentialSecret): string {
+  if (secret.kind !== "apiKeyHeader") throw new Error(`expected an apiKeyHeader secret, got ${secret.kind}`);
+  return secret.headerValue;
+}
+
+async function failure(promise: Promise<unknown>): Promise<Error> {
+  const err = await promise.then(
+    () => undefined,
+    (e: unknown) => e
+  );
+  expect(err).toBeInstanceOf(CredentialUnavailableError);
+  return err as Error;
+}
+
+describe("FileMountSecretResolver", () => {
+  let root: string;
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), "afi-secrets-"));
+    mkdirSync(join(root, "tenant-a"));
+    writeFileSync(join(root, "tenant-a", "newsdata-key-tenant-a"), `${SECRET_MARKER}\n`);
+  });
+  afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+  it("resolves the mounted value, stripping the trailing newline", async () => {
+    const resolver = new FileMountSecretResolver({ root });
+    await expect(resolver.resolve(request())).resolves.toEqual({
+      kind: "apiKeyHeader",
+      headerName: "X-ACCESS-KEY",
+      headerValue: SECRET_MARKER,
+    });
+  });
+
+  it("serves the cache within the TTL and picks up a rotation after it", async () => {
+    let clock = 0;
+    const file = join(root, "tenant-a", "rotating-ref");
+    writeFileSync(file, "v1");
+    const resolver = new FileMountSecretResolver({ root, cacheTtlMs: 1_000, now: () => clock });
+    expect(headerValueOf(await resolver.resolve(request({ credentialRef: "rotating-ref" })))).toBe("v1");
+
+    writeFileSync(file, "v2");
+    clock = 999;
+    expect(headerValueOf(await resolver.resolve(request({ credentialRef: "rotating-ref" })))).toBe("v1");
+    clock = 1_000;
+    expect(headerValueOf(await resolver.resolve(request({ credentialRef: "rotating-ref" })))).toBe("v2");
+  });
+
+  it("fails closed without revealing the path for a missing or cross-tenant secret", async () => {
+    const resolver = new FileMountSecretResolver({ root });
+    for (const req of [request({ credentialRef: "absent-ref" }), request({ tenant: "tenant-b" })]) {
+      const err = await failure(resolver.resolve(req));
+      expect(err.message).toBe("credential unavailable for provider instance 'pi-news-http-tenant-a'");
+      expect(err.message).not.toContain(root);
+    }
+  });
+
+  it("refuses references that are not a single plain path segment", async () => {
+    const resolver = new FileMountSecretResolver({ root });
+    for (const req of [
+      request({ tenant: ".." }),
+      request({ credentialRef: "../tenant-a/newsdata-key-tenant-a" }),
+      request({ tenant: "tenant-a/newsdata-key-tenant-a", credentialRef: "." }),
+    ]) {
+      const err = await failure(resolver.resolve(req));
+      expect(err.message).toContain("unaddressable reference");
+    }
+  });
+});
+
+describe("HttpKvSecretResolver (local Vault-style stand-in)", () => {
+  const secrets = new Map<string, string>([["tenant-a/newsdata-key-tenant-a", SECRET_MARKER]]);
+  const seen: Array<{ url?: string; token?: string | string[]; namespace?: string | string[] }> = [];
+  let server: Server;
+  let address: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      seen.push({ url: req.url, token: req.headers["x-vault-token"], namespace: req.headers["x-vault-namespace"] });
+      const match = /^\/v1\/kv\/data\/(.+)$/.exec(req.url ?? "");
+      if (req.headers["x-vault-token"] !== VAULT_TOKEN) {
+        res.writeHead(403, { "Content-Type": "application/json" }).end(`{"errors":["permission denied ${req.url}"]}`);
+        return;
+      }
+      const value = match ? secrets.get(match[1]) : undefined;
+      if (value === undefined) {
+        res.writeHead(404, { "Content-Type": "application/json" }).end('{"errors":[]}');
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ data: { data: { value } } }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    address = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("reads data.data.value with the token in the header, never the URL", async () => {
+    seen.length = 0;
+    const resolver = new HttpKvSecretResolver({ address, token: VAULT_TOKEN, mount: "kv", namespace: "afi" });
+    const bundle = await resolver.resolve(request());
+    expect(headerValueOf(bundle)).toBe(SECRET_MARKER);
+    expect(seen).toEqual([{ url: "/v1/kv/data/tenant-a/newsdata-key-tenant-a", token: VAULT_TOKEN, namespace: "afi" }]);
+  });
+
+  it("coalesces concurrent misses and picks up a rotation after the TTL", async () => {
+    let clock = 0;
+    seen.length = 0;
+    secrets.set("tenant-a/rotating-ref", "v1");
+    const resolver = new HttpKvSecretResolver({ address, token: VAULT_TOKEN, mount: "kv", cacheTtlMs: 500, now: () => clock });
+    const req = request({ credentialRef: "rotating-ref" });
+    const [a, b] = await Promise.all([resolver.resolve(req), resolver.resolve(req)]);
+    expect([headerValueOf(a), headerValueOf(b)]).toEqual(["v1", "v1"]);
+    expect(seen).toHaveLength(1);
+
+    secrets.set("tenant-a/rotating-ref", "v2");
+    expect(headerValueOf(await resolver.resolve(req))).toBe("v1");
+    clock = 500;
+    expect(headerValueOf(await resolver.resolve(req))).toBe("v2");
+    expect(seen).toHaveLength(2);
+  });
+
+  it("fails closed without revealing the URL, token or body on refusal, absence or transport failure", async () => {
+    const cases = [
+      () => new HttpKvSecretResolver({ address, token: "wrong-token", mount: "kv" }).resolve(request()),
+      () =>
+        new HttpKvSecretResolver({ address, token: VAULT_TOKEN, mount: "kv" }).resolve(request({ credentialRef: "absent" })),
+      () => new HttpKvSecretResolver({ address, token: VAULT_TOKEN, mount: "kv", field: "other" }).resolve(request()),
+      () => new HttpKvSecretResolver({ address: "http://127.0.0.1:1", token: VAULT_TOKEN }).resolve(request()),
+    ];
+    for (const attempt of cases) {
+      const err = await failure(attempt());
+      expect(err.message).toBe("credential unavailable for provider instance 'pi-news-http-tenant-a'");
+      for (const leak of [address, "127.0.0.1", VAULT_TOKEN, "permission denied", SECRET_MARKER]) {
+        expect(err.message).not.toContain(leak);
+      }
+    }
+  });
+});
+
+describe("secretResolverFromEnv", () => {
+  it("selects nothing when unset and the configured backend otherwise", () => {
+    expect(secretResolverFromEnv({})).toBeUndefined();
+    expect(secretResolverFromEnv({ AFI_SECRET_BACKEND: "file", AFI_SECRET_FILE_ROOT: "/var/secrets" })).toBeInstanceOf(
+      FileMountSecretResolver
+    );
+    expect(
+      secretResolverFromEnv({ AFI_SECRET_BACKEND: "vault", AFI_VAULT_ADDR: "https://vault:8200", AFI_VAULT_TOKEN: "t" })
+    ).toBeInstanceOf(HttpKvSecretResolver);
+  });
+
+  it("refuses incomplete or malformed configuration at boot", () => {
+    expect(() => secretResolverFromEnv({ AFI_SECRET_BACKEND: "gcp" })).toThrow(/must be "file" or "vault"/);
+    expect(() => secretResolverFromEnv({ AFI_SECRET_BACKEND: "file" })).toThrow(/AFI_SECRET_FILE_ROOT/);
+    expect(() => secretResolverFromEnv({ AFI_SECRET_BACKEND: "vault", AFI_VAULT_ADDR: "https://v" })).toThrow(
+      /AFI_VAULT_TOKEN/
+    );
+    expect(() =>
+      secretResolverFromEnv({ AFI_SECRET_BACKEND: "file", AFI_SECRET_FILE_ROOT: "/s", AFI_SECRET_CACHE_TTL_MS: "-1" })
+    ).toThrow(/AFI_SECRET_CACHE_TTL_MS/);
+  });
+});
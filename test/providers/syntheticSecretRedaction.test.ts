@@ -394,7 +394,7 @@ describe("EV3-GOV 15.3 — adapter-error path", () => {
         // worst case: a hostile/buggy provider echoes the key into its payload
         return {
           category: "news",
-          news: `unauthorized key ${ctx.credential?.headerValue}`,
+          news: `unauthorized key ${ctx.credential?.kind === "apiKeyHeader" ? ctx.credential.headerValue : ""}`,
           newsFeatures: {},
         } as never;
       },
@@ -426,7 +426,9 @@ describe("EV3-GOV 15.3 — adapter-error path", () => {
       providerCompatibility: ["afi-provider-news-http"],
       requiresCredential: true,
       async run(ctx) {
-        return { category: `technical ${ctx.credential?.headerValue}` } as never;
+        return {
+          category: `technical ${ctx.credential?.kind === "apiKeyHeader" ? ctx.credential.headerValue : ""}`,
+        } as never;
       },
     };
     const rt = buildRuntime(spoofAdapter);